@@ -56,6 +56,19 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: "Stats",
+          tabBarIcon: ({ color, focused }) => (
+            <View
+              style={[styles.iconContainer, focused && styles.iconContainerActive]}
+            >
+              <MaterialCommunityIcons name="chart-bar" size={24} color={color} />
+            </View>
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -5,75 +5,186 @@
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { FlashList } from "@shopify/flash-list";
 import { useFocusEffect, useRouter } from "expo-router";
-import { useCallback, useState } from "react";
-import { RefreshControl, StyleSheet, View } from "react-native";
+import { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { ThemedText } from "@/components/themed-text";
-import { TripCard } from "@/components/trip";
-import { getAllTrips, initDatabase } from "@/database";
-import type { TripWithDuration } from "@/types";
+import { TripCard, TripFilterPanel } from "@/components/trip";
+import { HISTORY_CONFIG } from "@/constants/config";
+import { initDatabase } from "@/database";
+import { useTripHistory } from "@/hooks/useTripHistory";
+import {
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+} from "@/services/speed-calculator";
+import { mergeTrips, previewMerge } from "@/services/trip-edit";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { TripFilter, TripSort, TripWithDuration } from "@/types";
 
 export default function HistoryScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const [trips, setTrips] = useState<TripWithDuration[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { unit } = useSettingsStore();
+  const {
+    trips,
+    total,
+    filter,
+    setFilter,
+    sort,
+    setSort,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    reload,
+    refresh,
+    loadMore,
+  } = useTripHistory();
+  const [searchText, setSearchText] = useState("");
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  // Trips picked for a merge; long-press starts picking
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const isSelecting = selectedIds.length > 0;
 
-  const loadTrips = useCallback(async () => {
-    try {
-      const db = await initDatabase();
-      const allTrips = await getAllTrips(db);
-      setTrips(allTrips);
-    } catch (error) {
-      console.error("Error loading trips:", error);
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, []);
+  const activeFilterCount = countActiveFilters(filter);
+  const isFiltered = activeFilterCount > 0 || !!filter.search;
 
-  // Reload trips whenever the screen comes into focus
+  // Reload trips on focus, and again whenever the filter or sort changes
   useFocusEffect(
     useCallback(() => {
-      loadTrips();
-    }, [loadTrips])
+      reload();
+    }, [reload])
   );
 
-  const handleRefresh = () => {
-    setIsRefreshing(true);
-    loadTrips();
+  // Search once typing settles
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const search = searchText.trim() || undefined;
+      setFilter((current) =>
+        current.search === search ? current : { ...current, search }
+      );
+    }, HISTORY_CONFIG.searchDelay);
+    return () => clearTimeout(timeout);
+  }, [searchText, setFilter]);
+
+  const handleApplyFilter = (panelFilter: TripFilter, panelSort: TripSort) => {
+    setFilter((current) => ({ ...panelFilter, search: current.search }));
+    setSort(panelSort);
   };
 
-  const handleTripPress = (tripId: number) => {
-    router.push(`/trip/${tripId}`);
+  const toggleSelected = useCallback((tripId: number) => {
+    setSelectedIds((ids) =>
+      ids.includes(tripId)
+        ? ids.filter((id) => id !== tripId)
+        : [...ids, tripId]
+    );
+  }, []);
+
+  const handleTripPress = useCallback(
+    (tripId: number) => {
+      if (isSelecting) {
+        toggleSelected(tripId);
+      } else {
+        router.push(`/trip/${tripId}`);
+      }
+    },
+    [isSelecting, toggleSelected, router]
+  );
+
+  const handleMerge = async () => {
+    try {
+      const db = await initDatabase();
+      const preview = await previewMerge(db, selectedIds);
+      const speedUnit = unit === "kmh" ? "km/h" : "mph";
+      const summary = [
+        `Distance: ${formatDistance(preview.stats.totalDistance, unit)}`,
+        `Moving time: ${formatDuration(preview.stats.movingTime)}`,
+        `Moving avg: ${formatSpeed(preview.stats.movingAvgSpeed, unit)} ${speedUnit}`,
+        `Max speed: ${formatSpeed(preview.stats.maxSpeed, unit)} ${speedUnit}`,
+        "",
+        "Time between the trips counts as paused.",
+      ].join("\n");
+
+      Alert.alert(`Merge ${selectedIds.length} Trips`, summary, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Merge",
+          onPress: async () => {
+            try {
+              await mergeTrips(db, selectedIds);
+              setSelectedIds([]);
+              reload();
+            } catch (error) {
+              console.error("Error merging trips:", error);
+              Alert.alert("Merge Failed", "Unable to merge these trips. Please try again.");
+            }
+          },
+        },
+      ]);
+    } catch (error) {
+      // Selection problems (not adjacent, still active) come back as messages
+      console.error("Error previewing merge:", error);
+      Alert.alert(
+        "Can't Merge",
+        error instanceof Error ? error.message : "Unable to merge these trips."
+      );
+    }
   };
 
   const renderItem = useCallback(
     ({ item }: { item: TripWithDuration }) => (
-      <TripCard trip={item} onPress={() => handleTripPress(item.id)} />
+      <TripCard
+        trip={item}
+        onPress={() => handleTripPress(item.id)}
+        onLongPress={() => toggleSelected(item.id)}
+        isSelected={selectedIds.includes(item.id)}
+      />
     ),
-    []
+    [handleTripPress, toggleSelected, selectedIds]
   );
 
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <View style={styles.emptyIcon}>
-        <MaterialCommunityIcons name="map-marker-path" size={40} color="#22c55e" />
+        <MaterialCommunityIcons
+          name={isFiltered ? "filter-remove-outline" : "map-marker-path"}
+          size={40}
+          color="#22c55e"
+        />
       </View>
-      <ThemedText style={styles.emptyTitle}>No Trips Yet</ThemedText>
+      <ThemedText style={styles.emptyTitle}>
+        {isFiltered ? "No Matching Trips" : "No Trips Yet"}
+      </ThemedText>
       <ThemedText style={styles.emptyDescription}>
-        Start your first trip from the home screen to see your journey history
-        here.
+        {isFiltered
+          ? "Try a different search or loosen the filters."
+          : "Start your first trip from the home screen to see your journey history here."}
       </ThemedText>
     </View>
   );
 
+  const renderFooter = () =>
+    isLoadingMore ? (
+      <View style={styles.listFooter}>
+        <ActivityIndicator color="#22c55e" />
+      </View>
+    ) : null;
+
   const renderHeader = () => (
     <View style={styles.listHeader}>
       <ThemedText style={styles.listHeaderText}>
-        {trips.length} {trips.length === 1 ? "Trip" : "Trips"}
+        {isSelecting
+          ? `${selectedIds.length} selected · pick adjacent trips to merge`
+          : `${total} ${total === 1 ? "Trip" : "Trips"}${isFiltered ? " found" : ""}`}
       </ThemedText>
     </View>
   );
@@ -93,6 +204,55 @@ export default function HistoryScreen() {
       {/* Header */}
       <View style={styles.header}>
         <ThemedText style={styles.title}>Trip History</ThemedText>
+        {isSelecting && (
+          <View style={styles.headerActions}>
+            <Pressable style={styles.headerButton} onPress={() => setSelectedIds([])}>
+              <ThemedText style={styles.headerButtonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.headerButton,
+                styles.mergeButton,
+                selectedIds.length < 2 && styles.headerButtonDisabled,
+              ]}
+              onPress={handleMerge}
+              disabled={selectedIds.length < 2}
+            >
+              <ThemedText style={[styles.headerButtonText, styles.mergeButtonText]}>
+                Merge
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
+      </View>
+
+      {/* Search and filters */}
+      <View style={styles.searchRow}>
+        <View style={styles.searchBox}>
+          <MaterialCommunityIcons name="magnify" size={20} color="#71717a" />
+          <TextInput
+            style={styles.searchInput}
+            value={searchText}
+            onChangeText={setSearchText}
+            placeholder="Search title, notes or tags"
+            placeholderTextColor="#52525b"
+            autoCapitalize="none"
+            returnKeyType="search"
+          />
+          {searchText.length > 0 && (
+            <Pressable onPress={() => setSearchText("")} hitSlop={8}>
+              <MaterialCommunityIcons name="close-circle" size={18} color="#71717a" />
+            </Pressable>
+          )}
+        </View>
+        <Pressable style={styles.filterButton} onPress={() => setIsFilterOpen(true)}>
+          <MaterialCommunityIcons name="tune-variant" size={22} color="#fafafa" />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <ThemedText style={styles.filterBadgeText}>{activeFilterCount}</ThemedText>
+            </View>
+          )}
+        </Pressable>
       </View>
 
       {/* Trip list */}
@@ -102,23 +262,49 @@ export default function HistoryScreen() {
         <FlashList
           data={trips}
           renderItem={renderItem}
+          extraData={selectedIds}
           estimatedItemSize={120}
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.listContent}
           ListHeaderComponent={renderHeader}
+          ListFooterComponent={renderFooter}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
           refreshControl={
             <RefreshControl
               refreshing={isRefreshing}
-              onRefresh={handleRefresh}
+              onRefresh={refresh}
               tintColor="#22c55e"
             />
           }
         />
       )}
+
+      <TripFilterPanel
+        visible={isFilterOpen}
+        sort={sort}
+        onApply={handleApplyFilter}
+        onClose={() => setIsFilterOpen(false)}
+      />
     </View>
   );
 }
 
+/**
+ * Number of panel filters in use (search is shown separately)
+ */
+function countActiveFilters(filter: TripFilter): number {
+  const groups = [
+    [filter.startDate, filter.endDate],
+    [filter.minDistance, filter.maxDistance],
+    [filter.minDuration, filter.maxDuration],
+    [filter.minMaxSpeed, filter.maxMaxSpeed],
+    [filter.minAvgSpeed, filter.maxAvgSpeed],
+    [filter.statuses],
+  ];
+  return groups.filter((group) => group.some((value) => value !== undefined)).length;
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -129,9 +315,36 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
   header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  headerButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#27272a",
+  },
+  headerButtonDisabled: {
+    opacity: 0.5,
+  },
+  headerButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  mergeButton: {
+    backgroundColor: "#22c55e",
+  },
+  mergeButtonText: {
+    color: "#0f0f12",
+  },
   title: {
     fontSize: 28,
     fontWeight: "800",
@@ -140,6 +353,57 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#fafafa",
+  },
+  filterButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: "#18181b",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterBadge: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 3,
+    backgroundColor: "#22c55e",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterBadgeText: {
+    fontSize: 10,
+    lineHeight: 14,
+    fontWeight: "700",
+    color: "#0f0f12",
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
   listHeader: {
     paddingHorizontal: 16,
     paddingVertical: 8,
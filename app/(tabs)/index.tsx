@@ -2,16 +2,29 @@
  * Home Screen - Speedometer Dashboard
  */
 
+import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
+import { useNavigation, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
-import { StatusBar, StyleSheet, View } from 'react-native';
+import { Pressable, StatusBar, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { GpsStatusIndicator } from '@/components/GpsStatusIndicator';
 import { PermissionRequest } from '@/components/permissions';
-import { AnalogSpeedometer, DigitalSpeedometer, SpeedometerToggle } from '@/components/speedometer';
+import {
+  AnalogSpeedometer,
+  DigitalSpeedometer,
+  HudSpeedometer,
+  SpeedLimitBadge,
+  SpeedometerToggle,
+} from '@/components/speedometer';
 import { ThemedText } from '@/components/themed-text';
-import { StartStopButton, TripStats } from '@/components/trip';
+import {
+  LapButton,
+  StartStopButton,
+  TripRecoveryPrompt,
+  TripStats,
+} from '@/components/trip';
 
 import { initDatabase } from '@/database';
 import { useTracking } from '@/hooks/useTracking';
@@ -20,12 +33,17 @@ import {
   requestBackgroundPermission,
   requestForegroundPermission,
 } from '@/services/location';
+import { getSpeedAlertConfig } from '@/services/speed-alert';
 import { useSettingsStore } from '@/stores/settings-store';
 import type { PermissionStatus } from '@/types';
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
-  const { speedometerMode, keepScreenOn } = useSettingsStore();
+  const router = useRouter();
+  const navigation = useNavigation();
+  const settings = useSettingsStore();
+  const { speedometerMode, keepScreenOn } = settings;
+  const speedLimit = getSpeedAlertConfig(settings)?.limit ?? null;
 
   // Use the tracking hook
   const {
@@ -33,15 +51,22 @@ export default function HomeScreen() {
     isPaused,
     currentSpeed,
     totalDistance,
-    avgSpeed,
+    movingAvgSpeed,
     maxSpeed,
     elapsedTime,
+    movingTime,
+    pausedTime,
     gpsStatus,
     accuracy,
+    isOverspeed,
+    lapCount,
+    pendingRecovery,
     startTracking,
     stopTracking,
     pauseTracking,
     resumeTracking,
+    recordLap,
+    resolveRecovery,
   } = useTracking();
 
   // Permission and loading state
@@ -50,6 +75,7 @@ export default function HomeScreen() {
   const [backgroundPermission, setBackgroundPermission] = useState<PermissionStatus>('undetermined');
   const [isLoadingPermission, setIsLoadingPermission] = useState(false);
   const [dbInitialized, setDbInitialized] = useState(false);
+  const [isHudVisible, setIsHudVisible] = useState(false);
 
   // Initialize database and check permissions on mount
   useEffect(() => {
@@ -83,6 +109,19 @@ export default function HomeScreen() {
     };
   }, [keepScreenOn, isTracking, isPaused]);
 
+  // The HUD keeps the screen on regardless of the setting, and may turn sideways
+  useEffect(() => {
+    if (!isHudVisible) return;
+
+    activateKeepAwakeAsync('hud');
+    navigation.getParent()?.setOptions({ orientation: 'all' });
+
+    return () => {
+      deactivateKeepAwake('hud');
+      navigation.getParent()?.setOptions({ orientation: 'portrait' });
+    };
+  }, [isHudVisible, navigation]);
+
   // Request foreground permission
   const handleRequestForeground = async () => {
     setIsLoadingPermission(true);
@@ -143,19 +182,46 @@ export default function HomeScreen() {
       {/* Header */}
       <View style={styles.header}>
         <ThemedText style={styles.title}>GPS Speed Meter</ThemedText>
-        <GpsStatusIndicator
-          status={gpsStatus}
-          accuracy={accuracy}
-        />
+        <View style={styles.headerActions}>
+          <GpsStatusIndicator
+            status={gpsStatus}
+            accuracy={accuracy}
+          />
+          <Pressable
+            onPress={() => setIsHudVisible(true)}
+            hitSlop={8}
+            accessibilityLabel="Heads-up display"
+          >
+            <MaterialCommunityIcons name="car-windshield-outline" size={24} color="#a1a1aa" />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push('/performance')}
+            hitSlop={8}
+            accessibilityLabel="Performance timing"
+          >
+            <MaterialCommunityIcons name="timer-outline" size={24} color="#a1a1aa" />
+          </Pressable>
+        </View>
       </View>
 
       {/* Speedometer */}
       <View style={styles.speedometerContainer}>
         {speedometerMode === 'analog' ? (
-          <AnalogSpeedometer speed={currentSpeed} />
+          <AnalogSpeedometer
+            speed={currentSpeed}
+            speedLimit={speedLimit}
+            isOverspeed={isOverspeed}
+          />
         ) : (
-          <DigitalSpeedometer speed={currentSpeed} />
+          <DigitalSpeedometer
+            speed={currentSpeed}
+            speedLimit={speedLimit}
+            isOverspeed={isOverspeed}
+          />
         )}
+        <View style={styles.speedLimitBadge}>
+          <SpeedLimitBadge isOverspeed={isOverspeed} />
+        </View>
       </View>
 
       {/* Speedometer toggle */}
@@ -164,20 +230,40 @@ export default function HomeScreen() {
       {/* Trip stats */}
       <TripStats
         distance={totalDistance}
-        avgSpeed={avgSpeed}
+        avgSpeed={movingAvgSpeed}
         maxSpeed={maxSpeed}
-        duration={elapsedTime}
+        duration={movingTime}
+        elapsedTime={elapsedTime}
+        pausedTime={pausedTime}
       />
 
-      {/* Start/Stop button */}
-      <StartStopButton
-        isTracking={isTracking}
-        isPaused={isPaused}
-        onStart={handleStart}
-        onStop={handleStop}
-        onPause={pauseTracking}
-        onResume={resumeTracking}
-        disabled={!dbInitialized}
+      {/* Interrupted trip waiting for a recovery choice */}
+      {pendingRecovery && (
+        <TripRecoveryPrompt recovery={pendingRecovery} onChoose={resolveRecovery} />
+      )}
+
+      {/* Start/Stop button, with laps while tracking */}
+      <View style={styles.controls}>
+        <StartStopButton
+          isTracking={isTracking}
+          isPaused={isPaused}
+          onStart={handleStart}
+          onStop={handleStop}
+          onPause={pauseTracking}
+          onResume={resumeTracking}
+          disabled={!dbInitialized || !!pendingRecovery}
+        />
+        {isTracking && (
+          <LapButton lapCount={lapCount} onLap={recordLap} disabled={isPaused} />
+        )}
+      </View>
+
+      {/* Mirrored full-screen speed for the windshield */}
+      <HudSpeedometer
+        visible={isHudVisible}
+        speed={currentSpeed}
+        isOverspeed={isOverspeed}
+        onExit={() => setIsHudVisible(false)}
       />
     </View>
   );
@@ -199,6 +285,11 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingVertical: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   title: {
     fontSize: 20,
     fontWeight: '700',
@@ -208,6 +299,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginVertical: 8,
   },
+  speedLimitBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
   loadingText: {
     fontSize: 16,
     color: '#71717a',
@@ -3,25 +3,36 @@
  */
 
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import React from "react";
+import React, { useState } from "react";
 import {
   Alert,
   Pressable,
   ScrollView,
   StyleSheet,
   Switch,
+  TextInput,
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { ExportProgress } from "@/components/ExportProgress";
 import { ThemedText } from "@/components/themed-text";
+import { ActivityPicker } from "@/components/trip";
+import { SPEED_ALERT_CONFIG, VOICE_CONFIG } from "@/constants/config";
+import { initDatabase } from "@/database";
+import { useExport } from "@/hooks/useExport";
+import { describeRecomputeSummary, recomputeAllTrips } from "@/services/trip-recompute";
+import { speak } from "@/services/voice-callout";
 import { useSettingsStore } from "@/stores/settings-store";
-import type { SpeedUnit, SpeedometerMode } from "@/types";
+import type { SpeedUnit, SpeedometerMode, VoiceTrigger } from "@/types";
 import { exportTripsAsCSV, exportTripsAsJSON } from "@/utils/export";
+import { describeImportResult, pickAndImportTrips } from "@/utils/import";
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const settings = useSettingsStore();
+  const { progress: exportProgress, runExport, cancelExport } = useExport();
+  const [recomputeProgress, setRecomputeProgress] = useState<string | null>(null);
 
   const handleUnitChange = (unit: SpeedUnit) => {
     settings.setUnit(unit);
@@ -31,6 +42,10 @@ export default function SettingsScreen() {
     settings.setSpeedometerMode(mode);
   };
 
+  const unitLabel = settings.unit === "kmh" ? "km/h" : "mph";
+  const limitStep = SPEED_ALERT_CONFIG.limitStep[settings.unit];
+  const toleranceStep = SPEED_ALERT_CONFIG.toleranceStep[settings.unit];
+
   const handleExport = (format: "csv" | "json") => {
     Alert.alert("Export Trips", `Export all trips as ${format.toUpperCase()}?`, [
       { text: "Cancel", style: "cancel" },
@@ -38,12 +53,11 @@ export default function SettingsScreen() {
         text: "Export",
         onPress: async () => {
           try {
-            if (format === "csv") {
-              await exportTripsAsCSV();
-            } else {
-              await exportTripsAsJSON();
-            }
+            await runExport(
+              format === "csv" ? exportTripsAsCSV : exportTripsAsJSON
+            );
           } catch (error) {
+            console.error("Error exporting trips:", error);
             Alert.alert("Export Failed", "Unable to export trips. Please try again.");
           }
         },
@@ -51,6 +65,45 @@ export default function SettingsScreen() {
     ]);
   };
 
+  const handleImport = async () => {
+    try {
+      const result = await pickAndImportTrips();
+      if (!result) return; // picker closed without a file
+      Alert.alert("Import Complete", describeImportResult(result));
+    } catch (error) {
+      console.error("Error importing trips:", error);
+      Alert.alert("Import Failed", "Unable to import that file. Please try again.");
+    }
+  };
+
+  const handleRecomputeAll = () => {
+    Alert.alert(
+      "Recalculate All Trips",
+      "Rebuild distance, speeds and times of every completed trip from its recorded points?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Recalculate",
+          onPress: async () => {
+            setRecomputeProgress("Starting...");
+            try {
+              const db = await initDatabase();
+              const summary = await recomputeAllTrips(db, (completed, total) =>
+                setRecomputeProgress(`Trip ${completed} of ${total}`)
+              );
+              Alert.alert("Recalculation Complete", describeRecomputeSummary(summary));
+            } catch (error) {
+              console.error("Error recomputing trips:", error);
+              Alert.alert("Recalculation Failed", "Unable to recalculate trips. Please try again.");
+            } finally {
+              setRecomputeProgress(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleResetSettings = () => {
     Alert.alert(
       "Reset Settings",
@@ -88,6 +141,22 @@ export default function SettingsScreen() {
           </SettingsRow>
         </SettingsSection>
 
+        {/* Activity Section */}
+        <SettingsSection title="Activity" icon="run">
+          <View style={styles.activityContent}>
+            <ActivityPicker
+              value={settings.activityType}
+              onChange={settings.setActivityType}
+            />
+            <ThemedText style={styles.activityHint}>
+              New trips are recorded as this activity. The gauge goes up to{" "}
+              {settings.maxSpeedScale} and auto-pause triggers below{" "}
+              {settings.autoPauseThreshold}{" "}
+              {settings.unit === "kmh" ? "km/h" : "mph"}.
+            </ThemedText>
+          </View>
+        </SettingsSection>
+
         {/* Display Section */}
         <SettingsSection title="Display" icon="monitor">
           <SettingsRow label="Speedometer Style">
@@ -132,43 +201,254 @@ export default function SettingsScreen() {
           )}
         </SettingsSection>
 
+        {/* Speed Alerts Section */}
+        <SettingsSection title="Speed Alerts" icon="speedometer-slow">
+          <SettingsRow label="Alert Over Limit">
+            <Switch
+              value={settings.speedAlertEnabled}
+              onValueChange={settings.setSpeedAlertEnabled}
+              trackColor={{ false: "#3f3f46", true: "#22c55e" }}
+              thumbColor="#fff"
+            />
+          </SettingsRow>
+          {settings.speedAlertEnabled && (
+            <>
+              {settings.speedLimitProfiles.map((profile) => {
+                const isActive = profile.id === settings.activeSpeedLimitId;
+                return (
+                  <View key={profile.id} style={styles.row}>
+                    <Pressable
+                      style={styles.profileSelect}
+                      onPress={() => settings.setActiveSpeedLimit(profile.id)}
+                      hitSlop={8}
+                    >
+                      <MaterialCommunityIcons
+                        name={isActive ? "radiobox-marked" : "radiobox-blank"}
+                        size={20}
+                        color={isActive ? "#22c55e" : "#52525b"}
+                      />
+                    </Pressable>
+                    <TextInput
+                      style={styles.profileName}
+                      value={profile.name}
+                      onChangeText={(name) =>
+                        settings.updateSpeedLimitProfile(profile.id, { name })
+                      }
+                      maxLength={20}
+                      placeholder="Name"
+                      placeholderTextColor="#52525b"
+                    />
+                    <Stepper
+                      value={`${profile.limit} ${unitLabel}`}
+                      onDecrement={() =>
+                        settings.updateSpeedLimitProfile(profile.id, {
+                          limit: Math.max(profile.limit - limitStep, limitStep),
+                        })
+                      }
+                      onIncrement={() =>
+                        settings.updateSpeedLimitProfile(profile.id, {
+                          limit: profile.limit + limitStep,
+                        })
+                      }
+                    />
+                    {settings.speedLimitProfiles.length > 1 && (
+                      <Pressable
+                        style={styles.profileRemove}
+                        onPress={() => settings.removeSpeedLimitProfile(profile.id)}
+                        hitSlop={8}
+                      >
+                        <MaterialCommunityIcons name="close" size={18} color="#71717a" />
+                      </Pressable>
+                    )}
+                  </View>
+                );
+              })}
+              {settings.speedLimitProfiles.length < SPEED_ALERT_CONFIG.maxProfiles && (
+                <Pressable
+                  style={styles.exportButton}
+                  onPress={settings.addSpeedLimitProfile}
+                >
+                  <MaterialCommunityIcons name="plus" size={20} color="#22c55e" />
+                  <ThemedText style={styles.exportButtonTitle}>Add Limit</ThemedText>
+                </Pressable>
+              )}
+              <SettingsRow label="Tolerance">
+                <Stepper
+                  value={`+${settings.speedAlertTolerance} ${unitLabel}`}
+                  onDecrement={() =>
+                    settings.setSpeedAlertTolerance(
+                      Math.max(settings.speedAlertTolerance - toleranceStep, 0)
+                    )
+                  }
+                  onIncrement={() =>
+                    settings.setSpeedAlertTolerance(
+                      settings.speedAlertTolerance + toleranceStep
+                    )
+                  }
+                />
+              </SettingsRow>
+              <SettingsRow label="Alert After">
+                <SegmentedControl
+                  options={SPEED_ALERT_CONFIG.delayOptions.map((delay) => ({
+                    label: `${delay}s`,
+                    value: String(delay),
+                  }))}
+                  selectedValue={String(settings.speedAlertDelay)}
+                  onChange={(value) => settings.setSpeedAlertDelay(Number(value))}
+                />
+              </SettingsRow>
+            </>
+          )}
+        </SettingsSection>
+
+        {/* Voice Section */}
+        <SettingsSection title="Voice Callouts" icon="account-voice">
+          <SettingsRow label="Spoken Callouts">
+            <Switch
+              value={settings.voiceEnabled}
+              onValueChange={settings.setVoiceEnabled}
+              trackColor={{ false: "#3f3f46", true: "#22c55e" }}
+              thumbColor="#fff"
+            />
+          </SettingsRow>
+          {settings.voiceEnabled && (
+            <>
+              <SettingsRow label="Announce Every">
+                <SegmentedControl
+                  options={[
+                    { label: "Distance", value: "distance" },
+                    { label: "Time", value: "time" },
+                  ]}
+                  selectedValue={settings.voiceTrigger}
+                  onChange={(value) => settings.setVoiceTrigger(value as VoiceTrigger)}
+                />
+              </SettingsRow>
+              {settings.voiceTrigger === "distance" ? (
+                <SettingsRow label="Interval">
+                  <SegmentedControl
+                    options={VOICE_CONFIG.distanceOptions.map((interval) => ({
+                      label: `${interval} ${settings.unit === "kmh" ? "km" : "mi"}`,
+                      value: String(interval),
+                    }))}
+                    selectedValue={String(settings.voiceDistanceInterval)}
+                    onChange={(value) =>
+                      settings.setVoiceDistanceInterval(Number(value))
+                    }
+                  />
+                </SettingsRow>
+              ) : (
+                <SettingsRow label="Interval">
+                  <SegmentedControl
+                    options={VOICE_CONFIG.timeOptions.map((minutes) => ({
+                      label: `${minutes} min`,
+                      value: String(minutes),
+                    }))}
+                    selectedValue={String(settings.voiceTimeInterval)}
+                    onChange={(value) => settings.setVoiceTimeInterval(Number(value))}
+                  />
+                </SettingsRow>
+              )}
+              <SettingsRow label="Speak Speed Alerts">
+                <Switch
+                  value={settings.voiceSpeedAlerts}
+                  onValueChange={settings.setVoiceSpeedAlerts}
+                  trackColor={{ false: "#3f3f46", true: "#22c55e" }}
+                  thumbColor="#fff"
+                />
+              </SettingsRow>
+              <SettingsRow label="Speak Auto-Pause">
+                <Switch
+                  value={settings.voiceAutoPause}
+                  onValueChange={settings.setVoiceAutoPause}
+                  trackColor={{ false: "#3f3f46", true: "#22c55e" }}
+                  thumbColor="#fff"
+                />
+              </SettingsRow>
+              <Pressable
+                style={styles.exportButton}
+                onPress={() => speak("Voice callouts are on.")}
+              >
+                <MaterialCommunityIcons name="volume-high" size={20} color="#3b82f6" />
+                <ThemedText style={styles.exportButtonTitle}>Test Voice</ThemedText>
+              </Pressable>
+            </>
+          )}
+        </SettingsSection>
+
         {/* Export Section */}
         <SettingsSection title="Data Export" icon="database-export">
-          <Pressable style={styles.exportButton} onPress={() => handleExport("csv")}>
-            <MaterialCommunityIcons
-              name="file-delimited"
-              size={24}
-              color="#22c55e"
-            />
+          {exportProgress ? (
+            <ExportProgress progress={exportProgress} onCancel={cancelExport} />
+          ) : (
+            <>
+              <Pressable style={styles.exportButton} onPress={() => handleExport("csv")}>
+                <MaterialCommunityIcons
+                  name="file-delimited"
+                  size={24}
+                  color="#22c55e"
+                />
+                <View style={styles.exportButtonContent}>
+                  <ThemedText style={styles.exportButtonTitle}>
+                    Export as CSV
+                  </ThemedText>
+                  <ThemedText style={styles.exportButtonSubtitle}>
+                    Spreadsheet compatible format
+                  </ThemedText>
+                </View>
+                <MaterialCommunityIcons name="chevron-right" size={20} color="#52525b" />
+              </Pressable>
+              <Pressable
+                style={styles.exportButton}
+                onPress={() => handleExport("json")}
+              >
+                <MaterialCommunityIcons name="code-json" size={24} color="#3b82f6" />
+                <View style={styles.exportButtonContent}>
+                  <ThemedText style={styles.exportButtonTitle}>
+                    Export as JSON
+                  </ThemedText>
+                  <ThemedText style={styles.exportButtonSubtitle}>
+                    Developer friendly format
+                  </ThemedText>
+                </View>
+                <MaterialCommunityIcons name="chevron-right" size={20} color="#52525b" />
+              </Pressable>
+            </>
+          )}
+        </SettingsSection>
+
+        {/* Import Section */}
+        <SettingsSection title="Data Import" icon="database-import">
+          <Pressable style={styles.exportButton} onPress={handleImport}>
+            <MaterialCommunityIcons name="file-import" size={24} color="#f59e0b" />
             <View style={styles.exportButtonContent}>
               <ThemedText style={styles.exportButtonTitle}>
-                Export as CSV
+                Import Trips
               </ThemedText>
               <ThemedText style={styles.exportButtonSubtitle}>
-                Spreadsheet compatible format
+                GPX, KML, CSV or a JSON export from this app
               </ThemedText>
             </View>
             <MaterialCommunityIcons name="chevron-right" size={20} color="#52525b" />
           </Pressable>
+        </SettingsSection>
+
+        {/* Reset Section */}
+        <SettingsSection title="Advanced" icon="cog">
           <Pressable
             style={styles.exportButton}
-            onPress={() => handleExport("json")}
+            onPress={handleRecomputeAll}
+            disabled={recomputeProgress !== null}
           >
-            <MaterialCommunityIcons name="code-json" size={24} color="#3b82f6" />
+            <MaterialCommunityIcons name="calculator-variant" size={24} color="#3b82f6" />
             <View style={styles.exportButtonContent}>
               <ThemedText style={styles.exportButtonTitle}>
-                Export as JSON
+                Recalculate All Trips
               </ThemedText>
               <ThemedText style={styles.exportButtonSubtitle}>
-                Developer friendly format
+                {recomputeProgress ?? "Apply the current GPS filtering to past trips"}
               </ThemedText>
             </View>
-            <MaterialCommunityIcons name="chevron-right" size={20} color="#52525b" />
           </Pressable>
-        </SettingsSection>
-
-        {/* Reset Section */}
-        <SettingsSection title="Advanced" icon="cog">
           <Pressable style={styles.resetButton} onPress={handleResetSettings}>
             <MaterialCommunityIcons name="refresh" size={20} color="#ef4444" />
             <ThemedText style={styles.resetButtonText}>
@@ -269,6 +549,29 @@ function SegmentedControl({
   );
 }
 
+// Stepper Component
+function Stepper({
+  value,
+  onDecrement,
+  onIncrement,
+}: {
+  value: string;
+  onDecrement: () => void;
+  onIncrement: () => void;
+}) {
+  return (
+    <View style={styles.stepper}>
+      <Pressable style={styles.stepperButton} onPress={onDecrement} hitSlop={4}>
+        <MaterialCommunityIcons name="minus" size={16} color="#fafafa" />
+      </Pressable>
+      <ThemedText style={styles.stepperValue}>{value}</ThemedText>
+      <Pressable style={styles.stepperButton} onPress={onIncrement} hitSlop={4}>
+        <MaterialCommunityIcons name="plus" size={16} color="#fafafa" />
+      </Pressable>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -311,6 +614,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: "hidden",
   },
+  activityContent: {
+    padding: 16,
+    gap: 12,
+  },
+  activityHint: {
+    fontSize: 13,
+    color: "#71717a",
+    lineHeight: 18,
+  },
   row: {
     flexDirection: "row",
     alignItems: "center",
@@ -351,6 +663,41 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: "#a1a1aa",
   },
+  profileSelect: {
+    marginRight: 10,
+  },
+  profileName: {
+    flex: 1,
+    fontSize: 15,
+    color: "#fafafa",
+    paddingVertical: 0,
+    marginRight: 8,
+  },
+  profileRemove: {
+    marginLeft: 10,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#27272a",
+    borderRadius: 8,
+    padding: 2,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#3f3f46",
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: "center",
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
   exportButton: {
     flexDirection: "row",
     alignItems: "center",
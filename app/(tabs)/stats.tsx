@@ -0,0 +1,396 @@
+/**
+ * Stats Screen - Totals, records and streaks across all trips
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useCallback } from "react";
+import { Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ActivityBreakdown, PeriodChart } from "@/components/stats";
+import { ThemedText } from "@/components/themed-text";
+import { useStats } from "@/hooks/useStats";
+import {
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+} from "@/services/speed-calculator";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { StatsPeriod, Trip } from "@/types";
+
+const PERIODS: { value: StatsPeriod; label: string }[] = [
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "year", label: "Year" },
+];
+
+export default function StatsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { unit } = useSettingsStore();
+  const { period, setPeriod, data, isLoading, reload } = useStats();
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+
+  // Reload on focus, and again when the period changes
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  if (isLoading || !data) {
+    return (
+      <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
+        <ThemedText style={styles.loadingText}>Loading stats...</ThemedText>
+      </View>
+    );
+  }
+
+  if (data.totals.tripCount === 0) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Statistics</ThemedText>
+        </View>
+        <View style={styles.emptyContainer}>
+          <View style={styles.emptyIcon}>
+            <MaterialCommunityIcons name="chart-bar" size={40} color="#22c55e" />
+          </View>
+          <ThemedText style={styles.emptyTitle}>No Stats Yet</ThemedText>
+          <ThemedText style={styles.emptyDescription}>
+            Finish a trip to see your totals, records and streaks here.
+          </ThemedText>
+        </View>
+      </View>
+    );
+  }
+
+  const { records, streaks } = data;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <ThemedText style={styles.title}>Statistics</ThemedText>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Period totals */}
+        <View style={styles.segmented}>
+          {PERIODS.map((option) => (
+            <Pressable
+              key={option.value}
+              style={[styles.segment, period === option.value && styles.segmentActive]}
+              onPress={() => setPeriod(option.value)}
+            >
+              <ThemedText
+                style={[
+                  styles.segmentText,
+                  period === option.value && styles.segmentTextActive,
+                ]}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+        <PeriodChart
+          key={`${data.period}-${data.periods[data.periods.length - 1]?.period}`}
+          period={data.period}
+          periods={data.periods}
+        />
+
+        {/* All time */}
+        <ThemedText style={styles.sectionTitle}>All Time</ThemedText>
+        <View style={styles.tileRow}>
+          <Tile
+            icon="map-marker-distance"
+            color="#22c55e"
+            label="Distance"
+            value={formatDistance(data.totals.distance, unit)}
+          />
+          <Tile
+            icon="clock-outline"
+            color="#3b82f6"
+            label="Moving Time"
+            value={formatDuration(data.totals.movingTime)}
+          />
+          <Tile
+            icon="map-marker-path"
+            color="#f59e0b"
+            label="Trips"
+            value={data.totals.tripCount.toString()}
+          />
+        </View>
+
+        {/* Streaks */}
+        <ThemedText style={styles.sectionTitle}>Streaks</ThemedText>
+        <View style={styles.tileRow}>
+          <Tile
+            icon="fire"
+            color="#ef4444"
+            label="Current"
+            value={formatDays(streaks.current)}
+          />
+          <Tile
+            icon="trophy-outline"
+            color="#f59e0b"
+            label="Longest"
+            value={formatDays(streaks.longest)}
+          />
+        </View>
+
+        {/* Personal records */}
+        <ThemedText style={styles.sectionTitle}>Personal Records</ThemedText>
+        <View style={styles.card}>
+          <RecordRow
+            icon="map-marker-distance"
+            label="Longest Trip"
+            trip={records.longestTrip}
+            value={(trip) => formatDistance(trip.totalDistance, unit)}
+            onPress={(trip) => router.push(`/trip/${trip.id}`)}
+          />
+          <RecordRow
+            icon="rocket-launch"
+            label="Highest Max Speed"
+            trip={records.fastestTrip}
+            value={(trip) => `${formatSpeed(trip.maxSpeed, unit)} ${speedUnit}`}
+            onPress={(trip) => router.push(`/trip/${trip.id}`)}
+          />
+          <RecordRow
+            icon="chart-line"
+            label="Best Average"
+            trip={records.bestAverageTrip}
+            value={(trip) => `${formatSpeed(trip.movingAvgSpeed, unit)} ${speedUnit}`}
+            onPress={(trip) => router.push(`/trip/${trip.id}`)}
+            isLast
+          />
+        </View>
+
+        {/* Activity breakdown */}
+        <ThemedText style={styles.sectionTitle}>By Activity</ThemedText>
+        <ActivityBreakdown activities={data.activities} />
+      </ScrollView>
+    </View>
+  );
+}
+
+function Tile({
+  icon,
+  color,
+  label,
+  value,
+}: {
+  icon: string;
+  color: string;
+  label: string;
+  value: string;
+}) {
+  return (
+    <View style={styles.tile}>
+      <View style={styles.tileHeader}>
+        <MaterialCommunityIcons name={icon as any} size={16} color={color} />
+        <ThemedText style={styles.tileLabel}>{label}</ThemedText>
+      </View>
+      <ThemedText style={styles.tileValue}>{value}</ThemedText>
+    </View>
+  );
+}
+
+function RecordRow({
+  icon,
+  label,
+  trip,
+  value,
+  onPress,
+  isLast = false,
+}: {
+  icon: string;
+  label: string;
+  trip: Trip | null;
+  value: (trip: Trip) => string;
+  onPress: (trip: Trip) => void;
+  isLast?: boolean;
+}) {
+  return (
+    <Pressable
+      style={[styles.recordRow, isLast && styles.recordRowLast]}
+      onPress={() => trip && onPress(trip)}
+      disabled={!trip}
+    >
+      <MaterialCommunityIcons name={icon as any} size={20} color="#a1a1aa" />
+      <View style={styles.recordDetails}>
+        <ThemedText style={styles.recordLabel}>{label}</ThemedText>
+        <ThemedText style={styles.recordTrip} numberOfLines={1}>
+          {trip
+            ? trip.title ??
+              new Date(trip.startTime).toLocaleDateString([], {
+                month: "short",
+                day: "numeric",
+                year: "numeric",
+              })
+            : "No qualifying trip yet"}
+        </ThemedText>
+      </View>
+      {trip && (
+        <>
+          <ThemedText style={styles.recordValue}>{value(trip)}</ThemedText>
+          <MaterialCommunityIcons name="chevron-right" size={20} color="#52525b" />
+        </>
+      )}
+    </Pressable>
+  );
+}
+
+function formatDays(days: number): string {
+  return `${days} ${days === 1 ? "day" : "days"}`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#0f0f12",
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#71717a",
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "800",
+    color: "#fafafa",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+    gap: 12,
+  },
+  segmented: {
+    flexDirection: "row",
+    backgroundColor: "#18181b",
+    borderRadius: 10,
+    padding: 3,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  segmentActive: {
+    backgroundColor: "#3f3f46",
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#71717a",
+  },
+  segmentTextActive: {
+    color: "#fafafa",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#71717a",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 12,
+  },
+  tileRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  tile: {
+    flex: 1,
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    padding: 12,
+  },
+  tileHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 4,
+  },
+  tileLabel: {
+    fontSize: 12,
+    color: "#71717a",
+    fontWeight: "500",
+  },
+  tileValue: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#fafafa",
+  },
+  card: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    paddingHorizontal: 16,
+  },
+  recordRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#27272a",
+  },
+  recordRowLast: {
+    borderBottomWidth: 0,
+  },
+  recordDetails: {
+    flex: 1,
+  },
+  recordLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  recordTrip: {
+    fontSize: 12,
+    color: "#71717a",
+  },
+  recordValue: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#22c55e",
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 32,
+  },
+  emptyIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: "#18181b",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 20,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#fafafa",
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: "#71717a",
+    textAlign: "center",
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,17 @@
+/**
+ * Rewrite incoming system URLs before they reach the router
+ *
+ * Track files opened with or shared to the app arrive as file/content URLs;
+ * send those to the import screen.
+ */
+
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (/^(content|file):\/\//.test(path)) {
+      return `/import?uri=${encodeURIComponent(path)}`;
+    }
+    return path;
+  } catch {
+    return '/';
+  }
+}
@@ -7,6 +7,7 @@ import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
 // Import background task to register it at module level
@@ -44,31 +45,56 @@ export default function RootLayout() {
   }, []);
 
   return (
-    <ThemeProvider value={AppDarkTheme}>
-      <Stack
-        screenOptions={{
-          headerStyle: {
-            backgroundColor: '#0f0f12',
-          },
-          headerTintColor: '#fafafa',
-          headerTitleStyle: {
-            fontWeight: '600',
-          },
-          contentStyle: {
-            backgroundColor: '#0f0f12',
-          },
-        }}
-      >
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen
-          name="trip/[id]"
-          options={{
-            presentation: 'card',
-            title: 'Trip Details',
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={AppDarkTheme}>
+        <Stack
+          screenOptions={{
+            headerStyle: {
+              backgroundColor: '#0f0f12',
+            },
+            headerTintColor: '#fafafa',
+            headerTitleStyle: {
+              fontWeight: '600',
+            },
+            contentStyle: {
+              backgroundColor: '#0f0f12',
+            },
+            // The app is laid out for portrait; the home HUD unlocks rotation
+            orientation: 'portrait',
           }}
-        />
-      </Stack>
-      <StatusBar style="light" />
-    </ThemeProvider>
+        >
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen
+            name="trip/[id]"
+            options={{
+              presentation: 'card',
+              title: 'Trip Details',
+            }}
+          />
+          <Stack.Screen
+            name="replay/[id]"
+            options={{
+              presentation: 'card',
+              title: 'Replay',
+            }}
+          />
+          <Stack.Screen
+            name="import"
+            options={{
+              presentation: 'card',
+              title: 'Import Trips',
+            }}
+          />
+          <Stack.Screen
+            name="performance"
+            options={{
+              presentation: 'card',
+              title: 'Performance',
+            }}
+          />
+        </Stack>
+        <StatusBar style="light" />
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,115 @@
+/**
+ * Import Screen - imports a track file opened from another app
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { describeImportResult, importTripsFromUri, type ImportResult } from '@/utils/import';
+
+export default function ImportScreen() {
+  const { uri } = useLocalSearchParams<{ uri: string }>();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const runImport = async () => {
+      try {
+        setResult(await importTripsFromUri(uri));
+      } catch (importError) {
+        console.error('Error importing file:', importError);
+        setError('Unable to read this file. Please try again.');
+      }
+    };
+
+    if (uri) {
+      runImport();
+    }
+  }, [uri]);
+
+  const isDone = result !== null || error !== null;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Import Trips' }} />
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      >
+        {!isDone && (
+          <View style={styles.centered}>
+            <ActivityIndicator color="#22c55e" />
+            <ThemedText style={styles.statusText}>Importing...</ThemedText>
+          </View>
+        )}
+
+        {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+
+        {result && (
+          <View style={styles.card}>
+            <ThemedText style={styles.resultText}>{describeImportResult(result)}</ThemedText>
+          </View>
+        )}
+
+        {isDone && (
+          <Pressable style={styles.button} onPress={() => router.replace('/history')}>
+            <ThemedText style={styles.buttonText}>View History</ThemedText>
+          </Pressable>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f12',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 48,
+  },
+  statusText: {
+    fontSize: 16,
+    color: '#71717a',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginTop: 48,
+  },
+  card: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 16,
+  },
+  resultText: {
+    fontSize: 15,
+    color: '#fafafa',
+    lineHeight: 22,
+  },
+  button: {
+    marginTop: 24,
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
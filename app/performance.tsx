@@ -0,0 +1,565 @@
+/**
+ * Performance Screen - acceleration timing and braking tests
+ */
+
+import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
+import { Stack } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { BrakingTestCard, RunResults, RunWarnings } from '@/components/performance';
+import { ThemedText } from '@/components/themed-text';
+import { BRAKING_CONFIG, PERFORMANCE_TARGETS } from '@/constants/config';
+import { useBrakingTest } from '@/hooks/useBrakingTest';
+import { usePerformanceTimer } from '@/hooks/usePerformanceTimer';
+import { normalizeStoppingDistance } from '@/services/braking-test';
+import { getFixRate, getPerformanceWarnings } from '@/services/performance-timer';
+import { formatDistance, formatSpeed } from '@/services/speed-calculator';
+import { useSettingsStore } from '@/stores/settings-store';
+import type { BrakingTest, PerformanceRun } from '@/types';
+
+type PerformanceMode = 'acceleration' | 'braking';
+
+export default function PerformanceScreen() {
+  const insets = useSafeAreaInsets();
+  const {
+    unit,
+    performanceTargets,
+    togglePerformanceTarget,
+    brakingTargetSpeed,
+    setBrakingTargetSpeed,
+    brakingLabel,
+    setBrakingLabel,
+  } = useSettingsStore();
+  const [mode, setMode] = useState<PerformanceMode>('acceleration');
+  const {
+    isWatching,
+    sample,
+    timer,
+    lastRun,
+    runs,
+    bestResults,
+    arm,
+    cancel,
+    deleteRun,
+    reload,
+  } = usePerformanceTimer();
+  const braking = useBrakingTest();
+  const reloadBraking = braking.reload;
+
+  const speedUnit = unit === 'kmh' ? 'km/h' : 'mph';
+  const bestTimes = Object.fromEntries(
+    bestResults.map((result) => [result.targetId, result.time])
+  );
+  const fixRate = timer ? getFixRate(timer) : null;
+  const bestStopIds = getBestStopIds(braking.results);
+  const isActive = timer !== null || braking.test !== null;
+  const isArmed =
+    mode === 'acceleration' ? timer?.phase === 'armed' : braking.test?.phase === 'armed';
+
+  useEffect(() => {
+    reload();
+    reloadBraking();
+  }, [reload, reloadBraking]);
+
+  // Keep the screen on from arming until the run or test ends
+  useEffect(() => {
+    if (isActive) {
+      activateKeepAwakeAsync('performance');
+    } else {
+      deactivateKeepAwake('performance');
+    }
+
+    return () => {
+      deactivateKeepAwake('performance');
+    };
+  }, [isActive]);
+
+  // Confirm before deleting a saved run
+  const handleDelete = (run: PerformanceRun) => {
+    if (run.id === undefined) return;
+    const runId = run.id;
+
+    Alert.alert('Delete Run', 'Are you sure you want to delete this run?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteRun(runId);
+          } catch {
+            Alert.alert('Error', 'Failed to delete run. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Confirm before deleting a saved braking test
+  const handleDeleteTest = (test: BrakingTest) => {
+    if (test.id === undefined) return;
+    const testId = test.id;
+
+    Alert.alert('Delete Test', 'Are you sure you want to delete this braking test?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await braking.deleteResult(testId);
+          } catch {
+            Alert.alert('Error', 'Failed to delete test. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  // What the driver should do next
+  const getStatusText = () => {
+    if (!isWatching) return 'Waiting for GPS...';
+    if (mode === 'braking') return getBrakingStatusText();
+    switch (timer?.phase) {
+      case 'waiting':
+        return 'Come to a complete stop';
+      case 'armed':
+        return 'Armed - launch when ready';
+      case 'running': {
+        const elapsed = (timer.lastSample!.timestamp - timer.launchTime!) / 1000;
+        return `${elapsed.toFixed(1)} s · ${formatDistance(timer.distance, unit)}`;
+      }
+      default:
+        return 'Choose targets and arm a run';
+    }
+  };
+
+  const getBrakingStatusText = () => {
+    if (braking.isMeasuring) return 'Measuring the stop...';
+    switch (braking.test?.phase) {
+      case 'waiting':
+        return `Reach ${brakingTargetSpeed} ${speedUnit}`;
+      case 'armed':
+        return 'Brake hard to a full stop';
+      case 'braking':
+        return 'Braking...';
+      default:
+        if (!braking.canArm) return 'Start a trip on the Speed tab first';
+        return braking.measureFailed
+          ? 'No stop found in the recorded points'
+          : 'Choose a target speed and arm';
+    }
+  };
+
+  const formatRunDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Performance' }} />
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      >
+        {/* Acceleration or braking */}
+        <View style={styles.modeToggle}>
+          {(['acceleration', 'braking'] as const).map((option) => (
+            <Pressable
+              key={option}
+              style={[styles.modeOption, mode === option && styles.modeOptionSelected]}
+              onPress={() => setMode(option)}
+              disabled={isActive}
+            >
+              <ThemedText
+                style={[styles.modeText, mode === option && styles.modeTextSelected]}
+              >
+                {option === 'acceleration' ? 'Acceleration' : 'Braking'}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        {/* Live speed and run state */}
+        <View style={[styles.liveCard, isArmed && styles.liveCardArmed]}>
+          <ThemedText style={styles.liveSpeed}>
+            {formatSpeed(sample?.speed ?? 0, unit)}
+          </ThemedText>
+          <ThemedText style={styles.liveUnit}>{speedUnit}</ThemedText>
+          <ThemedText style={[styles.status, isArmed && styles.statusArmed]}>
+            {getStatusText()}
+          </ThemedText>
+          <ThemedText style={styles.quality}>
+            {fixRate !== null ? `${fixRate.toFixed(1)} Hz · ` : ''}
+            {sample?.accuracy != null ? `±${Math.round(sample.accuracy)} m` : 'No fix'}
+          </ThemedText>
+          {timer && <RunWarnings warnings={getPerformanceWarnings(timer)} />}
+        </View>
+
+        {mode === 'acceleration' ? (
+          <>
+            {timer ? (
+              <Pressable style={[styles.button, styles.cancelButton]} onPress={cancel}>
+                <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+              </Pressable>
+            ) : (
+              <Pressable
+                style={[
+                  styles.button,
+                  (!isWatching || performanceTargets.length === 0) && styles.buttonDisabled,
+                ]}
+                onPress={arm}
+                disabled={!isWatching || performanceTargets.length === 0}
+              >
+                <ThemedText style={styles.buttonText}>Arm</ThemedText>
+              </Pressable>
+            )}
+
+            {/* Targets timed on each run */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Targets</ThemedText>
+              <View style={styles.chips}>
+                {PERFORMANCE_TARGETS.map((target) => {
+                  const isSelected = performanceTargets.includes(target.id);
+                  return (
+                    <Pressable
+                      key={target.id}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => togglePerformanceTarget(target.id)}
+                      disabled={!!timer}
+                    >
+                      <ThemedText
+                        style={[styles.chipText, isSelected && styles.chipTextSelected]}
+                      >
+                        {target.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            {lastRun && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Last Run</ThemedText>
+                <RunResults results={lastRun.results} unit={unit} bestTimes={bestTimes} />
+                <View style={styles.runWarnings}>
+                  <RunWarnings warnings={lastRun.warnings} />
+                </View>
+              </View>
+            )}
+
+            {bestResults.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Best Times</ThemedText>
+                <RunResults results={bestResults} unit={unit} />
+              </View>
+            )}
+
+            {runs.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>History</ThemedText>
+                {runs.map((run) => (
+                  <Pressable
+                    key={run.id}
+                    style={styles.run}
+                    onLongPress={() => handleDelete(run)}
+                  >
+                    <View style={styles.runHeader}>
+                      <ThemedText style={styles.runDate}>{formatRunDate(run.startTime)}</ThemedText>
+                      <ThemedText style={styles.runMeta}>
+                        Peak {formatSpeed(run.peakSpeed, unit)} {speedUnit} ·{' '}
+                        {run.fixRate.toFixed(1)} Hz
+                      </ThemedText>
+                    </View>
+                    <RunResults results={run.results} unit={unit} bestTimes={bestTimes} />
+                    <View style={styles.runWarnings}>
+                      <RunWarnings warnings={run.warnings} />
+                    </View>
+                  </Pressable>
+                ))}
+                <ThemedText style={styles.hint}>Long-press a run to delete it</ThemedText>
+              </View>
+            )}
+          </>
+        ) : (
+          <>
+            {braking.test ? (
+              <Pressable
+                style={[styles.button, styles.cancelButton]}
+                onPress={braking.cancel}
+              >
+                <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+              </Pressable>
+            ) : (
+              <Pressable
+                style={[
+                  styles.button,
+                  (!braking.canArm || braking.isMeasuring) && styles.buttonDisabled,
+                ]}
+                onPress={braking.arm}
+                disabled={!braking.canArm || braking.isMeasuring}
+              >
+                <ThemedText style={styles.buttonText}>Arm</ThemedText>
+              </Pressable>
+            )}
+
+            {/* Speed braked from, and what is being tested */}
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Target Speed</ThemedText>
+              <View style={styles.chips}>
+                {BRAKING_CONFIG.targetSpeeds[unit].map((speed) => {
+                  const isSelected = brakingTargetSpeed === speed;
+                  return (
+                    <Pressable
+                      key={speed}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => setBrakingTargetSpeed(speed)}
+                      disabled={!!braking.test}
+                    >
+                      <ThemedText
+                        style={[styles.chipText, isSelected && styles.chipTextSelected]}
+                      >
+                        {speed} {speedUnit}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={styles.input}
+                value={brakingLabel}
+                onChangeText={setBrakingLabel}
+                placeholder="Setup, e.g. winter tires"
+                placeholderTextColor="#52525b"
+                editable={!braking.test}
+              />
+            </View>
+
+            {braking.lastResult && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Last Test</ThemedText>
+                <BrakingTestCard
+                  test={braking.lastResult}
+                  unit={unit}
+                  isBest={bestStopIds.has(braking.lastResult.id ?? -1)}
+                />
+              </View>
+            )}
+
+            {braking.results.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>History</ThemedText>
+                {braking.results.map((test) => (
+                  <Pressable
+                    key={test.id}
+                    style={styles.run}
+                    onLongPress={() => handleDeleteTest(test)}
+                  >
+                    <ThemedText style={[styles.runDate, styles.runDateSpaced]}>
+                      {formatRunDate(test.startTime)}
+                    </ThemedText>
+                    <BrakingTestCard
+                      test={test}
+                      unit={unit}
+                      isBest={bestStopIds.has(test.id ?? -1)}
+                    />
+                  </Pressable>
+                ))}
+                <ThemedText style={styles.hint}>
+                  Distances are scaled to the target speed so tests compare fairly.
+                  Long-press a test to delete it
+                </ThemedText>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * Shortest stop (scaled to its target speed) for each target speed
+ */
+function getBestStopIds(tests: BrakingTest[]): Set<number> {
+  const best = new Map<number, BrakingTest>();
+  for (const test of tests) {
+    const key = Math.round(test.targetSpeed);
+    const current = best.get(key);
+    if (!current || normalizeStoppingDistance(test) < normalizeStoppingDistance(current)) {
+      best.set(key, test);
+    }
+  }
+  return new Set([...best.values()].map((test) => test.id ?? -1));
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f12',
+  },
+  content: {
+    padding: 16,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#18181b',
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 16,
+  },
+  modeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modeOptionSelected: {
+    backgroundColor: '#3f3f46',
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#71717a',
+  },
+  modeTextSelected: {
+    color: '#fafafa',
+  },
+  liveCard: {
+    backgroundColor: '#18181b',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#27272a',
+    padding: 20,
+    alignItems: 'center',
+    gap: 4,
+  },
+  liveCardArmed: {
+    borderColor: '#22c55e',
+  },
+  liveSpeed: {
+    fontSize: 72,
+    lineHeight: 80,
+    fontWeight: '800',
+    color: '#fafafa',
+    fontVariant: ['tabular-nums'],
+  },
+  liveUnit: {
+    fontSize: 16,
+    color: '#71717a',
+  },
+  status: {
+    marginTop: 12,
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#fafafa',
+  },
+  statusArmed: {
+    color: '#22c55e',
+  },
+  quality: {
+    fontSize: 13,
+    color: '#71717a',
+    marginBottom: 4,
+  },
+  button: {
+    marginTop: 16,
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#3f3f46',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#71717a',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#18181b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  chipSelected: {
+    backgroundColor: '#22c55e20',
+    borderColor: '#22c55e',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#a1a1aa',
+  },
+  chipTextSelected: {
+    color: '#22c55e',
+    fontWeight: '600',
+  },
+  input: {
+    marginTop: 12,
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#fafafa',
+  },
+  run: {
+    marginBottom: 16,
+  },
+  runHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  runDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fafafa',
+  },
+  runDateSpaced: {
+    marginBottom: 8,
+  },
+  runMeta: {
+    fontSize: 13,
+    color: '#71717a',
+  },
+  runWarnings: {
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#52525b',
+    textAlign: 'center',
+  },
+});
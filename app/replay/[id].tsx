@@ -0,0 +1,128 @@
+/**
+ * Trip Replay Screen - plays a recorded trip through the speedometer
+ */
+
+import React from 'react';
+import { View, StyleSheet, ScrollView, Pressable } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { AnalogSpeedometer, DigitalSpeedometer, SpeedometerToggle } from '@/components/speedometer';
+import { ThemedText } from '@/components/themed-text';
+import { ReplayControls, TripStats } from '@/components/trip';
+import { useReplay } from '@/hooks/useReplay';
+import { useSettingsStore } from '@/stores/settings-store';
+
+export default function TripReplayScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { speedometerMode } = useSettingsStore();
+
+  const replay = useReplay(parseInt(id, 10));
+
+  if (replay.isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ title: 'Loading...' }} />
+        <ThemedText style={styles.loadingText}>Loading trip...</ThemedText>
+      </View>
+    );
+  }
+
+  if (!replay.trip || replay.points.length < 2) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ title: 'Replay' }} />
+        <ThemedText style={styles.errorText}>
+          {replay.trip ? 'Not enough GPS points to replay' : 'Trip not found'}
+        </ThemedText>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <ThemedText style={styles.backButtonText}>Go Back</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: `Replay Trip ${replay.trip.id}` }} />
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Speedometer */}
+        <View style={styles.speedometerContainer}>
+          {speedometerMode === 'analog' ? (
+            <AnalogSpeedometer speed={replay.currentSpeed} />
+          ) : (
+            <DigitalSpeedometer speed={replay.currentSpeed} />
+          )}
+        </View>
+
+        <SpeedometerToggle />
+
+        <TripStats
+          distance={replay.totalDistance}
+          avgSpeed={replay.movingAvgSpeed}
+          maxSpeed={replay.maxSpeed}
+          duration={replay.movingTime}
+          elapsedTime={replay.elapsedTime}
+          pausedTime={replay.pausedTime}
+        />
+
+        <ReplayControls
+          position={replay.position}
+          startTime={replay.startTime}
+          endTime={replay.endTime}
+          isPlaying={replay.isPlaying}
+          isPaused={replay.isPaused}
+          rate={replay.rate}
+          onPlay={replay.play}
+          onPause={replay.pause}
+          onSeek={replay.seek}
+          onRateChange={replay.setRate}
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f12',
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#71717a',
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  backButton: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  backButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  speedometerContainer: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+});
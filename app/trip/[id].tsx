@@ -2,51 +2,95 @@
  * Trip Detail Screen
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, Pressable, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { ExportProgress } from '@/components/ExportProgress';
 import { ThemedText } from '@/components/themed-text';
-import { TripStats } from '@/components/trip';
+import {
+  RouteMap,
+  SplitTable,
+  TripCharts,
+  TripDetailsForm,
+  TripEditor,
+  TripStats,
+} from '@/components/trip';
+import { ACTIVITY_PROFILES } from '@/constants/config';
+import { useExport } from '@/hooks/useExport';
 import { useSettingsStore } from '@/stores/settings-store';
-import { initDatabase, getTripById, getLocationPointsForTrip, deleteTrip } from '@/database';
+import {
+  initDatabase,
+  getTripById,
+  getLocationPointsForTrip,
+  getRejectedPointCount,
+  getPauseIntervalsForTrip,
+  getOverspeedEventsForTrip,
+  getSplitsForTrip,
+  deleteTrip,
+  updateTripDetails,
+} from '@/database';
 import { formatSpeed, formatDistance, formatDuration } from '@/services/speed-calculator';
+import { splitTrip, trimTrip } from '@/services/trip-edit';
+import { describeStatChanges, recomputeTrip } from '@/services/trip-recompute';
 import { exportTripAsJSON, exportTripAsGPX } from '@/utils/export';
-import type { Trip, LocationPoint } from '@/types';
+import type {
+  Trip,
+  TripDetails,
+  LocationPoint,
+  OverspeedEvent,
+  PauseInterval,
+  TripSplit,
+} from '@/types';
 
 export default function TripDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { unit } = useSettingsStore();
+  const { progress: exportProgress, runExport, cancelExport } = useExport();
   
   const [trip, setTrip] = useState<Trip | null>(null);
   const [points, setPoints] = useState<LocationPoint[]>([]);
+  const [pauseIntervals, setPauseIntervals] = useState<PauseInterval[]>([]);
+  const [overspeedEvents, setOverspeedEvents] = useState<OverspeedEvent[]>([]);
+  const [splits, setSplits] = useState<TripSplit[]>([]);
+  const [rejectedCount, setRejectedCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
 
   const tripId = parseInt(id, 10);
 
-  useEffect(() => {
-    const loadTrip = async () => {
-      try {
-        const db = await initDatabase();
-        const tripData = await getTripById(db, tripId);
-        const locationPoints = await getLocationPointsForTrip(db, tripId);
-        
-        setTrip(tripData);
-        setPoints(locationPoints);
-      } catch (error) {
-        console.error('Error loading trip:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const loadTrip = useCallback(async () => {
+    try {
+      const db = await initDatabase();
+      const tripData = await getTripById(db, tripId);
+      const locationPoints = await getLocationPointsForTrip(db, tripId);
+      const rejected = await getRejectedPointCount(db, tripId);
+      const pauses = await getPauseIntervalsForTrip(db, tripId);
+      const overspeeds = await getOverspeedEventsForTrip(db, tripId);
+      const tripSplits = await getSplitsForTrip(db, tripId);
 
+      setTrip(tripData);
+      setPoints(locationPoints);
+      setPauseIntervals(pauses);
+      setOverspeedEvents(overspeeds);
+      setSplits(tripSplits);
+      setRejectedCount(rejected);
+    } catch (error) {
+      console.error('Error loading trip:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tripId]);
+
+  useEffect(() => {
     if (tripId) {
       loadTrip();
     }
-  }, [tripId]);
+  }, [tripId, loadTrip]);
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString([], {
@@ -66,20 +110,77 @@ export default function TripDetailScreen() {
 
   const handleExportJSON = async () => {
     try {
-      await exportTripAsJSON(tripId);
+      await runExport((options) => exportTripAsJSON(tripId, options));
     } catch (error) {
+      console.error('Error exporting trip:', error);
       Alert.alert('Export Failed', 'Unable to export trip. Please try again.');
     }
   };
 
   const handleExportGPX = async () => {
     try {
-      await exportTripAsGPX(tripId);
+      await runExport((options) => exportTripAsGPX(tripId, options));
     } catch (error) {
+      console.error('Error exporting trip:', error);
       Alert.alert('Export Failed', 'Unable to export trip. Please try again.');
     }
   };
 
+  const handleRecompute = async () => {
+    try {
+      const db = await initDatabase();
+      const result = await recomputeTrip(db, tripId);
+      setTrip(await getTripById(db, tripId));
+      Alert.alert('Stats Recalculated', describeStatChanges(result.changes));
+    } catch (error) {
+      console.error('Error recomputing trip:', error);
+      Alert.alert(
+        'Recalculation Failed',
+        error instanceof Error ? error.message : 'Unable to recalculate this trip. Please try again.'
+      );
+    }
+  };
+
+  const handleSaveDetails = async (details: TripDetails) => {
+    try {
+      const db = await initDatabase();
+      await updateTripDetails(db, tripId, details);
+      setTrip(await getTripById(db, tripId));
+      setIsEditingDetails(false);
+    } catch (error) {
+      console.error('Error saving trip details:', error);
+      Alert.alert('Save Failed', 'Unable to save trip details. Please try again.');
+    }
+  };
+
+  const handleTrim = async (startTime: number, endTime: number) => {
+    try {
+      const db = await initDatabase();
+      await trimTrip(db, tripId, startTime, endTime);
+      setIsEditing(false);
+      await loadTrip();
+    } catch (error) {
+      console.error('Error trimming trip:', error);
+      Alert.alert('Trim Failed', 'Unable to trim this trip. Please try again.');
+    }
+  };
+
+  const handleSplit = async (splitTime: number) => {
+    try {
+      const db = await initDatabase();
+      const newTripId = await splitTrip(db, tripId, splitTime);
+      setIsEditing(false);
+      await loadTrip();
+      Alert.alert('Trip Split', 'The rest of the trip is now a separate trip.', [
+        { text: 'Stay Here', style: 'cancel' },
+        { text: 'Open New Trip', onPress: () => router.push(`/trip/${newTripId}`) },
+      ]);
+    } catch (error) {
+      console.error('Error splitting trip:', error);
+      Alert.alert('Split Failed', 'Unable to split this trip. Please try again.');
+    }
+  };
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Trip',
@@ -127,12 +228,14 @@ export default function TripDetailScreen() {
   const duration = trip.endTime
     ? Math.floor((trip.endTime - trip.startTime) / 1000)
     : 0;
+  const autoSplits = splits.filter((split) => split.kind === 'auto');
+  const laps = splits.filter((split) => split.kind === 'lap');
 
   return (
     <View style={styles.container}>
       <Stack.Screen
         options={{
-          title: `Trip ${trip.id}`,
+          title: trip.title ?? `Trip ${trip.id}`,
           headerStyle: { backgroundColor: '#0f0f12' },
           headerTintColor: '#fff',
         }}
@@ -152,21 +255,84 @@ export default function TripDetailScreen() {
           </ThemedText>
         </View>
 
-        {/* Status Badge */}
-        <View style={[styles.statusBadge, getStatusStyle(trip.status)]}>
-          <ThemedText style={styles.statusText}>
-            {trip.status.toUpperCase()}
-          </ThemedText>
+        {/* Status and activity badges */}
+        <View style={styles.badgeRow}>
+          <View style={[styles.statusBadge, getStatusStyle(trip.status)]}>
+            <ThemedText style={styles.statusText}>
+              {trip.status.toUpperCase()}
+            </ThemedText>
+          </View>
+          {trip.activityType && (
+            <View style={[styles.statusBadge, styles.activityBadge]}>
+              <ThemedText style={styles.statusText}>
+                {ACTIVITY_PROFILES[trip.activityType].label.toUpperCase()}
+              </ThemedText>
+            </View>
+          )}
         </View>
 
         {/* Main Stats */}
         <TripStats
           distance={trip.totalDistance}
-          avgSpeed={trip.avgSpeed}
+          avgSpeed={trip.movingAvgSpeed}
           maxSpeed={trip.maxSpeed}
-          duration={duration}
+          duration={trip.movingTime}
+          elapsedTime={duration}
+          pausedTime={trip.pausedTime}
         />
 
+        {/* Title, notes and tags */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionTitle}>Notes & Tags</ThemedText>
+            <Pressable onPress={() => setIsEditingDetails(!isEditingDetails)}>
+              <ThemedText style={styles.sectionAction}>
+                {isEditingDetails ? 'Close' : 'Edit'}
+              </ThemedText>
+            </Pressable>
+          </View>
+          {isEditingDetails ? (
+            <TripDetailsForm details={trip} onSave={handleSaveDetails} />
+          ) : (
+            <View style={styles.notesCard}>
+              <ThemedText style={trip.notes ? styles.notesText : styles.notesEmpty}>
+                {trip.notes ?? 'No notes'}
+              </ThemedText>
+              {trip.tags.length > 0 && (
+                <ThemedText style={styles.tagsText}>
+                  {trip.tags.map((tag) => `#${tag}`).join('  ')}
+                </ThemedText>
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Route */}
+        {points.length >= 2 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Route</ThemedText>
+            <RouteMap points={points} />
+          </View>
+        )}
+
+        {/* Replay */}
+        {points.length >= 2 && (
+          <Pressable
+            style={styles.replayButton}
+            onPress={() => router.push(`/replay/${tripId}`)}
+          >
+            <ThemedText style={styles.replayButtonText}>▶  Replay Trip</ThemedText>
+          </Pressable>
+        )}
+
+        {/* Charts */}
+        {points.length >= 2 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Charts</ThemedText>
+            <TripCharts points={points} pauseIntervals={pauseIntervals} />
+          </View>
+        )}
+
         {/* Detailed Stats */}
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>Details</ThemedText>
@@ -176,7 +342,11 @@ export default function TripDetailScreen() {
               value={formatDistance(trip.totalDistance, unit)}
             />
             <DetailRow
-              label="Average Speed"
+              label="Moving Average"
+              value={`${formatSpeed(trip.movingAvgSpeed, unit)} ${unit === 'kmh' ? 'km/h' : 'mph'}`}
+            />
+            <DetailRow
+              label="Overall Average"
               value={`${formatSpeed(trip.avgSpeed, unit)} ${unit === 'kmh' ? 'km/h' : 'mph'}`}
             />
             <DetailRow
@@ -184,32 +354,120 @@ export default function TripDetailScreen() {
               value={`${formatSpeed(trip.maxSpeed, unit)} ${unit === 'kmh' ? 'km/h' : 'mph'}`}
             />
             <DetailRow
-              label="Duration"
+              label="Moving Time"
+              value={formatDuration(trip.movingTime)}
+            />
+            <DetailRow
+              label="Paused Time"
+              value={formatDuration(trip.pausedTime)}
+            />
+            <DetailRow
+              label="Elapsed Time"
               value={formatDuration(duration)}
             />
             <DetailRow
               label="Location Points"
               value={points.length.toString()}
+            />
+            <DetailRow
+              label="Rejected Fixes"
+              value={rejectedCount.toString()}
               isLast
             />
           </View>
         </View>
 
+        {/* Splits and laps */}
+        {autoSplits.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Splits</ThemedText>
+            <SplitTable splits={autoSplits} unit={unit} />
+          </View>
+        )}
+        {laps.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Laps</ThemedText>
+            <SplitTable splits={laps} unit={unit} />
+          </View>
+        )}
+
+        {/* Overspeed events */}
+        {overspeedEvents.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>
+              Speed Alerts ({overspeedEvents.length})
+            </ThemedText>
+            <View style={styles.detailsCard}>
+              {overspeedEvents.map((event, index) => (
+                <DetailRow
+                  key={event.id ?? event.startTime}
+                  label={
+                    event.endTime
+                      ? `${formatTime(event.startTime)} · ${formatDuration(
+                          (event.endTime - event.startTime) / 1000
+                        )}`
+                      : `${formatTime(event.startTime)} · ongoing`
+                  }
+                  value={`${formatSpeed(event.peakSpeed, unit)} / ${formatSpeed(
+                    event.speedLimit,
+                    unit
+                  )} ${unit === 'kmh' ? 'km/h' : 'mph'}`}
+                  isLast={index === overspeedEvents.length - 1}
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Export Options */}
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>Export</ThemedText>
-          <View style={styles.exportButtons}>
-            <Pressable style={styles.exportButton} onPress={handleExportJSON}>
-              <ThemedText style={styles.exportIcon}>📋</ThemedText>
-              <ThemedText style={styles.exportLabel}>JSON</ThemedText>
-            </Pressable>
-            <Pressable style={styles.exportButton} onPress={handleExportGPX}>
-              <ThemedText style={styles.exportIcon}>🗺️</ThemedText>
-              <ThemedText style={styles.exportLabel}>GPX</ThemedText>
-            </Pressable>
-          </View>
+          {exportProgress ? (
+            <ExportProgress progress={exportProgress} onCancel={cancelExport} />
+          ) : (
+            <View style={styles.exportButtons}>
+              <Pressable style={styles.exportButton} onPress={handleExportJSON}>
+                <ThemedText style={styles.exportIcon}>📋</ThemedText>
+                <ThemedText style={styles.exportLabel}>JSON</ThemedText>
+              </Pressable>
+              <Pressable style={styles.exportButton} onPress={handleExportGPX}>
+                <ThemedText style={styles.exportIcon}>🗺️</ThemedText>
+                <ThemedText style={styles.exportLabel}>GPX</ThemedText>
+              </Pressable>
+            </View>
+          )}
         </View>
 
+        {/* Trim and split */}
+        {trip.status === 'completed' && points.length >= 3 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <ThemedText style={styles.sectionTitle}>Edit</ThemedText>
+              <Pressable onPress={() => setIsEditing(!isEditing)}>
+                <ThemedText style={styles.sectionAction}>
+                  {isEditing ? 'Close' : 'Trim or Split'}
+                </ThemedText>
+              </Pressable>
+            </View>
+            {isEditing && (
+              <TripEditor
+                trip={trip}
+                points={points}
+                pauseIntervals={pauseIntervals}
+                onTrim={handleTrim}
+                onSplit={handleSplit}
+              />
+            )}
+          </View>
+        )}
+
+        {/* Recalculate from stored points */}
+        {trip.status === 'completed' && (
+          <Pressable style={styles.recomputeButton} onPress={handleRecompute}>
+            <ThemedText style={styles.recomputeButtonText}>Recalculate Stats</ThemedText>
+          </Pressable>
+        )}
+
         {/* Delete Button */}
         <Pressable style={styles.deleteButton} onPress={handleDelete}>
           <ThemedText style={styles.deleteButtonText}>Delete Trip</ThemedText>
@@ -298,13 +556,21 @@ const styles = StyleSheet.create({
     color: '#71717a',
     marginTop: 4,
   },
+  badgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 20,
+  },
   statusBadge: {
-    alignSelf: 'center',
     paddingHorizontal: 16,
     paddingVertical: 6,
     borderRadius: 16,
     borderWidth: 1,
-    marginBottom: 20,
+  },
+  activityBadge: {
+    backgroundColor: '#27272a',
+    borderColor: '#3f3f46',
   },
   statusText: {
     fontSize: 12,
@@ -323,6 +589,35 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  sectionAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  notesCard: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  notesText: {
+    fontSize: 15,
+    color: '#fafafa',
+    lineHeight: 22,
+  },
+  notesEmpty: {
+    fontSize: 15,
+    color: '#52525b',
+  },
+  tagsText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
   detailsCard: {
     backgroundColor: '#18181b',
     borderRadius: 12,
@@ -367,6 +662,34 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fafafa',
   },
+  replayButton: {
+    marginTop: 24,
+    backgroundColor: '#22c55e20',
+    borderWidth: 1,
+    borderColor: '#22c55e',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  replayButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#22c55e',
+  },
+  recomputeButton: {
+    marginTop: 24,
+    backgroundColor: '#3b82f620',
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  recomputeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
   deleteButton: {
     marginTop: 32,
     backgroundColor: '#7f1d1d',
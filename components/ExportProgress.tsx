@@ -0,0 +1,89 @@
+/**
+ * Progress bar with a cancel button for a running export
+ */
+
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import type { ExportProgress as ExportProgressState } from "@/utils/export-writer";
+
+interface ExportProgressProps {
+  progress: ExportProgressState;
+  onCancel: () => void;
+}
+
+export function ExportProgress({ progress, onCancel }: ExportProgressProps) {
+  const { completed, total } = progress;
+  const fraction = total > 0 ? completed / total : 0;
+  const isWritten = total > 0 && completed >= total;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText style={styles.title}>
+          {isWritten ? "Ready to share" : "Exporting..."}
+        </ThemedText>
+        <ThemedText style={styles.count}>
+          {completed.toLocaleString()} / {total.toLocaleString()}
+        </ThemedText>
+      </View>
+
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${fraction * 100}%` }]} />
+      </View>
+
+      {!isWritten && (
+        <Pressable style={styles.cancelButton} onPress={onCancel}>
+          <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  count: {
+    fontSize: 13,
+    color: "#a1a1aa",
+    fontVariant: ["tabular-nums"],
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#3f3f46",
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    backgroundColor: "#22c55e",
+  },
+  cancelButton: {
+    alignSelf: "flex-end",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#27272a",
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ef4444",
+  },
+});
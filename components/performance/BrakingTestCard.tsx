@@ -0,0 +1,114 @@
+/**
+ * Stopping distance, time and deceleration of one braking test
+ */
+
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { CONVERSION } from "@/constants/config";
+import { normalizeStoppingDistance } from "@/services/braking-test";
+import { formatSpeed } from "@/services/speed-calculator";
+import type { BrakingTest, SpeedUnit } from "@/types";
+
+interface BrakingTestCardProps {
+  test: BrakingTest;
+  unit: SpeedUnit;
+  isBest?: boolean; // shortest stop from its target speed
+}
+
+export function BrakingTestCard({ test, unit, isBest = false }: BrakingTestCardProps) {
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+  const rows: [string, string][] = [
+    ["Braked from", `${formatSpeed(test.startSpeed, unit, 1)} ${speedUnit}`],
+    ["Stopping time", `${test.duration.toFixed(2)} s`],
+    ["Peak deceleration", `${test.peakDeceleration.toFixed(2)} g`],
+    ["Mean deceleration", `${test.meanDeceleration.toFixed(2)} g`],
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <ThemedText style={[styles.distance, isBest && styles.best]}>
+            {formatStoppingDistance(normalizeStoppingDistance(test), unit)}
+          </ThemedText>
+          <ThemedText style={styles.caption}>
+            from {formatSpeed(test.targetSpeed, unit)} {speedUnit}
+            {" · "}measured {formatStoppingDistance(test.distance, unit)}
+          </ThemedText>
+        </View>
+        {test.label && (
+          <ThemedText style={styles.label} numberOfLines={1}>
+            {test.label}
+          </ThemedText>
+        )}
+      </View>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row}>
+          <ThemedText style={styles.rowLabel}>{label}</ThemedText>
+          <ThemedText style={styles.rowValue}>{value}</ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Stopping distance to a tenth of a meter, or to the foot in mph
+ */
+function formatStoppingDistance(meters: number, unit: SpeedUnit): string {
+  return unit === "mph"
+    ? `${Math.round(meters * CONVERSION.METERS_TO_FEET)} ft`
+    : `${meters.toFixed(1)} m`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    gap: 12,
+    marginBottom: 4,
+  },
+  distance: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: "800",
+    color: "#fafafa",
+    fontVariant: ["tabular-nums"],
+  },
+  best: {
+    color: "#22c55e",
+  },
+  caption: {
+    fontSize: 12,
+    color: "#71717a",
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: "#a1a1aa",
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fafafa",
+    fontVariant: ["tabular-nums"],
+  },
+});
@@ -0,0 +1,100 @@
+/**
+ * Times of an acceleration run, one row per target reached
+ */
+
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { PERFORMANCE_TARGETS } from "@/constants/config";
+import { formatSpeed } from "@/services/speed-calculator";
+import type { PerformanceResult, SpeedUnit } from "@/types";
+
+interface RunResultsProps {
+  results: PerformanceResult[];
+  unit: SpeedUnit;
+  bestTimes?: Record<string, number>; // target id -> best time, highlighted
+}
+
+export function RunResults({ results, unit, bestTimes = {} }: RunResultsProps) {
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+
+  if (results.length === 0) {
+    return (
+      <View style={styles.container}>
+        <ThemedText style={styles.empty}>No targets reached</ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {results.map((result, index) => {
+        const target = PERFORMANCE_TARGETS.find((t) => t.id === result.targetId);
+        const isBest = bestTimes[result.targetId] === result.time;
+        return (
+          <View
+            key={result.targetId}
+            style={[styles.row, index < results.length - 1 && styles.rowBorder]}
+          >
+            <ThemedText style={styles.label}>{target?.label ?? result.targetId}</ThemedText>
+            <ThemedText style={styles.trap}>
+              {result.trapSpeed !== null
+                ? `${formatSpeed(result.trapSpeed, unit, 1)} ${speedUnit}`
+                : ""}
+            </ThemedText>
+            <ThemedText style={[styles.time, isBest && styles.best]}>
+              {result.time.toFixed(2)} s
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  rowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#27272a",
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+    color: "#a1a1aa",
+  },
+  trap: {
+    fontSize: 13,
+    color: "#71717a",
+    marginRight: 12,
+    fontVariant: ["tabular-nums"],
+  },
+  time: {
+    minWidth: 64,
+    textAlign: "right",
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fafafa",
+    fontVariant: ["tabular-nums"],
+  },
+  best: {
+    color: "#22c55e",
+  },
+  empty: {
+    padding: 16,
+    fontSize: 14,
+    color: "#71717a",
+    textAlign: "center",
+  },
+});
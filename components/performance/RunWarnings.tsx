@@ -0,0 +1,50 @@
+/**
+ * Warnings that an acceleration run's times may be off
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import type { PerformanceWarning } from "@/types";
+
+const WARNING_TEXT: Record<PerformanceWarning, string> = {
+  "low-fix-rate": "GPS updates are too infrequent for reliable times",
+  "poor-accuracy": "GPS accuracy is too poor for reliable times",
+};
+
+interface RunWarningsProps {
+  warnings: PerformanceWarning[];
+}
+
+export function RunWarnings({ warnings }: RunWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {warnings.map((warning) => (
+        <View key={warning} style={styles.row}>
+          <MaterialCommunityIcons name="alert-outline" size={16} color="#f59e0b" />
+          <ThemedText style={styles.text}>{WARNING_TEXT[warning]}</ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: "#f59e0b",
+  },
+});
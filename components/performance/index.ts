@@ -0,0 +1,7 @@
+/**
+ * Performance components barrel export
+ */
+
+export { RunResults } from './RunResults';
+export { RunWarnings } from './RunWarnings';
+export { BrakingTestCard } from './BrakingTestCard';
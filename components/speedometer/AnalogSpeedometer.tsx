@@ -21,7 +21,7 @@ import Animated, {
   useDerivedValue,
 } from 'react-native-reanimated';
 import { useSettingsStore } from '@/stores/settings-store';
-import { SPEED_SCALES, UI_CONFIG } from '@/constants/config';
+import { GAUGE_CONFIG, UI_CONFIG } from '@/constants/config';
 import { kmhToMph } from '@/services/speed-calculator';
 
 const AnimatedPath = Animated.createAnimatedComponent(Path);
@@ -29,6 +29,8 @@ const AnimatedPath = Animated.createAnimatedComponent(Path);
 interface AnalogSpeedometerProps {
   speed: number; // Current speed in km/h
   size?: number;
+  speedLimit?: number | null; // km/h, marked on the dial
+  isOverspeed?: boolean; // turns the gauge red
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -37,12 +39,15 @@ const DEFAULT_SIZE = Math.min(SCREEN_WIDTH - 40, 340);
 export function AnalogSpeedometer({
   speed,
   size = DEFAULT_SIZE,
+  speedLimit = null,
+  isOverspeed = false,
 }: AnalogSpeedometerProps) {
   const { unit, maxSpeedScale } = useSettingsStore();
-  const scale = SPEED_SCALES[unit];
 
   // Convert speed to display unit
   const displaySpeed = unit === 'mph' ? kmhToMph(speed) : speed;
+  const displayLimit =
+    speedLimit !== null ? (unit === 'mph' ? kmhToMph(speedLimit) : speedLimit) : null;
   
   // Gauge dimensions
   const centerX = size / 2;
@@ -94,10 +99,10 @@ export function AnalogSpeedometer({
   // Generate tick marks
   const generateTicks = () => {
     const ticks: React.ReactNode[] = [];
-    const majorTicks = scale.majorTicks;
+    const majorTicks = getMajorTicks(maxSpeedScale);
     
     majorTicks.forEach((value, index) => {
-      const ratio = value / scale.max;
+      const ratio = value / maxSpeedScale;
       const angle = ((startAngle + ratio * angleRange) * Math.PI) / 180;
       
       // Major tick
@@ -139,11 +144,11 @@ export function AnalogSpeedometer({
       // Minor ticks between major ticks
       if (index < majorTicks.length - 1) {
         const nextValue = majorTicks[index + 1];
-        const step = (nextValue - value) / (scale.minorTickCount + 1);
+        const step = (nextValue - value) / (GAUGE_CONFIG.minorTickCount + 1);
         
-        for (let i = 1; i <= scale.minorTickCount; i++) {
+        for (let i = 1; i <= GAUGE_CONFIG.minorTickCount; i++) {
           const minorValue = value + step * i;
-          const minorRatio = minorValue / scale.max;
+          const minorRatio = minorValue / maxSpeedScale;
           const minorAngle = ((startAngle + minorRatio * angleRange) * Math.PI) / 180;
           
           const minorOuterX = centerX + Math.cos(minorAngle) * radius;
@@ -167,19 +172,27 @@ export function AnalogSpeedometer({
     return ticks;
   };
 
-  // Arc path for gauge background
-  const arcPath = () => {
-    const startRad = (startAngle * Math.PI) / 180;
-    const endRad = (endAngle * Math.PI) / 180;
+  // Arc path for gauge background, or a part of it
+  const arcPath = (fromAngle = startAngle, toAngle = endAngle) => {
+    const startRad = (fromAngle * Math.PI) / 180;
+    const endRad = (toAngle * Math.PI) / 180;
     
     const x1 = centerX + Math.cos(startRad) * radius;
     const y1 = centerY + Math.sin(startRad) * radius;
     const x2 = centerX + Math.cos(endRad) * radius;
     const y2 = centerY + Math.sin(endRad) * radius;
+    const largeArc = toAngle - fromAngle > 180 ? 1 : 0;
     
-    return `M ${x1} ${y1} A ${radius} ${radius} 0 1 1 ${x2} ${y2}`;
+    return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2}`;
   };
 
+  // Angle where the speed limit sits, if it's on the dial
+  const limitAngle =
+    displayLimit !== null && displayLimit < maxSpeedScale
+      ? startAngle + (displayLimit / maxSpeedScale) * angleRange
+      : null;
+  const readoutColor = isOverspeed ? '#ef4444' : '#22c55e';
+
   return (
     <View style={[styles.container, { width: size, height: size }]}>
       <Svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
@@ -218,8 +231,8 @@ export function AnalogSpeedometer({
           cy={centerY}
           r={size * 0.44}
           fill="#18181b"
-          stroke="#3f3f46"
-          strokeWidth={2}
+          stroke={isOverspeed ? '#ef4444' : '#3f3f46'}
+          strokeWidth={isOverspeed ? 4 : 2}
         />
 
         {/* Dial face */}
@@ -239,6 +252,17 @@ export function AnalogSpeedometer({
           strokeLinecap="round"
         />
 
+        {/* Over-the-limit zone */}
+        {limitAngle !== null && (
+          <Path
+            d={arcPath(limitAngle, endAngle)}
+            stroke={isOverspeed ? '#ef4444' : '#ef444460'}
+            strokeWidth={8}
+            fill="none"
+            strokeLinecap="round"
+          />
+        )}
+
         {/* Tick marks and labels */}
         <G>{generateTicks()}</G>
 
@@ -272,7 +296,7 @@ export function AnalogSpeedometer({
           height={35}
           rx={6}
           fill="#0a0a0c"
-          stroke="#27272a"
+          stroke={isOverspeed ? '#ef4444' : '#27272a'}
           strokeWidth={1}
         />
 
@@ -280,7 +304,7 @@ export function AnalogSpeedometer({
         <SvgText
           x={centerX}
           y={centerY + radius * 0.35 + 24}
-          fill="#22c55e"
+          fill={readoutColor}
           fontSize={22}
           fontWeight="700"
           fontFamily="monospace"
@@ -305,6 +329,22 @@ export function AnalogSpeedometer({
   );
 }
 
+/**
+ * Labelled tick values from 0 to `max`, at the finest spacing that fits
+ */
+function getMajorTicks(max: number): number[] {
+  const step =
+    GAUGE_CONFIG.majorTickSteps.find(
+      (candidate) => max / candidate <= GAUGE_CONFIG.maxMajorTicks
+    ) ?? max;
+
+  const ticks: number[] = [];
+  for (let value = 0; value <= max; value += step) {
+    ticks.push(value);
+  }
+  return ticks;
+}
+
 const styles = StyleSheet.create({
   container: {
     alignItems: 'center',
@@ -1,9 +1,11 @@
 /**
  * Digital speedometer with large, clear typography
+ * The `hud` variant drops the rings and speed bar for plain white digits
+ * filling the width, as reflected in the windshield by the HUD.
  */
 
 import React from 'react';
-import { View, StyleSheet, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
 import Animated, {
   useAnimatedStyle,
   withTiming,
@@ -18,6 +20,9 @@ import { ThemedText } from '@/components/themed-text';
 interface DigitalSpeedometerProps {
   speed: number; // Current speed in km/h
   size?: number;
+  speedLimit?: number | null; // km/h, marked on the speed bar
+  isOverspeed?: boolean; // turns the display red
+  variant?: 'dial' | 'hud';
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -26,12 +31,21 @@ const DEFAULT_SIZE = Math.min(SCREEN_WIDTH - 40, 340);
 export function DigitalSpeedometer({
   speed,
   size = DEFAULT_SIZE,
+  speedLimit = null,
+  isOverspeed = false,
+  variant = 'dial',
 }: DigitalSpeedometerProps) {
   const { unit, maxSpeedScale } = useSettingsStore();
 
   // Convert speed to display unit
   const displaySpeed = unit === 'mph' ? kmhToMph(speed) : speed;
   const speedRatio = Math.min(displaySpeed / maxSpeedScale, 1);
+  const displayLimit =
+    speedLimit !== null ? (unit === 'mph' ? kmhToMph(speedLimit) : speedLimit) : null;
+  const limitRatio =
+    displayLimit !== null && displayLimit < maxSpeedScale
+      ? displayLimit / maxSpeedScale
+      : null;
 
   // Animated color based on speed
   const colorProgress = useSharedValue(0);
@@ -55,11 +69,46 @@ export function DigitalSpeedometer({
 
   // Format speed with leading zeros for consistent width
   const formattedSpeed = Math.round(displaySpeed).toString().padStart(3, ' ');
+  const unitLabel = unit === 'kmh' ? 'km/h' : 'mph';
+
+  if (variant === 'hud') {
+    // Three monospace digits span `size`; the unit sits underneath
+    const fontSize = size * 0.42;
+    return (
+      <View style={[styles.container, { width: size }]}>
+        <Text
+          style={[
+            styles.hudSpeedText,
+            { fontSize, lineHeight: fontSize * 1.05 },
+            isOverspeed && styles.speedTextOverspeed,
+          ]}
+          numberOfLines={1}
+        >
+          {formattedSpeed.trim()}
+        </Text>
+        <Text
+          style={[
+            styles.hudUnitText,
+            { fontSize: fontSize * 0.16 },
+            isOverspeed && styles.speedTextOverspeed,
+          ]}
+        >
+          {unitLabel}
+        </Text>
+      </View>
+    );
+  }
 
   return (
     <View style={[styles.container, { width: size, height: size }]}>
       {/* Outer ring */}
-      <View style={[styles.outerRing, { width: size, height: size, borderRadius: size / 2 }]}>
+      <View
+        style={[
+          styles.outerRing,
+          { width: size, height: size, borderRadius: size / 2 },
+          isOverspeed && styles.outerRingOverspeed,
+        ]}
+      >
         {/* Progress ring */}
         <View
           style={[
@@ -69,6 +118,7 @@ export function DigitalSpeedometer({
               height: size - 16,
               borderRadius: (size - 16) / 2,
             },
+            isOverspeed && styles.progressRingOverspeed,
           ]}
         >
           {/* Inner dark circle */}
@@ -88,14 +138,12 @@ export function DigitalSpeedometer({
                 style={[
                   styles.speedText,
                   { fontSize: size * 0.28 },
-                  animatedSpeedStyle,
+                  isOverspeed ? styles.speedTextOverspeed : animatedSpeedStyle,
                 ]}
               >
                 {formattedSpeed.trim()}
               </Animated.Text>
-              <ThemedText style={styles.unitText}>
-                {unit === 'kmh' ? 'km/h' : 'mph'}
-              </ThemedText>
+              <ThemedText style={styles.unitText}>{unitLabel}</ThemedText>
             </View>
 
             {/* Speed bar indicator */}
@@ -107,8 +155,12 @@ export function DigitalSpeedometer({
                     {
                       width: `${speedRatio * 100}%`,
                     },
+                    isOverspeed && styles.speedBarFillOverspeed,
                   ]}
                 />
+                {limitRatio !== null && (
+                  <View style={[styles.limitMarker, { left: `${limitRatio * 100}%` }]} />
+                )}
               </View>
               <View style={styles.speedBarLabels}>
                 <ThemedText style={styles.speedBarLabel}>0</ThemedText>
@@ -140,6 +192,9 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 8,
   },
+  outerRingOverspeed: {
+    backgroundColor: '#ef4444',
+  },
   progressRing: {
     backgroundColor: '#18181b',
     alignItems: 'center',
@@ -147,6 +202,9 @@ const styles = StyleSheet.create({
     borderWidth: 3,
     borderColor: '#3f3f46',
   },
+  progressRingOverspeed: {
+    borderColor: '#ef4444',
+  },
   innerCircle: {
     backgroundColor: '#0f0f12',
     alignItems: 'center',
@@ -165,6 +223,22 @@ const styles = StyleSheet.create({
     letterSpacing: -2,
     includeFontPadding: false,
   },
+  speedTextOverspeed: {
+    color: '#ef4444',
+  },
+  hudSpeedText: {
+    color: '#ffffff',
+    fontWeight: '800',
+    fontFamily: 'monospace',
+    fontVariant: ['tabular-nums'],
+    letterSpacing: -2,
+    includeFontPadding: false,
+  },
+  hudUnitText: {
+    color: '#ffffff',
+    fontWeight: '700',
+    includeFontPadding: false,
+  },
   unitText: {
     fontSize: 18,
     color: '#71717a',
@@ -187,6 +261,17 @@ const styles = StyleSheet.create({
     backgroundColor: '#22c55e',
     borderRadius: 4,
   },
+  speedBarFillOverspeed: {
+    backgroundColor: '#ef4444',
+  },
+  limitMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: '#ef4444',
+  },
   speedBarLabels: {
     flexDirection: 'row',
     justifyContent: 'space-between',
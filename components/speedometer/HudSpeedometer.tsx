@@ -0,0 +1,140 @@
+/**
+ * Heads-up display: full-screen, mirrored speed for reflecting in the windshield
+ * Drag up or down to change brightness, double-tap to exit.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, StatusBar, StyleSheet, View, useWindowDimensions } from 'react-native';
+import {
+  Gesture,
+  GestureDetector,
+  GestureHandlerRootView,
+} from 'react-native-gesture-handler';
+
+import { ThemedText } from '@/components/themed-text';
+import { HUD_CONFIG } from '@/constants/config';
+import { useSettingsStore } from '@/stores/settings-store';
+import { DigitalSpeedometer } from './DigitalSpeedometer';
+
+interface HudSpeedometerProps {
+  visible: boolean;
+  speed: number; // Current speed in km/h
+  isOverspeed?: boolean; // turns the digits red
+  onExit: () => void;
+}
+
+export function HudSpeedometer({
+  visible,
+  speed,
+  isOverspeed = false,
+  onExit,
+}: HudSpeedometerProps) {
+  const { hudBrightness, setHudBrightness } = useSettingsStore();
+  const { width, height } = useWindowDimensions();
+
+  // Brightness follows the finger locally and is saved when the drag ends
+  const [dragBrightness, setDragBrightness] = useState<number | null>(null);
+  const dragStart = useRef(hudBrightness);
+  const dragValue = useRef<number | null>(null);
+  // Bumped on opening and while adjusting to bring the hint back
+  const [hintKey, setHintKey] = useState(0);
+  const [showHint, setShowHint] = useState(false);
+
+  const brightness = dragBrightness ?? hudBrightness;
+
+  // Show the hint for a moment after opening or adjusting
+  useEffect(() => {
+    if (!visible) return;
+    setShowHint(true);
+    const timer = setTimeout(() => setShowHint(false), HUD_CONFIG.hintDuration);
+    return () => clearTimeout(timer);
+  }, [visible, hintKey]);
+
+  const clampBrightness = (value: number) =>
+    Math.min(Math.max(value, HUD_CONFIG.minBrightness), 1);
+
+  const adjust = Gesture.Pan()
+    .runOnJS(true)
+    .onBegin(() => {
+      dragStart.current = hudBrightness;
+    })
+    .onUpdate((event) => {
+      // Dragging up brightens
+      const change = -event.translationY / (height * HUD_CONFIG.dragRange);
+      dragValue.current = clampBrightness(dragStart.current + change);
+      setDragBrightness(dragValue.current);
+      setHintKey((key) => key + 1);
+    })
+    .onFinalize(() => {
+      if (dragValue.current !== null) setHudBrightness(dragValue.current);
+      dragValue.current = null;
+      setDragBrightness(null);
+    });
+
+  const exit = Gesture.Tap().runOnJS(true).numberOfTaps(2).onEnd(onExit);
+
+  // Digits fill the width, without overflowing a landscape height
+  const size = Math.min(width, height * 1.3);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onExit}
+      supportedOrientations={['portrait', 'landscape-left', 'landscape-right']}
+      statusBarTranslucent
+      navigationBarTranslucent
+    >
+      <StatusBar hidden />
+      <GestureHandlerRootView style={styles.container}>
+        <GestureDetector gesture={Gesture.Race(adjust, exit)}>
+          <View style={styles.container}>
+            {/* Mirrored so it reads correctly in the windshield */}
+            <View style={[styles.display, { opacity: brightness }]}>
+              <DigitalSpeedometer
+                variant="hud"
+                speed={speed}
+                size={size}
+                isOverspeed={isOverspeed}
+              />
+            </View>
+
+            {showHint && (
+              <View style={styles.hint} pointerEvents="none">
+                <ThemedText style={styles.hintText}>
+                  Brightness {Math.round(brightness * 100)}% · drag up or down to
+                  adjust · double-tap to exit
+                </ThemedText>
+              </View>
+            )}
+          </View>
+        </GestureDetector>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  display: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    transform: [{ scaleX: -1 }],
+  },
+  hint: {
+    position: 'absolute',
+    left: 24,
+    right: 24,
+    bottom: 32,
+    alignItems: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#71717a',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,84 @@
+/**
+ * Road-sign style badge for the speed limit in force
+ * Tapping it switches to the next limit profile
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useSettingsStore } from '@/stores/settings-store';
+
+interface SpeedLimitBadgeProps {
+  isOverspeed?: boolean;
+}
+
+export function SpeedLimitBadge({ isOverspeed = false }: SpeedLimitBadgeProps) {
+  const {
+    speedAlertEnabled,
+    speedLimitProfiles,
+    activeSpeedLimitId,
+    setActiveSpeedLimit,
+  } = useSettingsStore();
+
+  const index = Math.max(
+    speedLimitProfiles.findIndex((p) => p.id === activeSpeedLimitId),
+    0
+  );
+  const profile = speedLimitProfiles[index];
+  if (!speedAlertEnabled || !profile) return null;
+
+  const handlePress = () => {
+    const next = speedLimitProfiles[(index + 1) % speedLimitProfiles.length];
+    setActiveSpeedLimit(next.id);
+  };
+
+  return (
+    <Pressable style={styles.container} onPress={handlePress} hitSlop={8}>
+      <View style={[styles.sign, isOverspeed && styles.signOverspeed]}>
+        <ThemedText style={[styles.limit, isOverspeed && styles.limitOverspeed]}>
+          {Math.round(profile.limit)}
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.name} numberOfLines={1}>
+        {profile.name}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    width: 64,
+  },
+  sign: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 5,
+    borderColor: '#ef4444',
+    backgroundColor: '#fafafa',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  signOverspeed: {
+    backgroundColor: '#ef4444',
+    borderColor: '#fafafa',
+  },
+  limit: {
+    fontSize: 16,
+    lineHeight: 20,
+    fontWeight: '800',
+    color: '#0f0f12',
+  },
+  limitOverspeed: {
+    color: '#fafafa',
+  },
+  name: {
+    marginTop: 2,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#a1a1aa',
+  },
+});
@@ -5,3 +5,5 @@
 export { AnalogSpeedometer } from './AnalogSpeedometer';
 export { DigitalSpeedometer } from './DigitalSpeedometer';
 export { SpeedometerToggle } from './SpeedometerToggle';
+export { SpeedLimitBadge } from './SpeedLimitBadge';
+export { HudSpeedometer } from './HudSpeedometer';
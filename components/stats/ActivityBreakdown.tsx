@@ -0,0 +1,115 @@
+/**
+ * Distance, time and trip count per activity type
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { ACTIVITY_PROFILES } from "@/constants/config";
+import { formatDistance, formatDuration } from "@/services/speed-calculator";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { ActivityTotals } from "@/types";
+
+interface ActivityBreakdownProps {
+  activities: ActivityTotals[]; // most distance first
+}
+
+export function ActivityBreakdown({ activities }: ActivityBreakdownProps) {
+  const { unit } = useSettingsStore();
+  const totalDistance = activities.reduce((sum, a) => sum + a.distance, 0);
+
+  return (
+    <View style={styles.container}>
+      {activities.map((activity) => {
+        const profile = activity.activityType
+          ? ACTIVITY_PROFILES[activity.activityType]
+          : null;
+        const share = totalDistance > 0 ? activity.distance / totalDistance : 0;
+
+        return (
+          <View key={activity.activityType ?? "none"} style={styles.row}>
+            <View style={styles.icon}>
+              <MaterialCommunityIcons
+                name={(profile?.icon ?? "help-circle-outline") as any}
+                size={20}
+                color="#a1a1aa"
+              />
+            </View>
+            <View style={styles.details}>
+              <View style={styles.headerRow}>
+                <ThemedText style={styles.label}>{profile?.label ?? "Unspecified"}</ThemedText>
+                <ThemedText style={styles.distance}>
+                  {formatDistance(activity.distance, unit)}
+                </ThemedText>
+              </View>
+              <View style={styles.track}>
+                <View style={[styles.fill, { width: `${share * 100}%` }]} />
+              </View>
+              <ThemedText style={styles.meta}>
+                {activity.tripCount} {activity.tripCount === 1 ? "trip" : "trips"} •{" "}
+                {formatDuration(activity.movingTime)} • {Math.round(share * 100)}%
+              </ThemedText>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    padding: 16,
+    gap: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  icon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#27272a",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  details: {
+    flex: 1,
+    gap: 4,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  distance: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#fafafa",
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#27272a",
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 3,
+    backgroundColor: "#22c55e",
+  },
+  meta: {
+    fontSize: 12,
+    color: "#71717a",
+  },
+});
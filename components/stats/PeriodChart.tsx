@@ -0,0 +1,195 @@
+/**
+ * Bar chart of distance, time or trip count per week, month or year
+ */
+
+import React, { useState } from "react";
+import { LayoutChangeEvent, Pressable, StyleSheet, View } from "react-native";
+import Svg, { Rect, Text as SvgText } from "react-native-svg";
+
+import { ThemedText } from "@/components/themed-text";
+import { formatDistance, formatDuration } from "@/services/speed-calculator";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { PeriodTotals, StatsPeriod } from "@/types";
+import { formatPeriodLabel } from "@/utils/stats";
+
+type ChartMetric = "distance" | "movingTime" | "tripCount";
+
+interface PeriodChartProps {
+  period: StatsPeriod;
+  periods: PeriodTotals[]; // oldest first
+}
+
+const METRICS: { value: ChartMetric; label: string; color: string }[] = [
+  { value: "distance", label: "Distance", color: "#22c55e" },
+  { value: "movingTime", label: "Time", color: "#3b82f6" },
+  { value: "tripCount", label: "Trips", color: "#f59e0b" },
+];
+
+const CHART_HEIGHT = 120;
+const LABEL_HEIGHT = 18;
+const BAR_GAP = 6;
+
+export function PeriodChart({ period, periods }: PeriodChartProps) {
+  const { unit } = useSettingsStore();
+  const [width, setWidth] = useState(0);
+  const [metric, setMetric] = useState<ChartMetric>("distance");
+  // Latest period until a bar is tapped
+  const [selectedIndex, setSelectedIndex] = useState(periods.length - 1);
+
+  const selected = periods[selectedIndex] ?? periods[periods.length - 1];
+  const color = METRICS.find((m) => m.value === metric)!.color;
+  const maxValue = Math.max(...periods.map((p) => p[metric]), 0);
+  const slotWidth = periods.length > 0 ? width / periods.length : 0;
+  // Label every bar when there's room, otherwise every other one from the latest
+  const labelEvery = slotWidth >= 36 ? 1 : 2;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.container}>
+      {selected && (
+        <>
+          <ThemedText style={styles.periodLabel}>
+            {formatPeriodLabel(period, selected.period, "long")}
+          </ThemedText>
+          <View style={styles.summaryRow}>
+            <SummaryItem label="Distance" value={formatDistance(selected.distance, unit)} />
+            <SummaryItem label="Moving Time" value={formatDuration(selected.movingTime)} />
+            <SummaryItem label="Trips" value={selected.tripCount.toString()} />
+          </View>
+        </>
+      )}
+
+      <View style={styles.metricRow}>
+        {METRICS.map((option) => (
+          <Pressable
+            key={option.value}
+            style={[styles.metricChip, metric === option.value && styles.metricChipActive]}
+            onPress={() => setMetric(option.value)}
+          >
+            <ThemedText
+              style={[
+                styles.metricText,
+                metric === option.value && { color: option.color },
+              ]}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={{ height: CHART_HEIGHT + LABEL_HEIGHT }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={CHART_HEIGHT + LABEL_HEIGHT}>
+            {periods.map((entry, index) => {
+              const value = entry[metric];
+              const height = maxValue > 0 ? (value / maxValue) * CHART_HEIGHT : 0;
+              const isSelected = index === selectedIndex;
+              const showLabel = (periods.length - 1 - index) % labelEvery === 0;
+
+              return (
+                <React.Fragment key={entry.period}>
+                  {/* Whole column is the touch target */}
+                  <Rect
+                    x={index * slotWidth}
+                    y={0}
+                    width={slotWidth}
+                    height={CHART_HEIGHT + LABEL_HEIGHT}
+                    fill="transparent"
+                    onPress={() => setSelectedIndex(index)}
+                  />
+                  <Rect
+                    x={index * slotWidth + BAR_GAP / 2}
+                    y={CHART_HEIGHT - Math.max(height, value > 0 ? 2 : 0)}
+                    width={Math.max(slotWidth - BAR_GAP, 1)}
+                    height={Math.max(height, value > 0 ? 2 : 0)}
+                    rx={3}
+                    fill={color}
+                    opacity={isSelected ? 1 : 0.4}
+                    onPress={() => setSelectedIndex(index)}
+                  />
+                  {showLabel && (
+                    <SvgText
+                      x={index * slotWidth + slotWidth / 2}
+                      y={CHART_HEIGHT + 13}
+                      fill={isSelected ? "#fafafa" : "#71717a"}
+                      fontSize={10}
+                      textAnchor="middle"
+                    >
+                      {formatPeriodLabel(period, entry.period)}
+                    </SvgText>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </Svg>
+        )}
+      </View>
+    </View>
+  );
+}
+
+function SummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.summaryItem}>
+      <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+      <ThemedText style={styles.summaryValue}>{value}</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  periodLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#a1a1aa",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    backgroundColor: "#27272a",
+    borderRadius: 12,
+    padding: 12,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: "#71717a",
+    fontWeight: "500",
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#fafafa",
+  },
+  metricRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  metricChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#27272a",
+  },
+  metricChipActive: {
+    backgroundColor: "#3f3f46",
+  },
+  metricText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#a1a1aa",
+  },
+});
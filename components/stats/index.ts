@@ -0,0 +1,6 @@
+/**
+ * Stats components barrel export
+ */
+
+export { PeriodChart } from './PeriodChart';
+export { ActivityBreakdown } from './ActivityBreakdown';
@@ -0,0 +1,76 @@
+/**
+ * Grid of activity types to pick from
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { ACTIVITY_PROFILES } from "@/constants/config";
+import type { ActivityType } from "@/types";
+
+interface ActivityPickerProps {
+  value: ActivityType | null;
+  onChange: (activityType: ActivityType) => void;
+}
+
+const ACTIVITY_TYPES = Object.keys(ACTIVITY_PROFILES) as ActivityType[];
+
+export function ActivityPicker({ value, onChange }: ActivityPickerProps) {
+  return (
+    <View style={styles.container}>
+      {ACTIVITY_TYPES.map((activityType) => {
+        const profile = ACTIVITY_PROFILES[activityType];
+        const isSelected = value === activityType;
+
+        return (
+          <Pressable
+            key={activityType}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => onChange(activityType)}
+          >
+            <MaterialCommunityIcons
+              name={profile.icon as any}
+              size={22}
+              color={isSelected ? "#22c55e" : "#a1a1aa"}
+            />
+            <ThemedText style={[styles.label, isSelected && styles.labelSelected]}>
+              {profile.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    width: "31%",
+    flexGrow: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: "#27272a",
+    gap: 4,
+  },
+  optionSelected: {
+    backgroundColor: "#22c55e20",
+    borderWidth: 1,
+    borderColor: "#22c55e",
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#a1a1aa",
+  },
+  labelSelected: {
+    color: "#22c55e",
+  },
+});
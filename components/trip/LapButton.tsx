@@ -0,0 +1,70 @@
+/**
+ * Lap button shown next to the start/stop controls while tracking
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+
+interface LapButtonProps {
+  lapCount: number; // laps already ended
+  onLap: () => void;
+  disabled?: boolean;
+}
+
+export function LapButton({ lapCount, onLap, disabled = false }: LapButtonProps) {
+  return (
+    <Pressable
+      style={[styles.button, disabled && styles.disabled]}
+      onPress={onLap}
+      disabled={disabled}
+      accessibilityLabel={`End lap ${lapCount + 1}`}
+    >
+      <MaterialCommunityIcons name="flag-checkered" size={20} color="#fafafa" />
+      {lapCount > 0 && (
+        <View style={styles.badge}>
+          <ThemedText style={styles.badgeText}>{lapCount}</ThemedText>
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#3f3f46",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  badge: {
+    position: "absolute",
+    top: -4,
+    right: -4,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 4,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#3b82f6",
+  },
+  badgeText: {
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: "700",
+    color: "#fff",
+  },
+});
@@ -0,0 +1,195 @@
+/**
+ * Playback controls for trip replay: scrubber, play/pause and speed
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { View, Pressable, StyleSheet, type LayoutChangeEvent } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+import { ThemedText } from "@/components/themed-text";
+import { REPLAY_CONFIG } from "@/constants/config";
+import { formatDuration } from "@/services/speed-calculator";
+import type { ReplayRate } from "@/hooks/useReplay";
+
+interface ReplayControlsProps {
+  position: number;
+  startTime: number;
+  endTime: number;
+  isPlaying: boolean;
+  isPaused: boolean; // trip was paused at this position
+  rate: ReplayRate;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (position: number) => void;
+  onRateChange: (rate: ReplayRate) => void;
+}
+
+export function ReplayControls({
+  position,
+  startTime,
+  endTime,
+  isPlaying,
+  isPaused,
+  rate,
+  onPlay,
+  onPause,
+  onSeek,
+  onRateChange,
+}: ReplayControlsProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const duration = Math.max(endTime - startTime, 1);
+  const progress = Math.min(Math.max((position - startTime) / duration, 0), 1);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const seekTo = (x: number) => {
+    if (trackWidth === 0) return;
+    onSeek(startTime + (x / trackWidth) * duration);
+  };
+
+  const scrub = Gesture.Pan()
+    .runOnJS(true)
+    .onBegin((event) => seekTo(event.x))
+    .onUpdate((event) => seekTo(event.x));
+
+  return (
+    <View style={styles.container}>
+      {/* Scrubber */}
+      <GestureDetector gesture={scrub}>
+        <View style={styles.trackHitArea} onLayout={handleLayout}>
+          <View style={styles.track}>
+            <View style={[styles.trackFill, { width: `${progress * 100}%` }]} />
+          </View>
+          <View style={[styles.thumb, { left: progress * trackWidth - 8 }]} />
+        </View>
+      </GestureDetector>
+
+      <View style={styles.timeRow}>
+        <ThemedText style={styles.timeText}>
+          {formatDuration((position - startTime) / 1000)}
+        </ThemedText>
+        {isPaused && <ThemedText style={styles.pausedText}>TRIP PAUSED</ThemedText>}
+        <ThemedText style={styles.timeText}>
+          {formatDuration(duration / 1000)}
+        </ThemedText>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <Pressable
+          style={styles.playButton}
+          onPress={isPlaying ? onPause : onPlay}
+        >
+          <MaterialCommunityIcons
+            name={isPlaying ? "pause" : "play"}
+            size={28}
+            color="#0f0f12"
+          />
+        </Pressable>
+
+        <View style={styles.rates}>
+          {REPLAY_CONFIG.rates.map((option) => (
+            <Pressable
+              key={option}
+              style={[styles.rateButton, rate === option && styles.rateButtonActive]}
+              onPress={() => onRateChange(option)}
+            >
+              <ThemedText
+                style={[styles.rateText, rate === option && styles.rateTextActive]}
+              >
+                {option}x
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  trackHitArea: {
+    height: 24,
+    justifyContent: "center",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#3f3f46",
+    overflow: "hidden",
+  },
+  trackFill: {
+    height: "100%",
+    backgroundColor: "#22c55e",
+  },
+  thumb: {
+    position: "absolute",
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+  },
+  timeRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  timeText: {
+    fontSize: 13,
+    color: "#a1a1aa",
+    fontVariant: ["tabular-nums"],
+  },
+  pausedText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#f59e0b",
+    letterSpacing: 0.5,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+  },
+  playButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: "#22c55e",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rates: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 8,
+  },
+  rateButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: "#27272a",
+    alignItems: "center",
+  },
+  rateButtonActive: {
+    backgroundColor: "#22c55e20",
+    borderWidth: 1,
+    borderColor: "#22c55e",
+  },
+  rateText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#a1a1aa",
+  },
+  rateTextActive: {
+    color: "#22c55e",
+  },
+});
@@ -0,0 +1,307 @@
+/**
+ * Offline route map: projected SVG polyline colored by speed
+ */
+
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, type LayoutChangeEvent } from "react-native";
+import Svg, { Circle, Polyline } from "react-native-svg";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+import { ThemedText } from "@/components/themed-text";
+import { ROUTE_SPEED_BANDS } from "@/constants/config";
+import { formatSpeed } from "@/services/speed-calculator";
+import { createTrackProcessorState, processFix } from "@/services/track-processor";
+import { useSettingsStore } from "@/stores/settings-store";
+import { projectRoute, type RouteTrackPoint } from "@/utils/route";
+import type { LocationPoint } from "@/types";
+
+interface RouteMapProps {
+  points: LocationPoint[];
+  height?: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const STROKE_WIDTH = 3;
+const MARKER_RADIUS = 6;
+
+export function RouteMap({ points, height = 280 }: RouteMapProps) {
+  const { unit } = useSettingsStore();
+  const [width, setWidth] = useState(0);
+  // Zoom committed after a gesture, used to keep strokes a constant width
+  const [zoom, setZoom] = useState(1);
+
+  // Draw the same processed track the trip stats were computed from
+  const track = useMemo(() => {
+    let processor = createTrackProcessorState();
+    const accepted: RouteTrackPoint[] = [];
+    for (const point of points) {
+      const fix = processFix(processor, point);
+      processor = fix.state;
+      if (fix.rejected) continue;
+      const { latitude, longitude, timestamp } = fix.point;
+      accepted.push({ latitude, longitude, speed: fix.speed, timestamp });
+    }
+    return accepted;
+  }, [points]);
+
+  const route = useMemo(
+    () => (width > 0 ? projectRoute(track, width, height, unit) : null),
+    [track, width, height, unit]
+  );
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(
+        Math.max(savedScale.value * event.scale, MIN_ZOOM),
+        MAX_ZOOM
+      );
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+      runOnJS(setZoom)(scale.value);
+    });
+
+  const pan = Gesture.Pan()
+    .averageTouches(true)
+    .onUpdate((event) => {
+      // Keep the scaled content overlapping the viewport
+      const maxX = (width * (scale.value - 1)) / 2;
+      const maxY = (height * (scale.value - 1)) / 2;
+      translateX.value = Math.min(
+        Math.max(savedTranslateX.value + event.translationX, -maxX),
+        maxX
+      );
+      translateY.value = Math.min(
+        Math.max(savedTranslateY.value + event.translationY, -maxY),
+        maxY
+      );
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const gesture = Gesture.Simultaneous(pinch, pan);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  const resetZoom = () => {
+    scale.value = withTiming(1);
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedScale.value = 1;
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    setZoom(1);
+  };
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const unitLabel = unit === "kmh" ? "km/h" : "mph";
+  const bands = ROUTE_SPEED_BANDS[unit];
+  const strokeWidth = STROKE_WIDTH / zoom;
+  const markerRadius = MARKER_RADIUS / zoom;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.mapContainer, { height }]} onLayout={handleLayout}>
+        {route ? (
+          <GestureDetector gesture={gesture}>
+            <Animated.View style={[styles.canvas, animatedStyle]}>
+              <Svg width={width} height={height}>
+                {route.segments.map((segment, index) => (
+                  <Polyline
+                    key={index}
+                    points={segment.points}
+                    fill="none"
+                    stroke={segment.color}
+                    strokeWidth={strokeWidth}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                ))}
+
+                {/* Max speed location */}
+                <Circle
+                  cx={route.maxSpeedPoint.x}
+                  cy={route.maxSpeedPoint.y}
+                  r={markerRadius * 1.6}
+                  fill="#ef444440"
+                  stroke="#ef4444"
+                  strokeWidth={strokeWidth / 1.5}
+                />
+
+                {/* Start and end markers */}
+                <Circle
+                  cx={route.start.x}
+                  cy={route.start.y}
+                  r={markerRadius}
+                  fill="#22c55e"
+                  stroke="#fafafa"
+                  strokeWidth={strokeWidth / 1.5}
+                />
+                <Circle
+                  cx={route.end.x}
+                  cy={route.end.y}
+                  r={markerRadius}
+                  fill="#fafafa"
+                  stroke="#18181b"
+                  strokeWidth={strokeWidth / 1.5}
+                />
+              </Svg>
+            </Animated.View>
+          </GestureDetector>
+        ) : (
+          width > 0 && (
+            <View style={styles.empty}>
+              <ThemedText style={styles.emptyText}>
+                Not enough GPS points to draw a route
+              </ThemedText>
+            </View>
+          )
+        )}
+
+        {zoom > 1 && (
+          <Pressable style={styles.resetButton} onPress={resetZoom}>
+            <ThemedText style={styles.resetText}>Reset</ThemedText>
+          </Pressable>
+        )}
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {bands.map((band, index) => {
+          const lower = index === 0 ? 0 : bands[index - 1].max;
+          const label = Number.isFinite(band.max)
+            ? `${lower}–${band.max}`
+            : `${lower}+`;
+          return (
+            <View key={band.color} style={styles.legendItem}>
+              <View style={[styles.legendSwatch, { backgroundColor: band.color }]} />
+              <ThemedText style={styles.legendLabel}>{label}</ThemedText>
+            </View>
+          );
+        })}
+        <ThemedText style={styles.legendLabel}>{unitLabel}</ThemedText>
+      </View>
+
+      {route && (
+        <View style={styles.markerLegend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: "#22c55e" }]} />
+            <ThemedText style={styles.legendLabel}>Start</ThemedText>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: "#fafafa" }]} />
+            <ThemedText style={styles.legendLabel}>End</ThemedText>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, styles.maxSpeedDot]} />
+            <ThemedText style={styles.legendLabel}>
+              Max {formatSpeed(route.maxSpeedPoint.speed, unit)} {unitLabel}
+            </ThemedText>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  mapContainer: {
+    overflow: "hidden",
+    backgroundColor: "#0f0f12",
+  },
+  canvas: {
+    flex: 1,
+  },
+  empty: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#71717a",
+  },
+  resetButton: {
+    position: "absolute",
+    top: 12,
+    right: 12,
+    backgroundColor: "#27272a",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  resetText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  markerLegend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 16,
+    height: 4,
+    borderRadius: 2,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  maxSpeedDot: {
+    backgroundColor: "#ef444440",
+    borderWidth: 1.5,
+    borderColor: "#ef4444",
+  },
+  legendLabel: {
+    fontSize: 12,
+    color: "#a1a1aa",
+  },
+});
@@ -0,0 +1,122 @@
+/**
+ * Table of a trip's auto splits or laps
+ */
+
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import {
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+} from "@/services/speed-calculator";
+import type { SpeedUnit, TripSplit } from "@/types";
+
+interface SplitTableProps {
+  splits: TripSplit[];
+  unit: SpeedUnit;
+}
+
+export function SplitTable({ splits, unit }: SplitTableProps) {
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+  // Highlight the quickest split
+  const fastest = splits.reduce<TripSplit | null>(
+    (best, split) => (!best || split.avgSpeed > best.avgSpeed ? split : best),
+    null
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.row, styles.headerRow]}>
+        <ThemedText style={[styles.cell, styles.indexCell, styles.header]}>#</ThemedText>
+        <ThemedText style={[styles.cell, styles.header]}>Distance</ThemedText>
+        <ThemedText style={[styles.cell, styles.header]}>Time</ThemedText>
+        <ThemedText style={[styles.cell, styles.header]}>Avg {speedUnit}</ThemedText>
+        <ThemedText style={[styles.cell, styles.header]}>Max</ThemedText>
+        <ThemedText style={[styles.cell, styles.header]}>Elev</ThemedText>
+      </View>
+      {splits.map((split, index) => {
+        const isFastest = split === fastest && splits.length > 1;
+        return (
+          <View
+            key={split.id ?? `${split.kind}-${split.splitIndex}`}
+            style={[styles.row, index < splits.length - 1 && styles.rowBorder]}
+          >
+            <ThemedText style={[styles.cell, styles.indexCell, styles.muted]}>
+              {split.splitIndex}
+            </ThemedText>
+            <ThemedText style={styles.cell}>
+              {formatDistance(split.distance, unit)}
+            </ThemedText>
+            <ThemedText style={styles.cell}>
+              {formatDuration(split.movingTime)}
+            </ThemedText>
+            <ThemedText style={[styles.cell, isFastest && styles.fastest]}>
+              {formatSpeed(split.avgSpeed, unit, 1)}
+            </ThemedText>
+            <ThemedText style={styles.cell}>
+              {formatSpeed(split.maxSpeed, unit)}
+            </ThemedText>
+            <ThemedText style={[styles.cell, styles.muted]}>
+              {formatElevation(split.elevationChange)}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * Signed elevation change in meters, or a dash without altitude data
+ */
+function formatElevation(change: number | null): string {
+  if (change === null) return "–";
+  const rounded = Math.round(change);
+  return rounded > 0 ? `+${rounded} m` : `${rounded} m`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  headerRow: {
+    backgroundColor: "#27272a",
+  },
+  rowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#27272a",
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+    color: "#fafafa",
+    fontVariant: ["tabular-nums"],
+  },
+  indexCell: {
+    flex: 0,
+    width: 24,
+  },
+  header: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#a1a1aa",
+    textTransform: "uppercase",
+  },
+  muted: {
+    color: "#a1a1aa",
+  },
+  fastest: {
+    color: "#22c55e",
+    fontWeight: "700",
+  },
+});
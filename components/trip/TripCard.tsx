@@ -7,6 +7,7 @@ import React from "react";
 import { Pressable, StyleSheet, View } from "react-native";
 
 import { ThemedText } from "@/components/themed-text";
+import { ACTIVITY_PROFILES } from "@/constants/config";
 import {
   formatDistance,
   formatDuration,
@@ -18,9 +19,16 @@ import type { TripWithDuration } from "@/types";
 interface TripCardProps {
   trip: TripWithDuration;
   onPress: () => void;
+  onLongPress?: () => void;
+  isSelected?: boolean; // picked for a merge
 }
 
-export function TripCard({ trip, onPress }: TripCardProps) {
+export function TripCard({
+  trip,
+  onPress,
+  onLongPress,
+  isSelected = false,
+}: TripCardProps) {
   const { unit } = useSettingsStore();
 
   const formatDate = (timestamp: number) => {
@@ -61,8 +69,13 @@ export function TripCard({ trip, onPress }: TripCardProps) {
 
   return (
     <Pressable
-      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+      style={({ pressed }) => [
+        styles.container,
+        isSelected && styles.selected,
+        pressed && styles.pressed,
+      ]}
       onPress={onPress}
+      onLongPress={onLongPress}
     >
       {/* Status indicator */}
       <View
@@ -72,7 +85,25 @@ export function TripCard({ trip, onPress }: TripCardProps) {
       <View style={styles.content}>
         {/* Header */}
         <View style={styles.header}>
-          <ThemedText style={styles.date}>{formatDate(trip.startTime)}</ThemedText>
+          <View style={styles.titleRow}>
+            {trip.activityType && (
+              <MaterialCommunityIcons
+                name={ACTIVITY_PROFILES[trip.activityType].icon as any}
+                size={16}
+                color="#a1a1aa"
+              />
+            )}
+            <View style={styles.titleText}>
+              <ThemedText style={styles.date} numberOfLines={1}>
+                {trip.title ?? formatDate(trip.startTime)}
+              </ThemedText>
+              {trip.title && (
+                <ThemedText style={styles.subtitle}>
+                  {formatDate(trip.startTime)}
+                </ThemedText>
+              )}
+            </View>
+          </View>
           {trip.status !== "completed" && (
             <View
               style={[
@@ -97,33 +128,65 @@ export function TripCard({ trip, onPress }: TripCardProps) {
           <StatPill
             iconName="clock-outline"
             iconColor="#3b82f6"
-            value={formatDuration(trip.duration)}
+            value={formatDuration(trip.movingTime)}
           />
           <StatPill
             iconName="chart-line"
             iconColor="#f59e0b"
-            value={`${formatSpeed(trip.avgSpeed, unit)} ${unit === "kmh" ? "km/h" : "mph"}`}
+            value={`${formatSpeed(trip.movingAvgSpeed, unit)} ${unit === "kmh" ? "km/h" : "mph"}`}
           />
         </View>
 
-        {/* Max speed */}
-        {trip.maxSpeed > 0 && (
+        {/* Tags */}
+        {trip.tags.length > 0 && (
+          <View style={styles.tagsRow}>
+            {trip.tags.map((tag) => (
+              <View key={tag} style={styles.tag}>
+                <ThemedText style={styles.tagText}>#{tag}</ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Max speed and paused time */}
+        {(trip.maxSpeed > 0 || trip.pausedTime > 0) && (
           <View style={styles.maxSpeedRow}>
-            <MaterialCommunityIcons
-              name="rocket-launch"
-              size={12}
-              color="#ef4444"
-            />
-            <ThemedText style={styles.maxSpeedLabel}>Max:</ThemedText>
-            <ThemedText style={styles.maxSpeedValue}>
-              {formatSpeed(trip.maxSpeed, unit)} {unit === "kmh" ? "km/h" : "mph"}
-            </ThemedText>
+            {trip.maxSpeed > 0 && (
+              <>
+                <MaterialCommunityIcons
+                  name="rocket-launch"
+                  size={12}
+                  color="#ef4444"
+                />
+                <ThemedText style={styles.maxSpeedLabel}>Max:</ThemedText>
+                <ThemedText style={styles.maxSpeedValue}>
+                  {formatSpeed(trip.maxSpeed, unit)} {unit === "kmh" ? "km/h" : "mph"}
+                </ThemedText>
+              </>
+            )}
+            {trip.pausedTime > 0 && (
+              <>
+                <MaterialCommunityIcons
+                  name="pause-circle-outline"
+                  size={12}
+                  color="#71717a"
+                  style={trip.maxSpeed > 0 && styles.pausedIcon}
+                />
+                <ThemedText style={styles.maxSpeedLabel}>
+                  Paused {formatDuration(trip.pausedTime)}
+                </ThemedText>
+              </>
+            )}
           </View>
         )}
       </View>
 
-      {/* Chevron */}
-      <MaterialCommunityIcons name="chevron-right" size={24} color="#52525b" />
+      {/* Chevron, or a check while picked for a merge */}
+      <MaterialCommunityIcons
+        name={isSelected ? "check-circle" : "chevron-right"}
+        size={24}
+        color={isSelected ? "#22c55e" : "#52525b"}
+      />
     </Pressable>
   );
 }
@@ -156,6 +219,10 @@ const styles = StyleSheet.create({
     overflow: "hidden",
     paddingRight: 12,
   },
+  selected: {
+    borderWidth: 1,
+    borderColor: "#22c55e",
+  },
   pressed: {
     opacity: 0.8,
     transform: [{ scale: 0.98 }],
@@ -174,11 +241,24 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     marginBottom: 10,
   },
+  titleRow: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  titleText: {
+    flex: 1,
+  },
   date: {
     fontSize: 15,
     fontWeight: "600",
     color: "#fafafa",
   },
+  subtitle: {
+    fontSize: 12,
+    color: "#71717a",
+  },
   statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 2,
@@ -207,12 +287,32 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: "#a1a1aa",
   },
+  tagsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 8,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: "#3b82f620",
+  },
+  tagText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
   maxSpeedRow: {
     flexDirection: "row",
     alignItems: "center",
     marginTop: 8,
     gap: 4,
   },
+  pausedIcon: {
+    marginLeft: 8,
+  },
   maxSpeedLabel: {
     fontSize: 12,
     color: "#71717a",
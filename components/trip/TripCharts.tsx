@@ -0,0 +1,337 @@
+/**
+ * Trip analysis charts: speed vs time, altitude vs distance, accuracy vs time
+ */
+
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, type LayoutChangeEvent } from "react-native";
+import Svg, { Circle, Line, Path, Rect, Text as SvgText } from "react-native-svg";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+import { ThemedText } from "@/components/themed-text";
+import { CONVERSION } from "@/constants/config";
+import { formatDistance, kmhToMph } from "@/services/speed-calculator";
+import { useSettingsStore } from "@/stores/settings-store";
+import {
+  buildChartGeometry,
+  buildTrackSamples,
+  findNearestChartPoint,
+  type ChartPoint,
+  type TrackSample,
+} from "@/utils/chart";
+import type { LocationPoint, PauseInterval, SpeedUnit } from "@/types";
+
+type ChartMetric = "speed" | "altitude" | "accuracy";
+
+interface MetricConfig {
+  title: string;
+  xAxis: "time" | "distance";
+  color: string;
+  unitLabel: (unit: SpeedUnit) => string;
+  getValue: (sample: TrackSample, unit: SpeedUnit) => number | null;
+}
+
+const toDisplayLength = (meters: number, unit: SpeedUnit) =>
+  unit === "mph" ? meters * CONVERSION.METERS_TO_FEET : meters;
+
+const METRICS: Record<ChartMetric, MetricConfig> = {
+  speed: {
+    title: "Speed",
+    xAxis: "time",
+    color: "#22c55e",
+    unitLabel: (unit) => (unit === "kmh" ? "km/h" : "mph"),
+    getValue: (sample, unit) =>
+      unit === "mph" ? kmhToMph(sample.speed) : sample.speed,
+  },
+  altitude: {
+    title: "Elevation",
+    xAxis: "distance",
+    color: "#3b82f6",
+    unitLabel: (unit) => (unit === "kmh" ? "m" : "ft"),
+    getValue: (sample, unit) =>
+      sample.altitude === null ? null : toDisplayLength(sample.altitude, unit),
+  },
+  accuracy: {
+    title: "GPS Accuracy",
+    xAxis: "time",
+    color: "#f59e0b",
+    unitLabel: (unit) => (unit === "kmh" ? "m" : "ft"),
+    getValue: (sample, unit) =>
+      sample.accuracy === null ? null : toDisplayLength(sample.accuracy, unit),
+  },
+};
+
+const CHART_HEIGHT = 140;
+const AXIS_WIDTH = 40;
+const AXIS_HEIGHT = 18;
+
+interface TripChartsProps {
+  points: LocationPoint[];
+  pauseIntervals: PauseInterval[];
+}
+
+export function TripCharts({ points, pauseIntervals }: TripChartsProps) {
+  const runs = useMemo(
+    () => buildTrackSamples(points, pauseIntervals),
+    [points, pauseIntervals]
+  );
+
+  return (
+    <View style={styles.container}>
+      <TrackChart metric="speed" runs={runs} />
+      <TrackChart metric="altitude" runs={runs} />
+      <TrackChart metric="accuracy" runs={runs} />
+    </View>
+  );
+}
+
+function TrackChart({
+  metric,
+  runs,
+}: {
+  metric: ChartMetric;
+  runs: TrackSample[][];
+}) {
+  const { unit } = useSettingsStore();
+  const [width, setWidth] = useState(0);
+  const [cursor, setCursor] = useState<ChartPoint | null>(null);
+
+  const config = METRICS[metric];
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const firstSample = runs[0]?.[0];
+
+  const geometry = useMemo(() => {
+    if (plotWidth === 0) return null;
+    const getX = (sample: TrackSample) =>
+      config.xAxis === "time" ? sample.timestamp : sample.distance;
+    return buildChartGeometry(
+      runs,
+      getX,
+      (sample) => config.getValue(sample, unit),
+      plotWidth,
+      CHART_HEIGHT
+    );
+  }, [runs, config, unit, plotWidth]);
+
+  // Shade the time between runs so pauses read as deliberate gaps
+  const pauseGaps = useMemo(() => {
+    if (!geometry || config.xAxis !== "time") return [];
+    const gaps: { x: number; width: number }[] = [];
+    for (let i = 1; i < runs.length; i++) {
+      const end = runs[i - 1][runs[i - 1].length - 1];
+      const start = runs[i][0];
+      const from = geometry.points.find((p) => p.sample === end);
+      const to = geometry.points.find((p) => p.sample === start);
+      if (from && to) gaps.push({ x: from.x, width: to.x - from.x });
+    }
+    return gaps;
+  }, [geometry, runs, config.xAxis]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const scrub = (x: number) => {
+    if (!geometry) return;
+    setCursor(findNearestChartPoint(geometry.points, x - AXIS_WIDTH));
+  };
+
+  // Horizontal drags scrub; vertical drags still scroll the screen
+  const gesture = Gesture.Pan()
+    .runOnJS(true)
+    .activeOffsetX([-4, 4])
+    .failOffsetY([-12, 12])
+    .onBegin((event) => scrub(event.x))
+    .onUpdate((event) => scrub(event.x));
+
+  const formatValue = (value: number) =>
+    `${value.toFixed(metric === "speed" ? 1 : 0)} ${config.unitLabel(unit)}`;
+
+  const formatClock = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+
+  const cursorValue = cursor ? config.getValue(cursor.sample, unit) : null;
+  const lastSample = runs[runs.length - 1]?.[runs[runs.length - 1].length - 1];
+
+  return (
+    <View style={styles.chart}>
+      <View style={styles.header}>
+        <ThemedText style={styles.title}>{config.title}</ThemedText>
+        {cursor && cursorValue !== null ? (
+          <ThemedText style={[styles.readout, { color: config.color }]}>
+            {formatValue(cursorValue)}
+          </ThemedText>
+        ) : (
+          geometry && (
+            <ThemedText style={styles.range}>
+              {formatValue(geometry.minY)} – {formatValue(geometry.maxY)}
+            </ThemedText>
+          )
+        )}
+      </View>
+      <ThemedText style={styles.cursorDetail}>
+        {cursor
+          ? `${formatClock(cursor.sample.timestamp)} • ${formatDistance(cursor.sample.distance, unit)}`
+          : "Drag across the chart to inspect"}
+      </ThemedText>
+
+      <View
+        style={{ height: CHART_HEIGHT + AXIS_HEIGHT }}
+        onLayout={handleLayout}
+      >
+        {geometry ? (
+          <GestureDetector gesture={gesture}>
+            <View>
+              <Svg width={width} height={CHART_HEIGHT + AXIS_HEIGHT}>
+                {/* Y axis labels */}
+                <SvgText x={0} y={10} fill="#71717a" fontSize={10}>
+                  {geometry.maxY.toFixed(0)}
+                </SvgText>
+                <SvgText x={0} y={CHART_HEIGHT} fill="#71717a" fontSize={10}>
+                  {geometry.minY.toFixed(0)}
+                </SvgText>
+
+                {/* Grid */}
+                {[0, 0.5, 1].map((ratio) => (
+                  <Line
+                    key={ratio}
+                    x1={AXIS_WIDTH}
+                    x2={width}
+                    y1={ratio * CHART_HEIGHT}
+                    y2={ratio * CHART_HEIGHT}
+                    stroke="#27272a"
+                    strokeWidth={1}
+                  />
+                ))}
+
+                {pauseGaps.map((gap, index) => (
+                  <Rect
+                    key={index}
+                    x={AXIS_WIDTH + gap.x}
+                    y={0}
+                    width={gap.width}
+                    height={CHART_HEIGHT}
+                    fill="#f59e0b14"
+                  />
+                ))}
+
+                {geometry.paths.map((path, index) => (
+                  <Path
+                    key={index}
+                    d={path}
+                    translateX={AXIS_WIDTH}
+                    fill="none"
+                    stroke={config.color}
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                  />
+                ))}
+
+                {/* X axis labels */}
+                {firstSample && lastSample && (
+                  <>
+                    <SvgText
+                      x={AXIS_WIDTH}
+                      y={CHART_HEIGHT + 14}
+                      fill="#71717a"
+                      fontSize={10}
+                    >
+                      {config.xAxis === "time"
+                        ? formatClock(firstSample.timestamp)
+                        : formatDistance(0, unit)}
+                    </SvgText>
+                    <SvgText
+                      x={width}
+                      y={CHART_HEIGHT + 14}
+                      fill="#71717a"
+                      fontSize={10}
+                      textAnchor="end"
+                    >
+                      {config.xAxis === "time"
+                        ? formatClock(lastSample.timestamp)
+                        : formatDistance(lastSample.distance, unit)}
+                    </SvgText>
+                  </>
+                )}
+
+                {cursor && (
+                  <>
+                    <Line
+                      x1={AXIS_WIDTH + cursor.x}
+                      x2={AXIS_WIDTH + cursor.x}
+                      y1={0}
+                      y2={CHART_HEIGHT}
+                      stroke="#a1a1aa"
+                      strokeWidth={1}
+                      strokeDasharray="3,3"
+                    />
+                    <Circle
+                      cx={AXIS_WIDTH + cursor.x}
+                      cy={cursor.y}
+                      r={4}
+                      fill={config.color}
+                      stroke="#fafafa"
+                      strokeWidth={1.5}
+                    />
+                  </>
+                )}
+              </Svg>
+            </View>
+          </GestureDetector>
+        ) : (
+          width > 0 && (
+            <View style={styles.empty}>
+              <ThemedText style={styles.emptyText}>No data recorded</ThemedText>
+            </View>
+          )
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  chart: {
+    backgroundColor: "#18181b",
+    borderRadius: 12,
+    padding: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  readout: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  range: {
+    fontSize: 12,
+    color: "#71717a",
+  },
+  cursorDetail: {
+    fontSize: 12,
+    color: "#a1a1aa",
+    marginTop: 2,
+  },
+  empty: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#71717a",
+  },
+});
@@ -0,0 +1,147 @@
+/**
+ * Editable title, notes, tags and activity type of a trip
+ */
+
+import React, { useState } from "react";
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import type { ActivityType, TripDetails } from "@/types";
+import { ActivityPicker } from "./ActivityPicker";
+
+interface TripDetailsFormProps {
+  details: TripDetails;
+  onSave: (details: TripDetails) => Promise<void>;
+}
+
+export function TripDetailsForm({ details, onSave }: TripDetailsFormProps) {
+  const [title, setTitle] = useState(details.title ?? "");
+  const [notes, setNotes] = useState(details.notes ?? "");
+  const [tags, setTags] = useState(details.tags.join(", "));
+  const [activityType, setActivityType] = useState<ActivityType | null>(
+    details.activityType
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const edited: TripDetails = {
+    title: title.trim() || null,
+    notes: notes.trim() || null,
+    tags: parseTags(tags),
+    activityType,
+  };
+  const isDirty =
+    edited.title !== details.title ||
+    edited.notes !== details.notes ||
+    edited.tags.join("\n") !== details.tags.join("\n") ||
+    edited.activityType !== details.activityType;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(edited);
+      setTags(edited.tags.join(", "));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.label}>Title</ThemedText>
+      <TextInput
+        style={styles.input}
+        value={title}
+        onChangeText={setTitle}
+        placeholder="Untitled trip"
+        placeholderTextColor="#52525b"
+        maxLength={100}
+      />
+
+      <ThemedText style={styles.label}>Activity</ThemedText>
+      <ActivityPicker value={activityType} onChange={setActivityType} />
+
+      <ThemedText style={styles.label}>Tags</ThemedText>
+      <TextInput
+        style={styles.input}
+        value={tags}
+        onChangeText={setTags}
+        placeholder="commute, weekend"
+        placeholderTextColor="#52525b"
+        autoCapitalize="none"
+      />
+
+      <ThemedText style={styles.label}>Notes</ThemedText>
+      <TextInput
+        style={[styles.input, styles.notesInput]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Anything worth remembering"
+        placeholderTextColor="#52525b"
+        multiline
+        textAlignVertical="top"
+      />
+
+      <Pressable
+        style={[styles.saveButton, (!isDirty || isSaving) && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={!isDirty || isSaving}
+      >
+        <ThemedText style={styles.saveButtonText}>
+          {isSaving ? "Saving..." : "Save Details"}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Comma-separated tags, trimmed, without blanks or repeats
+ */
+function parseTags(text: string): string[] {
+  const tags = text
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  return [...new Set(tags)];
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#71717a",
+    marginTop: 4,
+  },
+  input: {
+    backgroundColor: "#27272a",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#fafafa",
+  },
+  notesInput: {
+    minHeight: 80,
+  },
+  saveButton: {
+    marginTop: 8,
+    backgroundColor: "#22c55e",
+    borderRadius: 12,
+    padding: 14,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#0f0f12",
+  },
+});
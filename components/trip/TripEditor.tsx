@@ -0,0 +1,516 @@
+/**
+ * Trim or split a completed trip, with a preview before anything is saved
+ */
+
+import React, { useDeferredValue, useMemo, useRef, useState } from "react";
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  View,
+  type LayoutChangeEvent,
+} from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+import { ThemedText } from "@/components/themed-text";
+import {
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+} from "@/services/speed-calculator";
+import {
+  buildTripTimeline,
+  findTimelineIndex,
+  getTrimRange,
+  previewSplit,
+  previewTripRange,
+  type EditAxis,
+} from "@/services/trip-edit";
+import type { ComputedTripStats } from "@/services/trip-stats";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { LocationPoint, PauseInterval, Trip } from "@/types";
+
+type EditMode = "trim" | "split";
+
+interface TripEditorProps {
+  trip: Trip;
+  points: LocationPoint[];
+  pauseIntervals: PauseInterval[];
+  onTrim: (startTime: number, endTime: number) => Promise<void>;
+  onSplit: (splitTime: number) => Promise<void>;
+}
+
+// One column of the before/after table
+interface PreviewColumn {
+  title: string;
+  stats: Pick<
+    ComputedTripStats,
+    "totalDistance" | "movingTime" | "movingAvgSpeed" | "maxSpeed"
+  >;
+}
+
+export function TripEditor({
+  trip,
+  points,
+  pauseIntervals,
+  onTrim,
+  onSplit,
+}: TripEditorProps) {
+  const { unit } = useSettingsStore();
+  const [mode, setMode] = useState<EditMode>("trim");
+  const [axis, setAxis] = useState<EditAxis>("time");
+  const [range, setRange] = useState<[number, number]>([0, 1]);
+  const [splitAt, setSplitAt] = useState(0.5);
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  // Thumb being dragged while trimming
+  const activeThumb = useRef<0 | 1>(0);
+
+  const timeline = useMemo(() => buildTripTimeline(points), [points]);
+  const lastIndex = points.length - 1;
+
+  // Slider positions snap to stored points
+  const startIndex = findTimelineIndex(timeline, axis, range[0]);
+  const endIndex = findTimelineIndex(timeline, axis, range[1]);
+  const splitIndex = Math.min(
+    Math.max(findTimelineIndex(timeline, axis, splitAt), 1),
+    lastIndex
+  );
+
+  // Stats lag behind the thumbs while dragging
+  const previewStart = useDeferredValue(startIndex);
+  const previewEnd = useDeferredValue(endIndex);
+  const previewSplitIndex = useDeferredValue(splitIndex);
+  const columns = useMemo<PreviewColumn[]>(() => {
+    if (mode === "split") {
+      const [first, second] = previewSplit(
+        trip,
+        points,
+        pauseIntervals,
+        previewSplitIndex
+      );
+      return [
+        { title: "Part 1", stats: first.stats },
+        { title: "Part 2", stats: second.stats },
+      ];
+    }
+
+    const { startTime, endTime } = getTrimRange(
+      trip,
+      points,
+      previewStart,
+      previewEnd
+    );
+    return [
+      { title: "Original", stats: trip },
+      {
+        title: "Trimmed",
+        stats: previewTripRange(points, pauseIntervals, startTime, endTime).stats,
+      },
+    ];
+  }, [
+    mode,
+    trip,
+    points,
+    pauseIntervals,
+    previewStart,
+    previewEnd,
+    previewSplitIndex,
+  ]);
+
+  const valueFraction = (index: number) => {
+    const first = axisValue(timeline[0], axis);
+    const span = axisValue(timeline[lastIndex], axis) - first;
+    return span > 0 ? (axisValue(timeline[index], axis) - first) / span : 0;
+  };
+
+  const formatPosition = (index: number) =>
+    axis === "time"
+      ? formatDuration((points[index].timestamp - trip.startTime) / 1000)
+      : formatDistance(timeline[index].distance, unit);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const fractionAt = (x: number) =>
+    trackWidth > 0 ? Math.min(Math.max(x / trackWidth, 0), 1) : 0;
+
+  const moveThumb = (x: number) => {
+    const fraction = fractionAt(x);
+    if (mode === "split") {
+      setSplitAt(fraction);
+    } else if (activeThumb.current === 0) {
+      setRange(([, end]) => [Math.min(fraction, end), end]);
+    } else {
+      setRange(([start]) => [start, Math.max(fraction, start)]);
+    }
+  };
+
+  const drag = Gesture.Pan()
+    .runOnJS(true)
+    .onBegin((event) => {
+      // Grab whichever trim thumb is closer
+      const fraction = fractionAt(event.x);
+      activeThumb.current =
+        Math.abs(fraction - range[0]) <= Math.abs(fraction - range[1]) ? 0 : 1;
+      moveThumb(event.x);
+    })
+    .onUpdate((event) => moveThumb(event.x));
+
+  const changeAxis = (next: EditAxis) => {
+    setAxis(next);
+    setRange([0, 1]);
+    setSplitAt(0.5);
+  };
+
+  const apply = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleTrim = () => {
+    const { startTime, endTime } = getTrimRange(trip, points, startIndex, endIndex);
+    const removed = points.length - (endIndex - startIndex + 1);
+    Alert.alert(
+      "Trim Trip",
+      `Remove ${removed} points outside the selected range? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Trim",
+          style: "destructive",
+          onPress: () => apply(() => onTrim(startTime, endTime)),
+        },
+      ]
+    );
+  };
+
+  const handleSplit = () => {
+    Alert.alert(
+      "Split Trip",
+      `Split this trip into two at ${formatPosition(splitIndex)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Split",
+          onPress: () => apply(() => onSplit(points[splitIndex].timestamp)),
+        },
+      ]
+    );
+  };
+
+  const canTrim =
+    endIndex > startIndex && (startIndex > 0 || endIndex < lastIndex);
+  const startFraction = valueFraction(startIndex);
+  const endFraction = valueFraction(endIndex);
+  const splitFraction = valueFraction(splitIndex);
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <ToggleGroup
+          options={[
+            { value: "trim", label: "Trim" },
+            { value: "split", label: "Split" },
+          ]}
+          value={mode}
+          onChange={setMode}
+        />
+        <ToggleGroup
+          options={[
+            { value: "time", label: "Time" },
+            { value: "distance", label: "Distance" },
+          ]}
+          value={axis}
+          onChange={changeAxis}
+        />
+      </View>
+
+      {/* Slider */}
+      <GestureDetector gesture={drag}>
+        <View style={styles.trackHitArea} onLayout={handleLayout}>
+          <View style={styles.track}>
+            {mode === "trim" ? (
+              <View
+                style={[
+                  styles.trackFill,
+                  {
+                    left: `${startFraction * 100}%`,
+                    width: `${(endFraction - startFraction) * 100}%`,
+                  },
+                ]}
+              />
+            ) : (
+              <View
+                style={[styles.trackFill, { left: 0, width: `${splitFraction * 100}%` }]}
+              />
+            )}
+          </View>
+          {mode === "trim" ? (
+            <>
+              <View style={[styles.thumb, { left: startFraction * trackWidth - 8 }]} />
+              <View style={[styles.thumb, { left: endFraction * trackWidth - 8 }]} />
+            </>
+          ) : (
+            <View
+              style={[
+                styles.thumb,
+                styles.splitThumb,
+                { left: splitFraction * trackWidth - 8 },
+              ]}
+            />
+          )}
+        </View>
+      </GestureDetector>
+
+      <View style={styles.positionRow}>
+        {mode === "trim" ? (
+          <>
+            <ThemedText style={styles.positionText}>
+              Start {formatPosition(startIndex)}
+            </ThemedText>
+            <ThemedText style={styles.positionText}>
+              End {formatPosition(endIndex)}
+            </ThemedText>
+          </>
+        ) : (
+          <ThemedText style={styles.positionText}>
+            Split at {formatPosition(splitIndex)}
+          </ThemedText>
+        )}
+      </View>
+
+      {/* Preview */}
+      <View style={styles.previewTable}>
+        <PreviewRow label="" values={columns.map((column) => column.title)} isHeader />
+        <PreviewRow
+          label="Distance"
+          values={columns.map((column) =>
+            formatDistance(column.stats.totalDistance, unit)
+          )}
+        />
+        <PreviewRow
+          label="Moving time"
+          values={columns.map((column) => formatDuration(column.stats.movingTime))}
+        />
+        <PreviewRow
+          label="Moving avg"
+          values={columns.map(
+            (column) =>
+              `${formatSpeed(column.stats.movingAvgSpeed, unit)} ${speedUnit}`
+          )}
+        />
+        <PreviewRow
+          label="Max speed"
+          values={columns.map(
+            (column) => `${formatSpeed(column.stats.maxSpeed, unit)} ${speedUnit}`
+          )}
+        />
+      </View>
+
+      <ThemedText style={styles.hint}>
+        Nothing is changed until you confirm.
+      </ThemedText>
+
+      <Pressable
+        style={[
+          styles.applyButton,
+          (isWorking || (mode === "trim" && !canTrim)) && styles.applyButtonDisabled,
+        ]}
+        onPress={mode === "trim" ? handleTrim : handleSplit}
+        disabled={isWorking || (mode === "trim" && !canTrim)}
+      >
+        <ThemedText style={styles.applyButtonText}>
+          {mode === "trim" ? "Trim Trip" : "Split Trip"}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+function ToggleGroup<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <View style={styles.toggleGroup}>
+      {options.map((option) => (
+        <Pressable
+          key={option.value}
+          style={[styles.toggleButton, value === option.value && styles.toggleButtonActive]}
+          onPress={() => onChange(option.value)}
+        >
+          <ThemedText
+            style={[styles.toggleText, value === option.value && styles.toggleTextActive]}
+          >
+            {option.label}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function PreviewRow({
+  label,
+  values,
+  isHeader = false,
+}: {
+  label: string;
+  values: string[];
+  isHeader?: boolean;
+}) {
+  return (
+    <View style={styles.previewRow}>
+      <ThemedText style={styles.previewLabel}>{label}</ThemedText>
+      {values.map((value, index) => (
+        <ThemedText
+          key={index}
+          style={[styles.previewValue, isHeader && styles.previewHeader]}
+        >
+          {value}
+        </ThemedText>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Slider value of a timeline point
+ */
+function axisValue(
+  point: { timestamp: number; distance: number },
+  axis: EditAxis
+): number {
+  return axis === "time" ? point.timestamp : point.distance;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  toggleGroup: {
+    flexDirection: "row",
+    backgroundColor: "#27272a",
+    borderRadius: 10,
+    padding: 2,
+  },
+  toggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  toggleButtonActive: {
+    backgroundColor: "#3f3f46",
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#71717a",
+  },
+  toggleTextActive: {
+    color: "#fafafa",
+  },
+  trackHitArea: {
+    height: 24,
+    justifyContent: "center",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#3f3f46",
+    overflow: "hidden",
+  },
+  trackFill: {
+    position: "absolute",
+    height: "100%",
+    backgroundColor: "#22c55e",
+  },
+  thumb: {
+    position: "absolute",
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+  },
+  splitThumb: {
+    backgroundColor: "#f59e0b",
+  },
+  positionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  positionText: {
+    fontSize: 13,
+    color: "#a1a1aa",
+    fontVariant: ["tabular-nums"],
+  },
+  previewTable: {
+    backgroundColor: "#0f0f12",
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  previewLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: "#71717a",
+  },
+  previewValue: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#fafafa",
+    textAlign: "right",
+    fontVariant: ["tabular-nums"],
+  },
+  previewHeader: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#a1a1aa",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#71717a",
+    textAlign: "center",
+  },
+  applyButton: {
+    backgroundColor: "#22c55e",
+    borderRadius: 12,
+    padding: 14,
+    alignItems: "center",
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#0f0f12",
+  },
+});
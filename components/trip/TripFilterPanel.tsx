@@ -0,0 +1,466 @@
+/**
+ * Filter and sort options for the trip history
+ */
+
+import React, { useState } from "react";
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/themed-text";
+import { CONVERSION, HISTORY_CONFIG } from "@/constants/config";
+import { mphToKmh } from "@/services/speed-calculator";
+import { useSettingsStore } from "@/stores/settings-store";
+import type {
+  SpeedUnit,
+  TripFilter,
+  TripSort,
+  TripSortField,
+  TripStatus,
+} from "@/types";
+
+type DatePreset = "all" | "today" | "week" | "month" | "year" | "custom";
+
+// Panel fields as typed, in the display unit
+interface FilterDraft {
+  datePreset: DatePreset;
+  from: string; // YYYY-MM-DD
+  to: string;
+  minDistance: string;
+  maxDistance: string;
+  minDuration: string; // minutes
+  maxDuration: string;
+  minMaxSpeed: string;
+  maxMaxSpeed: string;
+  minAvgSpeed: string;
+  maxAvgSpeed: string;
+  statuses: TripStatus[];
+}
+
+interface TripFilterPanelProps {
+  visible: boolean;
+  sort: TripSort;
+  onApply: (filter: TripFilter, sort: TripSort) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: FilterDraft = {
+  datePreset: "all",
+  from: "",
+  to: "",
+  minDistance: "",
+  maxDistance: "",
+  minDuration: "",
+  maxDuration: "",
+  minMaxSpeed: "",
+  maxMaxSpeed: "",
+  minAvgSpeed: "",
+  maxAvgSpeed: "",
+  statuses: [],
+};
+
+const DATE_PRESETS: { value: DatePreset; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today" },
+  { value: "week", label: "7 days" },
+  { value: "month", label: "30 days" },
+  { value: "year", label: "This year" },
+  { value: "custom", label: "Custom" },
+];
+
+const SORT_FIELDS: { value: TripSortField; label: string }[] = [
+  { value: "startTime", label: "Date" },
+  { value: "distance", label: "Distance" },
+  { value: "duration", label: "Duration" },
+  { value: "maxSpeed", label: "Max speed" },
+  { value: "avgSpeed", label: "Avg speed" },
+];
+
+const STATUSES: TripStatus[] = ["completed", "active", "paused"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function TripFilterPanel({
+  visible,
+  sort,
+  onApply,
+  onClose,
+}: TripFilterPanelProps) {
+  const insets = useSafeAreaInsets();
+  const { unit } = useSettingsStore();
+  // The draft outlives the modal so reopening shows the applied values
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+  const [draftSort, setDraftSort] = useState<TripSort>(sort);
+
+  const distanceUnit = unit === "kmh" ? "km" : "mi";
+  const speedUnit = unit === "kmh" ? "km/h" : "mph";
+
+  const update = (changes: Partial<FilterDraft>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleStatus = (status: TripStatus) =>
+    update({
+      statuses: draft.statuses.includes(status)
+        ? draft.statuses.filter((s) => s !== status)
+        : [...draft.statuses, status],
+    });
+
+  const handleApply = () => {
+    onApply(buildFilter(draft, unit), draftSort);
+    onClose();
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_DRAFT);
+    setDraftSort(HISTORY_CONFIG.defaultSort);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={handleReset}>
+            <ThemedText style={styles.headerAction}>Reset</ThemedText>
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Filter & Sort</ThemedText>
+          <Pressable onPress={onClose}>
+            <ThemedText style={styles.headerAction}>Cancel</ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <ThemedText style={styles.sectionTitle}>Sort By</ThemedText>
+          <ChipRow
+            options={SORT_FIELDS}
+            isSelected={(value) => draftSort.field === value}
+            onPress={(field) => setDraftSort({ ...draftSort, field })}
+          />
+          <ChipRow
+            options={[
+              { value: "desc" as const, label: "Descending" },
+              { value: "asc" as const, label: "Ascending" },
+            ]}
+            isSelected={(value) => draftSort.direction === value}
+            onPress={(direction) => setDraftSort({ ...draftSort, direction })}
+          />
+
+          <ThemedText style={styles.sectionTitle}>Date</ThemedText>
+          <ChipRow
+            options={DATE_PRESETS}
+            isSelected={(value) => draft.datePreset === value}
+            onPress={(datePreset) => update({ datePreset })}
+          />
+          {draft.datePreset === "custom" && (
+            <RangeInputs
+              label="YYYY-MM-DD"
+              min={draft.from}
+              max={draft.to}
+              onChangeMin={(from) => update({ from })}
+              onChangeMax={(to) => update({ to })}
+              keyboardType="numbers-and-punctuation"
+            />
+          )}
+
+          <ThemedText style={styles.sectionTitle}>Distance ({distanceUnit})</ThemedText>
+          <RangeInputs
+            min={draft.minDistance}
+            max={draft.maxDistance}
+            onChangeMin={(minDistance) => update({ minDistance })}
+            onChangeMax={(maxDistance) => update({ maxDistance })}
+          />
+
+          <ThemedText style={styles.sectionTitle}>Duration (minutes)</ThemedText>
+          <RangeInputs
+            min={draft.minDuration}
+            max={draft.maxDuration}
+            onChangeMin={(minDuration) => update({ minDuration })}
+            onChangeMax={(maxDuration) => update({ maxDuration })}
+          />
+
+          <ThemedText style={styles.sectionTitle}>Max Speed ({speedUnit})</ThemedText>
+          <RangeInputs
+            min={draft.minMaxSpeed}
+            max={draft.maxMaxSpeed}
+            onChangeMin={(minMaxSpeed) => update({ minMaxSpeed })}
+            onChangeMax={(maxMaxSpeed) => update({ maxMaxSpeed })}
+          />
+
+          <ThemedText style={styles.sectionTitle}>Avg Speed ({speedUnit})</ThemedText>
+          <RangeInputs
+            min={draft.minAvgSpeed}
+            max={draft.maxAvgSpeed}
+            onChangeMin={(minAvgSpeed) => update({ minAvgSpeed })}
+            onChangeMax={(maxAvgSpeed) => update({ maxAvgSpeed })}
+          />
+
+          <ThemedText style={styles.sectionTitle}>Status</ThemedText>
+          <ChipRow
+            options={STATUSES.map((status) => ({
+              value: status,
+              label: status.charAt(0).toUpperCase() + status.slice(1),
+            }))}
+            isSelected={(value) => draft.statuses.includes(value)}
+            onPress={toggleStatus}
+          />
+        </ScrollView>
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+          <Pressable style={styles.applyButton} onPress={handleApply}>
+            <ThemedText style={styles.applyButtonText}>Show Trips</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function ChipRow<T extends string>({
+  options,
+  isSelected,
+  onPress,
+}: {
+  options: { value: T; label: string }[];
+  isSelected: (value: T) => boolean;
+  onPress: (value: T) => void;
+}) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <Pressable
+          key={option.value}
+          style={[styles.chip, isSelected(option.value) && styles.chipSelected]}
+          onPress={() => onPress(option.value)}
+        >
+          <ThemedText
+            style={[styles.chipText, isSelected(option.value) && styles.chipTextSelected]}
+          >
+            {option.label}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function RangeInputs({
+  label,
+  min,
+  max,
+  onChangeMin,
+  onChangeMax,
+  keyboardType = "decimal-pad",
+}: {
+  label?: string;
+  min: string;
+  max: string;
+  onChangeMin: (text: string) => void;
+  onChangeMax: (text: string) => void;
+  keyboardType?: "decimal-pad" | "numbers-and-punctuation";
+}) {
+  return (
+    <View style={styles.rangeRow}>
+      <TextInput
+        style={styles.input}
+        value={min}
+        onChangeText={onChangeMin}
+        placeholder={label ? `From ${label}` : "Min"}
+        placeholderTextColor="#52525b"
+        keyboardType={keyboardType}
+      />
+      <ThemedText style={styles.rangeDash}>–</ThemedText>
+      <TextInput
+        style={styles.input}
+        value={max}
+        onChangeText={onChangeMax}
+        placeholder={label ? `To ${label}` : "Max"}
+        placeholderTextColor="#52525b"
+        keyboardType={keyboardType}
+      />
+    </View>
+  );
+}
+
+/**
+ * Turn the typed draft into a filter in stored units
+ * Blank or unreadable fields don't filter
+ */
+function buildFilter(draft: FilterDraft, unit: SpeedUnit): TripFilter {
+  const metersPerUnit =
+    1 / (unit === "kmh" ? CONVERSION.METERS_TO_KM : CONVERSION.METERS_TO_MILES);
+  const toMeters = (text: string) => scale(parseField(text), metersPerUnit);
+  const toKmh = (text: string) => {
+    const value = parseField(text);
+    return value !== undefined && unit === "mph" ? mphToKmh(value) : value;
+  };
+  const toSeconds = (text: string) => scale(parseField(text), 60);
+
+  return {
+    ...getDateRange(draft),
+    minDistance: toMeters(draft.minDistance),
+    maxDistance: toMeters(draft.maxDistance),
+    minDuration: toSeconds(draft.minDuration),
+    maxDuration: toSeconds(draft.maxDuration),
+    minMaxSpeed: toKmh(draft.minMaxSpeed),
+    maxMaxSpeed: toKmh(draft.maxMaxSpeed),
+    minAvgSpeed: toKmh(draft.minAvgSpeed),
+    maxAvgSpeed: toKmh(draft.maxAvgSpeed),
+    statuses: draft.statuses.length > 0 ? draft.statuses : undefined,
+  };
+}
+
+/**
+ * Start-time bounds for the chosen date preset, worked out now
+ */
+function getDateRange(draft: FilterDraft): Pick<TripFilter, "startDate" | "endDate"> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  switch (draft.datePreset) {
+    case "today":
+      return { startDate: today.getTime() };
+    case "week":
+      return { startDate: today.getTime() - 6 * DAY_MS };
+    case "month":
+      return { startDate: today.getTime() - 29 * DAY_MS };
+    case "year":
+      return { startDate: new Date(today.getFullYear(), 0, 1).getTime() };
+    case "custom": {
+      const to = parseDate(draft.to);
+      return {
+        startDate: parseDate(draft.from),
+        // The "to" day is included
+        endDate: to !== undefined ? to + DAY_MS : undefined,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * A typed number, or undefined when blank or not a number
+ */
+function parseField(text: string): number | undefined {
+  const value = parseFloat(text.replace(",", "."));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function scale(value: number | undefined, factor: number): number | undefined {
+  return value !== undefined ? value * factor : undefined;
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD date
+ */
+function parseDate(text: string): number | undefined {
+  const match = text.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#0f0f12",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#27272a",
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#fafafa",
+  },
+  headerAction: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  content: {
+    padding: 16,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#71717a",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#18181b",
+  },
+  chipSelected: {
+    backgroundColor: "#22c55e20",
+    borderWidth: 1,
+    borderColor: "#22c55e",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#a1a1aa",
+  },
+  chipTextSelected: {
+    color: "#22c55e",
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  rangeDash: {
+    color: "#71717a",
+  },
+  input: {
+    flex: 1,
+    backgroundColor: "#18181b",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#fafafa",
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#27272a",
+  },
+  applyButton: {
+    backgroundColor: "#22c55e",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#0f0f12",
+  },
+});
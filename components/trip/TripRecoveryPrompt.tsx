@@ -0,0 +1,126 @@
+/**
+ * Prompt for an active trip that stopped recording for a while
+ */
+
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { formatDuration } from "@/services/speed-calculator";
+import type { RecoveryChoice, TripRecovery } from "@/services/trip-recovery";
+
+interface TripRecoveryPromptProps {
+  recovery: TripRecovery;
+  onChoose: (choice: RecoveryChoice) => Promise<void>;
+}
+
+const OPTIONS: { choice: RecoveryChoice; title: string; subtitle: string }[] = [
+  {
+    choice: "resume",
+    title: "Resume trip",
+    subtitle: "Keep recording; the gap counts as paused time",
+  },
+  {
+    choice: "end",
+    title: "End at last point",
+    subtitle: "Finish the trip where recording stopped",
+  },
+  {
+    choice: "split",
+    title: "Split at gap",
+    subtitle: "Finish it before the gap and start a new trip after",
+  },
+];
+
+export function TripRecoveryPrompt({ recovery, onChoose }: TripRecoveryPromptProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const { trip, gap, pointsAfterGap } = recovery;
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  const handleChoose = async (choice: RecoveryChoice) => {
+    setIsWorking(true);
+    try {
+      await onChoose(choice);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons name="alert-circle-outline" size={22} color="#f59e0b" />
+        <ThemedText style={styles.title}>Trip {trip.id} was interrupted</ThemedText>
+      </View>
+
+      <ThemedText style={styles.message}>
+        No GPS fixes were recorded for {formatDuration((gap.end - gap.start) / 1000)}
+        {" "}from {formatTime(gap.start)}
+        {pointsAfterGap > 0
+          ? `, then ${pointsAfterGap} more were recorded.`
+          : ". The app may have been closed by the system."}
+      </ThemedText>
+
+      {OPTIONS.map((option) => (
+        <Pressable
+          key={option.choice}
+          style={[styles.option, isWorking && styles.optionDisabled]}
+          onPress={() => handleChoose(option.choice)}
+          disabled={isWorking}
+        >
+          <ThemedText style={styles.optionTitle}>{option.title}</ThemedText>
+          <ThemedText style={styles.optionSubtitle}>{option.subtitle}</ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#18181b",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#f59e0b40",
+    padding: 16,
+    gap: 10,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#fafafa",
+  },
+  message: {
+    fontSize: 13,
+    color: "#a1a1aa",
+    lineHeight: 18,
+  },
+  option: {
+    backgroundColor: "#27272a",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fafafa",
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    color: "#71717a",
+    marginTop: 2,
+  },
+});
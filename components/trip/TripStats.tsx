@@ -16,9 +16,11 @@ import { useSettingsStore } from "@/stores/settings-store";
 
 interface TripStatsProps {
   distance: number; // meters
-  avgSpeed: number; // km/h
+  avgSpeed: number; // km/h, over moving time
   maxSpeed: number; // km/h
-  duration: number; // seconds
+  duration: number; // seconds of moving time
+  elapsedTime?: number; // seconds, wall-clock including pauses
+  pausedTime?: number; // seconds
   compact?: boolean;
 }
 
@@ -27,6 +29,8 @@ export function TripStats({
   avgSpeed,
   maxSpeed,
   duration,
+  elapsedTime,
+  pausedTime = 0,
   compact = false,
 }: TripStatsProps) {
   const { unit } = useSettingsStore();
@@ -65,7 +69,7 @@ export function TripStats({
           iconColor="#22c55e"
         />
         <StatItem
-          label="Duration"
+          label="Moving Time"
           value={formatDuration(duration)}
           iconName="clock-outline"
           iconColor="#3b82f6"
@@ -85,6 +89,16 @@ export function TripStats({
           iconColor="#ef4444"
         />
       </View>
+      {pausedTime > 0 && (
+        <View style={styles.pauseRow}>
+          <MaterialCommunityIcons name="pause-circle-outline" size={14} color="#71717a" />
+          <ThemedText style={styles.pauseText}>
+            {elapsedTime !== undefined &&
+              `Elapsed ${formatDuration(elapsedTime)} • `}
+            Paused {formatDuration(pausedTime)}
+          </ThemedText>
+        </View>
+      )}
     </View>
   );
 }
@@ -157,6 +171,17 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#fafafa",
   },
+  pauseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  pauseText: {
+    fontSize: 12,
+    color: "#71717a",
+    fontWeight: "500",
+  },
   compactContainer: {
     flexDirection: "row",
     alignItems: "center",
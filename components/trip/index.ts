@@ -5,3 +5,13 @@
 export { TripCard } from './TripCard';
 export { TripStats } from './TripStats';
 export { StartStopButton } from './StartStopButton';
+export { RouteMap } from './RouteMap';
+export { TripCharts } from './TripCharts';
+export { ReplayControls } from './ReplayControls';
+export { TripRecoveryPrompt } from './TripRecoveryPrompt';
+export { TripEditor } from './TripEditor';
+export { ActivityPicker } from './ActivityPicker';
+export { TripDetailsForm } from './TripDetailsForm';
+export { TripFilterPanel } from './TripFilterPanel';
+export { LapButton } from './LapButton';
+export { SplitTable } from './SplitTable';
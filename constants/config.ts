@@ -4,6 +4,16 @@
 
 import * as Location from 'expo-location';
 
+import type {
+  ActivityType,
+  PerformanceTarget,
+  SpeedLimitProfile,
+  SpeedUnit,
+  StatsPeriod,
+  TripSort,
+  VoiceTrigger,
+} from '@/types';
+
 // GPS tracking configuration
 export const GPS_CONFIG = {
   // High accuracy for speed measurement
@@ -19,6 +29,42 @@ export const GPS_CONFIG = {
 // Background task configuration
 export const BACKGROUND_LOCATION_TASK = 'background-location-task';
 
+// Merging the foreground and background location streams
+export const INGEST_CONFIG = {
+  // Fixes this close in time and space are the same fix (ms, meters)
+  duplicateTime: 250,
+  duplicateDistance: 1,
+  // Recently delivered fixes kept for duplicate checks
+  historySize: 32,
+} as const;
+
+// Write-behind buffer for tracked points
+export const TRACK_WRITE_CONFIG = {
+  // Queued writes that trigger a flush
+  batchSize: 20,
+  // Longest a queued write waits before a flush (ms)
+  flushInterval: 10000,
+  // Journal of unflushed writes, replayed after a crash
+  journalName: 'track-journal.jsonl',
+  // Journal lines that could not be read or replayed, kept for diagnosis
+  quarantineName: 'track-journal-quarantine.jsonl',
+} as const;
+
+// Recovering an active trip after the app was not running
+export const RECOVERY_CONFIG = {
+  // Unpaused stretch without fixes that counts as a gap (ms)
+  gapThreshold: 5 * 60 * 1000,
+} as const;
+
+// Changes smaller than these are not reported by trip recompute
+export const RECOMPUTE_CONFIG = {
+  distanceTolerance: 1, // meters
+  speedTolerance: 0.05, // km/h
+  timeTolerance: 1, // seconds
+  // Reach from the start beyond which a recomputed distance of 0 is refused (meters)
+  minMovedDistance: 200,
+} as const;
+
 // Stationary detection
 export const STATIONARY_CONFIG = {
   // Speed below which user is considered stationary (km/h)
@@ -27,18 +73,154 @@ export const STATIONARY_CONFIG = {
   duration: 5,
 } as const;
 
-// Speedometer scales
-export const SPEED_SCALES = {
-  kmh: {
-    max: 220,
-    majorTicks: [0, 20, 40, 60, 80, 100, 120, 140, 160, 180, 200, 220],
-    minorTickCount: 4,
+// Kalman filter tuning for fusing GPS position and Doppler speed
+export const KALMAN_CONFIG = {
+  // Expected acceleration noise (m/s²) - how quickly velocity may change
+  accelerationNoise: 2.5,
+  // Doppler speed measurement standard deviation (m/s)
+  speedNoise: 0.5,
+  // Velocity uncertainty when a new track starts (m/s)
+  initialVelocityStdDev: 10,
+  // Accuracy assumed when the GPS doesn't report one (meters)
+  defaultAccuracy: 15,
+  // Fixes with reported accuracy worse than this are discarded (meters)
+  maxAccuracy: 50,
+  // Chi-square gate for the position innovation (2 DOF, 99.9%)
+  outlierGate: 13.8,
+  // Consecutive outliers before the filter re-anchors on the new fix
+  maxConsecutiveOutliers: 3,
+  // Gap in fixes after which the filter restarts (seconds)
+  maxGap: 30,
+  // Doppler speed below which the receiver is treated as stationary (m/s)
+  stationarySpeed: 0.5,
+} as const;
+
+// Distance accumulation gates applied between consecutive accepted fixes
+export const DISTANCE_GATE_CONFIG = {
+  // Implied speed above which a step is treated as a teleport (m/s, ~360 km/h)
+  maxImpliedSpeed: 100,
+  // Implied acceleration above which a step is rejected (m/s², ~1.5 g)
+  maxImpliedAcceleration: 15,
+  // Accuracy at or below which position-derived distance is fully trusted (meters)
+  trustedAccuracy: 10,
+} as const;
+
+// Speedometer gauge ticks; the top of the scale comes from the activity
+export const GAUGE_CONFIG = {
+  // Candidate spacings between labelled ticks, smallest first
+  majorTickSteps: [1, 2, 5, 10, 20, 40, 50, 100],
+  // Most labelled ticks that fit around the dial
+  maxMajorTicks: 14,
+  minorTickCount: 4,
+} as const;
+
+// Per-activity defaults, applied when the activity is picked
+export const ACTIVITY_PROFILES: Record<
+  ActivityType,
+  {
+    label: string;
+    icon: string; // MaterialCommunityIcons name
+    maxSpeedScale: Record<SpeedUnit, number>;
+    autoPauseThreshold: Record<SpeedUnit, number>; // in that unit
+  }
+> = {
+  car: {
+    label: 'Car',
+    icon: 'car',
+    maxSpeedScale: { kmh: 220, mph: 140 },
+    autoPauseThreshold: { kmh: 5, mph: 3 },
+  },
+  motorbike: {
+    label: 'Motorbike',
+    icon: 'motorbike',
+    maxSpeedScale: { kmh: 260, mph: 160 },
+    autoPauseThreshold: { kmh: 5, mph: 3 },
+  },
+  bicycle: {
+    label: 'Bicycle',
+    icon: 'bicycle',
+    maxSpeedScale: { kmh: 60, mph: 40 },
+    autoPauseThreshold: { kmh: 3, mph: 2 },
   },
-  mph: {
-    max: 140,
-    majorTicks: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140],
-    minorTickCount: 4,
+  run: {
+    label: 'Run',
+    icon: 'run',
+    maxSpeedScale: { kmh: 30, mph: 20 },
+    autoPauseThreshold: { kmh: 2, mph: 1 },
   },
+  walk: {
+    label: 'Walk',
+    icon: 'walk',
+    maxSpeedScale: { kmh: 12, mph: 8 },
+    autoPauseThreshold: { kmh: 1, mph: 1 },
+  },
+  train: {
+    label: 'Train',
+    icon: 'train',
+    maxSpeedScale: { kmh: 320, mph: 200 },
+    autoPauseThreshold: { kmh: 5, mph: 3 },
+  },
+};
+
+// Trip history list
+export const HISTORY_CONFIG = {
+  // Trips loaded per page
+  pageSize: 30,
+  // Wait after the last keystroke before searching (ms)
+  searchDelay: 300,
+  defaultSort: { field: 'startTime', direction: 'desc' } as TripSort,
+} as const;
+
+// Statistics dashboard
+export const STATS_CONFIG = {
+  // Periods shown in the chart, ending with the current one
+  periodCounts: { week: 12, month: 12, year: 5 } as Record<StatsPeriod, number>,
+  // Shorter trips can't set the best average (meters)
+  minRecordDistance: 1000,
+} as const;
+
+// Trip replay
+export const REPLAY_CONFIG = {
+  // Playback speed multipliers
+  rates: [1, 4, 16, 60],
+  // Playback clock tick (ms)
+  tickInterval: 100,
+  // Time without a fix after which speed reads 0, as in live tracking (ms)
+  speedDecay: 3000,
+} as const;
+
+// GPX export/import
+export const GPX_CONFIG = {
+  // Typical user range error, converts accuracy (m) to and from HDOP
+  userRangeError: 5,
+  // Minimum movement before a new course is computed (meters)
+  minCourseDistance: 2,
+} as const;
+
+// Streaming export
+export const EXPORT_CONFIG = {
+  // Location points read from SQLite per query
+  pageSize: 1000,
+  // Buffered characters before appending to the file
+  flushSize: 64 * 1024,
+} as const;
+
+// Speed bands for coloring routes (upper bound in the display unit)
+export const ROUTE_SPEED_BANDS = {
+  kmh: [
+    { max: 30, color: '#3b82f6' },
+    { max: 60, color: '#22c55e' },
+    { max: 90, color: '#eab308' },
+    { max: 120, color: '#f97316' },
+    { max: Infinity, color: '#ef4444' },
+  ],
+  mph: [
+    { max: 20, color: '#3b82f6' },
+    { max: 40, color: '#22c55e' },
+    { max: 55, color: '#eab308' },
+    { max: 75, color: '#f97316' },
+    { max: Infinity, color: '#ef4444' },
+  ],
 } as const;
 
 // Default settings
@@ -47,12 +229,121 @@ export const DEFAULT_SETTINGS = {
   speedometerMode: 'analog' as const,
   maxSpeedScale: 220,
   autoPauseEnabled: false, // Disabled by default - user can enable in settings
-  autoPauseThreshold: 2, // 2 km/h threshold for walking
+  autoPauseThreshold: 5, // car default, see ACTIVITY_PROFILES
   keepScreenOn: true,
+  activityType: 'car' as const,
+  speedAlertEnabled: false,
+  speedLimitProfiles: [
+    { id: 'city', name: 'City', limit: 50 },
+    { id: 'highway', name: 'Highway', limit: 100 },
+  ] as SpeedLimitProfile[],
+  activeSpeedLimitId: 'city',
+  speedAlertTolerance: 5, // km/h, converted with the unit
+  speedAlertDelay: 3,
+  voiceEnabled: false,
+  voiceTrigger: 'distance' as VoiceTrigger,
+  voiceDistanceInterval: 1,
+  voiceTimeInterval: 5,
+  voiceSpeedAlerts: true,
+  voiceAutoPause: true,
+  performanceTargets: ['0-60mph', '0-100kmh', '60-100kmh', 'quarter-mile'] as string[],
+  brakingTargetSpeed: 100, // km/h, converted with the unit
+  brakingLabel: '',
+  hudBrightness: 1,
+} as const;
+
+// Speed limit alerts
+export const SPEED_ALERT_CONFIG = {
+  // Step of the limit and tolerance buttons, in the user's unit
+  limitStep: { kmh: 5, mph: 5 } as Record<SpeedUnit, number>,
+  toleranceStep: { kmh: 1, mph: 1 } as Record<SpeedUnit, number>,
+  // Seconds over the limit before alerting
+  delayOptions: [0, 3, 5, 10],
+  maxProfiles: 5,
+} as const;
+
+// Automatic splits, in meters: every kilometer or mile
+export const SPLIT_CONFIG = {
+  distance: { kmh: 1000, mph: 1609.344 } as Record<SpeedUnit, number>,
+} as const;
+
+// Spoken callouts
+export const VOICE_CONFIG = {
+  // Callout spacing choices, in km or mi and in minutes
+  distanceOptions: [0.5, 1, 2, 5],
+  timeOptions: [1, 5, 10, 15],
+  // Activities that hear pace (time per km/mi) rather than speed
+  paceActivities: ['run', 'walk'] as ActivityType[],
+} as const;
+
+// Acceleration timing targets; speeds in km/h, distances in meters
+export const PERFORMANCE_TARGETS: PerformanceTarget[] = [
+  { id: '0-60mph', label: '0–60 mph', kind: 'speed', fromSpeed: 0, toSpeed: 96.56064 },
+  { id: '0-100kmh', label: '0–100 km/h', kind: 'speed', fromSpeed: 0, toSpeed: 100 },
+  { id: '60-100kmh', label: '60–100 km/h', kind: 'speed', fromSpeed: 60, toSpeed: 100 },
+  { id: '80-120kmh', label: '80–120 km/h', kind: 'speed', fromSpeed: 80, toSpeed: 120 },
+  { id: '60ft', label: '60 ft', kind: 'distance', distance: 18.288 },
+  { id: 'eighth-mile', label: '1/8 mile', kind: 'distance', distance: 201.168 },
+  { id: 'quarter-mile', label: '1/4 mile', kind: 'distance', distance: 402.336 },
+  { id: '201m', label: '201 m', kind: 'distance', distance: 201 },
+  { id: '402m', label: '402 m', kind: 'distance', distance: 402 },
+];
+
+// Acceleration timing
+export const PERFORMANCE_CONFIG = {
+  // Slower than this counts as stopped (km/h)
+  standstillSpeed: 1.5,
+  // Stopped this long before a run arms (ms)
+  armDelay: 1000,
+  // Faster than this once armed starts the run (km/h)
+  launchSpeed: 3,
+  // Slowing this far below the run's peak ends it (km/h)
+  liftOffDrop: 10,
+  // Runs end after this long regardless (ms)
+  maxRunTime: 60000,
+  // Most phones deliver 1 fix a second; fewer means fixes were dropped
+  minFixRate: 0.9,
+  // Fixes less accurate than this make times unreliable (meters)
+  maxAccuracy: 10,
+  // Requested fix interval while timing (ms)
+  timeInterval: 100,
+  // Saved runs listed in the history
+  historySize: 50,
+} as const;
+
+// Braking tests
+export const BRAKING_CONFIG = {
+  // Target speed choices, in the user's unit
+  targetSpeeds: { kmh: [50, 80, 100, 120], mph: [30, 50, 60, 70] } as Record<
+    SpeedUnit,
+    number[]
+  >,
+  // Slower than this counts as stopped (km/h)
+  standstillSpeed: 1.5,
+  // Dropping this far below the peak counts as braking (km/h)
+  onsetDrop: 5,
+  // Speed wobble ignored when finding where braking began (km/h)
+  speedNoise: 1,
+  // Standard gravity, for decelerations in g (m/s²)
+  gravity: 9.80665,
+  // Saved tests listed in the history
+  historySize: 50,
+} as const;
+
+// Heads-up display for windshield reflection
+export const HUD_CONFIG = {
+  // Dimmest the display goes, so it never disappears entirely
+  minBrightness: 0.15,
+  // Share of the screen height dragged to go from dimmest to full brightness
+  dragRange: 0.6,
+  // How long the usage hint stays up after opening or adjusting (ms)
+  hintDuration: 2500,
 } as const;
 
 // Database configuration
 export const DATABASE_NAME = 'gps_speed_meter.db';
+// Copy taken before migrating an existing database
+export const DATABASE_BACKUP_NAME = 'gps_speed_meter.backup.db';
 
 // UI timing
 export const UI_CONFIG = {
@@ -72,4 +363,5 @@ export const CONVERSION = {
   MPH_TO_KMH: 1.60934,
   METERS_TO_KM: 0.001,
   METERS_TO_MILES: 0.000621371,
+  METERS_TO_FEET: 3.28084,
 } as const;
@@ -0,0 +1,138 @@
+/**
+ * Writes an on-disk fixture for every historic schema version that lacks one
+ *
+ * Run `pnpm test:fixtures` after adding a migration, and commit the new file.
+ * Existing fixtures are never rewritten: each stands for databases already
+ * out in the field at that version, seeded with the kinds of rows users had.
+ */
+
+import fs from 'fs';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { DATABASE_VERSION, MIGRATIONS } from '../migrations';
+import { fixturePath, loadSqlJs, openDatabaseAsync } from './helpers/sqlite';
+
+jest.mock('expo-sqlite', () => jest.requireActual('./helpers/sqlite'));
+
+// Rows inserted into fixtures from the version that introduced their columns
+const SEEDS: { since: number; statements: string[] }[] = [
+  {
+    since: 0,
+    statements: [
+      `INSERT INTO trips (id, start_time, end_time, total_distance, max_speed, avg_speed, status)
+       VALUES (1, 1700000000000, 1700000600000, 5234.5, 88.2, 31.4, 'completed'),
+              (2, 1700100000000, NULL, 812.25, 42.6, 18.9, 'active')`,
+      `INSERT INTO location_points (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp)
+       VALUES (1, 51.5007, -0.1246, 0, 21.5, 6, 1700000000000),
+              (1, 51.5012, -0.1239, 12.4, 22, 5, 1700000001000),
+              (1, 51.5019, -0.1230, 14.1, NULL, NULL, 1700000002000),
+              (2, 48.8584, 2.2945, 5.2, 35, 8, 1700100000000)`,
+    ],
+  },
+  {
+    since: 2,
+    statements: [
+      `INSERT INTO rejected_points (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp, reason)
+       VALUES (1, 51.5100, -0.1100, 60, 20, 75, 1700000001500, 'low_accuracy')`,
+    ],
+  },
+  {
+    since: 3,
+    statements: [
+      `INSERT INTO trips (id, start_time, end_time, total_distance, max_speed, avg_speed, status,
+                          moving_time, paused_time, moving_avg_speed)
+       VALUES (3, 1700200000000, 1700201800000, 12040, 64.3, 24.1, 'completed', 1500, 300, 28.9)`,
+      `INSERT INTO pause_intervals (trip_id, start_time, end_time, reason)
+       VALUES (3, 1700200600000, 1700200900000, 'auto')`,
+    ],
+  },
+  {
+    since: 5,
+    statements: [
+      `INSERT INTO location_points (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp, source)
+       VALUES (3, 40.7580, -73.9855, 8.3, 12, 4, 1700200000000, 'background')`,
+    ],
+  },
+  {
+    since: 6,
+    statements: [
+      `INSERT INTO trips (id, start_time, end_time, total_distance, max_speed, avg_speed, status,
+                          moving_time, paused_time, moving_avg_speed, title, notes, tags, activity_type)
+       VALUES (4, 1700300000000, 1700303600000, 41800, 118.5, 41.8, 'completed',
+               3600, 0, 41.8, 'Commute', 'Roadworks on the bypass', '["work","rain"]', 'car')`,
+    ],
+  },
+  {
+    since: 8,
+    statements: [
+      `INSERT INTO overspeed_events (trip_id, start_time, end_time, peak_speed, speed_limit)
+       VALUES (4, 1700301000000, 1700301045000, 112.4, 100)`,
+    ],
+  },
+  {
+    since: 9,
+    statements: [
+      `INSERT INTO splits (trip_id, kind, split_index, start_time, end_time, distance,
+                           moving_time, avg_speed, max_speed, elevation_change)
+       VALUES (4, 'auto', 0, 1700300000000, 1700300090000, 1000, 90, 40, 52.5, 3.5),
+              (4, 'lap', 0, 1700300000000, 1700301800000, 20900, 1800, 41.8, 118.5, NULL)`,
+    ],
+  },
+  {
+    since: 10,
+    statements: [
+      `INSERT INTO performance_runs (id, start_time, peak_speed, fix_rate, worst_accuracy, warnings)
+       VALUES (1, 1700400000000, 104.2, 9.8, 3.5, '[]')`,
+      `INSERT INTO performance_results (run_id, target_id, time, trap_speed)
+       VALUES (1, '0-100kmh', 7.84, NULL), (1, '60ft', 2.41, NULL)`,
+    ],
+  },
+  {
+    since: 11,
+    statements: [
+      `INSERT INTO braking_tests (trip_id, label, start_time, end_time, target_speed, start_speed,
+                                  distance, duration, peak_deceleration, mean_deceleration)
+       VALUES (4, 'Winter tires', 1700302000000, 1700302004200, 100, 101.3, 41.2, 4.2, 0.95, 0.68)`,
+    ],
+  },
+];
+
+/**
+ * A database at `version`, built from the migrations that had shipped by then
+ * v0 holds the first release's tables with no version stamped, as left by a
+ * first launch interrupted before it recorded one.
+ */
+async function buildFixture(version: number): Promise<Uint8Array> {
+  const db = await openDatabaseAsync(`generate-v${version}.db`);
+  const expoDb = db as unknown as SQLiteDatabase;
+
+  if (version === 0) {
+    await MIGRATIONS[0].up(expoDb);
+  }
+  for (const migration of MIGRATIONS.filter((m) => m.version <= version)) {
+    await migration.up(expoDb);
+    await db.execAsync(`PRAGMA user_version = ${migration.version};`);
+  }
+
+  for (const seed of SEEDS.filter((s) => s.since <= version)) {
+    for (const statement of seed.statements) {
+      await db.execAsync(statement);
+    }
+  }
+
+  const bytes = db.raw.export();
+  db.raw.close();
+  return bytes;
+}
+
+beforeAll(loadSqlJs);
+
+it('writes missing fixtures for historic versions', async () => {
+  for (let version = 0; version < DATABASE_VERSION; version++) {
+    const file = fixturePath(version);
+    if (fs.existsSync(file)) continue;
+
+    fs.writeFileSync(file, await buildFixture(version));
+    console.log(`Wrote ${file}`);
+  }
+});
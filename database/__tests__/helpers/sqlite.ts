@@ -0,0 +1,162 @@
+/**
+ * expo-sqlite stand-in for tests, backed by sql.js
+ *
+ * Named databases live in an in-memory "disk" so backups, restores and
+ * deletes behave like files. Only the API the database layer uses is here.
+ */
+
+import fs from 'fs';
+import path from 'path';
+// Jest maps this to the asm.js build, as WebAssembly can't read its memory across the sandbox
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from 'sql.js';
+
+type Params = SqlValue[];
+
+let SQL: SqlJsStatic | null = null;
+const disk = new Map<string, Uint8Array>();
+
+/**
+ * Load the sql.js engine; call from beforeAll
+ */
+export async function loadSqlJs(): Promise<void> {
+  SQL ??= await initSqlJs();
+}
+
+function engine(): SqlJsStatic {
+  if (!SQL) throw new Error('Call loadSqlJs() before opening a database');
+  return SQL;
+}
+
+// expo-sqlite takes parameters either spread or as one array
+function toParams(params: unknown[]): Params {
+  return (params.length === 1 && Array.isArray(params[0]) ? params[0] : params) as Params;
+}
+
+export class TestDatabase {
+  constructor(
+    readonly databasePath: string,
+    public raw: Database
+  ) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.raw.exec(source);
+  }
+
+  async runAsync(
+    source: string,
+    ...params: unknown[]
+  ): Promise<{ lastInsertRowId: number; changes: number }> {
+    this.raw.run(source, toParams(params));
+    const [[lastInsertRowId]] = this.raw.exec('SELECT last_insert_rowid();')[0].values;
+    return { lastInsertRowId: Number(lastInsertRowId), changes: this.raw.getRowsModified() };
+  }
+
+  async getAllAsync<T>(source: string, ...params: unknown[]): Promise<T[]> {
+    const statement = this.raw.prepare(source, toParams(params));
+    const rows: T[] = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  async getFirstAsync<T>(source: string, ...params: unknown[]): Promise<T | null> {
+    const [first] = await this.getAllAsync<T>(source, ...params);
+    return first ?? null;
+  }
+
+  async withExclusiveTransactionAsync(
+    task: (txn: TestDatabase) => Promise<void>
+  ): Promise<void> {
+    this.raw.exec('BEGIN EXCLUSIVE;');
+    try {
+      await task(this);
+      this.raw.exec('COMMIT;');
+    } catch (error) {
+      this.raw.exec('ROLLBACK;');
+      throw error;
+    }
+  }
+
+  /**
+   * Copy the contents out, keeping connection pragmas that sql.js resets
+   */
+  snapshot(): Uint8Array {
+    const [[foreignKeys]] = this.raw.exec('PRAGMA foreign_keys;')[0].values;
+    const bytes = this.raw.export();
+    this.raw.exec(`PRAGMA foreign_keys = ${foreignKeys};`);
+    return bytes;
+  }
+
+  async closeAsync(): Promise<void> {
+    this.closeSync();
+  }
+
+  closeSync(): void {
+    disk.set(this.databasePath, this.snapshot());
+    this.raw.close();
+  }
+}
+
+// ============ expo-sqlite API ============
+
+export function openDatabaseSync(databaseName: string): TestDatabase {
+  const SQLite = engine();
+  const bytes = disk.get(databaseName);
+  return new TestDatabase(databaseName, bytes ? new SQLite.Database(bytes) : new SQLite.Database());
+}
+
+export async function openDatabaseAsync(databaseName: string): Promise<TestDatabase> {
+  return openDatabaseSync(databaseName);
+}
+
+export async function backupDatabaseAsync({
+  sourceDatabase,
+  destDatabase,
+}: {
+  sourceDatabase: TestDatabase;
+  destDatabase: TestDatabase;
+}): Promise<void> {
+  const bytes = sourceDatabase.snapshot();
+  destDatabase.raw.close();
+  destDatabase.raw = new (engine().Database)(bytes);
+}
+
+export async function deleteDatabaseAsync(databaseName: string): Promise<void> {
+  if (!disk.delete(databaseName)) {
+    throw new Error(`Database ${databaseName} does not exist`);
+  }
+}
+
+// ============ Test helpers ============
+
+/**
+ * Whether a named database is on the in-memory disk
+ */
+export function databaseExists(databaseName: string): boolean {
+  return disk.has(databaseName);
+}
+
+/**
+ * Forget every named database
+ */
+export function clearDisk(): void {
+  disk.clear();
+}
+
+/**
+ * Path of the on-disk fixture for a schema version
+ */
+export function fixturePath(version: number): string {
+  return path.join(__dirname, '..', 'fixtures', `v${version}.db`);
+}
+
+/**
+ * Open a copy of the on-disk fixture for a schema version
+ */
+export function openFixture(version: number): TestDatabase {
+  const bytes = new Uint8Array(fs.readFileSync(fixturePath(version)));
+  return new TestDatabase(`fixture-v${version}.db`, new (engine().Database)(bytes));
+}
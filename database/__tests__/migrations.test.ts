@@ -0,0 +1,197 @@
+/**
+ * Migration tests against on-disk fixtures of every historic schema version
+ */
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { DATABASE_BACKUP_NAME } from '@/constants/config';
+import {
+  DATABASE_VERSION,
+  MIGRATIONS,
+  getDatabaseVersion,
+  migrateDatabase,
+} from '../migrations';
+import {
+  clearDisk,
+  databaseExists,
+  loadSqlJs,
+  openDatabaseAsync,
+  openFixture,
+  type TestDatabase,
+} from './helpers/sqlite';
+
+jest.mock('expo-sqlite', () => jest.requireActual('./helpers/sqlite'));
+
+type Row = Record<string, unknown>;
+
+// Every version a user's database may still be at
+const HISTORIC_VERSIONS = Array.from({ length: DATABASE_VERSION }, (_, version) => version);
+
+const asExpo = (db: TestDatabase) => db as unknown as SQLiteDatabase;
+
+/**
+ * Every row of every table, by table name
+ */
+async function readTables(db: TestDatabase): Promise<Record<string, Row[]>> {
+  const tables = await db.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const contents: Record<string, Row[]> = {};
+  for (const { name } of tables) {
+    contents[name] = await db.getAllAsync<Row>(`SELECT * FROM ${name} ORDER BY id`);
+  }
+  return contents;
+}
+
+/**
+ * Tables with their columns, and indexes, for comparing schemas
+ */
+async function readSchema(db: TestDatabase): Promise<Record<string, unknown>> {
+  const objects = await db.getAllAsync<{ type: string; name: string }>(
+    "SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name"
+  );
+  const schema: Record<string, unknown> = {};
+  for (const { type, name } of objects) {
+    schema[`${type} ${name}`] =
+      type === 'table' ? await db.getAllAsync(`PRAGMA table_info(${name})`) : true;
+  }
+  return schema;
+}
+
+/**
+ * Rows cut down to the given columns
+ */
+function project(rows: Row[], columns: string[]): Row[] {
+  return rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]])));
+}
+
+beforeAll(loadSqlJs);
+
+beforeEach(() => {
+  clearDisk();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each(HISTORIC_VERSIONS)('fixture v%i', (version) => {
+  it('upgrades to DATABASE_VERSION and keeps its data', async () => {
+    const db = openFixture(version);
+    expect(await getDatabaseVersion(asExpo(db))).toBe(version);
+    const before = await readTables(db);
+    expect(before.trips.length).toBeGreaterThan(0);
+
+    await migrateDatabase(asExpo(db));
+
+    expect(await getDatabaseVersion(asExpo(db))).toBe(DATABASE_VERSION);
+    const after = await readTables(db);
+    for (const [table, rows] of Object.entries(before)) {
+      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      expect(project(after[table], columns)).toEqual(rows);
+    }
+  });
+
+  it('ends with the same schema as a fresh install', async () => {
+    const upgraded = openFixture(version);
+    await migrateDatabase(asExpo(upgraded));
+
+    const fresh = await openDatabaseAsync('fresh.db');
+    await migrateDatabase(asExpo(fresh));
+
+    expect(await readSchema(upgraded)).toEqual(await readSchema(fresh));
+  });
+
+  it('removes the backup once every step has run', async () => {
+    const db = openFixture(version);
+    await migrateDatabase(asExpo(db));
+
+    expect(databaseExists(DATABASE_BACKUP_NAME)).toBe(false);
+  });
+});
+
+describe('v12 split length backfill', () => {
+  it('reads the split length of each trip back from its auto splits', async () => {
+    const db = openFixture(11);
+    await db.execAsync(
+      `INSERT INTO splits (trip_id, kind, split_index, start_time, end_time, distance,
+                           moving_time, avg_speed, max_speed, elevation_change)
+       VALUES (3, 'auto', 0, 1700200000000, 1700200240000, 1609.344, 240, 24.1, 30.2, NULL),
+              (3, 'auto', 1, 1700200240000, 1700200400000, 1210.5, 160, 27.2, 31.8, NULL)`
+    );
+
+    await migrateDatabase(asExpo(db));
+
+    const trips = await db.getAllAsync<{ id: number; split_distance: number | null }>(
+      'SELECT id, split_distance FROM trips ORDER BY id'
+    );
+    expect(trips).toEqual([
+      { id: 1, split_distance: null },
+      { id: 2, split_distance: null },
+      { id: 3, split_distance: 1609.344 },
+      { id: 4, split_distance: 1000 },
+    ]);
+  });
+});
+
+describe('failed migration step', () => {
+  const failAt = (version: number) =>
+    jest
+      .spyOn(MIGRATIONS.find((migration) => migration.version === version)!, 'up')
+      .mockRejectedValue(new Error('disk I/O error'));
+
+  it('restores the backup and rethrows', async () => {
+    const db = openFixture(5);
+    const tablesBefore = await readTables(db);
+    const schemaBefore = await readSchema(db);
+    failAt(8);
+
+    await expect(migrateDatabase(asExpo(db))).rejects.toThrow(
+      'Database migration to v8 failed: Error: disk I/O error'
+    );
+
+    // Steps 6 and 7 had committed; the backup undoes them too
+    expect(await getDatabaseVersion(asExpo(db))).toBe(5);
+    expect(await readSchema(db)).toEqual(schemaBefore);
+    expect(await readTables(db)).toEqual(tablesBefore);
+  });
+
+  it('keeps the backup after a failure', async () => {
+    const db = openFixture(5);
+    failAt(8);
+
+    await expect(migrateDatabase(asExpo(db))).rejects.toThrow();
+
+    expect(databaseExists(DATABASE_BACKUP_NAME)).toBe(true);
+  });
+
+  it('migrates successfully on the next launch', async () => {
+    const db = openFixture(5);
+    const tablesBefore = await readTables(db);
+    const failure = failAt(8);
+
+    await expect(migrateDatabase(asExpo(db))).rejects.toThrow();
+    failure.mockRestore();
+    await migrateDatabase(asExpo(db));
+
+    expect(await getDatabaseVersion(asExpo(db))).toBe(DATABASE_VERSION);
+    expect(project((await readTables(db)).trips, Object.keys(tablesBefore.trips[0]))).toEqual(
+      tablesBefore.trips
+    );
+  });
+
+  it('rolls back only the failed step of a fresh install, without a backup', async () => {
+    const db = await openDatabaseAsync('fresh.db');
+    failAt(3);
+
+    await expect(migrateDatabase(asExpo(db))).rejects.toThrow(
+      'Database migration to v3 failed'
+    );
+
+    expect(await getDatabaseVersion(asExpo(db))).toBe(2);
+    expect(Object.keys(await readTables(db))).toEqual(['location_points', 'rejected_points', 'trips']);
+    expect(databaseExists(DATABASE_BACKUP_NAME)).toBe(false);
+  });
+});
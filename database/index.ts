@@ -7,6 +7,7 @@ import { DATABASE_NAME } from '@/constants/config';
 import { migrateDatabase } from './migrations';
 
 let database: SQLiteDatabase | null = null;
+let migration: Promise<void> | null = null;
 
 /**
  * Get the database instance, initializing if needed
@@ -20,10 +21,18 @@ export function getDatabase(): SQLiteDatabase {
 
 /**
  * Initialize the database with migrations
+ * Migrations run once per connection; concurrent callers share the same run
  */
 export async function initDatabase(): Promise<SQLiteDatabase> {
   const db = getDatabase();
-  await migrateDatabase(db);
+  if (!migration) {
+    migration = migrateDatabase(db).catch((error) => {
+      // Allow the next caller to retry
+      migration = null;
+      throw error;
+    });
+  }
+  await migration;
   return db;
 }
 
@@ -34,6 +43,7 @@ export function closeDatabase(): void {
   if (database) {
     database.closeSync();
     database = null;
+    migration = null;
   }
 }
 
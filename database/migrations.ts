@@ -1,29 +1,166 @@
 /**
  * Database migrations for GPS Speed Meter
+ *
+ * Migrations form an ordered registry. Each step runs inside its own
+ * exclusive transaction and advances `PRAGMA user_version` in that same
+ * transaction, so a database is always at exactly one known version.
+ * Fresh installs run every step from version 0, which keeps new and
+ * upgraded databases identical.
  */
 
-import type { SQLiteDatabase } from 'expo-sqlite';
-import { SCHEMA_STATEMENTS } from './schema';
+import {
+  backupDatabaseAsync,
+  deleteDatabaseAsync,
+  openDatabaseAsync,
+  type SQLiteDatabase,
+} from 'expo-sqlite';
+import { DATABASE_BACKUP_NAME } from '@/constants/config';
+import {
+  ADD_LOCATION_SOURCE_COLUMNS,
+  ADD_TRIP_DETAILS_COLUMNS,
+  ADD_TRIP_MOVING_TIME_COLUMNS,
+  ADD_TRIP_SPLIT_DISTANCE_COLUMN,
+  BACKFILL_TRIP_MOVING_TIME,
+  BACKFILL_TRIP_SPLIT_DISTANCE,
+  CREATE_BRAKING_TESTS_INDEX,
+  CREATE_BRAKING_TESTS_TABLE,
+  CREATE_LOCATION_POINTS_TABLE,
+  CREATE_OVERSPEED_EVENTS_INDEX,
+  CREATE_OVERSPEED_EVENTS_TABLE,
+  CREATE_PAUSE_INTERVALS_INDEX,
+  CREATE_PAUSE_INTERVALS_TABLE,
+  CREATE_PERFORMANCE_RESULTS_INDEX,
+  CREATE_PERFORMANCE_RESULTS_TABLE,
+  CREATE_PERFORMANCE_RUNS_TABLE,
+  CREATE_REJECTED_POINTS_INDEX,
+  CREATE_REJECTED_POINTS_TABLE,
+  CREATE_SPLITS_INDEX,
+  CREATE_SPLITS_TABLE,
+  CREATE_TIMESTAMP_INDEX,
+  CREATE_TRIP_START_TIME_INDEX,
+  CREATE_TRIP_TIMESTAMP_INDEX,
+  CREATE_TRIP_INDEX,
+  CREATE_TRIPS_TABLE,
+} from './schema';
 
-// Current database version
-export const DATABASE_VERSION = 1;
-
-/**
- * Initialize the database with all required tables
- */
-export async function initializeDatabase(db: SQLiteDatabase): Promise<void> {
-  // Enable foreign keys
-  await db.execAsync('PRAGMA foreign_keys = ON;');
-  
-  // Run all schema creation statements
-  for (const statement of SCHEMA_STATEMENTS) {
-    await db.execAsync(statement);
-  }
-  
-  // Set database version
-  await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION};`);
+// A single schema step
+export interface Migration {
+  // Version the database is at once this step has run
+  version: number;
+  description: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
 }
 
+// Ordered registry - append new steps, never edit shipped ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create trips and location_points',
+    up: async (db) => {
+      await db.execAsync(CREATE_TRIPS_TABLE);
+      await db.execAsync(CREATE_LOCATION_POINTS_TABLE);
+      await db.execAsync(CREATE_TRIP_INDEX);
+      await db.execAsync(CREATE_TIMESTAMP_INDEX);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add rejected_points audit table',
+    up: async (db) => {
+      await db.execAsync(CREATE_REJECTED_POINTS_TABLE);
+      await db.execAsync(CREATE_REJECTED_POINTS_INDEX);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add pause_intervals and moving/paused time on trips',
+    up: async (db) => {
+      await db.execAsync(CREATE_PAUSE_INTERVALS_TABLE);
+      await db.execAsync(CREATE_PAUSE_INTERVALS_INDEX);
+      for (const statement of ADD_TRIP_MOVING_TIME_COLUMNS) {
+        await db.execAsync(statement);
+      }
+      await db.execAsync(BACKFILL_TRIP_MOVING_TIME);
+    },
+  },
+  {
+    version: 4,
+    description: 'Index location_points by trip and timestamp for paging',
+    up: async (db) => {
+      await db.execAsync(CREATE_TRIP_TIMESTAMP_INDEX);
+    },
+  },
+  {
+    version: 5,
+    description: 'Record the source stream of each location point',
+    up: async (db) => {
+      for (const statement of ADD_LOCATION_SOURCE_COLUMNS) {
+        await db.execAsync(statement);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Add title, notes, tags and activity type to trips',
+    up: async (db) => {
+      for (const statement of ADD_TRIP_DETAILS_COLUMNS) {
+        await db.execAsync(statement);
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Index trips by start time for history paging',
+    up: async (db) => {
+      await db.execAsync(CREATE_TRIP_START_TIME_INDEX);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add overspeed_events for speed limit alerts',
+    up: async (db) => {
+      await db.execAsync(CREATE_OVERSPEED_EVENTS_TABLE);
+      await db.execAsync(CREATE_OVERSPEED_EVENTS_INDEX);
+    },
+  },
+  {
+    version: 9,
+    description: 'Add splits for auto splits and laps',
+    up: async (db) => {
+      await db.execAsync(CREATE_SPLITS_TABLE);
+      await db.execAsync(CREATE_SPLITS_INDEX);
+    },
+  },
+  {
+    version: 10,
+    description: 'Add performance runs for acceleration timing',
+    up: async (db) => {
+      await db.execAsync(CREATE_PERFORMANCE_RUNS_TABLE);
+      await db.execAsync(CREATE_PERFORMANCE_RESULTS_TABLE);
+      await db.execAsync(CREATE_PERFORMANCE_RESULTS_INDEX);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add braking tests',
+    up: async (db) => {
+      await db.execAsync(CREATE_BRAKING_TESTS_TABLE);
+      await db.execAsync(CREATE_BRAKING_TESTS_INDEX);
+    },
+  },
+  {
+    version: 12,
+    description: 'Store the auto split length with each trip',
+    up: async (db) => {
+      await db.execAsync(ADD_TRIP_SPLIT_DISTANCE_COLUMN);
+      await db.execAsync(BACKFILL_TRIP_SPLIT_DISTANCE);
+    },
+  },
+];
+
+// Current database version
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
 /**
  * Check if database needs migration
  */
@@ -34,20 +171,102 @@ export async function getDatabaseVersion(db: SQLiteDatabase): Promise<number> {
   return result?.user_version ?? 0;
 }
 
+/**
+ * Migrations that still need to run for a database at `currentVersion`
+ */
+export function getPendingMigrations(currentVersion: number): Migration[] {
+  return MIGRATIONS.filter((migration) => migration.version > currentVersion);
+}
+
+/**
+ * Run one migration step and bump user_version atomically
+ */
+async function runMigration(
+  db: SQLiteDatabase,
+  migration: Migration
+): Promise<void> {
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await migration.up(txn);
+    await txn.execAsync(`PRAGMA user_version = ${migration.version};`);
+  });
+}
+
+/**
+ * Copy the database aside before touching an existing schema
+ */
+async function backupDatabase(db: SQLiteDatabase): Promise<void> {
+  const backup = await openDatabaseAsync(DATABASE_BACKUP_NAME);
+  try {
+    await backupDatabaseAsync({ sourceDatabase: db, destDatabase: backup });
+  } finally {
+    await backup.closeAsync();
+  }
+}
+
+/**
+ * Put the pre-migration backup back in place of the live database
+ */
+async function restoreDatabaseBackup(db: SQLiteDatabase): Promise<void> {
+  const backup = await openDatabaseAsync(DATABASE_BACKUP_NAME);
+  try {
+    await backupDatabaseAsync({ sourceDatabase: backup, destDatabase: db });
+  } finally {
+    await backup.closeAsync();
+  }
+}
+
+/**
+ * Remove the backup once every step has succeeded
+ */
+async function deleteDatabaseBackup(): Promise<void> {
+  try {
+    await deleteDatabaseAsync(DATABASE_BACKUP_NAME);
+  } catch (error) {
+    console.warn('Unable to delete database backup:', error);
+  }
+}
+
 /**
  * Run migrations if needed
+ *
+ * Existing databases are backed up first. If any step fails, its own
+ * transaction is rolled back and the backup is restored, leaving the
+ * database exactly as it was before this call. The error is rethrown.
  */
 export async function migrateDatabase(db: SQLiteDatabase): Promise<void> {
+  // Foreign keys are per-connection, so enable them on every open
+  await db.execAsync('PRAGMA foreign_keys = ON;');
+
   const currentVersion = await getDatabaseVersion(db);
-  
-  if (currentVersion < DATABASE_VERSION) {
-    // For now, just initialize if no version exists
-    if (currentVersion === 0) {
-      await initializeDatabase(db);
+  const pending = getPendingMigrations(currentVersion);
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  const hasExistingData = currentVersion > 0;
+  if (hasExistingData) {
+    await backupDatabase(db);
+  }
+
+  for (const migration of pending) {
+    try {
+      console.log(`Migrating database to v${migration.version}: ${migration.description}`);
+      await runMigration(db, migration);
+    } catch (error) {
+      console.error(`Migration to v${migration.version} failed:`, error);
+
+      if (hasExistingData) {
+        await restoreDatabaseBackup(db);
+      }
+
+      throw new Error(
+        `Database migration to v${migration.version} failed: ${String(error)}`
+      );
     }
-    
-    // Future migrations would go here:
-    // if (currentVersion < 2) { await migrateV1ToV2(db); }
-    // if (currentVersion < 3) { await migrateV2ToV3(db); }
+  }
+
+  if (hasExistingData) {
+    await deleteDatabaseBackup();
   }
 }
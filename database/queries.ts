@@ -2,18 +2,142 @@
  * Database CRUD operations for trips and location points
  */
 
-import type { SQLiteDatabase } from 'expo-sqlite';
-import type { Trip, LocationPoint, TripStatus, TripWithDuration } from '@/types';
+import type { SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+import type {
+  ActivityType,
+  BrakingTest,
+  Trip,
+  TripDetails,
+  TripFilter,
+  TripSort,
+  TripSortField,
+  LocationPoint,
+  LocationBounds,
+  LocationSource,
+  TripStatus,
+  TripWithDuration,
+  RejectedLocationPoint,
+  FixRejectionReason,
+  PauseInterval,
+  PauseReason,
+  OverspeedEvent,
+  PerformanceResult,
+  PerformanceRun,
+  PerformanceWarning,
+  SplitKind,
+  TripSplit,
+  ActivityTotals,
+  PeriodTotals,
+  PersonalRecords,
+  StatsPeriod,
+  StatsTotals,
+  TripStreaks,
+} from '@/types';
 
 // ============ TRIP QUERIES ============
 
+// Raw trips row as stored in SQLite
+interface TripRow {
+  id: number;
+  start_time: number;
+  end_time: number | null;
+  total_distance: number;
+  max_speed: number;
+  avg_speed: number;
+  moving_time: number | null;
+  paused_time: number | null;
+  moving_avg_speed: number | null;
+  split_distance: number | null;
+  status: TripStatus;
+  title: string | null;
+  notes: string | null;
+  tags: string | null; // JSON array
+  activity_type: ActivityType | null;
+}
+
+/**
+ * Map a trips row to a Trip
+ */
+function mapTripRow(row: TripRow): Trip {
+  return {
+    id: row.id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    totalDistance: row.total_distance,
+    maxSpeed: row.max_speed,
+    avgSpeed: row.avg_speed,
+    movingTime: row.moving_time ?? 0,
+    pausedTime: row.paused_time ?? 0,
+    movingAvgSpeed: row.moving_avg_speed ?? 0,
+    splitDistance: row.split_distance,
+    status: row.status,
+    title: row.title,
+    notes: row.notes,
+    tags: parseTags(row.tags),
+    activityType: row.activity_type,
+  };
+}
+
+/**
+ * Read the stored tags column, tolerating a damaged value
+ */
+function parseTags(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const tags: unknown = JSON.parse(value);
+    return Array.isArray(tags)
+      ? tags.filter((tag): tag is string => typeof tag === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Create a new trip and return its ID
  */
-export async function createTrip(db: SQLiteDatabase): Promise<number> {
+export async function createTrip(
+  db: SQLiteDatabase,
+  startTime: number = Date.now(),
+  activityType: ActivityType | null = null,
+  splitDistance: number | null = null
+): Promise<number> {
+  const result = await db.runAsync(
+    'INSERT INTO trips (start_time, status, activity_type, split_distance) VALUES (?, ?, ?, ?)',
+    [startTime, 'active', activityType, splitDistance]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Insert an already finished trip (e.g. from an import) and return its ID
+ */
+export async function createCompletedTrip(
+  db: SQLiteDatabase,
+  trip: Omit<Trip, 'id' | 'status' | 'splitDistance' | keyof TripDetails> &
+    Partial<TripDetails>
+): Promise<number> {
   const result = await db.runAsync(
-    'INSERT INTO trips (start_time, status) VALUES (?, ?)',
-    [Date.now(), 'active']
+    `INSERT INTO trips
+     (start_time, end_time, total_distance, max_speed, avg_speed,
+      moving_time, paused_time, moving_avg_speed, status,
+      title, notes, tags, activity_type)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      trip.startTime,
+      trip.endTime,
+      trip.totalDistance,
+      trip.maxSpeed,
+      trip.avgSpeed,
+      trip.movingTime,
+      trip.pausedTime,
+      trip.movingAvgSpeed,
+      'completed',
+      trip.title ?? null,
+      trip.notes ?? null,
+      JSON.stringify(trip.tags ?? []),
+      trip.activityType ?? null,
+    ]
   );
   return result.lastInsertRowId;
 }
@@ -25,82 +149,182 @@ export async function getTripById(
   db: SQLiteDatabase,
   tripId: number
 ): Promise<Trip | null> {
-  const row = await db.getFirstAsync<{
-    id: number;
-    start_time: number;
-    end_time: number | null;
-    total_distance: number;
-    max_speed: number;
-    avg_speed: number;
-    status: TripStatus;
-  }>('SELECT * FROM trips WHERE id = ?', [tripId]);
-
-  if (!row) return null;
+  const row = await db.getFirstAsync<TripRow>(
+    'SELECT * FROM trips WHERE id = ?',
+    [tripId]
+  );
 
-  return {
-    id: row.id,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    totalDistance: row.total_distance,
-    maxSpeed: row.max_speed,
-    avgSpeed: row.avg_speed,
-    status: row.status,
-  };
+  return row ? mapTripRow(row) : null;
 }
 
 /**
  * Get all completed trips, ordered by start time descending
  */
 export async function getAllTrips(db: SQLiteDatabase): Promise<TripWithDuration[]> {
-  const rows = await db.getAllAsync<{
-    id: number;
-    start_time: number;
-    end_time: number | null;
-    total_distance: number;
-    max_speed: number;
-    avg_speed: number;
-    status: TripStatus;
-  }>('SELECT * FROM trips ORDER BY start_time DESC');
+  const rows = await db.getAllAsync<TripRow>(
+    'SELECT * FROM trips ORDER BY start_time DESC'
+  );
 
-  return rows.map((row) => ({
-    id: row.id,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    totalDistance: row.total_distance,
-    maxSpeed: row.max_speed,
-    avgSpeed: row.avg_speed,
-    status: row.status,
-    duration: row.end_time 
-      ? Math.floor((row.end_time - row.start_time) / 1000) 
+  return rows.map(mapTripWithDurationRow);
+}
+
+// SQL for each trip sort field
+const TRIP_SORT_COLUMNS: Record<TripSortField, string> = {
+  startTime: 'start_time',
+  distance: 'total_distance',
+  duration: '(COALESCE(end_time, start_time) - start_time)',
+  maxSpeed: 'max_speed',
+  avgSpeed: 'moving_avg_speed',
+};
+
+/**
+ * One page of trips matching a filter, in the given order
+ */
+export async function getTripsPage(
+  db: SQLiteDatabase,
+  filter: TripFilter,
+  sort: TripSort,
+  limit: number,
+  offset: number
+): Promise<TripWithDuration[]> {
+  const { where, params } = buildTripFilter(filter);
+  const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+  const rows = await db.getAllAsync<TripRow>(
+    `SELECT * FROM trips ${where}
+     ORDER BY ${TRIP_SORT_COLUMNS[sort.field]} ${direction}, id ${direction}
+     LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  );
+
+  return rows.map(mapTripWithDurationRow);
+}
+
+/**
+ * Number of trips matching a filter
+ */
+export async function countTrips(
+  db: SQLiteDatabase,
+  filter: TripFilter
+): Promise<number> {
+  const { where, params } = buildTripFilter(filter);
+  const result = await db.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM trips ${where}`,
+    params
+  );
+  return result?.count ?? 0;
+}
+
+/**
+ * WHERE clause and bound values for a trip filter
+ */
+function buildTripFilter(filter: TripFilter): {
+  where: string;
+  params: SQLiteBindValue[];
+} {
+  const conditions: string[] = [];
+  const params: SQLiteBindValue[] = [];
+
+  const addRange = (
+    column: string,
+    min: number | undefined,
+    max: number | undefined
+  ) => {
+    if (min !== undefined) {
+      conditions.push(`${column} >= ?`);
+      params.push(min);
+    }
+    if (max !== undefined) {
+      conditions.push(`${column} <= ?`);
+      params.push(max);
+    }
+  };
+
+  const search = filter.search?.trim();
+  if (search) {
+    const pattern = `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(
+      `(title LIKE ? ESCAPE '\\' OR notes LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\')`
+    );
+    params.push(pattern, pattern, pattern);
+  }
+  if (filter.startDate !== undefined) {
+    conditions.push('start_time >= ?');
+    params.push(filter.startDate);
+  }
+  if (filter.endDate !== undefined) {
+    conditions.push('start_time < ?');
+    params.push(filter.endDate);
+  }
+  addRange('total_distance', filter.minDistance, filter.maxDistance);
+  addRange(
+    TRIP_SORT_COLUMNS.duration,
+    filter.minDuration !== undefined ? filter.minDuration * 1000 : undefined,
+    filter.maxDuration !== undefined ? filter.maxDuration * 1000 : undefined
+  );
+  addRange('max_speed', filter.minMaxSpeed, filter.maxMaxSpeed);
+  addRange('moving_avg_speed', filter.minAvgSpeed, filter.maxAvgSpeed);
+  if (filter.statuses && filter.statuses.length > 0) {
+    conditions.push(
+      `status IN (${filter.statuses.map(() => '?').join(', ')})`
+    );
+    params.push(...filter.statuses);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * Map a trips row to a Trip with its elapsed duration
+ */
+function mapTripWithDurationRow(row: TripRow): TripWithDuration {
+  return {
+    ...mapTripRow(row),
+    duration: row.end_time
+      ? Math.floor((row.end_time - row.start_time) / 1000)
       : 0,
-  }));
+  };
+}
+
+/**
+ * Find a trip whose time range overlaps [startTime, endTime]
+ */
+export async function findOverlappingTrip(
+  db: SQLiteDatabase,
+  startTime: number,
+  endTime: number
+): Promise<Trip | null> {
+  const row = await db.getFirstAsync<TripRow>(
+    `SELECT * FROM trips
+     WHERE start_time <= ? AND COALESCE(end_time, start_time) >= ?
+     ORDER BY start_time ASC LIMIT 1`,
+    [endTime, startTime]
+  );
+  return row ? mapTripRow(row) : null;
 }
 
 /**
  * Get the currently active trip
  */
 export async function getActiveTrip(db: SQLiteDatabase): Promise<Trip | null> {
-  const row = await db.getFirstAsync<{
-    id: number;
-    start_time: number;
-    end_time: number | null;
-    total_distance: number;
-    max_speed: number;
-    avg_speed: number;
-    status: TripStatus;
-  }>("SELECT * FROM trips WHERE status = 'active' LIMIT 1");
+  const row = await db.getFirstAsync<TripRow>(
+    "SELECT * FROM trips WHERE status = 'active' LIMIT 1"
+  );
 
-  if (!row) return null;
+  return row ? mapTripRow(row) : null;
+}
 
-  return {
-    id: row.id,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    totalDistance: row.total_distance,
-    maxSpeed: row.max_speed,
-    avgSpeed: row.avg_speed,
-    status: row.status,
-  };
+// Running stats written while a trip is tracked
+export interface TripStatsUpdate {
+  totalDistance?: number;
+  maxSpeed?: number;
+  avgSpeed?: number;
+  movingTime?: number;
+  pausedTime?: number;
+  movingAvgSpeed?: number;
 }
 
 /**
@@ -109,11 +333,7 @@ export async function getActiveTrip(db: SQLiteDatabase): Promise<Trip | null> {
 export async function updateTripStats(
   db: SQLiteDatabase,
   tripId: number,
-  stats: {
-    totalDistance?: number;
-    maxSpeed?: number;
-    avgSpeed?: number;
-  }
+  stats: TripStatsUpdate
 ): Promise<void> {
   const updates: string[] = [];
   const values: (number | string)[] = [];
@@ -130,6 +350,55 @@ export async function updateTripStats(
     updates.push('avg_speed = ?');
     values.push(stats.avgSpeed);
   }
+  if (stats.movingTime !== undefined) {
+    updates.push('moving_time = ?');
+    values.push(stats.movingTime);
+  }
+  if (stats.pausedTime !== undefined) {
+    updates.push('paused_time = ?');
+    values.push(stats.pausedTime);
+  }
+  if (stats.movingAvgSpeed !== undefined) {
+    updates.push('moving_avg_speed = ?');
+    values.push(stats.movingAvgSpeed);
+  }
+
+  if (updates.length > 0) {
+    values.push(tripId);
+    await db.runAsync(
+      `UPDATE trips SET ${updates.join(', ')} WHERE id = ?`,
+      values
+    );
+  }
+}
+
+/**
+ * Update a trip's title, notes, tags or activity type
+ */
+export async function updateTripDetails(
+  db: SQLiteDatabase,
+  tripId: number,
+  details: Partial<TripDetails>
+): Promise<void> {
+  const updates: string[] = [];
+  const values: (number | string | null)[] = [];
+
+  if (details.title !== undefined) {
+    updates.push('title = ?');
+    values.push(details.title);
+  }
+  if (details.notes !== undefined) {
+    updates.push('notes = ?');
+    values.push(details.notes);
+  }
+  if (details.tags !== undefined) {
+    updates.push('tags = ?');
+    values.push(JSON.stringify(details.tags));
+  }
+  if (details.activityType !== undefined) {
+    updates.push('activity_type = ?');
+    values.push(details.activityType);
+  }
 
   if (updates.length > 0) {
     values.push(tripId);
@@ -160,11 +429,12 @@ export async function updateTripStatus(
  */
 export async function completeTrip(
   db: SQLiteDatabase,
-  tripId: number
+  tripId: number,
+  endTime: number = Date.now()
 ): Promise<void> {
   await db.runAsync(
     'UPDATE trips SET status = ?, end_time = ? WHERE id = ?',
-    ['completed', Date.now(), tripId]
+    ['completed', endTime, tripId]
   );
 }
 
@@ -179,8 +449,152 @@ export async function deleteTrip(
   await db.runAsync('DELETE FROM trips WHERE id = ?', [tripId]);
 }
 
+/**
+ * Move everything recorded from `fromTime` on to another trip
+ */
+export async function moveTripDataFrom(
+  db: SQLiteDatabase,
+  fromTripId: number,
+  toTripId: number,
+  fromTime: number
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE location_points SET trip_id = ? WHERE trip_id = ? AND timestamp >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+  await db.runAsync(
+    'UPDATE rejected_points SET trip_id = ? WHERE trip_id = ? AND timestamp >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+  await db.runAsync(
+    'UPDATE pause_intervals SET trip_id = ? WHERE trip_id = ? AND start_time >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+  await db.runAsync(
+    'UPDATE overspeed_events SET trip_id = ? WHERE trip_id = ? AND start_time >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+  await db.runAsync(
+    'UPDATE splits SET trip_id = ? WHERE trip_id = ? AND end_time >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+  await db.runAsync(
+    'UPDATE braking_tests SET trip_id = ? WHERE trip_id = ? AND start_time >= ?',
+    [toTripId, fromTripId, fromTime]
+  );
+}
+
+/**
+ * Delete everything recorded outside `startTime`..`endTime`
+ * Pauses and overspeed events crossing either bound are clipped to it
+ */
+export async function trimTripData(
+  db: SQLiteDatabase,
+  tripId: number,
+  startTime: number,
+  endTime: number
+): Promise<void> {
+  await db.runAsync(
+    'DELETE FROM location_points WHERE trip_id = ? AND (timestamp < ? OR timestamp > ?)',
+    [tripId, startTime, endTime]
+  );
+  await db.runAsync(
+    'DELETE FROM rejected_points WHERE trip_id = ? AND (timestamp < ? OR timestamp > ?)',
+    [tripId, startTime, endTime]
+  );
+  await db.runAsync(
+    'DELETE FROM pause_intervals WHERE trip_id = ? AND end_time IS NOT NULL AND end_time <= ?',
+    [tripId, startTime]
+  );
+  await db.runAsync(
+    'UPDATE pause_intervals SET start_time = ? WHERE trip_id = ? AND start_time < ?',
+    [startTime, tripId, startTime]
+  );
+  await clipPauseIntervals(db, tripId, endTime);
+  await db.runAsync(
+    `DELETE FROM overspeed_events
+     WHERE trip_id = ? AND (start_time > ? OR (end_time IS NOT NULL AND end_time < ?))`,
+    [tripId, endTime, startTime]
+  );
+  await db.runAsync(
+    'DELETE FROM splits WHERE trip_id = ? AND (end_time <= ? OR end_time > ?)',
+    [tripId, startTime, endTime]
+  );
+  await db.runAsync(
+    'DELETE FROM braking_tests WHERE trip_id = ? AND (start_time < ? OR end_time > ?)',
+    [tripId, startTime, endTime]
+  );
+  await db.runAsync(
+    'UPDATE overspeed_events SET start_time = ? WHERE trip_id = ? AND start_time < ?',
+    [startTime, tripId, startTime]
+  );
+  await db.runAsync(
+    'UPDATE overspeed_events SET end_time = ? WHERE trip_id = ? AND (end_time IS NULL OR end_time > ?)',
+    [endTime, tripId, endTime]
+  );
+}
+
+/**
+ * Set when a trip started and ended
+ */
+export async function updateTripTimes(
+  db: SQLiteDatabase,
+  tripId: number,
+  startTime: number,
+  endTime: number
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE trips SET start_time = ?, end_time = ? WHERE id = ?',
+    [startTime, endTime, tripId]
+  );
+}
+
+/**
+ * Fix the auto split length of a trip, in meters
+ */
+export async function setTripSplitDistance(
+  db: SQLiteDatabase,
+  tripId: number,
+  splitDistance: number
+): Promise<void> {
+  await db.runAsync('UPDATE trips SET split_distance = ? WHERE id = ?', [
+    splitDistance,
+    tripId,
+  ]);
+}
+
 // ============ LOCATION POINT QUERIES ============
 
+// Raw location_points row as stored in SQLite
+interface LocationPointRow {
+  id: number;
+  trip_id: number;
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  altitude: number | null;
+  accuracy: number | null;
+  timestamp: number;
+  source: LocationSource | null;
+}
+
+/**
+ * Map a location_points row to a LocationPoint
+ */
+function mapLocationPointRow(row: LocationPointRow): LocationPoint {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    speed: row.speed,
+    altitude: row.altitude,
+    accuracy: row.accuracy,
+    timestamp: row.timestamp,
+    source: row.source,
+  };
+}
+
 /**
  * Add a location point to a trip
  */
@@ -190,8 +604,8 @@ export async function addLocationPoint(
 ): Promise<number> {
   const result = await db.runAsync(
     `INSERT INTO location_points 
-     (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp) 
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+     (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp, source) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       point.tripId,
       point.latitude,
@@ -200,6 +614,7 @@ export async function addLocationPoint(
       point.altitude,
       point.accuracy,
       point.timestamp,
+      point.source ?? null,
     ]
   );
   return result.lastInsertRowId;
@@ -212,40 +627,194 @@ export async function getLocationPointsForTrip(
   db: SQLiteDatabase,
   tripId: number
 ): Promise<LocationPoint[]> {
-  const rows = await db.getAllAsync<{
-    id: number;
-    trip_id: number;
-    latitude: number;
-    longitude: number;
-    speed: number | null;
-    altitude: number | null;
-    accuracy: number | null;
-    timestamp: number;
-  }>(
+  const rows = await db.getAllAsync<LocationPointRow>(
     'SELECT * FROM location_points WHERE trip_id = ? ORDER BY timestamp ASC',
     [tripId]
   );
 
-  return rows.map((row) => ({
-    id: row.id,
-    tripId: row.trip_id,
-    latitude: row.latitude,
-    longitude: row.longitude,
-    speed: row.speed,
-    altitude: row.altitude,
-    accuracy: row.accuracy,
-    timestamp: row.timestamp,
-  }));
+  return rows.map(mapLocationPointRow);
 }
 
 /**
- * Get the last location point for a trip
+ * Get a trip's location points from `fromTime` to `toTime`, in timestamp order
  */
-export async function getLastLocationPoint(
+export async function getLocationPointsBetween(
+  db: SQLiteDatabase,
+  tripId: number,
+  fromTime: number,
+  toTime: number
+): Promise<LocationPoint[]> {
+  const rows = await db.getAllAsync<LocationPointRow>(
+    `SELECT * FROM location_points WHERE trip_id = ? AND timestamp BETWEEN ? AND ?
+     ORDER BY timestamp ASC`,
+    [tripId, fromTime, toTime]
+  );
+
+  return rows.map(mapLocationPointRow);
+}
+
+/**
+ * Get one page of a trip's location points, in timestamp order
+ * Pages are keyed on the last point of the previous page rather than an
+ * OFFSET, so each page is an index seek however deep into the trip it is
+ */
+export async function getLocationPointsPage(
+  db: SQLiteDatabase,
+  tripId: number,
+  after: { id: number; timestamp: number } | null,
+  limit: number
+): Promise<LocationPoint[]> {
+  const rows = after
+    ? await db.getAllAsync<LocationPointRow>(
+        `SELECT * FROM location_points
+         WHERE trip_id = ? AND (timestamp > ? OR (timestamp = ? AND id > ?))
+         ORDER BY timestamp ASC, id ASC LIMIT ?`,
+        [tripId, after.timestamp, after.timestamp, after.id, limit]
+      )
+    : await db.getAllAsync<LocationPointRow>(
+        `SELECT * FROM location_points WHERE trip_id = ?
+         ORDER BY timestamp ASC, id ASC LIMIT ?`,
+        [tripId, limit]
+      );
+
+  return rows.map(mapLocationPointRow);
+}
+
+/**
+ * Get the last location point for a trip
+ */
+export async function getLastLocationPoint(
   db: SQLiteDatabase,
   tripId: number
 ): Promise<LocationPoint | null> {
+  const row = await db.getFirstAsync<LocationPointRow>(
+    'SELECT * FROM location_points WHERE trip_id = ? ORDER BY timestamp DESC LIMIT 1',
+    [tripId]
+  );
+
+  return row ? mapLocationPointRow(row) : null;
+}
+
+/**
+ * Get the bounding box of a trip's location points
+ */
+export async function getLocationPointBounds(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<LocationBounds | null> {
   const row = await db.getFirstAsync<{
+    min_lat: number | null;
+    min_lon: number | null;
+    max_lat: number | null;
+    max_lon: number | null;
+  }>(
+    `SELECT MIN(latitude) as min_lat, MIN(longitude) as min_lon,
+            MAX(latitude) as max_lat, MAX(longitude) as max_lon
+     FROM location_points WHERE trip_id = ?`,
+    [tripId]
+  );
+
+  if (!row || row.min_lat === null || row.min_lon === null ||
+      row.max_lat === null || row.max_lon === null) {
+    return null;
+  }
+
+  return {
+    minLatitude: row.min_lat,
+    minLongitude: row.min_lon,
+    maxLatitude: row.max_lat,
+    maxLongitude: row.max_lon,
+  };
+}
+
+/**
+ * Check whether a fix is already stored for its trip
+ */
+export async function hasLocationPoint(
+  db: SQLiteDatabase,
+  point: Omit<LocationPoint, 'id'>
+): Promise<boolean> {
+  const row = await db.getFirstAsync<{ id: number }>(
+    `SELECT id FROM location_points
+     WHERE trip_id = ? AND timestamp = ? AND latitude = ? AND longitude = ?
+     LIMIT 1`,
+    [point.tripId, point.timestamp, point.latitude, point.longitude]
+  );
+  return row !== null;
+}
+
+/**
+ * Get location point count for a trip
+ */
+export async function getLocationPointCount(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<number> {
+  const result = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM location_points WHERE trip_id = ?',
+    [tripId]
+  );
+  return result?.count ?? 0;
+}
+
+/**
+ * Get location point count across all trips
+ */
+export async function getTotalLocationPointCount(
+  db: SQLiteDatabase
+): Promise<number> {
+  const result = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM location_points'
+  );
+  return result?.count ?? 0;
+}
+
+/**
+ * Delete all location points for a trip
+ */
+export async function deleteLocationPointsForTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<void> {
+  await db.runAsync('DELETE FROM location_points WHERE trip_id = ?', [tripId]);
+}
+
+// ============ REJECTED POINT QUERIES ============
+
+/**
+ * Record a fix that was left out of the trip stats
+ */
+export async function addRejectedPoint(
+  db: SQLiteDatabase,
+  point: Omit<RejectedLocationPoint, 'id'>
+): Promise<number> {
+  const result = await db.runAsync(
+    `INSERT INTO rejected_points 
+     (trip_id, latitude, longitude, speed, altitude, accuracy, timestamp, reason, source) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      point.tripId,
+      point.latitude,
+      point.longitude,
+      point.speed,
+      point.altitude,
+      point.accuracy,
+      point.timestamp,
+      point.reason,
+      point.source ?? null,
+    ]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Get all rejected fixes for a trip
+ */
+export async function getRejectedPointsForTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<RejectedLocationPoint[]> {
+  const rows = await db.getAllAsync<{
     id: number;
     trip_id: number;
     latitude: number;
@@ -254,14 +823,14 @@ export async function getLastLocationPoint(
     altitude: number | null;
     accuracy: number | null;
     timestamp: number;
+    reason: FixRejectionReason;
+    source: LocationSource | null;
   }>(
-    'SELECT * FROM location_points WHERE trip_id = ? ORDER BY timestamp DESC LIMIT 1',
+    'SELECT * FROM rejected_points WHERE trip_id = ? ORDER BY timestamp ASC',
     [tripId]
   );
 
-  if (!row) return null;
-
-  return {
+  return rows.map((row) => ({
     id: row.id,
     tripId: row.trip_id,
     latitude: row.latitude,
@@ -270,29 +839,606 @@ export async function getLastLocationPoint(
     altitude: row.altitude,
     accuracy: row.accuracy,
     timestamp: row.timestamp,
-  };
+    reason: row.reason,
+    source: row.source,
+  }));
 }
 
 /**
- * Get location point count for a trip
+ * Check whether a rejected fix is already stored for its trip
  */
-export async function getLocationPointCount(
+export async function hasRejectedPoint(
+  db: SQLiteDatabase,
+  point: Omit<RejectedLocationPoint, 'id'>
+): Promise<boolean> {
+  const row = await db.getFirstAsync<{ id: number }>(
+    `SELECT id FROM rejected_points
+     WHERE trip_id = ? AND timestamp = ? AND latitude = ? AND longitude = ?
+     LIMIT 1`,
+    [point.tripId, point.timestamp, point.latitude, point.longitude]
+  );
+  return row !== null;
+}
+
+/**
+ * Get rejected fix count for a trip
+ */
+export async function getRejectedPointCount(
   db: SQLiteDatabase,
   tripId: number
 ): Promise<number> {
   const result = await db.getFirstAsync<{ count: number }>(
-    'SELECT COUNT(*) as count FROM location_points WHERE trip_id = ?',
+    'SELECT COUNT(*) as count FROM rejected_points WHERE trip_id = ?',
     [tripId]
   );
   return result?.count ?? 0;
 }
 
+// ============ PAUSE INTERVAL QUERIES ============
+
 /**
- * Delete all location points for a trip
+ * Open a pause interval for a trip
  */
-export async function deleteLocationPointsForTrip(
+export async function startPauseInterval(
+  db: SQLiteDatabase,
+  tripId: number,
+  startTime: number,
+  reason: PauseReason
+): Promise<number> {
+  const result = await db.runAsync(
+    'INSERT INTO pause_intervals (trip_id, start_time, reason) VALUES (?, ?, ?)',
+    [tripId, startTime, reason]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Close any open pause interval for a trip
+ */
+export async function endPauseInterval(
+  db: SQLiteDatabase,
+  tripId: number,
+  endTime: number
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE pause_intervals SET end_time = ? WHERE trip_id = ? AND end_time IS NULL',
+    [endTime, tripId]
+  );
+}
+
+/**
+ * Add a complete pause interval (e.g. from an import)
+ */
+export async function addPauseInterval(
+  db: SQLiteDatabase,
+  pause: Omit<PauseInterval, 'id'>
+): Promise<number> {
+  const result = await db.runAsync(
+    'INSERT INTO pause_intervals (trip_id, start_time, end_time, reason) VALUES (?, ?, ?, ?)',
+    [pause.tripId, pause.startTime, pause.endTime, pause.reason]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Drop pauses after `endTime` and close any still running at it
+ */
+export async function clipPauseIntervals(
+  db: SQLiteDatabase,
+  tripId: number,
+  endTime: number
+): Promise<void> {
+  await db.runAsync(
+    'DELETE FROM pause_intervals WHERE trip_id = ? AND start_time >= ?',
+    [tripId, endTime]
+  );
+  await db.runAsync(
+    `UPDATE pause_intervals SET end_time = ?
+     WHERE trip_id = ? AND (end_time IS NULL OR end_time > ?)`,
+    [endTime, tripId, endTime]
+  );
+}
+
+/**
+ * Get all pause intervals for a trip, oldest first
+ */
+export async function getPauseIntervalsForTrip(
   db: SQLiteDatabase,
   tripId: number
+): Promise<PauseInterval[]> {
+  const rows = await db.getAllAsync<{
+    id: number;
+    trip_id: number;
+    start_time: number;
+    end_time: number | null;
+    reason: PauseReason;
+  }>(
+    'SELECT * FROM pause_intervals WHERE trip_id = ? ORDER BY start_time ASC',
+    [tripId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    tripId: row.trip_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    reason: row.reason,
+  }));
+}
+
+// ============ OVERSPEED EVENT QUERIES ============
+
+/**
+ * Open an overspeed event; it stays open until ended
+ */
+export async function startOverspeedEvent(
+  db: SQLiteDatabase,
+  tripId: number,
+  startTime: number,
+  speedLimit: number,
+  peakSpeed: number
 ): Promise<void> {
-  await db.runAsync('DELETE FROM location_points WHERE trip_id = ?', [tripId]);
+  await db.runAsync(
+    `INSERT INTO overspeed_events (trip_id, start_time, end_time, peak_speed, speed_limit)
+     VALUES (?, ?, NULL, ?, ?)`,
+    [tripId, startTime, peakSpeed, speedLimit]
+  );
+}
+
+/**
+ * Close the open overspeed event of a trip, keeping the higher peak
+ */
+export async function endOverspeedEvent(
+  db: SQLiteDatabase,
+  tripId: number,
+  endTime: number,
+  peakSpeed: number = 0
+): Promise<void> {
+  await db.runAsync(
+    `UPDATE overspeed_events SET end_time = MAX(start_time, ?), peak_speed = MAX(peak_speed, ?)
+     WHERE trip_id = ? AND end_time IS NULL`,
+    [endTime, peakSpeed, tripId]
+  );
+}
+
+/**
+ * Get all overspeed events for a trip, oldest first
+ */
+export async function getOverspeedEventsForTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<OverspeedEvent[]> {
+  const rows = await db.getAllAsync<{
+    id: number;
+    trip_id: number;
+    start_time: number;
+    end_time: number | null;
+    peak_speed: number;
+    speed_limit: number;
+  }>(
+    'SELECT * FROM overspeed_events WHERE trip_id = ? ORDER BY start_time ASC',
+    [tripId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    tripId: row.trip_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    peakSpeed: row.peak_speed,
+    speedLimit: row.speed_limit,
+  }));
+}
+
+// ============ SPLIT QUERIES ============
+
+/**
+ * Replace all splits and laps of a trip
+ */
+export async function replaceTripSplits(
+  db: SQLiteDatabase,
+  tripId: number,
+  splits: Omit<TripSplit, 'id' | 'tripId'>[]
+): Promise<void> {
+  await db.runAsync('DELETE FROM splits WHERE trip_id = ?', [tripId]);
+
+  for (const split of splits) {
+    await db.runAsync(
+      `INSERT INTO splits (trip_id, kind, split_index, start_time, end_time, distance,
+         moving_time, avg_speed, max_speed, elevation_change)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        tripId,
+        split.kind,
+        split.splitIndex,
+        split.startTime,
+        split.endTime,
+        split.distance,
+        split.movingTime,
+        split.avgSpeed,
+        split.maxSpeed,
+        split.elevationChange,
+      ]
+    );
+  }
+}
+
+/**
+ * Get the splits of a trip: auto splits first, then laps, each in order
+ */
+export async function getSplitsForTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<TripSplit[]> {
+  const rows = await db.getAllAsync<{
+    id: number;
+    trip_id: number;
+    kind: SplitKind;
+    split_index: number;
+    start_time: number;
+    end_time: number;
+    distance: number;
+    moving_time: number;
+    avg_speed: number;
+    max_speed: number;
+    elevation_change: number | null;
+  }>(
+    `SELECT * FROM splits WHERE trip_id = ?
+     ORDER BY CASE kind WHEN 'auto' THEN 0 ELSE 1 END, split_index ASC`,
+    [tripId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    tripId: row.trip_id,
+    kind: row.kind,
+    splitIndex: row.split_index,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    distance: row.distance,
+    movingTime: row.moving_time,
+    avgSpeed: row.avg_speed,
+    maxSpeed: row.max_speed,
+    elevationChange: row.elevation_change,
+  }));
+}
+
+/**
+ * When each lap of a trip ended, oldest first
+ */
+export async function getLapTimesForTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<number[]> {
+  const rows = await db.getAllAsync<{ end_time: number }>(
+    `SELECT end_time FROM splits WHERE trip_id = ? AND kind = 'lap'
+     ORDER BY end_time ASC`,
+    [tripId]
+  );
+  return rows.map((row) => row.end_time);
+}
+
+// ============ PERFORMANCE RUN QUERIES ============
+
+/**
+ * Store a performance run without its results and return its ID
+ */
+export async function addPerformanceRun(
+  db: SQLiteDatabase,
+  run: Omit<PerformanceRun, 'id' | 'results'>
+): Promise<number> {
+  const result = await db.runAsync(
+    `INSERT INTO performance_runs (start_time, peak_speed, fix_rate, worst_accuracy, warnings)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      run.startTime,
+      run.peakSpeed,
+      run.fixRate,
+      run.worstAccuracy,
+      JSON.stringify(run.warnings),
+    ]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Store the time for one target of a performance run
+ */
+export async function addPerformanceResult(
+  db: SQLiteDatabase,
+  runId: number,
+  result: PerformanceResult
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO performance_results (run_id, target_id, time, trap_speed)
+     VALUES (?, ?, ?, ?)`,
+    [runId, result.targetId, result.time, result.trapSpeed]
+  );
+}
+
+// Raw performance_results row as stored in SQLite
+interface PerformanceResultRow {
+  run_id: number;
+  target_id: string;
+  time: number;
+  trap_speed: number | null;
+}
+
+/**
+ * Map a performance_results row to a PerformanceResult
+ */
+function mapPerformanceResultRow(row: PerformanceResultRow): PerformanceResult {
+  return {
+    targetId: row.target_id,
+    time: row.time,
+    trapSpeed: row.trap_speed,
+  };
+}
+
+/**
+ * Get the latest performance runs with their results, newest first
+ */
+export async function getPerformanceRuns(
+  db: SQLiteDatabase,
+  limit: number
+): Promise<PerformanceRun[]> {
+  const runs = await db.getAllAsync<{
+    id: number;
+    start_time: number;
+    peak_speed: number;
+    fix_rate: number;
+    worst_accuracy: number | null;
+    warnings: string;
+  }>('SELECT * FROM performance_runs ORDER BY start_time DESC LIMIT ?', [limit]);
+  if (runs.length === 0) return [];
+
+  const results = await db.getAllAsync<PerformanceResultRow>(
+    `SELECT * FROM performance_results
+     WHERE run_id IN (${runs.map(() => '?').join(', ')})
+     ORDER BY id ASC`,
+    runs.map((run) => run.id)
+  );
+
+  return runs.map((run) => ({
+    id: run.id,
+    startTime: run.start_time,
+    peakSpeed: run.peak_speed,
+    fixRate: run.fix_rate,
+    worstAccuracy: run.worst_accuracy,
+    warnings: parseWarnings(run.warnings),
+    results: results
+      .filter((result) => result.run_id === run.id)
+      .map(mapPerformanceResultRow),
+  }));
+}
+
+/**
+ * Best time for each target over all runs, with the run that set it
+ */
+export async function getBestPerformanceResults(
+  db: SQLiteDatabase
+): Promise<(PerformanceResult & { runId: number })[]> {
+  // SQLite takes the other columns from the row holding the MIN
+  const rows = await db.getAllAsync<PerformanceResultRow>(
+    `SELECT run_id, target_id, MIN(time) AS time, trap_speed
+     FROM performance_results GROUP BY target_id`
+  );
+  return rows.map((row) => ({ ...mapPerformanceResultRow(row), runId: row.run_id }));
+}
+
+/**
+ * Delete a performance run and its results
+ */
+export async function deletePerformanceRun(
+  db: SQLiteDatabase,
+  runId: number
+): Promise<void> {
+  await db.runAsync('DELETE FROM performance_runs WHERE id = ?', [runId]);
+}
+
+/**
+ * Read the stored warnings column, tolerating a damaged value
+ */
+function parseWarnings(value: string): PerformanceWarning[] {
+  try {
+    const warnings: unknown = JSON.parse(value);
+    return Array.isArray(warnings)
+      ? warnings.filter(
+          (warning): warning is PerformanceWarning =>
+            warning === 'low-fix-rate' || warning === 'poor-accuracy'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// ============ BRAKING TEST QUERIES ============
+
+/**
+ * Store a braking test and return its ID
+ */
+export async function addBrakingTest(
+  db: SQLiteDatabase,
+  test: Omit<BrakingTest, 'id'>
+): Promise<number> {
+  const result = await db.runAsync(
+    `INSERT INTO braking_tests (trip_id, label, start_time, end_time, target_speed,
+       start_speed, distance, duration, peak_deceleration, mean_deceleration)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      test.tripId,
+      test.label,
+      test.startTime,
+      test.endTime,
+      test.targetSpeed,
+      test.startSpeed,
+      test.distance,
+      test.duration,
+      test.peakDeceleration,
+      test.meanDeceleration,
+    ]
+  );
+  return result.lastInsertRowId;
+}
+
+/**
+ * Get the latest braking tests, newest first
+ */
+export async function getBrakingTests(
+  db: SQLiteDatabase,
+  limit: number
+): Promise<BrakingTest[]> {
+  const rows = await db.getAllAsync<{
+    id: number;
+    trip_id: number;
+    label: string | null;
+    start_time: number;
+    end_time: number;
+    target_speed: number;
+    start_speed: number;
+    distance: number;
+    duration: number;
+    peak_deceleration: number;
+    mean_deceleration: number;
+  }>('SELECT * FROM braking_tests ORDER BY start_time DESC LIMIT ?', [limit]);
+
+  return rows.map((row) => ({
+    id: row.id,
+    tripId: row.trip_id,
+    label: row.label,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    targetSpeed: row.target_speed,
+    startSpeed: row.start_speed,
+    distance: row.distance,
+    duration: row.duration,
+    peakDeceleration: row.peak_deceleration,
+    meanDeceleration: row.mean_deceleration,
+  }));
+}
+
+/**
+ * Delete a braking test
+ */
+export async function deleteBrakingTest(
+  db: SQLiteDatabase,
+  testId: number
+): Promise<void> {
+  await db.runAsync('DELETE FROM braking_tests WHERE id = ?', [testId]);
+}
+
+// ============ STATS QUERIES ============
+
+// Only completed trips count towards stats
+const STATS_TOTALS_COLUMNS = `
+  COUNT(*) as tripCount,
+  COALESCE(SUM(total_distance), 0) as distance,
+  COALESCE(SUM(moving_time), 0) as movingTime`;
+
+// Local start date of the week (Monday), month or year a trip began in
+const STATS_PERIOD_KEYS: Record<StatsPeriod, string> = {
+  week: `date(start_time / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days')`,
+  month: `strftime('%Y-%m-01', start_time / 1000, 'unixepoch', 'localtime')`,
+  year: `strftime('%Y-01-01', start_time / 1000, 'unixepoch', 'localtime')`,
+};
+
+/**
+ * Totals per week, month or year for trips starting at or after `since`
+ * Periods without trips are left out
+ */
+export async function getPeriodTotals(
+  db: SQLiteDatabase,
+  period: StatsPeriod,
+  since: number
+): Promise<PeriodTotals[]> {
+  return db.getAllAsync<PeriodTotals>(
+    `SELECT ${STATS_PERIOD_KEYS[period]} as period, ${STATS_TOTALS_COLUMNS}
+     FROM trips
+     WHERE status = 'completed' AND start_time >= ?
+     GROUP BY period
+     ORDER BY period ASC`,
+    [since]
+  );
+}
+
+/**
+ * All-time totals
+ */
+export async function getStatsTotals(db: SQLiteDatabase): Promise<StatsTotals> {
+  const result = await db.getFirstAsync<StatsTotals>(
+    `SELECT ${STATS_TOTALS_COLUMNS} FROM trips WHERE status = 'completed'`
+  );
+  return result ?? { tripCount: 0, distance: 0, movingTime: 0 };
+}
+
+/**
+ * Totals per activity type, most distance first
+ */
+export async function getActivityTotals(
+  db: SQLiteDatabase
+): Promise<ActivityTotals[]> {
+  return db.getAllAsync<ActivityTotals>(
+    `SELECT activity_type as activityType, ${STATS_TOTALS_COLUMNS}
+     FROM trips
+     WHERE status = 'completed'
+     GROUP BY activity_type
+     ORDER BY distance DESC`
+  );
+}
+
+/**
+ * Trips holding the distance, max speed and moving average records
+ * Ties go to the earlier trip; short trips can't hold the best average
+ */
+export async function getPersonalRecords(
+  db: SQLiteDatabase,
+  minAverageDistance: number
+): Promise<PersonalRecords> {
+  const getRecord = async (column: string, minDistance = 0) => {
+    const row = await db.getFirstAsync<TripRow>(
+      `SELECT * FROM trips
+       WHERE status = 'completed' AND total_distance >= ? AND ${column} > 0
+       ORDER BY ${column} DESC, start_time ASC
+       LIMIT 1`,
+      [minDistance]
+    );
+    return row ? mapTripRow(row) : null;
+  };
+
+  return {
+    longestTrip: await getRecord('total_distance'),
+    fastestTrip: await getRecord('max_speed'),
+    bestAverageTrip: await getRecord('moving_avg_speed', minAverageDistance),
+  };
+}
+
+/**
+ * Current and longest runs of consecutive local days with a trip
+ *
+ * Days minus their rank are equal within a run, which groups each run.
+ * The current streak is still alive if its last day is today or yesterday.
+ */
+export async function getTripStreaks(db: SQLiteDatabase): Promise<TripStreaks> {
+  const result = await db.getFirstAsync<TripStreaks>(
+    `WITH days AS (
+       SELECT DISTINCT CAST(julianday(date(start_time / 1000, 'unixepoch', 'localtime')) AS INTEGER) as day
+       FROM trips
+       WHERE status = 'completed'
+     ),
+     runs AS (
+       SELECT day, day - ROW_NUMBER() OVER (ORDER BY day) as run FROM days
+     ),
+     streaks AS (
+       SELECT MAX(day) as lastDay, COUNT(*) as length FROM runs GROUP BY run
+     )
+     SELECT
+       COALESCE((
+         SELECT length FROM streaks
+         WHERE lastDay >= CAST(julianday(date('now', 'localtime')) AS INTEGER) - 1
+       ), 0) as current,
+       COALESCE(MAX(length), 0) as longest
+     FROM streaks`
+  );
+  return result ?? { current: 0, longest: 0 };
 }
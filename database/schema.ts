@@ -1,5 +1,8 @@
 /**
  * SQLite database schema definitions
+ *
+ * Statements here are used by the migration registry in ./migrations.ts.
+ * Once a migration has shipped, the statements it uses must not change.
  */
 
 // SQL statements for creating tables
@@ -29,6 +32,107 @@ export const CREATE_LOCATION_POINTS_TABLE = `
   );
 `;
 
+// Fixes left out of trip stats, kept with a reason for auditing
+export const CREATE_REJECTED_POINTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS rejected_points (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id INTEGER NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    speed REAL,
+    altitude REAL,
+    accuracy REAL,
+    timestamp INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  );
+`;
+
+// Pause/resume intervals per trip
+export const CREATE_PAUSE_INTERVALS_TABLE = `
+  CREATE TABLE IF NOT EXISTS pause_intervals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id INTEGER NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    reason TEXT NOT NULL DEFAULT 'manual',
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  );
+`;
+
+// Stretches of a trip spent over the speed limit
+export const CREATE_OVERSPEED_EVENTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS overspeed_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id INTEGER NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    peak_speed REAL NOT NULL,
+    speed_limit REAL NOT NULL,
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  );
+`;
+
+// Auto splits and laps; lap rows also keep the lap button presses
+export const CREATE_SPLITS_TABLE = `
+  CREATE TABLE IF NOT EXISTS splits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    split_index INTEGER NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    distance REAL NOT NULL,
+    moving_time INTEGER NOT NULL,
+    avg_speed REAL NOT NULL,
+    max_speed REAL NOT NULL,
+    elevation_change REAL,
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  );
+`;
+
+// Saved acceleration runs; warnings are a JSON array
+export const CREATE_PERFORMANCE_RUNS_TABLE = `
+  CREATE TABLE IF NOT EXISTS performance_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    start_time INTEGER NOT NULL,
+    peak_speed REAL NOT NULL,
+    fix_rate REAL NOT NULL,
+    worst_accuracy REAL,
+    warnings TEXT NOT NULL DEFAULT '[]'
+  );
+`;
+
+// Times for each target reached on a performance run
+export const CREATE_PERFORMANCE_RESULTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS performance_results (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL,
+    target_id TEXT NOT NULL,
+    time REAL NOT NULL,
+    trap_speed REAL,
+    FOREIGN KEY (run_id) REFERENCES performance_runs(id) ON DELETE CASCADE
+  );
+`;
+
+// Stops measured by braking tests, from the trip's own points
+export const CREATE_BRAKING_TESTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS braking_tests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id INTEGER NOT NULL,
+    label TEXT,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    target_speed REAL NOT NULL,
+    start_speed REAL NOT NULL,
+    distance REAL NOT NULL,
+    duration REAL NOT NULL,
+    peak_deceleration REAL NOT NULL,
+    mean_deceleration REAL NOT NULL,
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  );
+`;
+
 // Create index for faster trip queries
 export const CREATE_TRIP_INDEX = `
   CREATE INDEX IF NOT EXISTS idx_location_points_trip_id 
@@ -41,10 +145,96 @@ export const CREATE_TIMESTAMP_INDEX = `
   ON location_points(timestamp);
 `;
 
-// All schema statements in order
-export const SCHEMA_STATEMENTS = [
-  CREATE_TRIPS_TABLE,
-  CREATE_LOCATION_POINTS_TABLE,
-  CREATE_TRIP_INDEX,
-  CREATE_TIMESTAMP_INDEX,
+// Covering order for paging a trip's points by (timestamp, id)
+export const CREATE_TRIP_TIMESTAMP_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_location_points_trip_timestamp 
+  ON location_points(trip_id, timestamp, id);
+`;
+
+// Create index for rejected point lookups by trip
+export const CREATE_REJECTED_POINTS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_rejected_points_trip_id 
+  ON rejected_points(trip_id);
+`;
+
+
+// Create index for pause interval lookups by trip
+export const CREATE_PAUSE_INTERVALS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_pause_intervals_trip_id 
+  ON pause_intervals(trip_id);
+`;
+
+// Create index for overspeed event lookups by trip
+export const CREATE_OVERSPEED_EVENTS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_overspeed_events_trip_id
+  ON overspeed_events(trip_id);
+`;
+
+export const CREATE_SPLITS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_splits_trip_id
+  ON splits(trip_id);
+`;
+
+// Create index for result lookups by run
+export const CREATE_PERFORMANCE_RESULTS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_performance_results_run_id
+  ON performance_results(run_id);
+`;
+
+// Create index for braking test lookups by trip
+export const CREATE_BRAKING_TESTS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_braking_tests_trip_id
+  ON braking_tests(trip_id);
+`;
+
+// History is listed and filtered by start time
+export const CREATE_TRIP_START_TIME_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_trips_start_time
+  ON trips(start_time);
+`;
+
+// Which location stream each fix came from
+export const ADD_LOCATION_SOURCE_COLUMNS = [
+  'ALTER TABLE location_points ADD COLUMN source TEXT;',
+  'ALTER TABLE rejected_points ADD COLUMN source TEXT;',
 ];
+
+// User-entered trip metadata; tags are a JSON array of strings
+export const ADD_TRIP_DETAILS_COLUMNS = [
+  'ALTER TABLE trips ADD COLUMN title TEXT;',
+  'ALTER TABLE trips ADD COLUMN notes TEXT;',
+  "ALTER TABLE trips ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';",
+  'ALTER TABLE trips ADD COLUMN activity_type TEXT;',
+];
+
+// Moving/paused time columns on trips
+export const ADD_TRIP_MOVING_TIME_COLUMNS = [
+  'ALTER TABLE trips ADD COLUMN moving_time INTEGER DEFAULT 0;',
+  'ALTER TABLE trips ADD COLUMN paused_time INTEGER DEFAULT 0;',
+  'ALTER TABLE trips ADD COLUMN moving_avg_speed REAL DEFAULT 0;',
+];
+
+// Trips recorded before pauses were tracked: treat all elapsed time as moving
+export const BACKFILL_TRIP_MOVING_TIME = `
+  UPDATE trips
+  SET moving_time = (end_time - start_time) / 1000,
+      moving_avg_speed = avg_speed
+  WHERE end_time IS NOT NULL;
+`;
+
+// Auto split length in meters, fixed per trip so a unit change can't recut it
+export const ADD_TRIP_SPLIT_DISTANCE_COLUMN = 'ALTER TABLE trips ADD COLUMN split_distance REAL;';
+
+// Trips split before the length was stored: read it back from their auto
+// splits, whose full splits are exactly one kilometer or one mile
+export const BACKFILL_TRIP_SPLIT_DISTANCE = `
+  UPDATE trips
+  SET split_distance = (
+    SELECT CASE
+      WHEN MAX(distance) > 1000.5 THEN 1609.344
+      WHEN MAX(distance) > 999.5 THEN 1000
+    END
+    FROM splits
+    WHERE splits.trip_id = trips.id AND splits.kind = 'auto'
+  );
+`;
@@ -5,3 +5,9 @@
 export * from './use-color-scheme';
 export * from './use-theme-color';
 export * from './useTracking';
+export * from './useReplay';
+export * from './useExport';
+export * from './useTripHistory';
+export * from './useStats';
+export * from './usePerformanceTimer';
+export * from './useBrakingTest';
@@ -0,0 +1,152 @@
+/**
+ * Custom hook for braking tests on the trip being recorded
+ * The test follows the trip's live fixes and is measured from its stored
+ * points once the car has stopped.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { BRAKING_CONFIG, CONVERSION } from "@/constants/config";
+import { deleteBrakingTest, getBrakingTests, initDatabase } from "@/database";
+import {
+  checkBrakingTest,
+  createBrakingTestState,
+  saveBrakingTest,
+  type BrakingTestState,
+} from "@/services/braking-test";
+import { mphToKmh } from "@/services/speed-calculator";
+import { flushTrackWrites } from "@/services/track-writer";
+import { useSettingsStore } from "@/stores/settings-store";
+import { useTripStore } from "@/stores/trip-store";
+import type { BrakingTest } from "@/types";
+
+export function useBrakingTest() {
+  const { unit, brakingTargetSpeed, brakingLabel } = useSettingsStore();
+  const { isTracking, isPaused, currentTripId, currentSpeed, lastLocation } =
+    useTripStore();
+
+  const [test, setTest] = useState<BrakingTestState | null>(null); // null when idle
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [lastResult, setLastResult] = useState<BrakingTest | null>(null);
+  const [measureFailed, setMeasureFailed] = useState(false);
+  const [results, setResults] = useState<BrakingTest[]>([]);
+  // Location updates read the test here rather than from a stale render
+  const testRef = useRef<BrakingTestState | null>(null);
+
+  const canArm = isTracking && !isPaused && currentTripId !== null;
+
+  const updateTest = useCallback((next: BrakingTestState | null) => {
+    testRef.current = next;
+    setTest(next);
+  }, []);
+
+  /**
+   * Load saved braking tests
+   */
+  const reload = useCallback(async () => {
+    try {
+      const db = await initDatabase();
+      setResults(await getBrakingTests(db, BRAKING_CONFIG.historySize));
+    } catch (error) {
+      console.error("Error loading braking tests:", error);
+    }
+  }, []);
+
+  /**
+   * Measure a stopped test from the stored points and save it
+   */
+  const measure = useCallback(
+    async (state: BrakingTestState) => {
+      setIsMeasuring(true);
+      try {
+        await flushTrackWrites();
+        const db = await initDatabase();
+        const result = await saveBrakingTest(db, state, brakingLabel.trim() || null);
+        setLastResult(result);
+        setMeasureFailed(result === null);
+        await reload();
+      } catch (error) {
+        console.error("Error measuring braking test:", error);
+        setMeasureFailed(true);
+      } finally {
+        setIsMeasuring(false);
+      }
+    },
+    [brakingLabel, reload]
+  );
+
+  // Follow the trip's fixes; the raw GPS speed reacts faster than the filtered one
+  useEffect(() => {
+    const current = testRef.current;
+    if (!current || !lastLocation) return;
+
+    const speed =
+      lastLocation.speed !== null && lastLocation.speed >= 0
+        ? lastLocation.speed * CONVERSION.MS_TO_KMH
+        : currentSpeed;
+    const next = checkBrakingTest(current, speed, lastLocation.timestamp);
+    if (next.phase === "stopped") {
+      updateTest(null);
+      measure(next);
+    } else if (next !== current) {
+      updateTest(next);
+    }
+  }, [lastLocation, currentSpeed, measure, updateTest]);
+
+  // A test can't outlive the trip it rides on
+  useEffect(() => {
+    if (!canArm && testRef.current) {
+      updateTest(null);
+    }
+  }, [canArm, updateTest]);
+
+  /**
+   * Arm a test at the target speed on the current trip
+   */
+  const arm = useCallback(() => {
+    if (!canArm || currentTripId === null) return;
+
+    const targetSpeed = unit === "mph" ? mphToKmh(brakingTargetSpeed) : brakingTargetSpeed;
+    setLastResult(null);
+    setMeasureFailed(false);
+    updateTest(createBrakingTestState(currentTripId, targetSpeed));
+  }, [canArm, currentTripId, unit, brakingTargetSpeed, updateTest]);
+
+  /**
+   * Abandon the armed test
+   */
+  const cancel = useCallback(() => {
+    updateTest(null);
+  }, [updateTest]);
+
+  /**
+   * Delete a saved braking test
+   */
+  const deleteResult = useCallback(
+    async (testId: number) => {
+      try {
+        const db = await initDatabase();
+        await deleteBrakingTest(db, testId);
+        setLastResult((result) => (result?.id === testId ? null : result));
+        await reload();
+      } catch (error) {
+        console.error("Error deleting braking test:", error);
+        throw error;
+      }
+    },
+    [reload]
+  );
+
+  return {
+    canArm,
+    test,
+    isMeasuring,
+    lastResult,
+    measureFailed,
+    results,
+    arm,
+    cancel,
+    deleteResult,
+    reload,
+  };
+}
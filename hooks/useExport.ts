@@ -0,0 +1,50 @@
+/**
+ * Custom hook for running a streaming export with progress and cancel
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { ExportOptions, ExportProgress } from "@/utils/export-writer";
+
+export function useExport() {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Run an export; resolves quietly when cancelled, rethrows other errors
+   */
+  const runExport = useCallback(
+    async (exporter: (options: ExportOptions) => Promise<void>) => {
+      // One export at a time
+      if (controllerRef.current) return;
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setProgress({ completed: 0, total: 0 });
+
+      try {
+        await exporter({ onProgress: setProgress, signal: controller.signal });
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+      } finally {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    },
+    []
+  );
+
+  const cancelExport = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Abandon a running export when leaving the screen
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    isExporting: progress !== null,
+    progress,
+    runExport,
+    cancelExport,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Custom hook for acceleration timing runs and their history
+ * GPS is watched at full rate while the screen using it is mounted.
+ */
+
+import type { LocationObject } from "expo-location";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { CONVERSION, PERFORMANCE_CONFIG, PERFORMANCE_TARGETS } from "@/constants/config";
+import {
+  deletePerformanceRun,
+  getBestPerformanceResults,
+  getPerformanceRuns,
+  initDatabase,
+} from "@/database";
+import { watchPerformanceLocation } from "@/services/location";
+import {
+  createPerformanceTimerState,
+  finishPerformanceRun,
+  processPerformanceSample,
+  savePerformanceRun,
+  type PerformanceSample,
+  type PerformanceTimerState,
+} from "@/services/performance-timer";
+import { useSettingsStore } from "@/stores/settings-store";
+import type { PerformanceResult, PerformanceRun } from "@/types";
+
+export function usePerformanceTimer() {
+  const { performanceTargets } = useSettingsStore();
+
+  const [isWatching, setIsWatching] = useState(false);
+  const [sample, setSample] = useState<PerformanceSample | null>(null); // latest fix
+  const [timer, setTimer] = useState<PerformanceTimerState | null>(null); // null when idle
+  const [lastRun, setLastRun] = useState<PerformanceRun | null>(null);
+  const [runs, setRuns] = useState<PerformanceRun[]>([]);
+  const [bestResults, setBestResults] = useState<(PerformanceResult & { runId: number })[]>(
+    []
+  );
+  // Location callbacks read the timer here rather than from a stale render
+  const timerRef = useRef<PerformanceTimerState | null>(null);
+
+  const updateTimer = useCallback((next: PerformanceTimerState | null) => {
+    timerRef.current = next;
+    setTimer(next);
+  }, []);
+
+  /**
+   * Load saved runs and the best time for each target
+   */
+  const reload = useCallback(async () => {
+    try {
+      const db = await initDatabase();
+      setRuns(await getPerformanceRuns(db, PERFORMANCE_CONFIG.historySize));
+      setBestResults(await getBestPerformanceResults(db));
+    } catch (error) {
+      console.error("Error loading performance runs:", error);
+    }
+  }, []);
+
+  /**
+   * Save a finished run and show it as the last run
+   */
+  const saveRun = useCallback(
+    async (state: PerformanceTimerState) => {
+      const run = finishPerformanceRun(state);
+      if (!run) return;
+
+      setLastRun(run);
+      try {
+        const db = await initDatabase();
+        const id = await savePerformanceRun(db, run);
+        setLastRun({ ...run, id });
+        await reload();
+      } catch (error) {
+        console.error("Error saving performance run:", error);
+      }
+    },
+    [reload]
+  );
+
+  /**
+   * Feed each fix with a valid speed to the timer
+   */
+  const handleLocation = useCallback(
+    (location: LocationObject) => {
+      const { speed, accuracy } = location.coords;
+      if (speed === null || speed < 0) return;
+
+      const next: PerformanceSample = {
+        timestamp: location.timestamp,
+        speed: speed * CONVERSION.MS_TO_KMH,
+        accuracy,
+      };
+      setSample(next);
+
+      const current = timerRef.current;
+      if (!current) return;
+
+      const updated = processPerformanceSample(current, next);
+      if (updated.phase === "finished") {
+        updateTimer(null);
+        saveRun(updated);
+      } else if (updated !== current) {
+        updateTimer(updated);
+      }
+    },
+    [saveRun, updateTimer]
+  );
+
+  // Watch GPS for as long as the hook is mounted
+  useEffect(() => {
+    let subscription: { remove: () => void } | null = null;
+    let isMounted = true;
+
+    watchPerformanceLocation(handleLocation).then((watch) => {
+      if (!isMounted) {
+        watch?.remove();
+        return;
+      }
+      subscription = watch;
+      setIsWatching(watch !== null);
+    });
+
+    return () => {
+      isMounted = false;
+      subscription?.remove();
+    };
+  }, [handleLocation]);
+
+  /**
+   * Arm a run for the enabled targets; it starts once stopped and moving off
+   */
+  const arm = useCallback(() => {
+    const targets = PERFORMANCE_TARGETS.filter((target) =>
+      performanceTargets.includes(target.id)
+    );
+    if (targets.length === 0) return;
+
+    setLastRun(null);
+    updateTimer(createPerformanceTimerState(targets));
+  }, [performanceTargets, updateTimer]);
+
+  /**
+   * Abandon the armed or running run without saving it
+   */
+  const cancel = useCallback(() => {
+    updateTimer(null);
+  }, [updateTimer]);
+
+  /**
+   * Delete a saved run
+   */
+  const deleteRun = useCallback(
+    async (runId: number) => {
+      try {
+        const db = await initDatabase();
+        await deletePerformanceRun(db, runId);
+        setLastRun((run) => (run?.id === runId ? null : run));
+        await reload();
+      } catch (error) {
+        console.error("Error deleting performance run:", error);
+        throw error;
+      }
+    },
+    [reload]
+  );
+
+  return {
+    isWatching,
+    sample,
+    timer,
+    lastRun,
+    runs,
+    bestResults,
+    arm,
+    cancel,
+    deleteRun,
+    reload,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Custom hook for replaying a recorded trip with play/pause, seek and speed
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { REPLAY_CONFIG } from "@/constants/config";
+import {
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  getTripById,
+  initDatabase,
+} from "@/database";
+import { buildReplayTimeline, getReplayState } from "@/services/replay";
+import type { LocationPoint, PauseInterval, Trip } from "@/types";
+
+export type ReplayRate = (typeof REPLAY_CONFIG.rates)[number];
+
+export function useReplay(tripId: number) {
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [points, setPoints] = useState<LocationPoint[]>([]);
+  const [pauseIntervals, setPauseIntervals] = useState<PauseInterval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Playback clock in the recording's timebase (epoch ms)
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState<ReplayRate>(REPLAY_CONFIG.rates[0]);
+
+  // Refs so the playback timer always sees current values
+  const positionRef = useRef(0);
+  const rateRef = useRef<ReplayRate>(rate);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    rateRef.current = rate;
+  }, [rate]);
+
+  useEffect(() => {
+    const loadTrip = async () => {
+      try {
+        const db = await initDatabase();
+        const tripData = await getTripById(db, tripId);
+        const locationPoints = await getLocationPointsForTrip(db, tripId);
+        const pauses = await getPauseIntervalsForTrip(db, tripId);
+
+        setTrip(tripData);
+        setPoints(locationPoints);
+        setPauseIntervals(pauses);
+        if (tripData) {
+          positionRef.current = tripData.startTime;
+          setPosition(tripData.startTime);
+        }
+      } catch (error) {
+        console.error("Error loading trip for replay:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (tripId) {
+      loadTrip();
+    }
+  }, [tripId]);
+
+  const timeline = useMemo(() => buildReplayTimeline(points), [points]);
+
+  const startTime = trip?.startTime ?? 0;
+  const endTime =
+    trip?.endTime ?? points[points.length - 1]?.timestamp ?? startTime;
+
+  const state = useMemo(
+    () => getReplayState(timeline, pauseIntervals, startTime, position),
+    [timeline, pauseIntervals, startTime, position]
+  );
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const pause = useCallback(() => {
+    stopTimer();
+    setIsPlaying(false);
+  }, []);
+
+  const play = useCallback(() => {
+    if (!trip) return;
+
+    // Start over when playing from the end
+    if (positionRef.current >= endTime) {
+      positionRef.current = startTime;
+      setPosition(startTime);
+    }
+
+    stopTimer();
+    timerRef.current = setInterval(() => {
+      const next = Math.min(
+        positionRef.current + REPLAY_CONFIG.tickInterval * rateRef.current,
+        endTime
+      );
+      positionRef.current = next;
+      setPosition(next);
+
+      if (next >= endTime) {
+        stopTimer();
+        setIsPlaying(false);
+      }
+    }, REPLAY_CONFIG.tickInterval);
+    setIsPlaying(true);
+  }, [trip, startTime, endTime]);
+
+  // Jump to a position, clamped to the trip
+  const seek = useCallback(
+    (target: number) => {
+      const clamped = Math.min(Math.max(target, startTime), endTime);
+      positionRef.current = clamped;
+      setPosition(clamped);
+    },
+    [startTime, endTime]
+  );
+
+  // Stop the timer when leaving the screen
+  useEffect(() => stopTimer, []);
+
+  return {
+    trip,
+    isLoading,
+    points,
+
+    // Playback
+    position,
+    startTime,
+    endTime,
+    isPlaying,
+    rate,
+
+    // Trip state at the current position
+    ...state,
+
+    // Actions
+    play,
+    pause,
+    seek,
+    setRate,
+  };
+}
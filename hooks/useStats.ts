@@ -0,0 +1,82 @@
+/**
+ * Custom hook for the statistics dashboard aggregates
+ */
+
+import { useCallback, useRef, useState } from "react";
+
+import { STATS_CONFIG } from "@/constants/config";
+import {
+  getActivityTotals,
+  getPeriodTotals,
+  getPersonalRecords,
+  getStatsTotals,
+  getTripStreaks,
+  initDatabase,
+} from "@/database";
+import type {
+  ActivityTotals,
+  PeriodTotals,
+  PersonalRecords,
+  StatsPeriod,
+  StatsTotals,
+  TripStreaks,
+} from "@/types";
+import { buildPeriodSeries, getPeriodStart, shiftPeriod } from "@/utils/stats";
+
+interface StatsData {
+  period: StatsPeriod; // the period `periods` was loaded for
+  periods: PeriodTotals[]; // oldest first, ending with the current period
+  totals: StatsTotals;
+  activities: ActivityTotals[];
+  records: PersonalRecords;
+  streaks: TripStreaks;
+}
+
+export function useStats() {
+  const [period, setPeriod] = useState<StatsPeriod>("week");
+  const [data, setData] = useState<StatsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Bumped per load so a slow response can't overwrite a newer one
+  const loadRef = useRef(0);
+
+  /**
+   * Load every aggregate for the selected period
+   */
+  const reload = useCallback(async () => {
+    const load = ++loadRef.current;
+    try {
+      const db = await initDatabase();
+      const now = Date.now();
+      const count = STATS_CONFIG.periodCounts[period];
+      const since = shiftPeriod(period, getPeriodStart(period, now), -(count - 1));
+
+      const periodTotals = await getPeriodTotals(db, period, since.getTime());
+      const totals = await getStatsTotals(db);
+      const activities = await getActivityTotals(db);
+      const records = await getPersonalRecords(db, STATS_CONFIG.minRecordDistance);
+      const streaks = await getTripStreaks(db);
+      if (load !== loadRef.current) return;
+
+      setData({
+        period,
+        periods: buildPeriodSeries(periodTotals, period, count, now),
+        totals,
+        activities,
+        records,
+        streaks,
+      });
+    } catch (error) {
+      console.error("Error loading stats:", error);
+    } finally {
+      if (load === loadRef.current) setIsLoading(false);
+    }
+  }, [period]);
+
+  return {
+    period,
+    setPeriod,
+    data,
+    isLoading,
+    reload,
+  };
+}
@@ -3,16 +3,22 @@
  */
 
 import * as Location from "expo-location";
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { AppState, type AppStateStatus } from "react-native";
 
-import { STATIONARY_CONFIG } from "@/constants/config";
+import { CONVERSION, STATIONARY_CONFIG } from "@/constants/config";
 import {
-  addLocationPoint,
   completeTrip,
   createTrip,
+  endOverspeedEvent,
+  endPauseInterval,
   getActiveTrip,
+  getLapTimesForTrip,
+  getLastLocationPoint,
+  getPauseIntervalsForTrip,
+  getTripById,
   initDatabase,
+  startPauseInterval,
   updateTripStats,
 } from "@/database";
 import {
@@ -20,6 +26,7 @@ import {
   startFullTracking,
   stopFullTracking,
 } from "@/services/location";
+import type { LocationHandler } from "@/services/location-ingest";
 import {
   configureNotifications,
   hideTrackingNotification,
@@ -27,10 +34,51 @@ import {
   showTrackingNotification,
   updateTrackingNotification,
 } from "@/services/notification";
-import { calculateSpeed, haversineDistance } from "@/services/speed-calculator";
+import { addLap, getSplitDistance, rebuildTripSplits } from "@/services/splits";
+import {
+  applySpeedAlertCheck,
+  checkSpeedAlert,
+  createSpeedAlertState,
+  endSpeedAlert,
+  getSpeedAlertConfig,
+  type SpeedAlertCheck,
+  type SpeedAlertState,
+} from "@/services/speed-alert";
+import {
+  calculateTripTiming,
+  mphToKmh,
+} from "@/services/speed-calculator";
+import {
+  createTrackProcessorState,
+  processFix,
+  resumeTrackProcessorState,
+  type TrackProcessorState,
+} from "@/services/track-processor";
+import {
+  flushTrackWrites,
+  queueLocationPoint,
+  queueRejectedPoint,
+} from "@/services/track-writer";
+import {
+  checkTripRecovery,
+  endTripAtLastPoint,
+  resumeAcrossGap,
+  splitTripAtGap,
+  type RecoveryChoice,
+  type TripRecovery,
+} from "@/services/trip-recovery";
+import { rebuildTripStats } from "@/services/trip-stats";
+import {
+  announcePauseChange,
+  checkVoiceCallout,
+  createVoiceCalloutState,
+  getVoiceCalloutConfig,
+  speak,
+  type VoiceCalloutState,
+} from "@/services/voice-callout";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useTripStore } from "@/stores/trip-store";
-import type { LocationPoint } from "@/types";
+import type { LocationPoint, LocationSource, PauseReason } from "@/types";
 
 export function useTracking() {
   const tripStore = useTripStore();
@@ -42,7 +90,9 @@ export function useTracking() {
   const lastLocationRef = useRef<LocationPoint | null>(null);
   const totalDistanceRef = useRef(0);
   const maxSpeedRef = useRef(0);
-  const tripStartTimeRef = useRef<number | null>(null);
+  const processorRef = useRef<TrackProcessorState>(createTrackProcessorState());
+  const speedAlertRef = useRef<SpeedAlertState>(createSpeedAlertState());
+  const voiceCalloutRef = useRef<VoiceCalloutState>(createVoiceCalloutState());
 
   // Refs for tracking state
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -52,9 +102,7 @@ export function useTracking() {
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
 
   // Ref to hold the location callback (to avoid circular dependency)
-  const locationCallbackRef = useRef<
-    ((location: Location.LocationObject) => void) | null
-  >(null);
+  const locationCallbackRef = useRef<LocationHandler | null>(null);
 
   // Configure notifications on mount
   useEffect(() => {
@@ -76,41 +124,104 @@ export function useTracking() {
     tripStore.maxSpeed,
   ]);
 
+  // Active trip with a gap, waiting for the user to pick how to recover it
+  const [pendingRecovery, setPendingRecovery] = useState<TripRecovery | null>(
+    null
+  );
+
+  // Load a trip into the store and restart GPS, with stats rebuilt from its points
+  const restoreTrip = useCallback(
+    async (tripId: number) => {
+      const db = await initDatabase();
+      await rebuildTripStats(db, tripId, Date.now());
+      const trip = await getTripById(db, tripId);
+      if (!trip) return;
+
+      console.log("Restoring active trip:", trip.id);
+
+      // Pauses decide both moving time and whether we resume paused
+      const pauseIntervals = await getPauseIntervalsForTrip(db, trip.id);
+      const lastPause = pauseIntervals[pauseIntervals.length - 1];
+
+      // Update refs immediately
+      tripIdRef.current = trip.id;
+      isPausedRef.current = !!lastPause && lastPause.endTime === null;
+      totalDistanceRef.current = trip.totalDistance;
+      maxSpeedRef.current = trip.maxSpeed;
+      // Continue distance from the last stored fix, which may be headless
+      const lastPoint = await getLastLocationPoint(db, trip.id);
+      processorRef.current = resumeTrackProcessorState(lastPoint);
+      // An alert left open while the app was gone ends at the last fix
+      await endOverspeedEvent(db, trip.id, lastPoint?.timestamp ?? Date.now());
+      speedAlertRef.current = createSpeedAlertState();
+      // Callouts carry on from the restored distance and time
+      voiceCalloutRef.current = createVoiceCalloutState();
+
+      // Restore tracking state from database
+      const lapTimes = await getLapTimesForTrip(db, trip.id);
+      tripStore.restoreTracking(trip, pauseIntervals, lapTimes.length);
+
+      // Restart location tracking using the ref
+      if (locationCallbackRef.current) {
+        console.log("Restarting GPS tracking for restored trip");
+        await startFullTracking(locationCallbackRef.current);
+      }
+    },
+    [tripStore]
+  );
+
   // Check for active trip on mount or when app comes to foreground
   const checkForActiveTrip = useCallback(async () => {
     try {
+      // Points queued by headless tracking or journaled before a crash
+      // must be in SQLite before the trip is read back
+      await flushTrackWrites();
+
       const db = await initDatabase();
       const activeTrip = await getActiveTrip(db);
 
       if (activeTrip && !tripStore.isTracking) {
-        console.log("Restoring active trip:", activeTrip.id);
-
-        // Update refs immediately
-        tripIdRef.current = activeTrip.id;
-        isPausedRef.current = false;
-        totalDistanceRef.current = activeTrip.totalDistance;
-        maxSpeedRef.current = activeTrip.maxSpeed;
-        tripStartTimeRef.current = activeTrip.startTime;
-
-        // Restore tracking state from database
-        tripStore.restoreTracking(
-          activeTrip.id,
-          activeTrip.startTime,
-          activeTrip.totalDistance,
-          activeTrip.maxSpeed,
-          activeTrip.avgSpeed
-        );
-
-        // Restart location tracking using the ref
-        if (locationCallbackRef.current) {
-          console.log("Restarting GPS tracking for restored trip");
-          await startFullTracking(locationCallbackRef.current);
+        // A gap means the app was gone; let the user decide what it was
+        const recovery = await checkTripRecovery(db, activeTrip);
+        if (recovery) {
+          console.log("Active trip has a gap, awaiting recovery choice:", activeTrip.id);
+          setPendingRecovery(recovery);
+          return;
         }
+
+        await restoreTrip(activeTrip.id);
       }
     } catch (error) {
       console.error("Error checking for active trip:", error);
     }
-  }, [tripStore]);
+  }, [tripStore, restoreTrip]);
+
+  // Apply the user's choice for a trip with a gap
+  const resolveRecovery = useCallback(
+    async (choice: RecoveryChoice) => {
+      if (!pendingRecovery) return;
+
+      try {
+        const db = await initDatabase();
+        if (choice === "end") {
+          await endTripAtLastPoint(db, pendingRecovery);
+          // The OS may have restarted background updates for the old trip
+          await stopFullTracking();
+          await hideTrackingNotification();
+        } else {
+          const tripId =
+            choice === "resume"
+              ? await resumeAcrossGap(db, pendingRecovery)
+              : await splitTripAtGap(db, pendingRecovery);
+          await restoreTrip(tripId);
+        }
+        setPendingRecovery(null);
+      } catch (error) {
+        console.error("Error recovering trip:", error);
+      }
+    },
+    [pendingRecovery, restoreTrip]
+  );
 
   // Check for active trip on mount
   useEffect(() => {
@@ -131,17 +242,24 @@ export function useTracking() {
         hideTrackingNotification();
       }
 
+      if (isGoingToBackground && tripIdRef.current) {
+        // The OS may kill a backgrounded app without warning
+        flushTrackWrites().catch((error) => {
+          console.error("Error flushing track writes:", error);
+        });
+      }
+
       if (isGoingToBackground && tripIdRef.current && !isPausedRef.current) {
         // App going to background while tracking - show notification
-        // Calculate elapsed time directly from ref
-        const currentElapsedTime = tripStartTimeRef.current
-          ? Math.floor((Date.now() - tripStartTimeRef.current) / 1000)
-          : 0;
+        // Read moving time straight from the store to avoid stale closures
+        useTripStore.getState().updateElapsedTime();
+        const { movingTime, movingAvgSpeed } = useTripStore.getState();
         showTrackingNotification(
           tripStore.currentSpeed,
           totalDistanceRef.current,
-          currentElapsedTime,
-          settings.unit
+          movingTime,
+          settings.unit,
+          movingAvgSpeed
         );
       }
 
@@ -217,6 +335,88 @@ export function useTracking() {
     };
   }, [tripStore.isTracking, checkGpsLoss]);
 
+  // Keep the gauge, overspeed log and warnings in step with an alert check
+  const handleSpeedAlertCheck = useCallback(
+    async (tripId: number, check: SpeedAlertCheck) => {
+      speedAlertRef.current = check.state;
+      if (!check.started && !check.ended) return;
+
+      tripStore.setOverspeed(check.state.isAlerting);
+      try {
+        const db = await initDatabase();
+        await applySpeedAlertCheck(db, tripId, check, useSettingsStore.getState());
+      } catch (error) {
+        console.error("Error saving speed alert:", error);
+      }
+    },
+    [tripStore]
+  );
+
+  // Pause tracking and persist the start of the pause interval
+  const pauseTracking = useCallback(
+    async (reason: PauseReason = "manual") => {
+      const currentTripId = tripIdRef.current;
+      if (!currentTripId || isPausedRef.current) return;
+
+      const pausedAt = Date.now();
+      isPausedRef.current = true;
+      tripStore.pauseTracking(reason, pausedAt);
+      announcePauseChange(useSettingsStore.getState(), reason, true);
+      await handleSpeedAlertCheck(
+        currentTripId,
+        endSpeedAlert(speedAlertRef.current, pausedAt)
+      );
+
+      try {
+        await flushTrackWrites();
+        const db = await initDatabase();
+        await startPauseInterval(db, currentTripId, pausedAt, reason);
+      } catch (error) {
+        console.error("Error saving pause:", error);
+      }
+    },
+    [tripStore, handleSpeedAlertCheck]
+  );
+
+  // Resume tracking and close the open pause interval
+  const resumeTracking = useCallback(async () => {
+    const currentTripId = tripIdRef.current;
+    if (!currentTripId || !isPausedRef.current) return;
+
+    const resumedAt = Date.now();
+    isPausedRef.current = false;
+    tripStore.resumeTracking(resumedAt);
+
+    try {
+      const db = await initDatabase();
+      await endPauseInterval(db, currentTripId, resumedAt);
+    } catch (error) {
+      console.error("Error saving resume:", error);
+    }
+  }, [tripStore]);
+
+  // End the current lap at now and store it
+  const recordLap = useCallback(async () => {
+    const currentTripId = tripIdRef.current;
+    if (!currentTripId || isPausedRef.current) return;
+
+    try {
+      // The lap is measured on stored points
+      await flushTrackWrites();
+      const db = await initDatabase();
+      await addLap(db, currentTripId, Date.now());
+      tripStore.setLapCount(useTripStore.getState().lapCount + 1);
+    } catch (error) {
+      console.error("Error saving lap:", error);
+    }
+  }, [tripStore]);
+
+  // Auto-pause threshold is stored in the user's unit; speeds are km/h
+  const autoPauseThresholdKmh =
+    settings.unit === "mph"
+      ? mphToKmh(settings.autoPauseThreshold)
+      : settings.autoPauseThreshold;
+
   // Handle stationary detection (uses refs for current values)
   const handleStationaryDetection = useCallback(
     (speed: number) => {
@@ -224,45 +424,28 @@ export function useTracking() {
         return;
       }
 
-      const threshold =
-        settings.unit === "mph"
-          ? settings.autoPauseThreshold * 0.621371
-          : settings.autoPauseThreshold;
-
-      if (speed < threshold) {
+      if (speed < autoPauseThresholdKmh) {
         // Start stationary timer if not already started
         if (!stationaryTimerRef.current) {
           stationaryTimerRef.current = setTimeout(() => {
             if (tripIdRef.current && !isPausedRef.current) {
-              tripStore.pauseTracking();
+              pauseTracking("auto");
             }
             stationaryTimerRef.current = null;
           }, STATIONARY_CONFIG.duration * 1000);
         }
-      } else {
+      } else if (stationaryTimerRef.current) {
         // Clear stationary timer if moving
-        if (stationaryTimerRef.current) {
-          clearTimeout(stationaryTimerRef.current);
-          stationaryTimerRef.current = null;
-        }
-
-        // Auto-resume if was auto-paused
-        if (isPausedRef.current && speed >= threshold) {
-          tripStore.resumeTracking();
-        }
+        clearTimeout(stationaryTimerRef.current);
+        stationaryTimerRef.current = null;
       }
     },
-    [
-      settings.autoPauseEnabled,
-      settings.autoPauseThreshold,
-      settings.unit,
-      tripStore,
-    ]
+    [settings.autoPauseEnabled, autoPauseThresholdKmh, pauseTracking]
   );
 
   // Handle location updates - uses refs to get current values
   const handleLocationUpdate = useCallback(
-    async (location: Location.LocationObject) => {
+    async (location: Location.LocationObject, source: LocationSource) => {
       // Use refs to get current values (avoid stale closure)
       const currentTripId = tripIdRef.current;
       const currentIsPaused = isPausedRef.current;
@@ -270,6 +453,7 @@ export function useTracking() {
       console.log("Location update received:", {
         tripId: currentTripId,
         isPaused: currentIsPaused,
+        source,
         speed: location.coords.speed,
         lat: location.coords.latitude,
         lng: location.coords.longitude,
@@ -284,12 +468,24 @@ export function useTracking() {
       }
 
       if (currentIsPaused) {
-        console.log("Skipping calculation - trip is paused (GPS still active)");
+        // Auto-paused trips resume as soon as the GPS reports movement again
+        const { pauseIntervals } = useTripStore.getState();
+        const openPause = pauseIntervals[pauseIntervals.length - 1];
+        const dopplerSpeed = (location.coords.speed ?? 0) * CONVERSION.MS_TO_KMH;
+        if (
+          settings.autoPauseEnabled &&
+          openPause?.reason === "auto" &&
+          dopplerSpeed >= autoPauseThresholdKmh
+        ) {
+          console.log("Movement detected - auto-resuming");
+          await resumeTracking();
+          announcePauseChange(useSettingsStore.getState(), "auto", false);
+        } else {
+          console.log("Skipping calculation - trip is paused (GPS still active)");
+        }
         return;
       }
 
-      const db = await initDatabase();
-
       const newPoint: Omit<LocationPoint, "id"> = {
         tripId: currentTripId,
         latitude: location.coords.latitude,
@@ -298,36 +494,29 @@ export function useTracking() {
         altitude: location.coords.altitude,
         accuracy: location.coords.accuracy,
         timestamp: location.timestamp,
+        source,
       };
 
-      // Calculate speed using ref for last location
-      const speed = calculateSpeed(
-        newPoint as LocationPoint,
-        lastLocationRef.current
-      );
+      // Fuse position, Doppler speed and accuracy through the Kalman filter,
+      // then gate the distance on implied speed/acceleration and accuracy
+      const fix = processFix(processorRef.current, newPoint as LocationPoint);
+      processorRef.current = fix.state;
 
-      console.log("Calculated speed:", speed, "km/h");
+      // Rejected fixes are kept for auditing but never touch trip stats
+      if (fix.rejected) {
+        console.log("Fix rejected:", fix.rejected);
+        queueRejectedPoint({ ...newPoint, reason: fix.rejected });
+        return;
+      }
 
-      // Calculate distance from last point
-      // Only count distance if we're actually moving (speed > 0 after noise filter)
-      let distanceIncrement = 0;
-      if (lastLocationRef.current && speed > 0) {
-        distanceIncrement = haversineDistance(
-          lastLocationRef.current,
-          newPoint
-        );
-        console.log("Distance increment:", distanceIncrement, "m (speed > 0)");
-      } else {
-        console.log(
-          "Distance NOT added: speed =",
-          speed,
-          ", hasLastLocation =",
-          !!lastLocationRef.current
-        );
+      const { speed, point: filteredPoint, distance: distanceIncrement } = fix;
+      console.log("Filtered speed:", speed, "km/h");
+      if (distanceIncrement > 0) {
+        console.log("Distance increment:", distanceIncrement, "m");
       }
 
       // Update store (this will also update our refs via the effect)
-      tripStore.updateLocation(newPoint as LocationPoint, speed);
+      tripStore.updateLocation(filteredPoint, speed);
       if (distanceIncrement > 0) {
         console.log("Updating store distance by:", distanceIncrement);
         tripStore.updateDistance(distanceIncrement);
@@ -336,32 +525,61 @@ export function useTracking() {
       // Handle stationary detection
       handleStationaryDetection(speed);
 
+      // Warn and log once over the speed limit for long enough
+      handleSpeedAlertCheck(
+        currentTripId,
+        checkSpeedAlert(
+          speedAlertRef.current,
+          getSpeedAlertConfig(useSettingsStore.getState()),
+          speed,
+          newPoint.timestamp
+        )
+      );
+
       // Update the live notification with current stats
       const newDistance = totalDistanceRef.current + distanceIncrement;
-      // Calculate elapsed time directly to avoid stale closure
-      const currentElapsedTime = tripStartTimeRef.current
-        ? Math.floor((Date.now() - tripStartTimeRef.current) / 1000)
-        : 0;
+      // Read timing straight from the store to avoid stale closures
+      const { elapsedTime, movingTime, pausedTime, avgSpeed, movingAvgSpeed } =
+        useTripStore.getState();
+
+      // Speak a callout each time another interval is passed
+      const voiceCheck = checkVoiceCallout(
+        voiceCalloutRef.current,
+        getVoiceCalloutConfig(useSettingsStore.getState()),
+        { distance: newDistance, elapsedTime, movingTime, movingAvgSpeed }
+      );
+      voiceCalloutRef.current = voiceCheck.state;
+      if (voiceCheck.callout) {
+        speak(voiceCheck.callout);
+      }
+
       updateTrackingNotification(
         speed,
         newDistance,
-        currentElapsedTime,
-        settings.unit
+        movingTime,
+        settings.unit,
+        movingAvgSpeed
       );
 
-      // Save to database
-      try {
-        await addLocationPoint(db, newPoint);
-        await updateTripStats(db, currentTripId, {
-          totalDistance: newDistance,
-          maxSpeed: Math.max(maxSpeedRef.current, speed),
-          avgSpeed: tripStore.avgSpeed,
-        });
-      } catch (error) {
-        console.error("Error saving location:", error);
-      }
+      // Queue for the next batched write
+      queueLocationPoint(newPoint, {
+        totalDistance: newDistance,
+        maxSpeed: Math.max(maxSpeedRef.current, speed),
+        avgSpeed,
+        movingTime,
+        pausedTime,
+        movingAvgSpeed,
+      });
     },
-    [tripStore, handleStationaryDetection, settings.unit]
+    [
+      tripStore,
+      handleStationaryDetection,
+      handleSpeedAlertCheck,
+      resumeTracking,
+      autoPauseThresholdKmh,
+      settings.autoPauseEnabled,
+      settings.unit,
+    ]
   );
 
   // Keep the ref updated with the latest callback
@@ -380,7 +598,12 @@ export function useTracking() {
       }
 
       const db = await initDatabase();
-      const tripId = await createTrip(db);
+      const tripId = await createTrip(
+        db,
+        Date.now(),
+        settings.activityType,
+        getSplitDistance(settings.unit)
+      );
 
       // Update ref immediately so callback has the right value
       tripIdRef.current = tripId;
@@ -388,7 +611,9 @@ export function useTracking() {
       lastLocationRef.current = null;
       totalDistanceRef.current = 0;
       maxSpeedRef.current = 0;
-      tripStartTimeRef.current = Date.now();
+      processorRef.current = createTrackProcessorState();
+      speedAlertRef.current = createSpeedAlertState();
+      voiceCalloutRef.current = createVoiceCalloutState();
 
       // Update store
       tripStore.startTracking(tripId);
@@ -420,7 +645,7 @@ export function useTracking() {
       tripStore.stopTracking();
       return false;
     }
-  }, [tripStore, handleLocationUpdate, settings.unit]);
+  }, [tripStore, handleLocationUpdate, settings.unit, settings.activityType]);
 
   // Stop tracking
   const stopTracking = useCallback(async (): Promise<void> => {
@@ -429,35 +654,50 @@ export function useTracking() {
 
       const currentTripId = tripIdRef.current;
       if (currentTripId) {
+        // Final stats must come after every queued point
+        await flushTrackWrites();
+
         const db = await initDatabase();
-        
-        // Calculate final average speed before completing the trip
-        const finalDistance = totalDistanceRef.current;
-        const tripStartTime = tripStartTimeRef.current;
-        let finalAvgSpeed = 0;
-        
-        if (tripStartTime && finalDistance > 0) {
-          const elapsedSeconds = (Date.now() - tripStartTime) / 1000;
-          const elapsedHours = elapsedSeconds / 3600;
-          if (elapsedHours > 0) {
-            finalAvgSpeed = (finalDistance / 1000) / elapsedHours; // km/h
-          }
+        const endTime = Date.now();
+
+        // Stopping while paused closes the open pause at the stop time
+        if (isPausedRef.current) {
+          await endPauseInterval(db, currentTripId, endTime);
         }
+        await handleSpeedAlertCheck(
+          currentTripId,
+          endSpeedAlert(speedAlertRef.current, endTime)
+        );
+
+        // Calculate final elapsed/moving time and averages from stored pauses
+        const finalDistance = totalDistanceRef.current;
+        const startTime = useTripStore.getState().tripStartTime ?? endTime;
+        const pauseIntervals = await getPauseIntervalsForTrip(db, currentTripId);
+        const timing = calculateTripTiming(
+          startTime,
+          endTime,
+          pauseIntervals,
+          finalDistance
+        );
         
         // Save final stats to database
         await updateTripStats(db, currentTripId, {
           totalDistance: finalDistance,
           maxSpeed: maxSpeedRef.current,
-          avgSpeed: finalAvgSpeed,
+          avgSpeed: timing.avgSpeed,
+          movingTime: timing.movingTime,
+          pausedTime: timing.pausedTime,
+          movingAvgSpeed: timing.movingAvgSpeed,
         });
         
-        // Then complete the trip
-        await completeTrip(db, currentTripId);
+        // Then complete the trip, closing its last split and lap
+        await completeTrip(db, currentTripId, endTime);
+        await rebuildTripSplits(db, currentTripId);
         
         console.log("Trip completed with stats:", {
           distance: finalDistance,
           maxSpeed: maxSpeedRef.current,
-          avgSpeed: finalAvgSpeed,
+          ...timing,
         });
       }
 
@@ -468,7 +708,9 @@ export function useTracking() {
       tripIdRef.current = null;
       isPausedRef.current = false;
       lastLocationRef.current = null;
-      tripStartTimeRef.current = null;
+      processorRef.current = createTrackProcessorState();
+      speedAlertRef.current = createSpeedAlertState();
+      voiceCalloutRef.current = createVoiceCalloutState();
 
       // Clear timers
       if (stationaryTimerRef.current) {
@@ -481,19 +723,7 @@ export function useTracking() {
     } catch (error) {
       console.error("Error stopping trip:", error);
     }
-  }, [tripStore]);
-
-  // Pause tracking
-  const pauseTracking = useCallback(() => {
-    isPausedRef.current = true;
-    tripStore.pauseTracking();
-  }, [tripStore]);
-
-  // Resume tracking
-  const resumeTracking = useCallback(() => {
-    isPausedRef.current = false;
-    tripStore.resumeTracking();
-  }, [tripStore]);
+  }, [tripStore, handleSpeedAlertCheck]);
 
   return {
     // State
@@ -502,15 +732,23 @@ export function useTracking() {
     currentSpeed: tripStore.currentSpeed,
     totalDistance: tripStore.totalDistance,
     avgSpeed: tripStore.avgSpeed,
+    movingAvgSpeed: tripStore.movingAvgSpeed,
     maxSpeed: tripStore.maxSpeed,
     elapsedTime: tripStore.elapsedTime,
+    movingTime: tripStore.movingTime,
+    pausedTime: tripStore.pausedTime,
     gpsStatus: tripStore.gpsStatus,
     accuracy: tripStore.accuracy,
+    isOverspeed: tripStore.isOverspeed,
+    lapCount: tripStore.lapCount,
+    pendingRecovery,
 
     // Actions
     startTracking,
     stopTracking,
     pauseTracking,
     resumeTracking,
+    recordLap,
+    resolveRecovery,
   };
 }
@@ -0,0 +1,92 @@
+/**
+ * Custom hook for the paged, filtered and sorted trip history
+ */
+
+import { useCallback, useRef, useState } from "react";
+
+import { HISTORY_CONFIG } from "@/constants/config";
+import { countTrips, getTripsPage, initDatabase } from "@/database";
+import type { TripFilter, TripSort, TripWithDuration } from "@/types";
+
+export function useTripHistory() {
+  const [filter, setFilter] = useState<TripFilter>({});
+  const [sort, setSort] = useState<TripSort>(HISTORY_CONFIG.defaultSort);
+  const [trips, setTrips] = useState<TripWithDuration[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped per query so a slow response can't overwrite a newer one
+  const queryRef = useRef(0);
+
+  /**
+   * Load the first page for the current filter and sort
+   */
+  const reload = useCallback(async () => {
+    const query = ++queryRef.current;
+    try {
+      const db = await initDatabase();
+      const page = await getTripsPage(db, filter, sort, HISTORY_CONFIG.pageSize, 0);
+      const count = await countTrips(db, filter);
+      if (query !== queryRef.current) return;
+
+      setTrips(page);
+      setTotal(count);
+    } catch (error) {
+      console.error("Error loading trips:", error);
+    } finally {
+      if (query === queryRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, [filter, sort]);
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    reload();
+  }, [reload]);
+
+  /**
+   * Append the next page, if there is one
+   */
+  const loadMore = useCallback(async () => {
+    if (isLoadingMore || trips.length >= total) return;
+
+    const query = queryRef.current;
+    setIsLoadingMore(true);
+    try {
+      const db = await initDatabase();
+      const page = await getTripsPage(
+        db,
+        filter,
+        sort,
+        HISTORY_CONFIG.pageSize,
+        trips.length
+      );
+      if (query !== queryRef.current) return;
+
+      setTrips((current) => [...current, ...page]);
+    } catch (error) {
+      console.error("Error loading more trips:", error);
+    } finally {
+      if (query === queryRef.current) setIsLoadingMore(false);
+    }
+  }, [filter, sort, trips.length, total, isLoadingMore]);
+
+  return {
+    trips,
+    total,
+    filter,
+    setFilter,
+    sort,
+    setSort,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    reload,
+    refresh,
+    loadMore,
+  };
+}
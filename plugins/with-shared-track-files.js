@@ -0,0 +1,56 @@
+/**
+ * Config plugin: hand track files shared to the app on Android to the router
+ *
+ * A share (ACTION_SEND) carries the file as the EXTRA_STREAM extra, which
+ * React Native's Linking never sees. MainActivity copies it into the intent's
+ * data, so it arrives as a content:// URL like an "open with" and
+ * app/+native-intent.tsx sends it to the import screen.
+ */
+
+const { withMainActivity } = require("expo/config-plugins");
+
+const MARKER = "exposeSharedStream";
+
+const HELPER = `
+  /**
+   * Shared files arrive as a stream extra; expose the stream as the intent's
+   * URL so Linking delivers it like a file opened with the app.
+   */
+  private fun ${MARKER}(intent: Intent?) {
+    if (intent == null || intent.action != Intent.ACTION_SEND || intent.data != null) return
+    @Suppress("DEPRECATION")
+    val stream = intent.getParcelableExtra<Uri>(Intent.EXTRA_STREAM) ?: return
+    intent.setDataAndType(stream, intent.type)
+    intent.addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION)
+  }
+
+  override fun onNewIntent(intent: Intent) {
+    ${MARKER}(intent)
+    super.onNewIntent(intent)
+  }
+`;
+
+function addSharedStreamHandling(contents) {
+  if (contents.includes(MARKER)) return contents;
+
+  return contents
+    .replace(
+      "import android.os.Bundle",
+      "import android.content.Intent\nimport android.net.Uri\nimport android.os.Bundle"
+    )
+    .replace(
+      /(\n\s*)super\.onCreate\(/,
+      `$1${MARKER}(intent)$1super.onCreate(`
+    )
+    .replace(/\n}\s*$/, `\n${HELPER}}\n`);
+}
+
+module.exports = function withSharedTrackFiles(config) {
+  return withMainActivity(config, (mod) => {
+    if (mod.modResults.language !== "kt") {
+      throw new Error("with-shared-track-files expects a Kotlin MainActivity");
+    }
+    mod.modResults.contents = addSharedStreamHandling(mod.modResults.contents);
+    return mod;
+  });
+};
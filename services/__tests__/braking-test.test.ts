@@ -0,0 +1,97 @@
+/**
+ * Braking measurement tests against synthetic stops with known answers
+ */
+
+import { BRAKING_CONFIG } from "@/constants/config";
+import type { LocationPoint } from "@/types";
+import { measureBraking } from "../braking-test";
+
+interface Stop {
+  speed: number; // km/h when braking began
+  deceleration: number; // m/s²
+  onset: number; // ms
+  interval: number; // ms between fixes
+  end?: number; // ms of the last fix; defaults to 2 s after the stop
+}
+
+/**
+ * Fixes at a steady speed, then braking at a constant rate until stopped
+ */
+function simulateStop({ speed, deceleration, onset, interval, end }: Stop): LocationPoint[] {
+  const cruise = speed / 3.6;
+  const stopTime = onset + (cruise / deceleration) * 1000;
+  const points: LocationPoint[] = [];
+  for (let timestamp = 0; timestamp <= (end ?? stopTime + 2000); timestamp += interval) {
+    const braking = Math.max(timestamp - onset, 0) / 1000;
+    points.push({
+      tripId: 1,
+      latitude: 48.8566,
+      longitude: 2.3522,
+      speed: Math.max(cruise - deceleration * braking, 0),
+      altitude: null,
+      accuracy: 4,
+      timestamp,
+    });
+  }
+  return points;
+}
+
+describe("measureBraking", () => {
+  it.each([
+    { name: "90 km/h at 1 Hz", speed: 90, deceleration: 8, onset: 5300, interval: 1000 },
+    { name: "braking on a fix", speed: 100, deceleration: 10, onset: 5000, interval: 1000 },
+    { name: "60 km/h at 5 Hz", speed: 60, deceleration: 6, onset: 4100, interval: 200 },
+    { name: "a gentle stop", speed: 50, deceleration: 3, onset: 2600, interval: 1000 },
+    {
+      name: "points ending before the stop",
+      speed: 90,
+      deceleration: 8,
+      onset: 5300,
+      interval: 1000,
+      end: 8000,
+    },
+  ])("measures $name", (stop) => {
+    const cruise = stop.speed / 3.6;
+    const duration = cruise / stop.deceleration;
+    const g = stop.deceleration / BRAKING_CONFIG.gravity;
+
+    const result = measureBraking(simulateStop(stop))!;
+
+    expect(result.startTime).toBe(stop.onset);
+    expect(result.endTime).toBe(Math.round(stop.onset + duration * 1000));
+    expect(result.startSpeed).toBeCloseTo(stop.speed, 6);
+    expect(result.duration).toBeCloseTo(duration, 6);
+    expect(result.distance).toBeCloseTo((cruise * cruise) / (2 * stop.deceleration), 6);
+    expect(result.meanDeceleration).toBeCloseTo(g, 6);
+    expect(result.peakDeceleration).toBeCloseTo(g, 6);
+  });
+
+  it("takes the speed from positions when the GPS gave none", () => {
+    // 10 m/s then 5 m/s along a meridian (0.0001° of latitude is 11.1 m)
+    const points = [0, 10, 20, 25, 25].map((meters, i) => ({
+      tripId: 1,
+      latitude: 48.8566 + (meters / 11.1) * 0.0001,
+      longitude: 2.3522,
+      speed: null,
+      altitude: null,
+      accuracy: 4,
+      timestamp: i * 1000,
+    }));
+
+    const result = measureBraking(points)!;
+
+    expect(result.startSpeed).toBeCloseTo(36, 0);
+    expect(result.startTime).toBe(2000);
+    expect(result.endTime).toBe(4000);
+  });
+
+  it.each([
+    {
+      name: "never slowing",
+      points: simulateStop({ speed: 90, deceleration: 8, onset: 60000, interval: 1000, end: 5000 }),
+    },
+    { name: "no points", points: [] },
+  ])("finds no stop when $name", ({ points }) => {
+    expect(measureBraking(points)).toBeNull();
+  });
+});
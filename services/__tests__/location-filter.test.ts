@@ -0,0 +1,214 @@
+/**
+ * Location filter tests against recorded fixture tracks
+ */
+
+import { CONVERSION, KALMAN_CONFIG } from "@/constants/config";
+import type { LocationPoint } from "@/types";
+import { filterLocation, filterTrack } from "../location-filter";
+import { haversineDistance } from "../speed-calculator";
+import { summarizeTrack } from "../track-processor";
+
+import driveOutlier from "./fixtures/drive-outlier.json";
+import parked from "./fixtures/parked.json";
+import sparseDrive from "./fixtures/sparse-drive.json";
+import staleOutOfOrder from "./fixtures/stale-out-of-order.json";
+import tunnelGap from "./fixtures/tunnel-gap.json";
+import urbanLowAccuracy from "./fixtures/urban-low-accuracy.json";
+
+const track = (fixture: unknown) => fixture as LocationPoint[];
+
+describe("filterTrack", () => {
+  it("returns one filtered location per fix, in order", () => {
+    const points = track(driveOutlier);
+    const filtered = filterTrack(points);
+
+    expect(filtered).toHaveLength(points.length);
+    filtered.forEach((location, i) => {
+      expect(location.timestamp).toBeLessThanOrEqual(points[i].timestamp);
+    });
+  });
+
+  it("tracks a steady drive close to the road at the Doppler speed", () => {
+    const filtered = filterTrack(track(driveOutlier));
+
+    // 15 m/s, once the filter has settled
+    for (const location of filtered.slice(10)) {
+      expect(location.speed).toBeGreaterThan(50);
+      expect(location.speed).toBeLessThan(58);
+    }
+  });
+});
+
+describe("outlier rejection", () => {
+  it("rejects a multipath jump and holds the track on the road", () => {
+    const points = track(driveOutlier);
+    const filtered = filterTrack(points);
+
+    expect(filtered[30].rejected).toBe("outlier");
+    expect(filtered.filter((location) => location.rejected)).toHaveLength(1);
+
+    // The jump is 300 m north; the filtered track never follows it
+    const roadLatitude = points[0].latitude;
+    for (const location of filtered) {
+      const offRoad = haversineDistance(location, {
+        latitude: roadLatitude,
+        longitude: location.longitude,
+      });
+      expect(offRoad).toBeLessThan(10);
+    }
+  });
+
+  it("re-anchors on the new position after repeated outliers", () => {
+    const points = track(driveOutlier).slice(0, 20);
+    const shifted = points.map((point, i) =>
+      i < 10 ? point : { ...point, latitude: point.latitude + 0.005 }
+    );
+    const filtered = filterTrack(shifted);
+    const reanchor = 10 + KALMAN_CONFIG.maxConsecutiveOutliers - 1;
+
+    for (let i = 10; i < reanchor; i++) {
+      expect(filtered[i].rejected).toBe("outlier");
+    }
+    expect(filtered[reanchor].rejected).toBeNull();
+    expect(filtered[reanchor].latitude).toBe(shifted[reanchor].latitude);
+    expect(filtered[reanchor].longitude).toBe(shifted[reanchor].longitude);
+  });
+});
+
+describe("low accuracy rejection", () => {
+  it("discards fixes worse than the accuracy limit without moving", () => {
+    const points = track(urbanLowAccuracy);
+    const filtered = filterTrack(points);
+
+    points.forEach((point, i) => {
+      const isLowAccuracy = point.accuracy! > KALMAN_CONFIG.maxAccuracy;
+      expect(filtered[i].rejected).toBe(isLowAccuracy ? "low_accuracy" : null);
+    });
+
+    // Rejected fixes repeat the last estimate rather than the bad position
+    for (let i = 20; i < 25; i++) {
+      expect(filtered[i].latitude).toBe(filtered[19].latitude);
+      expect(filtered[i].longitude).toBe(filtered[19].longitude);
+    }
+  });
+
+  it("rejects a low accuracy first fix without starting a track", () => {
+    const [first] = track(urbanLowAccuracy);
+    const step = filterLocation(null, { ...first, accuracy: 120 });
+
+    expect(step.state).toBeNull();
+    expect(step.location.rejected).toBe("low_accuracy");
+    expect(step.location.speed).toBe(0);
+  });
+});
+
+describe("stale and out-of-order fixes", () => {
+  it("rejects repeated and late fixes from merged streams", () => {
+    const points = track(staleOutOfOrder);
+    const filtered = filterTrack(points);
+
+    let latest = -Infinity;
+    points.forEach((point, i) => {
+      const isStale = point.timestamp <= latest;
+      expect(filtered[i].rejected).toBe(isStale ? "stale" : null);
+      latest = Math.max(latest, point.timestamp);
+    });
+    expect(filtered.filter((location) => location.rejected === "stale")).toHaveLength(3);
+  });
+
+  it("leaves the state untouched for a stale fix", () => {
+    const points = track(staleOutOfOrder);
+    const first = filterLocation(null, points[0]);
+    const second = filterLocation(first.state, points[1]);
+    const stale = filterLocation(second.state, points[0]);
+
+    expect(stale.state).toBe(second.state);
+    expect(stale.location.latitude).toBe(second.location.latitude);
+    expect(stale.location.longitude).toBe(second.location.longitude);
+  });
+});
+
+describe("reset after a long gap", () => {
+  it("starts over at the first fix after the gap", () => {
+    const points = track(tunnelGap);
+    const filtered = filterTrack(points);
+    const resumed = points.findIndex(
+      (point, i) =>
+        i > 0 && point.timestamp - points[i - 1].timestamp > KALMAN_CONFIG.maxGap * 1000
+    );
+
+    expect(resumed).toBe(20);
+    expect(filtered[resumed].rejected).toBeNull();
+    expect(filtered[resumed].latitude).toBe(points[resumed].latitude);
+    expect(filtered[resumed].longitude).toBe(points[resumed].longitude);
+    // The fresh track moves at the average speed across the gap
+    const before = filtered[resumed - 1];
+    const gapSeconds = (points[resumed].timestamp - before.timestamp) / 1000;
+    const averageSpeed =
+      (haversineDistance(before, points[resumed]) / gapSeconds) * CONVERSION.MS_TO_KMH;
+    expect(filtered[resumed].speed).toBeCloseTo(averageSpeed, 0);
+  });
+
+  it("picks up the new heading and speed after the gap", () => {
+    const filtered = filterTrack(track(tunnelGap));
+
+    expect(filtered.every((location) => location.rejected === null)).toBe(true);
+    // 12 m/s heading north
+    for (const location of filtered.slice(30)) {
+      expect(location.speed).toBeGreaterThan(39);
+      expect(location.speed).toBeLessThan(47);
+    }
+  });
+});
+
+describe("sparse tracks", () => {
+  // Fixes a minute apart, as from throttled background updates or an import
+  const rawDistance = (points: LocationPoint[]) =>
+    points
+      .slice(1)
+      .reduce((sum, point, i) => sum + haversineDistance(points[i], point), 0);
+
+  it("reads every fix after the first as moving at the average speed", () => {
+    const points = track(sparseDrive);
+    const filtered = filterTrack(points);
+
+    expect(filtered.every((location) => location.rejected === null)).toBe(true);
+    filtered.slice(1).forEach((location, i) => {
+      const averageSpeed =
+        (haversineDistance(points[i], points[i + 1]) / 60) * CONVERSION.MS_TO_KMH;
+      expect(location.speed).toBeGreaterThan(0);
+      expect(location.speed).toBeCloseTo(averageSpeed, 0);
+    });
+  });
+
+  it("counts the distance between fixes", () => {
+    const points = track(sparseDrive);
+    const summary = summarizeTrack(points);
+
+    // About 11 km over 19 minutes
+    expect(summary.rejectedCount).toBe(0);
+    expect(summary.totalDistance).toBeCloseTo(rawDistance(points), -1);
+    expect(summary.maxSpeed).toBeGreaterThan(30);
+    expect(summary.maxSpeed).toBeLessThan(45);
+  });
+});
+
+describe("stationary zero-velocity updates", () => {
+  it("reads zero speed while parked despite position wander", () => {
+    const filtered = filterTrack(track(parked));
+
+    expect(filtered.every((location) => location.rejected === null)).toBe(true);
+    expect(filtered.every((location) => location.speed === 0)).toBe(true);
+  });
+
+  it("holds the parked position steadier than the raw fixes", () => {
+    const points = track(parked);
+    const filtered = filterTrack(points);
+    const spread = (locations: { latitude: number; longitude: number }[]) =>
+      Math.max(
+        ...locations.map((location) => haversineDistance(locations[0], location))
+      );
+
+    expect(spread(filtered.slice(10))).toBeLessThan(spread(points.slice(10)) / 2);
+  });
+});
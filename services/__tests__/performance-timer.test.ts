@@ -0,0 +1,135 @@
+/**
+ * Performance timer tests against synthetic runs with known answers
+ */
+
+import { PERFORMANCE_TARGETS } from "@/constants/config";
+import type { PerformanceTarget } from "@/types";
+import {
+  createPerformanceTimerState,
+  finishPerformanceRun,
+  processPerformanceSample,
+  type PerformanceSample,
+  type PerformanceTimerState,
+} from "../performance-timer";
+
+const target = (id: string) => PERFORMANCE_TARGETS.find((t) => t.id === id)!;
+const TARGETS: PerformanceTarget[] = ["0-100kmh", "60-100kmh", "60ft", "402m"].map(target);
+
+interface Run {
+  launch: number; // ms
+  acceleration: number; // m/s²
+  interval: number; // ms between fixes
+  accuracy?: number; // meters
+  liftOffAt?: number; // ms; the speed drops away from here
+}
+
+/**
+ * Stopped fixes until `launch`, then constant acceleration until it lifts
+ * off or 30 s have passed
+ */
+function simulateRun({ launch, acceleration, interval, accuracy = 4, liftOffAt }: Run) {
+  const samples: PerformanceSample[] = [];
+  for (let timestamp = 0; timestamp <= launch + 30000; timestamp += interval) {
+    const seconds = Math.max(timestamp - launch, 0) / 1000;
+    const speed =
+      liftOffAt !== undefined && timestamp >= liftOffAt
+        ? 0
+        : acceleration * seconds * 3.6;
+    samples.push({ timestamp, speed, accuracy });
+  }
+  return samples;
+}
+
+function runTimer(samples: PerformanceSample[], targets = TARGETS): PerformanceTimerState {
+  return samples.reduce(processPerformanceSample, createPerformanceTimerState(targets));
+}
+
+// Seconds from standstill to a speed (km/h) or a distance (m)
+const timeToSpeed = (speed: number, acceleration: number) => speed / 3.6 / acceleration;
+const timeToDistance = (meters: number, acceleration: number) =>
+  Math.sqrt((2 * meters) / acceleration);
+
+describe("processPerformanceSample", () => {
+  it.each([
+    { name: "stopped for less than the arm delay", fixes: [[0, 0], [500, 0]], phase: "waiting" },
+    { name: "stopped for the arm delay", fixes: [[0, 0], [1000, 0]], phase: "armed" },
+    {
+      name: "moving before the arm delay",
+      fixes: [[0, 0], [500, 2], [1000, 0], [1500, 0]],
+      phase: "waiting",
+    },
+    { name: "creeping once armed", fixes: [[0, 0], [1000, 0], [2000, 2]], phase: "armed" },
+    { name: "moving off once armed", fixes: [[0, 0], [1000, 0], [2000, 5]], phase: "running" },
+    { name: "moving off before armed", fixes: [[0, 0], [500, 5]], phase: "waiting" },
+  ])("is $phase after $name", ({ fixes, phase }) => {
+    const state = runTimer(
+      fixes.map(([timestamp, speed]) => ({ timestamp, speed, accuracy: 4 }))
+    );
+    expect(state.phase).toBe(phase);
+  });
+
+  it("ignores fixes that arrive out of order", () => {
+    const state = runTimer([
+      { timestamp: 0, speed: 0, accuracy: 4 },
+      { timestamp: 1000, speed: 0, accuracy: 4 },
+    ]);
+    expect(processPerformanceSample(state, { timestamp: 500, speed: 50, accuracy: 4 })).toBe(
+      state
+    );
+  });
+});
+
+describe("finishPerformanceRun", () => {
+  it.each([
+    { name: "1 Hz fixes", launch: 3500, acceleration: 2.5, interval: 1000 },
+    { name: "0.5 Hz fixes", launch: 3500, acceleration: 2.5, interval: 2000 },
+    { name: "a hard launch", launch: 3250, acceleration: 4, interval: 1000 },
+    { name: "a launch on a fix", launch: 3000, acceleration: 3, interval: 1000 },
+  ])("times every target at constant acceleration with $name", (run) => {
+    const result = finishPerformanceRun(runTimer(simulateRun(run)))!;
+    const { acceleration } = run;
+
+    expect(result.startTime).toBe(run.launch);
+    expect(result.results.map((r) => r.targetId)).toEqual(TARGETS.map((t) => t.id));
+    const [to100, from60, sixtyFeet, quarter] = result.results;
+    expect(to100.time).toBeCloseTo(timeToSpeed(100, acceleration), 3);
+    expect(from60.time).toBeCloseTo(timeToSpeed(40, acceleration), 3);
+    expect(sixtyFeet.time).toBeCloseTo(timeToDistance(18.288, acceleration), 3);
+    expect(quarter.time).toBeCloseTo(timeToDistance(402, acceleration), 3);
+    expect(quarter.trapSpeed).toBeCloseTo(acceleration * quarter.time * 3.6, 2);
+    expect(to100.trapSpeed).toBeNull();
+  });
+
+  it.each([
+    { name: "1 Hz", interval: 1000, accuracy: 4, warnings: [] },
+    { name: "0.5 Hz", interval: 2000, accuracy: 4, warnings: ["low-fix-rate"] },
+    { name: "1 Hz", interval: 1000, accuracy: 15, warnings: ["poor-accuracy"] },
+  ])("warns $warnings for $name fixes $accuracy m out", ({ interval, accuracy, warnings }) => {
+    const run = { launch: 3500, acceleration: 2.5, interval, accuracy };
+    const result = finishPerformanceRun(runTimer(simulateRun(run)))!;
+
+    expect(result.fixRate).toBeCloseTo(1000 / interval, 2);
+    expect(result.worstAccuracy).toBe(accuracy);
+    expect(result.warnings).toEqual(warnings);
+  });
+
+  it("keeps only the targets reached before lifting off", () => {
+    // 2.5 m/s² reaches 90 km/h at 10 s; 100 km/h and 402 m are never reached
+    const state = runTimer(
+      simulateRun({ launch: 3500, acceleration: 2.5, interval: 1000, liftOffAt: 14000 })
+    );
+    const result = finishPerformanceRun(state)!;
+
+    expect(state.phase).toBe("finished");
+    expect(result.peakSpeed).toBeCloseTo(2.5 * 9.5 * 3.6, 6);
+    expect(result.results.map((r) => r.targetId)).toEqual(["60ft"]);
+  });
+
+  it("returns nothing before a launch", () => {
+    const state = runTimer([
+      { timestamp: 0, speed: 0, accuracy: 4 },
+      { timestamp: 1000, speed: 0, accuracy: 4 },
+    ]);
+    expect(finishPerformanceRun(state)).toBeNull();
+  });
+});
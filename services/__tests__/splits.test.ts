@@ -0,0 +1,232 @@
+/**
+ * Auto split and lap tests against synthetic drives with known answers
+ *
+ * The track processor is stubbed to pass fixes through unfiltered, so every
+ * split's distance and timing follows from the drive alone.
+ */
+
+import type { LocationPoint } from "@/types";
+import { haversineDistance } from "../speed-calculator";
+import { computeSplits, type SplitOptions } from "../splits";
+import * as trackProcessor from "../track-processor";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const START = Date.parse("2025-10-09T08:00:00Z");
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+// A stretch of driving at a steady speed, or a pause with no fixes
+interface Leg {
+  seconds: number;
+  speed: number; // m/s
+  paused?: boolean;
+}
+
+/**
+ * One fix a second north along a meridian, climbing 1 m every 100 m
+ */
+function drive(legs: Leg[], withAltitude = true): LocationPoint[] {
+  const points: LocationPoint[] = [];
+  let seconds = 0;
+  let meters = 0;
+  const push = (speed: number) =>
+    points.push({
+      tripId: 1,
+      latitude: 48 + meters / METERS_PER_DEGREE,
+      longitude: 2,
+      speed,
+      altitude: withAltitude ? 35 + meters / 100 : null,
+      accuracy: 4,
+      timestamp: START + seconds * 1000,
+    });
+
+  push(legs[0].speed);
+  for (const leg of legs) {
+    if (leg.paused) {
+      seconds += leg.seconds;
+      continue;
+    }
+    for (let i = 0; i < leg.seconds; i++) {
+      seconds++;
+      meters += leg.speed;
+      push(leg.speed);
+    }
+  }
+  return points;
+}
+
+function options(points: LocationPoint[], changes: Partial<SplitOptions> = {}): SplitOptions {
+  return {
+    startTime: START,
+    endTime: points[points.length - 1].timestamp,
+    splitDistance: 1000,
+    lapTimes: [],
+    isComplete: true,
+    ...changes,
+  };
+}
+
+const at = (seconds: number) => START + seconds * 1000;
+
+// A drive and the auto splits it should be cut into
+interface SplitCase {
+  name: string;
+  legs: Leg[];
+  changes: Partial<SplitOptions>;
+  expected: { endTime: number; distance: number; movingTime: number; avgSpeed: number }[];
+}
+
+beforeEach(() => {
+  jest.spyOn(trackProcessor, "processFix").mockImplementation((state, point) => ({
+    state: { filter: null, lastLocation: point, lastSpeed: 0 },
+    rejected: null,
+    point,
+    speed: point.speed! * 3.6,
+    distance: state.lastLocation ? haversineDistance(state.lastLocation, point) : 0,
+  }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("computeSplits", () => {
+  it.each<SplitCase>([
+    {
+      name: "a finished 3.5 km drive into km splits",
+      legs: [{ seconds: 350, speed: 10 }],
+      changes: {},
+      expected: [
+        { endTime: at(100), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(200), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(300), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(350), distance: 500, movingTime: 50, avgSpeed: 36 },
+      ],
+    },
+    {
+      name: "an active 3.5 km drive, leaving out the partial split",
+      legs: [{ seconds: 350, speed: 10 }],
+      changes: { isComplete: false },
+      expected: [
+        { endTime: at(100), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(200), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(300), distance: 1000, movingTime: 100, avgSpeed: 36 },
+      ],
+    },
+    {
+      name: "a finished 3.5 km drive into mile splits",
+      legs: [{ seconds: 350, speed: 10 }],
+      changes: { splitDistance: 1609.344 },
+      expected: [
+        { endTime: at(160.934), distance: 1609.344, movingTime: 161, avgSpeed: 36 },
+        { endTime: at(321.869), distance: 1609.344, movingTime: 161, avgSpeed: 36 },
+        { endTime: at(350), distance: 281.312, movingTime: 28, avgSpeed: 36 },
+      ],
+    },
+    {
+      name: "a drive with a minute's pause mid split",
+      legs: [
+        { seconds: 50, speed: 10 },
+        { seconds: 60, speed: 0, paused: true },
+        { seconds: 100, speed: 10 },
+      ],
+      changes: {},
+      expected: [
+        { endTime: at(160), distance: 1000, movingTime: 100, avgSpeed: 36 },
+        { endTime: at(210), distance: 500, movingTime: 50, avgSpeed: 36 },
+      ],
+    },
+    {
+      name: "a drive shorter than a split while active",
+      legs: [{ seconds: 50, speed: 10 }],
+      changes: { isComplete: false },
+      expected: [],
+    },
+  ])("cuts $name", ({ legs, changes, expected }) => {
+    const points = drive(legs);
+    const pauses = legs.some((leg) => leg.paused)
+      ? [{ startTime: at(50), endTime: at(110) }]
+      : [];
+
+    const splits = computeSplits(points, pauses, options(points, changes));
+
+    expect(splits.map((split) => split.kind)).toEqual(expected.map(() => "auto"));
+    expect(splits.map((split) => split.splitIndex)).toEqual(expected.map((_, i) => i + 1));
+    splits.forEach((split, i) => {
+      expect(split.startTime).toBe(i === 0 ? START : splits[i - 1].endTime);
+      expect(split.endTime).toBe(Math.round(expected[i].endTime));
+      expect(split.distance).toBeCloseTo(expected[i].distance, 1);
+      expect(split.movingTime).toBe(expected[i].movingTime);
+      expect(split.avgSpeed).toBeCloseTo(expected[i].avgSpeed, 1);
+    });
+  });
+
+  it("takes each split's top speed and climb from its own fixes", () => {
+    const points = drive([
+      { seconds: 100, speed: 10 },
+      { seconds: 25, speed: 20 },
+    ]);
+
+    const splits = computeSplits(points, [], options(points));
+
+    expect(splits.map((split) => split.maxSpeed)).toEqual([36, 72]);
+    expect(splits.map((split) => split.elevationChange)).toEqual([10, 5]);
+  });
+
+  it("leaves the climb out when no fix had an altitude", () => {
+    const points = drive([{ seconds: 150, speed: 10 }], false);
+
+    const splits = computeSplits(points, [], options(points));
+
+    expect(splits.map((split) => split.elevationChange)).toEqual([null, null]);
+  });
+
+  it("cuts laps at each distinct press inside the trip, then at the end", () => {
+    const points = drive([{ seconds: 350, speed: 10 }]);
+    const lapTimes = [at(250), at(30), at(30), at(-5), at(400)];
+
+    const laps = computeSplits(points, [], options(points, { lapTimes })).filter(
+      (split) => split.kind === "lap"
+    );
+
+    expect(laps.map((lap) => [lap.splitIndex, lap.startTime, lap.endTime])).toEqual([
+      [1, START, at(30)],
+      [2, at(30), at(250)],
+      [3, at(250), at(350)],
+    ]);
+    expect(laps.map((lap) => Math.round(lap.distance))).toEqual([300, 2200, 1000]);
+  });
+
+  it("has no laps until the button is pressed", () => {
+    const points = drive([{ seconds: 350, speed: 10 }]);
+    const splits = computeSplits(points, [], options(points));
+    expect(splits.filter((split) => split.kind === "lap")).toEqual([]);
+  });
+
+  it("skips fixes the processor rejects", () => {
+    const points = drive([{ seconds: 150, speed: 10 }]);
+    // A fix far off the road, rejected by the distance gate
+    const outlier = { ...points[75], latitude: 49 };
+    jest.spyOn(trackProcessor, "processFix").mockImplementation((state, point) =>
+      point === outlier
+        ? { state, rejected: "implied_speed", point, speed: 0, distance: 0 }
+        : {
+            state: { filter: null, lastLocation: point, lastSpeed: 0 },
+            rejected: null,
+            point,
+            speed: point.speed! * 3.6,
+            distance: state.lastLocation ? haversineDistance(state.lastLocation, point) : 0,
+          }
+    );
+
+    const splits = computeSplits(
+      [...points.slice(0, 75), outlier, ...points.slice(75)],
+      [],
+      options(points)
+    );
+
+    expect(splits.map((split) => Math.round(split.distance))).toEqual([1000, 500]);
+  });
+});
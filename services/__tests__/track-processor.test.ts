@@ -0,0 +1,51 @@
+/**
+ * Track processor tests: the filter and distance gate working together
+ */
+
+import type { LocationPoint } from "@/types";
+import * as speedCalculator from "../speed-calculator";
+import { createTrackProcessorState, processFix } from "../track-processor";
+
+import driveOutlier from "./fixtures/drive-outlier.json";
+
+const track = (fixture: unknown) => fixture as LocationPoint[];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("distance gate rejection", () => {
+  it("keeps the previous state, filter included", () => {
+    const points = track(driveOutlier);
+    let state = createTrackProcessorState();
+    for (const point of points.slice(0, 10)) {
+      state = processFix(state, point).state;
+    }
+
+    jest
+      .spyOn(speedCalculator, "evaluateDistanceStep")
+      .mockReturnValueOnce({ distance: 0, rejected: "implied_speed" });
+    const fix = processFix(state, points[10]);
+
+    expect(fix.rejected).toBe("implied_speed");
+    expect(fix.distance).toBe(0);
+    expect(fix.state).toBe(state);
+  });
+
+  it("continues from the last accepted fix as if the rejected one never came", () => {
+    const points = track(driveOutlier);
+    let state = createTrackProcessorState();
+    for (const point of points.slice(0, 10)) {
+      state = processFix(state, point).state;
+    }
+    const skipped = processFix(state, points[11]);
+
+    jest
+      .spyOn(speedCalculator, "evaluateDistanceStep")
+      .mockReturnValueOnce({ distance: 0, rejected: "implied_acceleration" });
+    const afterRejection = processFix(processFix(state, points[10]).state, points[11]);
+
+    expect(afterRejection.point).toEqual(skipped.point);
+    expect(afterRejection.speed).toBe(skipped.speed);
+  });
+});
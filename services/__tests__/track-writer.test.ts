@@ -0,0 +1,184 @@
+/**
+ * Track writer tests: journal replay after a crash, against an in-memory
+ * document directory
+ */
+
+import type { LocationPoint } from "@/types";
+
+jest.mock("expo-sqlite", () => jest.requireActual("@/database/__tests__/helpers/sqlite"));
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// File contents by name
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => {
+  class File {
+    name: string;
+
+    constructor(_directory: unknown, fileName: string) {
+      this.name = fileName;
+    }
+
+    get exists() {
+      return mockFiles.has(this.name);
+    }
+
+    create() {
+      mockFiles.set(this.name, "");
+    }
+
+    delete() {
+      mockFiles.delete(this.name);
+    }
+
+    write(text: string) {
+      mockFiles.set(this.name, text);
+    }
+
+    textSync() {
+      return mockFiles.get(this.name) ?? "";
+    }
+
+    open() {
+      const name = this.name;
+      return {
+        offset: 0,
+        get size() {
+          return (mockFiles.get(name) ?? "").length;
+        },
+        writeBytes(bytes: Uint8Array) {
+          mockFiles.set(name, (mockFiles.get(name) ?? "") + Buffer.from(bytes).toString());
+        },
+        close() {},
+      };
+    }
+  }
+  return { File, Paths: { document: "document" } };
+});
+
+const JOURNAL = "track-journal.jsonl";
+const QUARANTINE = "track-journal-quarantine.jsonl";
+// Any id other than the current process's
+const CRASHED_SESSION = 1;
+
+type SqliteHelper = typeof import("@/database/__tests__/helpers/sqlite");
+type Modules = {
+  database: typeof import("@/database");
+  writer: typeof import("../track-writer");
+};
+
+/**
+ * Fresh copies of the writer and database, so each test replays once
+ */
+async function loadModules(): Promise<Modules> {
+  let sqlite: SqliteHelper | undefined;
+  let modules: Modules | undefined;
+  jest.isolateModules(() => {
+    sqlite = jest.requireActual<SqliteHelper>("@/database/__tests__/helpers/sqlite");
+    modules = {
+      database: jest.requireActual<Modules["database"]>("@/database"),
+      writer: jest.requireActual<Modules["writer"]>("../track-writer"),
+    };
+  });
+  await sqlite!.loadSqlJs();
+  return modules!;
+}
+
+/**
+ * A fix at a given time, all at the same place
+ */
+function fix(tripId: number, timestamp: number): Omit<LocationPoint, "id"> {
+  return {
+    tripId,
+    latitude: 48.8566,
+    longitude: 2.3522,
+    speed: 10,
+    altitude: 35,
+    accuracy: 4,
+    timestamp,
+  };
+}
+
+/**
+ * A journal line left by a process that crashed
+ */
+function journaled(point: Omit<LocationPoint, "id">, totalDistance: number): string {
+  return JSON.stringify({
+    kind: "point",
+    point,
+    stats: { totalDistance },
+    session: CRASHED_SESSION,
+  });
+}
+
+let modules: Modules;
+
+beforeEach(async () => {
+  mockFiles.clear();
+  modules = await loadModules();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  modules.database.closeDatabase();
+  jest.restoreAllMocks();
+});
+
+describe("journal replay", () => {
+  it("recovers a crashed session's writes before the next batch", async () => {
+    const { database, writer } = modules;
+    const db = await database.initDatabase();
+    const tripId = await database.createTrip(db, 1000);
+    mockFiles.set(JOURNAL, `${journaled(fix(tripId, 1000), 0)}\n`);
+
+    writer.queueLocationPoint(fix(tripId, 2000), { totalDistance: 15 });
+    await writer.flushTrackWrites();
+
+    const points = await database.getLocationPointsForTrip(db, tripId);
+    expect(points.map((point) => point.timestamp)).toEqual([1000, 2000]);
+    expect((await database.getTripById(db, tripId))!.totalDistance).toBe(15);
+    expect(mockFiles.has(JOURNAL)).toBe(false);
+  });
+
+  it("quarantines lines that can't be read or replayed and commits the rest", async () => {
+    const { database, writer } = modules;
+    const db = await database.initDatabase();
+    const tripId = await database.createTrip(db, 1000);
+    const deletedTrip = journaled(fix(tripId + 1, 1000), 0);
+    const torn = '{"kind":"point","point":{"tripId":';
+    const malformed = JSON.stringify({ kind: "point", session: CRASHED_SESSION });
+    const lines = [deletedTrip, torn, journaled(fix(tripId, 1000), 0), malformed];
+    mockFiles.set(JOURNAL, lines.map((line) => `${line}\n`).join(""));
+
+    writer.queueLocationPoint(fix(tripId, 2000), { totalDistance: 15 });
+    await writer.flushTrackWrites();
+
+    const points = await database.getLocationPointsForTrip(db, tripId);
+    expect(points.map((point) => point.timestamp)).toEqual([1000, 2000]);
+    expect(mockFiles.get(QUARANTINE)).toBe(`${torn}\n${malformed}\n${deletedTrip}\n`);
+    expect(mockFiles.has(JOURNAL)).toBe(false);
+  });
+
+  it("still commits the batch when the replay can't run", async () => {
+    const { database, writer } = modules;
+    const db = await database.initDatabase();
+    const tripId = await database.createTrip(db, 1000);
+    const line = journaled(fix(tripId, 1000), 0);
+    mockFiles.set(JOURNAL, `${line}\n`);
+    jest
+      .spyOn(db, "withExclusiveTransactionAsync")
+      .mockRejectedValueOnce(new Error("database is locked"));
+
+    writer.queueLocationPoint(fix(tripId, 2000), { totalDistance: 15 });
+    await writer.flushTrackWrites();
+
+    const points = await database.getLocationPointsForTrip(db, tripId);
+    expect(points.map((point) => point.timestamp)).toEqual([2000]);
+    expect(mockFiles.get(QUARANTINE)).toBe(`${line}\n`);
+    expect(mockFiles.has(JOURNAL)).toBe(false);
+  });
+});
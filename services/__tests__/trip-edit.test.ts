@@ -0,0 +1,190 @@
+/**
+ * Trip edit preview tests against synthetic trips with known answers
+ *
+ * The track processor is stubbed to pass fixes through unfiltered, so the
+ * previewed distances follow from the points alone.
+ */
+
+import type { LocationPoint, Trip } from "@/types";
+import { haversineDistance } from "../speed-calculator";
+import * as trackProcessor from "../track-processor";
+import {
+  buildTripTimeline,
+  findTimelineIndex,
+  previewSplit,
+  type EditAxis,
+  type TripTimelinePoint,
+} from "../trip-edit";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const START = Date.parse("2025-10-09T08:00:00Z");
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+const at = (seconds: number) => START + seconds * 1000;
+
+/**
+ * A fix a second for `seconds`, north along a meridian at 10 m/s
+ */
+function drive(seconds: number): LocationPoint[] {
+  return Array.from({ length: seconds + 1 }, (_, t) => ({
+    tripId: 1,
+    latitude: 48 + (t * 10) / METERS_PER_DEGREE,
+    longitude: 2,
+    speed: 10,
+    altitude: null,
+    accuracy: 4,
+    timestamp: at(t),
+  }));
+}
+
+/**
+ * A completed trip that began 5 s before its first fix and ended 5 s after
+ * its last
+ */
+function tripAround(points: LocationPoint[]): Trip {
+  return {
+    id: 1,
+    startTime: points[0].timestamp - 5000,
+    endTime: points[points.length - 1].timestamp + 5000,
+    totalDistance: 0,
+    maxSpeed: 0,
+    avgSpeed: 0,
+    movingTime: 0,
+    pausedTime: 0,
+    movingAvgSpeed: 0,
+    splitDistance: null,
+    status: "completed",
+    title: null,
+    notes: null,
+    tags: [],
+    activityType: "car",
+  };
+}
+
+const distanceFrom = (previous: LocationPoint | null, point: LocationPoint) =>
+  previous ? haversineDistance(previous, point) : 0;
+
+beforeEach(() => {
+  jest.spyOn(trackProcessor, "processFix").mockImplementation((state, point) => ({
+    state: { filter: null, lastLocation: point, lastSpeed: 0 },
+    rejected: null,
+    point,
+    speed: point.speed! * 3.6,
+    distance: distanceFrom(state.lastLocation, point),
+  }));
+  jest.spyOn(trackProcessor, "summarizeTrack").mockImplementation((points) => ({
+    totalDistance: points.reduce((sum, point, i) => sum + distanceFrom(points[i - 1], point), 0),
+    maxSpeed: Math.max(0, ...points.map((point) => point.speed! * 3.6)),
+    acceptedCount: points.length,
+    rejectedCount: 0,
+  }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("buildTripTimeline", () => {
+  it("runs the distance up point by point", () => {
+    const timeline = buildTripTimeline(drive(3));
+
+    expect(timeline.map((point) => point.timestamp)).toEqual([at(0), at(1), at(2), at(3)]);
+    expect(timeline.map((point) => Math.round(point.distance))).toEqual([0, 10, 20, 30]);
+  });
+});
+
+describe("findTimelineIndex", () => {
+  // 10 m/s with a stop from 20 s to 40 s
+  const timeline: TripTimelinePoint[] = [
+    [0, 0],
+    [10, 100],
+    [20, 200],
+    [30, 200],
+    [40, 200],
+    [50, 300],
+    [60, 400],
+  ].map(([seconds, distance]) => ({ timestamp: at(seconds), distance }));
+
+  it.each<{ axis: EditAxis; fraction: number; index: number }>([
+    { axis: "time", fraction: 0, index: 0 },
+    { axis: "time", fraction: 0.5, index: 3 },
+    { axis: "time", fraction: 0.55, index: 4 },
+    { axis: "time", fraction: 1, index: 6 },
+    { axis: "distance", fraction: 0, index: 0 },
+    { axis: "distance", fraction: 0.5, index: 2 },
+    { axis: "distance", fraction: 0.51, index: 5 },
+    { axis: "distance", fraction: 0.99, index: 6 },
+    { axis: "distance", fraction: 1, index: 6 },
+  ])("finds point $index at $fraction along $axis", ({ axis, fraction, index }) => {
+    expect(findTimelineIndex(timeline, axis, fraction)).toBe(index);
+  });
+
+  it("reaches a stopped tail only at the far end of the distance axis", () => {
+    const stoppedTail = [...timeline, { timestamp: at(70), distance: 400 }];
+
+    expect(findTimelineIndex(stoppedTail, "distance", 0.999)).toBe(6);
+    expect(findTimelineIndex(stoppedTail, "distance", 1)).toBe(7);
+  });
+
+  it("returns the first index of an empty timeline", () => {
+    expect(findTimelineIndex([], "time", 0.5)).toBe(0);
+  });
+});
+
+describe("previewSplit", () => {
+  // 300 s at 10 m/s, paused from 100 s to 130 s
+  const points = drive(300);
+  const trip = tripAround(points);
+  const pauses = [{ startTime: at(100), endTime: at(130) }];
+
+  it.each([
+    {
+      name: "after the pause",
+      index: 200,
+      expected: [
+        { startTime: at(-5), endTime: at(199), pointCount: 200, distance: 1990, paused: 30 },
+        { startTime: at(200), endTime: at(305), pointCount: 101, distance: 1000, paused: 0 },
+      ],
+    },
+    {
+      name: "during the pause",
+      index: 115,
+      expected: [
+        { startTime: at(-5), endTime: at(114), pointCount: 115, distance: 1140, paused: 14 },
+        { startTime: at(115), endTime: at(305), pointCount: 186, distance: 1850, paused: 15 },
+      ],
+    },
+    {
+      name: "at the second point",
+      index: 1,
+      expected: [
+        { startTime: at(-5), endTime: at(0), pointCount: 1, distance: 0, paused: 0 },
+        { startTime: at(1), endTime: at(305), pointCount: 300, distance: 2990, paused: 30 },
+      ],
+    },
+  ])("splits $name", ({ index, expected }) => {
+    const parts = previewSplit(trip, points, pauses, index);
+
+    parts.forEach((part, i) => {
+      const { startTime, endTime, pointCount, distance, paused } = expected[i];
+      const elapsed = (endTime - startTime) / 1000;
+      expect(part).toMatchObject({ startTime, endTime, pointCount });
+      expect(part.stats.totalDistance).toBeCloseTo(distance, 6);
+      expect(part.stats.elapsedTime).toBe(elapsed);
+      expect(part.stats.pausedTime).toBe(paused);
+      expect(part.stats.movingTime).toBe(elapsed - paused);
+      expect(part.stats.movingAvgSpeed).toBeCloseTo(
+        (distance / 1000) / ((elapsed - paused) / 3600),
+        6
+      );
+    });
+  });
+
+  it("ends the second part at the last point while the trip is active", () => {
+    const [, second] = previewSplit({ ...trip, endTime: null }, points, [], 200);
+    expect(second.endTime).toBe(at(300));
+  });
+});
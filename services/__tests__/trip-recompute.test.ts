@@ -0,0 +1,120 @@
+/**
+ * Trip recompute tests against stored fixture tracks
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import {
+  addLocationPoint,
+  createCompletedTrip,
+  getTripById,
+  migrateDatabase,
+} from "@/database";
+import { loadSqlJs, openDatabaseAsync } from "@/database/__tests__/helpers/sqlite";
+import type { LocationPoint } from "@/types";
+import * as trackProcessor from "../track-processor";
+import { recomputeAllTrips, recomputeTrip } from "../trip-recompute";
+
+import parked from "./fixtures/parked.json";
+import sparseDrive from "./fixtures/sparse-drive.json";
+
+jest.mock("expo-sqlite", () => jest.requireActual("@/database/__tests__/helpers/sqlite"));
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const track = (fixture: unknown) => fixture as LocationPoint[];
+
+// Stored stats as an earlier version of the app wrote them
+const STORED = {
+  totalDistance: 11000,
+  maxSpeed: 40,
+  avgSpeed: 34.7,
+  movingTime: 1140,
+  pausedTime: 0,
+  movingAvgSpeed: 34.7,
+};
+
+/**
+ * A migrated database holding one completed trip with the given points
+ */
+async function storeTrip(points: LocationPoint[]) {
+  const db = (await openDatabaseAsync("recompute.db")) as unknown as SQLiteDatabase;
+  await migrateDatabase(db);
+  const tripId = await createCompletedTrip(db, {
+    startTime: points[0].timestamp,
+    endTime: points[points.length - 1].timestamp,
+    ...STORED,
+  });
+  for (const point of points) {
+    await addLocationPoint(db, { ...point, tripId });
+  }
+  return { db, tripId };
+}
+
+beforeAll(loadSqlJs);
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("recomputeTrip", () => {
+  it("keeps the distance of a sparse track", async () => {
+    const { db, tripId } = await storeTrip(track(sparseDrive));
+
+    await recomputeTrip(db, tripId);
+
+    const trip = await getTripById(db, tripId);
+    expect(trip!.totalDistance).toBeGreaterThan(10900);
+    expect(trip!.totalDistance).toBeLessThan(11200);
+    expect(trip!.maxSpeed).toBeGreaterThan(30);
+  });
+
+  it("refuses to zero the distance of a track that moved", async () => {
+    const { db, tripId } = await storeTrip(track(sparseDrive));
+    jest.spyOn(trackProcessor, "summarizeTrack").mockReturnValue({
+      totalDistance: 0,
+      maxSpeed: 0,
+      acceptedCount: 20,
+      rejectedCount: 0,
+    });
+
+    await expect(recomputeTrip(db, tripId)).rejects.toThrow(
+      /^Recalculated distance is 0 but the points reach \d+\.\d\d km from the start/
+    );
+    expect(await getTripById(db, tripId)).toMatchObject(STORED);
+  });
+
+  it("zeroes the distance of a track that stood still", async () => {
+    const { db, tripId } = await storeTrip(track(parked));
+
+    const { changes } = await recomputeTrip(db, tripId);
+
+    expect(changes).toContainEqual({ stat: "totalDistance", before: 11000, after: 0 });
+    expect((await getTripById(db, tripId))!.totalDistance).toBe(0);
+  });
+});
+
+describe("recomputeAllTrips", () => {
+  it("reports a refused trip as failed, not changed", async () => {
+    const { db, tripId } = await storeTrip(track(sparseDrive));
+    jest.spyOn(trackProcessor, "summarizeTrack").mockReturnValue({
+      totalDistance: 0,
+      maxSpeed: 0,
+      acceptedCount: 20,
+      rejectedCount: 0,
+    });
+
+    const summary = await recomputeAllTrips(db);
+
+    expect(summary.results).toEqual([]);
+    expect(summary.errors).toEqual([
+      expect.stringMatching(new RegExp(`^Trip ${tripId}: Error: Recalculated distance is 0`)),
+    ]);
+  });
+});
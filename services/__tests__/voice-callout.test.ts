@@ -0,0 +1,179 @@
+/**
+ * Voice callout tests against synthetic trips with known answers
+ */
+
+import { DEFAULT_SETTINGS } from "@/constants/config";
+import type { Settings } from "@/types";
+import {
+  checkVoiceCallout,
+  createVoiceCalloutState,
+  getVoiceCalloutConfig,
+  type VoiceCalloutConfig,
+  type VoiceCalloutState,
+} from "../voice-callout";
+
+const settings = (changes: Partial<Settings> = {}): Settings => ({
+  ...DEFAULT_SETTINGS,
+  voiceEnabled: true,
+  ...changes,
+});
+
+// Trip progress after `seconds` at a steady speed (m/s), never paused
+const progress = (seconds: number, speed: number) => ({
+  distance: speed * seconds,
+  elapsedTime: seconds,
+  movingTime: seconds,
+  movingAvgSpeed: speed * 3.6,
+});
+
+/**
+ * Check a steady trip once a second and collect what is said, and when
+ */
+function drive(config: VoiceCalloutConfig | null, speed: number, seconds: number) {
+  let state = createVoiceCalloutState();
+  const callouts: [number, string][] = [];
+  for (let t = 1; t <= seconds; t++) {
+    const check = checkVoiceCallout(state, config, progress(t, speed));
+    state = check.state;
+    if (check.callout) callouts.push([t, check.callout]);
+  }
+  return callouts;
+}
+
+describe("getVoiceCalloutConfig", () => {
+  it.each([
+    { name: "every kilometer", changes: {}, trigger: "distance", interval: 1000 },
+    {
+      name: "every 2 miles",
+      changes: { unit: "mph", voiceDistanceInterval: 2 },
+      trigger: "distance",
+      interval: 3218.69,
+    },
+    { name: "every 5 minutes", changes: { voiceTrigger: "time" }, trigger: "time", interval: 300 },
+  ] as const)("spaces callouts $name", ({ changes, trigger, interval }) => {
+    const config = getVoiceCalloutConfig(settings(changes))!;
+    expect(config.trigger).toBe(trigger);
+    expect(config.interval).toBeCloseTo(interval, 1);
+  });
+
+  it.each([
+    { activityType: "run", usePace: true },
+    { activityType: "walk", usePace: true },
+    { activityType: "bicycle", usePace: false },
+    { activityType: "car", usePace: false },
+  ] as const)("reads $activityType with pace: $usePace", ({ activityType, usePace }) => {
+    expect(getVoiceCalloutConfig(settings({ activityType }))!.usePace).toBe(usePace);
+  });
+
+  it.each([
+    { name: "switched off", changes: { voiceEnabled: false } },
+    { name: "spaced 0 apart", changes: { voiceTimeInterval: 0, voiceTrigger: "time" } },
+  ] as const)("turns callouts off when $name", ({ changes }) => {
+    expect(getVoiceCalloutConfig(settings(changes))).toBeNull();
+  });
+});
+
+describe("checkVoiceCallout", () => {
+  it.each([
+    {
+      name: "a drive every kilometer",
+      changes: {},
+      speed: 10,
+      seconds: 250,
+      expected: [
+        [
+          100,
+          "Distance 1 kilometer. Time 1 minute 40 seconds. " +
+            "Last split 36 kilometers per hour. Average 36 kilometers per hour.",
+        ],
+        [
+          200,
+          "Distance 2 kilometers. Time 3 minutes 20 seconds. " +
+            "Last split 36 kilometers per hour. Average 36 kilometers per hour.",
+        ],
+      ],
+    },
+    {
+      name: "a run every kilometer, as pace",
+      changes: { activityType: "run" },
+      speed: 4,
+      seconds: 300,
+      expected: [
+        [
+          250,
+          "Distance 1 kilometer. Time 4 minutes 10 seconds. " +
+            "Last split pace 4 minutes 10 seconds per kilometer. " +
+            "Average pace 4 minutes 10 seconds per kilometer.",
+        ],
+      ],
+    },
+    {
+      name: "a drive every 5 minutes in miles",
+      changes: { unit: "mph", voiceTrigger: "time" },
+      speed: 20,
+      seconds: 400,
+      expected: [
+        [
+          300,
+          "Distance 3.73 miles. Time 5 minutes. " +
+            "Last split 44.7 miles per hour. Average 44.7 miles per hour.",
+        ],
+      ],
+    },
+    {
+      name: "a drive with callouts off",
+      changes: { voiceEnabled: false },
+      speed: 10,
+      seconds: 250,
+      expected: [],
+    },
+  ] as const)("reads out $name", ({ changes, speed, seconds, expected }) => {
+    const config = getVoiceCalloutConfig(settings(changes));
+    expect(drive(config, speed, seconds)).toEqual(expected);
+  });
+
+  it("reads the last split from the previous callout", () => {
+    const config = getVoiceCalloutConfig(settings())!;
+    const state: VoiceCalloutState = {
+      trigger: "distance",
+      interval: 1000,
+      count: 1,
+      splitDistance: 1000,
+      splitMovingTime: 100,
+    };
+
+    // The second kilometer took 50 s: 72 km/h
+    const { callout } = checkVoiceCallout(state, config, {
+      distance: 2000,
+      elapsedTime: 150,
+      movingTime: 150,
+      movingAvgSpeed: 48,
+    });
+
+    expect(callout).toBe(
+      "Distance 2 kilometers. Time 2 minutes 30 seconds. " +
+        "Last split 72 kilometers per hour. Average 48 kilometers per hour."
+    );
+  });
+
+  it("lines up with a restored trip, or new spacing, without a callout", () => {
+    const kilometers = getVoiceCalloutConfig(settings())!;
+    const minutes = getVoiceCalloutConfig(settings({ voiceTrigger: "time" }))!;
+
+    const restored = checkVoiceCallout(createVoiceCalloutState(), kilometers, progress(500, 10));
+    const changed = checkVoiceCallout(restored.state, minutes, progress(700, 10));
+
+    expect(restored).toEqual({
+      state: {
+        trigger: "distance",
+        interval: 1000,
+        count: 5,
+        splitDistance: 5000,
+        splitMovingTime: 500,
+      },
+      callout: null,
+    });
+    expect(changed.callout).toBeNull();
+    expect(changed.state).toMatchObject({ trigger: "time", interval: 300, count: 2 });
+  });
+});
@@ -1,10 +1,15 @@
 /**
  * Background location task registration and handling
+ *
+ * While the app's tracking hook is mounted it receives background fixes
+ * through the registered callback. Without it (for example after Android
+ * kills the activity) the task persists fixes itself via headless tracking.
  */
 
 import * as TaskManager from 'expo-task-manager';
 import * as Location from 'expo-location';
 import { BACKGROUND_LOCATION_TASK } from '@/constants/config';
+import { resetHeadlessTracking, trackLocationsHeadless } from './headless-tracking';
 
 // Type for background location data
 interface BackgroundLocationData {
@@ -22,6 +27,10 @@ let backgroundLocationCallback: LocationCallback | null = null;
  */
 export function setBackgroundLocationCallback(callback: LocationCallback | null): void {
   backgroundLocationCallback = callback;
+  if (callback) {
+    // The app owns tracking again; headless state would be stale
+    resetHeadlessTracking();
+  }
 }
 
 /**
@@ -30,15 +39,24 @@ export function setBackgroundLocationCallback(callback: LocationCallback | null)
  */
 TaskManager.defineTask(
   BACKGROUND_LOCATION_TASK,
-  ({ data, error }: { data: unknown; error: TaskManager.TaskManagerError | null }) => {
+  async ({ data, error }: { data: unknown; error: TaskManager.TaskManagerError | null }) => {
     if (error) {
       console.error('Background location task error:', error);
       return;
     }
 
     const locationData = data as BackgroundLocationData;
-    if (locationData?.locations && backgroundLocationCallback) {
+    if (!locationData?.locations) return;
+
+    if (backgroundLocationCallback) {
       backgroundLocationCallback(locationData.locations);
+      return;
+    }
+
+    try {
+      await trackLocationsHeadless(locationData.locations);
+    } catch (trackingError) {
+      console.error('Headless tracking error:', trackingError);
     }
   }
 );
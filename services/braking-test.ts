@@ -0,0 +1,257 @@
+/**
+ * Braking tests: stopping distance, time and deceleration from a set speed
+ *
+ * A test rides on a trip being recorded. It arms once the car reaches the
+ * target speed and watches the live fixes only to notice braking and the
+ * stop. The measurement itself is worked out afterwards from the trip's
+ * stored points: braking onset and standstill are placed between fixes by
+ * carrying the neighbouring deceleration across the gap, and the distance
+ * is integrated from the GPS speed, which is steadier than positions over a
+ * few meters. Like the speed alert check, the live check is pure: callers
+ * own the state and pass it back in.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import { BRAKING_CONFIG, CONVERSION } from "@/constants/config";
+import { addBrakingTest, getLocationPointsBetween } from "@/database";
+import type { BrakingPhase, BrakingTest, LocationPoint } from "@/types";
+import { haversineDistance } from "./speed-calculator";
+
+// State carried between fixes
+export interface BrakingTestState {
+  phase: BrakingPhase;
+  tripId: number;
+  targetSpeed: number; // km/h
+  armedAt: number | null; // when the target speed was last reached
+  peakSpeed: number; // km/h since arming
+  stoppedAt: number | null;
+  lastTimestamp: number | null;
+}
+
+// A stop worked out from stored points
+export type BrakingMeasurement = Omit<
+  BrakingTest,
+  "id" | "tripId" | "label" | "targetSpeed"
+>;
+
+// Speed over time, m/s
+interface SpeedSample {
+  timestamp: number;
+  speed: number;
+}
+
+/**
+ * Fresh test on a trip; it arms once the car reaches `targetSpeed` (km/h)
+ */
+export function createBrakingTestState(
+  tripId: number,
+  targetSpeed: number
+): BrakingTestState {
+  return {
+    phase: "waiting",
+    tripId,
+    targetSpeed,
+    armedAt: null,
+    peakSpeed: 0,
+    stoppedAt: null,
+    lastTimestamp: null,
+  };
+}
+
+/**
+ * Advance the test by one fix (speed in km/h)
+ * Getting back up to the target while braking re-arms, so a half-hearted
+ * stop can be followed by a proper one.
+ */
+export function checkBrakingTest(
+  state: BrakingTestState,
+  speed: number,
+  timestamp: number
+): BrakingTestState {
+  if (state.phase === "stopped") return state;
+  if (state.lastTimestamp !== null && timestamp <= state.lastTimestamp) return state;
+
+  const next = { ...state, lastTimestamp: timestamp };
+  switch (state.phase) {
+    case "waiting":
+      return speed >= state.targetSpeed
+        ? { ...next, phase: "armed", armedAt: timestamp, peakSpeed: speed }
+        : next;
+    case "armed": {
+      const peakSpeed = Math.max(state.peakSpeed, speed);
+      return speed <= peakSpeed - BRAKING_CONFIG.onsetDrop
+        ? { ...next, phase: "braking", peakSpeed }
+        : { ...next, peakSpeed };
+    }
+    case "braking":
+      if (speed < BRAKING_CONFIG.standstillSpeed) {
+        return { ...next, phase: "stopped", stoppedAt: timestamp };
+      }
+      if (speed >= state.targetSpeed) {
+        return { ...next, phase: "armed", armedAt: timestamp, peakSpeed: speed };
+      }
+      return next;
+  }
+}
+
+/**
+ * Measure a stopped test from the trip's stored points and save it
+ * Points must be flushed first. Returns null if no stop could be found.
+ */
+export async function saveBrakingTest(
+  db: SQLiteDatabase,
+  state: BrakingTestState,
+  label: string | null
+): Promise<BrakingTest | null> {
+  if (state.armedAt === null || state.stoppedAt === null) return null;
+
+  const points = await getLocationPointsBetween(
+    db,
+    state.tripId,
+    state.armedAt,
+    state.stoppedAt
+  );
+  const measurement = measureBraking(points);
+  if (!measurement) return null;
+
+  const test: BrakingTest = {
+    ...measurement,
+    tripId: state.tripId,
+    label,
+    targetSpeed: state.targetSpeed,
+  };
+  const id = await addBrakingTest(db, test);
+  return { ...test, id };
+}
+
+/**
+ * Stopping distance, time and deceleration of the first stop in `points`
+ */
+export function measureBraking(points: LocationPoint[]): BrakingMeasurement | null {
+  const samples = buildSpeedSamples(points);
+  const standstill = BRAKING_CONFIG.standstillSpeed / CONVERSION.MS_TO_KMH;
+  const noise = BRAKING_CONFIG.speedNoise / CONVERSION.MS_TO_KMH;
+
+  // Last fix still moving, and the stopped fix after it if there is one
+  const stoppedIndex = samples.findIndex(
+    (sample, i) => i > 0 && sample.speed < standstill
+  );
+  const lastMoving = stoppedIndex === -1 ? samples.length - 1 : stoppedIndex - 1;
+
+  // Braking begins at the last fix near the top speed before the stop
+  const moving = samples.slice(0, lastMoving + 1);
+  const peak = Math.max(...moving.map((sample) => sample.speed));
+  let onsetIndex = lastMoving;
+  while (onsetIndex > 0 && moving[onsetIndex].speed < peak - noise) {
+    onsetIndex--;
+  }
+  if (onsetIndex >= lastMoving) return null;
+
+  const onset = samples[onsetIndex];
+  const startTime = brakingOnset(samples, onsetIndex, lastMoving);
+  const endTime = standstillTime(samples, lastMoving, samples[stoppedIndex]);
+
+  // Speed profile from onset to standstill
+  const profile: SpeedSample[] = [
+    { timestamp: startTime, speed: onset.speed },
+    ...samples.slice(onsetIndex + 1, lastMoving + 1),
+    { timestamp: endTime, speed: 0 },
+  ];
+
+  let distance = 0;
+  let peakDeceleration = 0;
+  for (let i = 1; i < profile.length; i++) {
+    const gap = (profile[i].timestamp - profile[i - 1].timestamp) / 1000;
+    if (gap <= 0) continue;
+    distance += ((profile[i - 1].speed + profile[i].speed) / 2) * gap;
+    peakDeceleration = Math.max(
+      peakDeceleration,
+      (profile[i - 1].speed - profile[i].speed) / gap
+    );
+  }
+
+  const duration = (endTime - startTime) / 1000;
+  if (duration <= 0) return null;
+
+  return {
+    startTime: Math.round(startTime),
+    endTime: Math.round(endTime),
+    startSpeed: onset.speed * CONVERSION.MS_TO_KMH,
+    distance,
+    duration,
+    peakDeceleration: peakDeceleration / BRAKING_CONFIG.gravity,
+    meanDeceleration: onset.speed / duration / BRAKING_CONFIG.gravity,
+  };
+}
+
+/**
+ * Stopping distance scaled to the test's target speed, for comparing
+ * stops that began a little faster or slower (distance grows with speed²)
+ */
+export function normalizeStoppingDistance(test: BrakingTest): number {
+  if (test.startSpeed <= 0) return test.distance;
+  return test.distance * (test.targetSpeed / test.startSpeed) ** 2;
+}
+
+// ============ Interpolation ============
+
+/**
+ * GPS speed of each point, or the speed implied by the step to it when the
+ * GPS gave none
+ */
+function buildSpeedSamples(points: LocationPoint[]): SpeedSample[] {
+  return points.map((point, i) => {
+    if (point.speed !== null && point.speed >= 0) {
+      return { timestamp: point.timestamp, speed: point.speed };
+    }
+    const previous = points[i - 1];
+    const gap = previous ? (point.timestamp - previous.timestamp) / 1000 : 0;
+    return {
+      timestamp: point.timestamp,
+      speed: gap > 0 ? haversineDistance(previous, point) / gap : 0,
+    };
+  });
+}
+
+/**
+ * When braking began: the deceleration of the first full braking gap
+ * carried back to the onset speed, kept between the onset fix and the next
+ */
+function brakingOnset(
+  samples: SpeedSample[],
+  onsetIndex: number,
+  lastMoving: number
+): number {
+  const onset = samples[onsetIndex];
+  const first = samples[onsetIndex + 1];
+  const second = samples[onsetIndex + 2];
+  if (!second || onsetIndex + 2 > lastMoving) return onset.timestamp;
+
+  const deceleration =
+    (first.speed - second.speed) / (second.timestamp - first.timestamp);
+  if (deceleration <= 0) return onset.timestamp;
+
+  const time = first.timestamp - (onset.speed - first.speed) / deceleration;
+  return Math.min(Math.max(time, onset.timestamp), first.timestamp);
+}
+
+/**
+ * When the car came to rest: the last deceleration carried on to zero,
+ * kept before the first stopped fix when there is one
+ */
+function standstillTime(
+  samples: SpeedSample[],
+  lastMoving: number,
+  stopped: SpeedSample | undefined
+): number {
+  const last = samples[lastMoving];
+  const before = samples[lastMoving - 1];
+  const deceleration = before
+    ? (before.speed - last.speed) / (last.timestamp - before.timestamp)
+    : 0;
+
+  if (deceleration <= 0) return stopped?.timestamp ?? last.timestamp;
+  const time = last.timestamp + last.speed / deceleration;
+  return stopped ? Math.min(time, stopped.timestamp) : time;
+}
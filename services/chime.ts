@@ -0,0 +1,43 @@
+/**
+ * Speed alert chime, played through expo-audio while the app is open
+ *
+ * In the background and on the lock screen the alert notification's own
+ * sound stands in, as the app can't start playback from there.
+ */
+
+import {
+  createAudioPlayer,
+  setAudioModeAsync,
+  type AudioPlayer,
+} from "expo-audio";
+
+// Loaded on the first alert and kept for the next ones
+let player: AudioPlayer | null = null;
+
+/**
+ * Create the player, ducking other audio (music, navigation) under the chime
+ */
+async function getPlayer(): Promise<AudioPlayer> {
+  if (!player) {
+    await setAudioModeAsync({
+      playsInSilentMode: true,
+      interruptionMode: "duckOthers",
+      shouldPlayInBackground: false,
+    });
+    player = createAudioPlayer(require("@/assets/sounds/speed-alert.wav"));
+  }
+  return player;
+}
+
+/**
+ * Play the chime from the start, cutting off one still ringing
+ */
+export async function playSpeedAlertChime(): Promise<void> {
+  try {
+    const chime = await getPlayer();
+    await chime.seekTo(0);
+    chime.play();
+  } catch (error) {
+    console.error("Error playing speed alert chime:", error);
+  }
+}
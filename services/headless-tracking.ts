@@ -0,0 +1,225 @@
+/**
+ * Trip tracking from the background task, without the React tree
+ *
+ * When Android kills the activity, the foreground service keeps delivering
+ * fixes to the background task, but no `useTracking` hook is mounted to
+ * receive them. These fixes are processed here instead: the active trip
+ * is read from SQLite, each fix goes through the shared track processor,
+ * and points and running stats are persisted through the track writer.
+ * `useTracking` reads the trip back from SQLite when the app reopens.
+ *
+ * Speed limit alerts and voice callouts run here too, so they still chime,
+ * speak and get logged.
+ * Paused trips ignore fixes here; resuming happens in the app.
+ */
+
+import type * as Location from "expo-location";
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import {
+  endOverspeedEvent,
+  getActiveTrip,
+  getLastLocationPoint,
+  getPauseIntervalsForTrip,
+  initDatabase,
+} from "@/database";
+import { hydrateSettings, useSettingsStore } from "@/stores/settings-store";
+import type { LocationPoint, Trip } from "@/types";
+import { updateTrackingNotification } from "./notification";
+import {
+  applySpeedAlertCheck,
+  checkSpeedAlert,
+  createSpeedAlertState,
+  getSpeedAlertConfig,
+  type SpeedAlertState,
+} from "./speed-alert";
+import { calculateTripTiming } from "./speed-calculator";
+import {
+  processFix,
+  resumeTrackProcessorState,
+  type TrackProcessorState,
+} from "./track-processor";
+import {
+  flushTrackWrites,
+  queueLocationPoint,
+  queueRejectedPoint,
+} from "./track-writer";
+import {
+  checkVoiceCallout,
+  createVoiceCalloutState,
+  getVoiceCalloutConfig,
+  speak,
+  type VoiceCalloutState,
+} from "./voice-callout";
+
+// Running state for the trip being tracked headlessly
+interface HeadlessSession {
+  tripId: number;
+  totalDistance: number; // meters
+  maxSpeed: number; // km/h
+  processor: TrackProcessorState;
+  lastTimestamp: number; // newest fix already handled
+  speedAlert: SpeedAlertState;
+  voiceCallout: VoiceCalloutState;
+}
+
+let session: HeadlessSession | null = null;
+// Task invocations are handled one after another
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Persist a batch of background fixes for the active trip
+ */
+export function trackLocationsHeadless(
+  locations: Location.LocationObject[]
+): Promise<void> {
+  const run = queue.then(() => processLocations(locations));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Forget headless state once the app takes over tracking
+ */
+export function resetHeadlessTracking(): void {
+  session = null;
+}
+
+/**
+ * Run fixes through the track processor and queue the results
+ */
+async function processLocations(
+  locations: Location.LocationObject[]
+): Promise<void> {
+  const db = await initDatabase();
+  const trip = await getActiveTrip(db);
+  if (!trip) {
+    session = null;
+    return;
+  }
+
+  const pauseIntervals = await getPauseIntervalsForTrip(db, trip.id);
+  const lastPause = pauseIntervals[pauseIntervals.length - 1];
+  if (lastPause && lastPause.endTime === null) {
+    console.log("Headless: trip is paused, ignoring fixes");
+    return;
+  }
+
+  // Start from what is stored, which may include fixes from the app
+  if (!session || session.tripId !== trip.id) {
+    await flushTrackWrites();
+    session = await loadSession(db, trip);
+  }
+  const current = session;
+  // A cold start runs the task before the store has read AsyncStorage
+  await hydrateSettings();
+  const settings = useSettingsStore.getState();
+  const speedAlertConfig = getSpeedAlertConfig(settings);
+  const voiceCalloutConfig = getVoiceCalloutConfig(settings);
+  let lastSpeed = 0;
+
+  const ordered = [...locations].sort((a, b) => a.timestamp - b.timestamp);
+  for (const location of ordered) {
+    // Already stored, or delivered again by the OS
+    if (location.timestamp <= current.lastTimestamp) continue;
+    current.lastTimestamp = location.timestamp;
+
+    const point: Omit<LocationPoint, "id"> = {
+      tripId: trip.id,
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      speed: location.coords.speed,
+      altitude: location.coords.altitude,
+      accuracy: location.coords.accuracy,
+      timestamp: location.timestamp,
+      source: "background",
+    };
+
+    const fix = processFix(current.processor, point as LocationPoint);
+    current.processor = fix.state;
+
+    if (fix.rejected) {
+      queueRejectedPoint({ ...point, reason: fix.rejected });
+      continue;
+    }
+
+    current.totalDistance += fix.distance;
+    current.maxSpeed = Math.max(current.maxSpeed, fix.speed);
+    lastSpeed = fix.speed;
+
+    const alertCheck = checkSpeedAlert(
+      current.speedAlert,
+      speedAlertConfig,
+      fix.speed,
+      location.timestamp
+    );
+    current.speedAlert = alertCheck.state;
+    await applySpeedAlertCheck(db, trip.id, alertCheck, settings);
+
+    const timing = calculateTripTiming(
+      trip.startTime,
+      location.timestamp,
+      pauseIntervals,
+      current.totalDistance
+    );
+    const voiceCheck = checkVoiceCallout(current.voiceCallout, voiceCalloutConfig, {
+      distance: current.totalDistance,
+      elapsedTime: timing.elapsedTime,
+      movingTime: timing.movingTime,
+      movingAvgSpeed: timing.movingAvgSpeed,
+    });
+    current.voiceCallout = voiceCheck.state;
+    if (voiceCheck.callout) {
+      speak(voiceCheck.callout);
+    }
+
+    queueLocationPoint(point, {
+      totalDistance: current.totalDistance,
+      maxSpeed: current.maxSpeed,
+      avgSpeed: timing.avgSpeed,
+      movingTime: timing.movingTime,
+      pausedTime: timing.pausedTime,
+      movingAvgSpeed: timing.movingAvgSpeed,
+    });
+  }
+
+  // The OS may suspend the task as soon as it returns
+  await flushTrackWrites();
+
+  const timing = calculateTripTiming(
+    trip.startTime,
+    Date.now(),
+    pauseIntervals,
+    current.totalDistance
+  );
+  await updateTrackingNotification(
+    lastSpeed,
+    current.totalDistance,
+    timing.movingTime,
+    settings.unit,
+    timing.movingAvgSpeed
+  );
+}
+
+/**
+ * Pick up the trip from its stored stats and last stored fix
+ */
+async function loadSession(
+  db: SQLiteDatabase,
+  trip: Trip
+): Promise<HeadlessSession> {
+  const lastPoint = await getLastLocationPoint(db, trip.id);
+  console.log("Headless: tracking trip", trip.id);
+  // An alert the app had open ends with the app
+  await endOverspeedEvent(db, trip.id, lastPoint?.timestamp ?? trip.startTime);
+
+  return {
+    tripId: trip.id,
+    totalDistance: trip.totalDistance,
+    maxSpeed: trip.maxSpeed,
+    processor: resumeTrackProcessorState(lastPoint),
+    lastTimestamp: lastPoint?.timestamp ?? trip.startTime,
+    speedAlert: createSpeedAlertState(),
+    voiceCallout: createVoiceCalloutState(),
+  };
+}
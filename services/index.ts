@@ -3,6 +3,21 @@
  */
 
 export * from "./background-task";
+export * from "./braking-test";
+export * from "./headless-tracking";
 export * from "./location";
+export * from "./location-filter";
+export * from "./location-ingest";
 export * from "./notification";
+export * from "./performance-timer";
+export * from "./replay";
+export * from "./speed-alert";
 export * from "./speed-calculator";
+export * from "./splits";
+export * from "./track-processor";
+export * from "./track-writer";
+export * from "./trip-edit";
+export * from "./trip-recompute";
+export * from "./trip-recovery";
+export * from "./trip-stats";
+export * from "./voice-callout";
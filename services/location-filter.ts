@@ -0,0 +1,360 @@
+/**
+ * Constant-velocity Kalman filter fusing GPS position, Doppler speed and accuracy
+ *
+ * The filter works in a local east/north plane (meters) anchored at the first
+ * accepted fix. State is [east, north, eastVelocity, northVelocity]. Every
+ * function here is pure: callers own the state and pass it back in.
+ */
+
+import { CONVERSION, KALMAN_CONFIG } from "@/constants/config";
+import type { FixRejectionReason, LocationPoint } from "@/types";
+import { GPS_NOISE_THRESHOLD_KMH } from "./speed-calculator";
+
+const EARTH_RADIUS = 6371000; // meters
+
+type Vector4 = [number, number, number, number];
+type Matrix4 = [Vector4, Vector4, Vector4, Vector4];
+
+// Why a fix was not fed into the filter
+export type FilterRejectionReason = Extract<
+  FixRejectionReason,
+  "low_accuracy" | "outlier" | "stale"
+>;
+
+// Filter state carried between fixes
+export interface LocationFilterState {
+  originLatitude: number;
+  originLongitude: number;
+  x: Vector4; // [east m, north m, east m/s, north m/s]
+  P: Matrix4; // state covariance
+  timestamp: number;
+  consecutiveOutliers: number;
+}
+
+// Result of filtering a single fix
+export interface FilteredLocation {
+  latitude: number;
+  longitude: number;
+  speed: number; // km/h, noise-gated
+  accuracy: number; // estimated position standard deviation (m)
+  timestamp: number;
+  rejected: FilterRejectionReason | null;
+}
+
+export interface FilterStep {
+  state: LocationFilterState | null;
+  location: FilteredLocation;
+}
+
+// ============ SMALL MATRIX HELPERS ============
+
+function dot(a: readonly number[], b: readonly number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function diagonal(values: Vector4): Matrix4 {
+  return values.map((value, i) =>
+    values.map((_, j) => (i === j ? value : 0))
+  ) as Matrix4;
+}
+
+/**
+ * Apply a single scalar measurement z = h·x with variance r
+ * Sequential scalar updates are equivalent to a joint update with diagonal R
+ */
+function scalarUpdate(
+  x: Vector4,
+  P: Matrix4,
+  h: Vector4,
+  innovation: number,
+  r: number
+): { x: Vector4; P: Matrix4 } {
+  const Ph = P.map((row) => dot(row, h)) as Vector4;
+  const s = dot(h, Ph) + r;
+  const k = Ph.map((value) => value / s) as Vector4;
+
+  const nextX = x.map((value, i) => value + k[i] * innovation) as Vector4;
+  const nextP = P.map((row, i) =>
+    row.map((value, j) => value - k[i] * Ph[j])
+  ) as Matrix4;
+
+  return { x: nextX, P: nextP };
+}
+
+// ============ PROJECTION ============
+
+function toLocal(
+  state: Pick<LocationFilterState, "originLatitude" | "originLongitude">,
+  point: { latitude: number; longitude: number }
+): { east: number; north: number } {
+  const latRad = (state.originLatitude * Math.PI) / 180;
+  const deltaLat = ((point.latitude - state.originLatitude) * Math.PI) / 180;
+  const deltaLon = ((point.longitude - state.originLongitude) * Math.PI) / 180;
+
+  return {
+    east: deltaLon * Math.cos(latRad) * EARTH_RADIUS,
+    north: deltaLat * EARTH_RADIUS,
+  };
+}
+
+function toGeographic(
+  state: Pick<LocationFilterState, "originLatitude" | "originLongitude">,
+  east: number,
+  north: number
+): { latitude: number; longitude: number } {
+  const latRad = (state.originLatitude * Math.PI) / 180;
+
+  return {
+    latitude: state.originLatitude + (north / EARTH_RADIUS) * (180 / Math.PI),
+    longitude:
+      state.originLongitude +
+      (east / (EARTH_RADIUS * Math.cos(latRad))) * (180 / Math.PI),
+  };
+}
+
+// ============ FILTER ============
+
+/**
+ * Reported accuracy, or the configured default when the GPS gives none
+ */
+function measurementAccuracy(point: LocationPoint): number {
+  return point.accuracy !== null && point.accuracy > 0
+    ? point.accuracy
+    : KALMAN_CONFIG.defaultAccuracy;
+}
+
+/**
+ * Start a fresh filter anchored at the given fix
+ * @param velocity Starting [east, north] velocity in m/s, e.g. the average
+ * across a gap; at rest by default
+ */
+export function createFilterState(
+  point: LocationPoint,
+  velocity: [number, number] = [0, 0]
+): LocationFilterState {
+  const accuracy = measurementAccuracy(point);
+  const velocityVariance = KALMAN_CONFIG.initialVelocityStdDev ** 2;
+
+  return {
+    originLatitude: point.latitude,
+    originLongitude: point.longitude,
+    x: [0, 0, velocity[0], velocity[1]],
+    P: diagonal([
+      accuracy * accuracy,
+      accuracy * accuracy,
+      velocityVariance,
+      velocityVariance,
+    ]),
+    timestamp: point.timestamp,
+    consecutiveOutliers: 0,
+  };
+}
+
+/**
+ * Propagate the state forward by dt seconds (constant velocity model)
+ */
+function predict(state: LocationFilterState, dt: number): LocationFilterState {
+  const [px, py, vx, vy] = state.x;
+  const P = state.P;
+  const q = KALMAN_CONFIG.accelerationNoise ** 2;
+
+  // F = [[1,0,dt,0],[0,1,0,dt],[0,0,1,0],[0,0,0,1]]
+  const FP = P.map((row, i) =>
+    i < 2 ? row.map((value, j) => value + dt * P[i + 2][j]) : [...row]
+  );
+  const FPFt = FP.map((row) =>
+    row.map((value, j) => (j < 2 ? value + dt * row[j + 2] : value))
+  );
+
+  // Discrete white-noise acceleration model
+  const dt2 = dt * dt;
+  const posVar = (dt2 * dt2 * q) / 4;
+  const crossVar = (dt2 * dt * q) / 2;
+  const velVar = dt2 * q;
+  const Q: Matrix4 = [
+    [posVar, 0, crossVar, 0],
+    [0, posVar, 0, crossVar],
+    [crossVar, 0, velVar, 0],
+    [0, crossVar, 0, velVar],
+  ];
+
+  return {
+    ...state,
+    x: [px + vx * dt, py + vy * dt, vx, vy],
+    P: FPFt.map((row, i) => row.map((value, j) => value + Q[i][j])) as Matrix4,
+  };
+}
+
+/**
+ * Squared Mahalanobis distance of the position innovation
+ */
+function positionInnovationDistance(
+  state: LocationFilterState,
+  east: number,
+  north: number,
+  r: number
+): number {
+  const dx = east - state.x[0];
+  const dy = north - state.x[1];
+  const a = state.P[0][0] + r;
+  const b = state.P[0][1];
+  const d = state.P[1][1] + r;
+  const det = a * d - b * b;
+  if (det <= 0) return 0;
+
+  return (d * dx * dx - 2 * b * dx * dy + a * dy * dy) / det;
+}
+
+/**
+ * Convert the current state into a filtered location
+ */
+function toFilteredLocation(
+  state: LocationFilterState,
+  rejected: FilterRejectionReason | null
+): FilteredLocation {
+  const [px, py, vx, vy] = state.x;
+  const { latitude, longitude } = toGeographic(state, px, py);
+  const speed = Math.hypot(vx, vy) * CONVERSION.MS_TO_KMH;
+
+  return {
+    latitude,
+    longitude,
+    speed: speed < GPS_NOISE_THRESHOLD_KMH ? 0 : speed,
+    accuracy: Math.sqrt((state.P[0][0] + state.P[1][1]) / 2),
+    timestamp: state.timestamp,
+    rejected,
+  };
+}
+
+/**
+ * Build a result for a fix that was not fed into the filter
+ */
+function rejectFix(
+  state: LocationFilterState | null,
+  point: LocationPoint,
+  reason: FilterRejectionReason
+): FilterStep {
+  if (state) {
+    return { state, location: toFilteredLocation(state, reason) };
+  }
+
+  return {
+    state,
+    location: {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      speed: 0,
+      accuracy: measurementAccuracy(point),
+      timestamp: point.timestamp,
+      rejected: reason,
+    },
+  };
+}
+
+/**
+ * Feed one GPS fix through the filter
+ * @param state Previous filter state, or null to start a new track
+ * @returns The next state and the filtered location for this fix
+ */
+export function filterLocation(
+  state: LocationFilterState | null,
+  point: LocationPoint
+): FilterStep {
+  const accuracy = measurementAccuracy(point);
+
+  if (accuracy > KALMAN_CONFIG.maxAccuracy) {
+    return rejectFix(state, point, "low_accuracy");
+  }
+
+  if (state && point.timestamp <= state.timestamp) {
+    return rejectFix(state, point, "stale");
+  }
+
+  const dt = state ? (point.timestamp - state.timestamp) / 1000 : 0;
+
+  // Start over on the first fix
+  if (!state) {
+    const fresh = createFilterState(point);
+    return { state: fresh, location: toFilteredLocation(fresh, null) };
+  }
+
+  // Start over after a long gap in coverage, moving at the average velocity
+  // across it so sparse tracks still read as moving and gain distance
+  if (dt > KALMAN_CONFIG.maxGap) {
+    const { east, north } = toLocal(state, point);
+    const fresh = createFilterState(point, [
+      (east - state.x[0]) / dt,
+      (north - state.x[1]) / dt,
+    ]);
+    return { state: fresh, location: toFilteredLocation(fresh, null) };
+  }
+
+  let next = predict(state, dt);
+  const r = accuracy * accuracy;
+  const { east, north } = toLocal(next, point);
+
+  // Gate the position against the prediction to reject multipath jumps
+  const distance = positionInnovationDistance(next, east, north, r);
+  if (distance > KALMAN_CONFIG.outlierGate) {
+    const consecutiveOutliers = state.consecutiveOutliers + 1;
+
+    // Repeated "outliers" mean the prediction is wrong, not the GPS
+    if (consecutiveOutliers >= KALMAN_CONFIG.maxConsecutiveOutliers) {
+      const fresh = createFilterState(point);
+      return { state: fresh, location: toFilteredLocation(fresh, null) };
+    }
+
+    const held = { ...state, consecutiveOutliers };
+    return { state: held, location: toFilteredLocation(held, "outlier") };
+  }
+
+  let { x, P } = scalarUpdate(next.x, next.P, [1, 0, 0, 0], east - next.x[0], r);
+  ({ x, P } = scalarUpdate(x, P, [0, 1, 0, 0], north - x[1], r));
+
+  // Doppler speed: zero-velocity update when stationary, magnitude update when moving
+  if (point.speed !== null && point.speed >= 0) {
+    const speedVariance = KALMAN_CONFIG.speedNoise ** 2;
+    const estimatedSpeed = Math.hypot(x[2], x[3]);
+
+    if (point.speed < KALMAN_CONFIG.stationarySpeed) {
+      ({ x, P } = scalarUpdate(x, P, [0, 0, 1, 0], -x[2], speedVariance));
+      ({ x, P } = scalarUpdate(x, P, [0, 0, 0, 1], -x[3], speedVariance));
+    } else if (estimatedSpeed > KALMAN_CONFIG.stationarySpeed) {
+      // Linearized |v| measurement; heading comes from the position track
+      const h: Vector4 = [0, 0, x[2] / estimatedSpeed, x[3] / estimatedSpeed];
+      ({ x, P } = scalarUpdate(
+        x,
+        P,
+        h,
+        point.speed - estimatedSpeed,
+        speedVariance
+      ));
+    }
+  }
+
+  next = {
+    ...next,
+    x,
+    P,
+    timestamp: point.timestamp,
+    consecutiveOutliers: 0,
+  };
+
+  return { state: next, location: toFilteredLocation(next, null) };
+}
+
+/**
+ * Run a whole recorded track through the filter
+ * @returns One filtered location per input point, in the same order
+ */
+export function filterTrack(points: LocationPoint[]): FilteredLocation[] {
+  let state: LocationFilterState | null = null;
+
+  return points.map((point) => {
+    const step = filterLocation(state, point);
+    state = step.state;
+    return step.location;
+  });
+}
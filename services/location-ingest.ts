@@ -0,0 +1,87 @@
+/**
+ * Single entry point for fixes from the foreground and background streams
+ *
+ * While the app is in the foreground both `watchPositionAsync` and the
+ * background task report the same fixes, and background fixes arrive in
+ * batches that can lag behind. Every fix passes through here: batches are
+ * put in time order, fixes already delivered by the other stream are
+ * dropped, and each delivered fix is tagged with the stream it came from.
+ * The track processor needs fixes in time order, so a fix older than the
+ * last delivered one is dropped too.
+ */
+
+import type * as Location from "expo-location";
+
+import { INGEST_CONFIG } from "@/constants/config";
+import type { LocationSource } from "@/types";
+import { haversineDistance } from "./speed-calculator";
+
+// Receives each fix once, in time order
+export type LocationHandler = (
+  location: Location.LocationObject,
+  source: LocationSource
+) => void;
+
+let handler: LocationHandler | null = null;
+// Recently delivered fixes, oldest first
+let recent: Location.LocationObject[] = [];
+
+/**
+ * Route merged fixes to a handler, forgetting earlier fixes
+ */
+export function startLocationIngest(onLocation: LocationHandler): void {
+  handler = onLocation;
+  recent = [];
+}
+
+/**
+ * Stop delivering fixes
+ */
+export function stopLocationIngest(): void {
+  handler = null;
+  recent = [];
+}
+
+/**
+ * Merge fixes from one stream into the delivered sequence
+ */
+export function ingestLocations(
+  locations: Location.LocationObject[],
+  source: LocationSource
+): void {
+  if (!handler) return;
+
+  const ordered = [...locations].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const location of ordered) {
+    if (recent.some((delivered) => isSameFix(delivered, location))) {
+      continue;
+    }
+
+    const last = recent[recent.length - 1];
+    if (last && location.timestamp < last.timestamp) {
+      console.log("Dropping late fix from", source, "stream:", location.timestamp);
+      continue;
+    }
+
+    recent.push(location);
+    if (recent.length > INGEST_CONFIG.historySize) {
+      recent.shift();
+    }
+
+    handler(location, source);
+  }
+}
+
+/**
+ * Whether two reports describe the same GPS fix
+ */
+export function isSameFix(
+  a: Location.LocationObject,
+  b: Location.LocationObject
+): boolean {
+  return (
+    Math.abs(a.timestamp - b.timestamp) <= INGEST_CONFIG.duplicateTime &&
+    haversineDistance(a.coords, b.coords) <= INGEST_CONFIG.duplicateDistance
+  );
+}
@@ -3,13 +3,19 @@
  */
 
 import * as Location from 'expo-location';
-import { GPS_CONFIG } from '@/constants/config';
+import { GPS_CONFIG, PERFORMANCE_CONFIG } from '@/constants/config';
 import type { PermissionStatus } from '@/types';
 import {
   startBackgroundLocationUpdates,
   stopBackgroundLocationUpdates,
   setBackgroundLocationCallback,
 } from './background-task';
+import {
+  ingestLocations,
+  startLocationIngest,
+  stopLocationIngest,
+  type LocationHandler,
+} from './location-ingest';
 
 // Location subscription handle
 let foregroundSubscription: Location.LocationSubscription | null = null;
@@ -134,6 +140,29 @@ export async function stopForegroundTracking(): Promise<void> {
   }
 }
 
+/**
+ * Watch location as fast as the GPS allows, for performance timing
+ * Independent of trip tracking, so a trip being recorded carries on.
+ * Returns the subscription to remove when done, or null if it failed.
+ */
+export async function watchPerformanceLocation(
+  callback: (location: Location.LocationObject) => void
+): Promise<Location.LocationSubscription | null> {
+  try {
+    return await Location.watchPositionAsync(
+      {
+        accuracy: GPS_CONFIG.accuracy,
+        distanceInterval: 0,
+        timeInterval: PERFORMANCE_CONFIG.timeInterval,
+      },
+      callback
+    );
+  } catch (error) {
+    console.error('Error starting performance location watch:', error);
+    return null;
+  }
+}
+
 /**
  * Start background location tracking
  */
@@ -166,16 +195,22 @@ export async function stopBackgroundTracking(): Promise<void> {
 
 /**
  * Start full location tracking (foreground + background)
+ * Both streams are merged so each fix reaches `onLocation` once, in order
  * Returns true if at least foreground tracking started
  */
 export async function startFullTracking(
-  onLocation: (location: Location.LocationObject) => void
+  onLocation: LocationHandler
 ): Promise<boolean> {
+  startLocationIngest(onLocation);
+
   // Start foreground tracking (required)
-  const foregroundStarted = await startForegroundTracking(onLocation);
+  const foregroundStarted = await startForegroundTracking((location) =>
+    ingestLocations([location], 'foreground')
+  );
   
   if (!foregroundStarted) {
     console.error('Failed to start foreground tracking');
+    stopLocationIngest();
     return false;
   }
 
@@ -183,7 +218,7 @@ export async function startFullTracking(
   try {
     await startBackgroundTracking((locations) => {
       console.log('Background locations received:', locations.length);
-      locations.forEach(onLocation);
+      ingestLocations(locations, 'background');
     });
   } catch (error) {
     console.warn('Background tracking unavailable, using foreground only');
@@ -199,4 +234,5 @@ export async function startFullTracking(
 export async function stopFullTracking(): Promise<void> {
   await stopForegroundTracking();
   await stopBackgroundTracking();
+  stopLocationIngest();
 }
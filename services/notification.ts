@@ -1,5 +1,5 @@
 /**
- * Notification service for live tracking updates
+ * Notification service for live tracking updates and speed alerts
  */
 
 import type { SpeedUnit } from "@/types";
@@ -14,6 +14,8 @@ import {
 // Notification identifiers
 const TRACKING_NOTIFICATION_ID = "gps-tracking-notification";
 const TRACKING_CHANNEL_ID = "gps-tracking-channel";
+const SPEED_ALERT_NOTIFICATION_ID = "speed-alert-notification";
+const SPEED_ALERT_CHANNEL_ID = "speed-alert-channel";
 
 // Track if notification channel is set up
 let isChannelConfigured = false;
@@ -23,6 +25,7 @@ let isChannelConfigured = false;
  */
 export async function configureNotifications(): Promise<void> {
   // Set notification handler for foreground notifications
+  // In the foreground the gauge and the chime (./chime) do the alerting
   Notifications.setNotificationHandler({
     handleNotification: async () => ({
       shouldShowAlert: false,
@@ -43,26 +46,39 @@ export async function configureNotifications(): Promise<void> {
       bypassDnd: false,
       description: "Shows current speed and trip progress while tracking",
     });
+    await Notifications.setNotificationChannelAsync(SPEED_ALERT_CHANNEL_ID, {
+      name: "Speed Alerts",
+      importance: Notifications.AndroidImportance.HIGH,
+      sound: "default",
+      vibrationPattern: [0, 250, 150, 250],
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+      description: "Chimes when you go over your speed limit",
+    });
     isChannelConfigured = true;
   }
 }
 
 /**
  * Format tracking stats for notification display
+ * @param duration Moving time in seconds
+ * @param movingAvgSpeed Average over moving time in km/h, shown when given
  */
 function formatNotificationBody(
   speed: number,
   distance: number,
   duration: number,
-  unit: SpeedUnit
+  unit: SpeedUnit,
+  movingAvgSpeed?: number
 ): string {
-  const speedText = `${formatSpeed(speed, unit)} ${
-    unit === "kmh" ? "km/h" : "mph"
-  }`;
+  const unitLabel = unit === "kmh" ? "km/h" : "mph";
+  const speedText = `${formatSpeed(speed, unit)} ${unitLabel}`;
   const distanceText = formatDistance(distance, unit);
   const durationText = formatDuration(duration);
+  const body = `${speedText} • ${distanceText} • ${durationText}`;
 
-  return `${speedText} • ${distanceText} • ${durationText}`;
+  return movingAvgSpeed !== undefined
+    ? `${body} • avg ${formatSpeed(movingAvgSpeed, unit)} ${unitLabel}`
+    : body;
 }
 
 /**
@@ -72,13 +88,20 @@ export async function showTrackingNotification(
   speed: number,
   distance: number,
   duration: number,
-  unit: SpeedUnit
+  unit: SpeedUnit,
+  movingAvgSpeed?: number
 ): Promise<void> {
   try {
     // Ensure channel is configured
     await configureNotifications();
 
-    const body = formatNotificationBody(speed, distance, duration, unit);
+    const body = formatNotificationBody(
+      speed,
+      distance,
+      duration,
+      unit,
+      movingAvgSpeed
+    );
 
     await Notifications.scheduleNotificationAsync({
       identifier: TRACKING_NOTIFICATION_ID,
@@ -108,9 +131,10 @@ export async function updateTrackingNotification(
   speed: number,
   distance: number,
   duration: number,
-  unit: SpeedUnit
+  unit: SpeedUnit,
+  movingAvgSpeed?: number
 ): Promise<void> {
-  await showTrackingNotification(speed, distance, duration, unit);
+  await showTrackingNotification(speed, distance, duration, unit, movingAvgSpeed);
 }
 
 /**
@@ -124,6 +148,50 @@ export async function hideTrackingNotification(): Promise<void> {
   }
 }
 
+/**
+ * Show the over-the-limit alert while in the background; its sound is the chime
+ * @param speed Current speed in km/h
+ * @param speedLimit Limit in force in km/h
+ */
+export async function showSpeedAlertNotification(
+  speed: number,
+  speedLimit: number,
+  unit: SpeedUnit
+): Promise<void> {
+  try {
+    await configureNotifications();
+
+    const unitLabel = unit === "kmh" ? "km/h" : "mph";
+    await Notifications.scheduleNotificationAsync({
+      identifier: SPEED_ALERT_NOTIFICATION_ID,
+      content: {
+        title: "⚠️ Over the speed limit",
+        body: `${formatSpeed(speed, unit)} ${unitLabel} in a ${formatSpeed(speedLimit, unit)} ${unitLabel} limit`,
+        data: { type: "speed-alert" },
+        sound: "default",
+        ...(Platform.OS === "android" && {
+          priority: Notifications.AndroidNotificationPriority.HIGH,
+        }),
+      },
+      trigger:
+        Platform.OS === "android" ? { channelId: SPEED_ALERT_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error("Error showing speed alert notification:", error);
+  }
+}
+
+/**
+ * Dismiss the speed alert once back under the limit
+ */
+export async function hideSpeedAlertNotification(): Promise<void> {
+  try {
+    await Notifications.dismissNotificationAsync(SPEED_ALERT_NOTIFICATION_ID);
+  } catch (error) {
+    console.error("Error hiding speed alert notification:", error);
+  }
+}
+
 /**
  * Request notification permissions
  */
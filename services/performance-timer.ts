@@ -0,0 +1,365 @@
+/**
+ * Acceleration timing from standstill: 0–100 km/h, quarter mile and so on
+ *
+ * A run arms once the car has been stopped for a moment and starts by
+ * itself when it moves off. Every enabled target is timed on the same run,
+ * and the run ends when all are done, the driver lifts off or stops, or it
+ * times out. Fixes arrive far too rarely to time a run directly, so the
+ * launch and each finish line are placed between fixes assuming constant
+ * acceleration across the gap. Like the speed alert check, the timer is
+ * pure: callers own the state and pass it back in. Finished runs are
+ * stored apart from trips, with their own history.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import { CONVERSION, PERFORMANCE_CONFIG } from "@/constants/config";
+import { addPerformanceResult, addPerformanceRun } from "@/database";
+import type {
+  PerformancePhase,
+  PerformanceResult,
+  PerformanceRun,
+  PerformanceTarget,
+  PerformanceWarning,
+} from "@/types";
+
+// A GPS fix as the timer reads it
+export interface PerformanceSample {
+  timestamp: number; // ms
+  speed: number; // km/h, as reported by the GPS
+  accuracy: number | null; // meters
+}
+
+// State carried between fixes
+export interface PerformanceTimerState {
+  phase: PerformancePhase;
+  targets: PerformanceTarget[];
+  lastSample: PerformanceSample | null;
+  stoppedSample: PerformanceSample | null; // last fix before the launch
+  standstillSince: number | null; // first of the current stopped fixes
+  launchTime: number | null; // interpolated moment the car moved off
+  distance: number; // meters since launch
+  peakSpeed: number; // km/h since launch
+  crossings: Record<number, number>; // speed (km/h) -> when first reached
+  results: PerformanceResult[];
+  // Fix quality, measured from the start of the timer, then of the run
+  windowStart: number | null;
+  windowSamples: number;
+  worstAccuracy: number | null;
+}
+
+/**
+ * Fresh timer for the given targets; it arms once the car is stopped
+ */
+export function createPerformanceTimerState(
+  targets: PerformanceTarget[]
+): PerformanceTimerState {
+  return {
+    phase: "waiting",
+    targets,
+    lastSample: null,
+    stoppedSample: null,
+    standstillSince: null,
+    launchTime: null,
+    distance: 0,
+    peakSpeed: 0,
+    crossings: {},
+    results: [],
+    windowStart: null,
+    windowSamples: 0,
+    worstAccuracy: null,
+  };
+}
+
+/**
+ * Advance the timer by one fix
+ */
+export function processPerformanceSample(
+  state: PerformanceTimerState,
+  sample: PerformanceSample
+): PerformanceTimerState {
+  if (state.phase === "finished") return state;
+  if (state.lastSample && sample.timestamp <= state.lastSample.timestamp) {
+    return state;
+  }
+
+  if (state.phase === "running" && state.windowSamples === 1 && state.stoppedSample) {
+    // Second moving fix: place the launch better and replay the first one
+    const first = state.lastSample!;
+    const launchTime = extrapolateLaunch(state.stoppedSample, first, sample);
+    return advanceRun(advanceRun(startRun(state, state.stoppedSample, launchTime), first), sample);
+  }
+  if (state.phase === "running") {
+    return advanceRun(state, sample);
+  }
+  if (state.phase === "armed" && sample.speed >= PERFORMANCE_CONFIG.launchSpeed) {
+    // Until a second moving fix, the launch is where the speed rose through standstill
+    const stopped = state.lastSample;
+    const launchTime = stopped
+      ? timeAtSpeed(stopped, sample, PERFORMANCE_CONFIG.standstillSpeed)
+      : sample.timestamp;
+    return advanceRun(startRun(state, stopped, launchTime), sample);
+  }
+  return {
+    ...measureSample(state, sample),
+    ...checkStandstill(state, sample),
+    lastSample: sample,
+  };
+}
+
+/**
+ * The finished run ready to save, or null if the car never launched
+ */
+export function finishPerformanceRun(
+  state: PerformanceTimerState
+): PerformanceRun | null {
+  if (state.launchTime === null) return null;
+
+  const order = state.targets.map((target) => target.id);
+  return {
+    startTime: Math.round(state.launchTime),
+    peakSpeed: state.peakSpeed,
+    fixRate: getFixRate(state) ?? 0,
+    worstAccuracy: state.worstAccuracy,
+    warnings: getPerformanceWarnings(state, true),
+    results: [...state.results].sort(
+      (a, b) => order.indexOf(a.targetId) - order.indexOf(b.targetId)
+    ),
+  };
+}
+
+/**
+ * Store a finished run with its results and return its ID
+ */
+export async function savePerformanceRun(
+  db: SQLiteDatabase,
+  run: PerformanceRun
+): Promise<number> {
+  let runId = 0;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    runId = await addPerformanceRun(txn, run);
+    for (const result of run.results) {
+      await addPerformanceResult(txn, runId, result);
+    }
+  });
+
+  return runId;
+}
+
+/**
+ * Fixes per second so far, or null before there are two
+ */
+export function getFixRate(state: PerformanceTimerState): number | null {
+  const last = state.lastSample?.timestamp;
+  if (state.windowStart === null || last === undefined || state.windowSamples < 2) {
+    return null;
+  }
+  return ((state.windowSamples - 1) * 1000) / Math.max(last - state.windowStart, 1);
+}
+
+/**
+ * Reasons the times may be off; a finished run also warns on too few fixes
+ */
+export function getPerformanceWarnings(
+  state: PerformanceTimerState,
+  isFinal = false
+): PerformanceWarning[] {
+  const warnings: PerformanceWarning[] = [];
+  const fixRate = getFixRate(state) ?? (isFinal ? 0 : null);
+
+  if (fixRate !== null && fixRate < PERFORMANCE_CONFIG.minFixRate) {
+    warnings.push("low-fix-rate");
+  }
+  if (
+    state.worstAccuracy !== null &&
+    state.worstAccuracy > PERFORMANCE_CONFIG.maxAccuracy
+  ) {
+    warnings.push("poor-accuracy");
+  }
+  return warnings;
+}
+
+// ============ Phases ============
+
+/**
+ * Arm once stopped long enough; moving before then restarts the wait
+ */
+function checkStandstill(
+  state: PerformanceTimerState,
+  sample: PerformanceSample
+): Pick<PerformanceTimerState, "phase" | "standstillSince"> {
+  if (sample.speed >= PERFORMANCE_CONFIG.standstillSpeed) {
+    // Creeping while armed keeps it armed; the launch speed starts the run
+    return state.phase === "armed"
+      ? { phase: "armed", standstillSince: state.standstillSince }
+      : { phase: "waiting", standstillSince: null };
+  }
+
+  const since = state.standstillSince ?? sample.timestamp;
+  return {
+    phase:
+      sample.timestamp - since >= PERFORMANCE_CONFIG.armDelay ? "armed" : "waiting",
+    standstillSince: since,
+  };
+}
+
+/**
+ * Start timing from standstill at `launchTime`
+ */
+function startRun(
+  state: PerformanceTimerState,
+  stoppedSample: PerformanceSample | null,
+  launchTime: number
+): PerformanceTimerState {
+  return {
+    ...state,
+    phase: "running",
+    lastSample: { timestamp: launchTime, speed: 0, accuracy: null },
+    stoppedSample,
+    launchTime,
+    distance: 0,
+    peakSpeed: 0,
+    crossings: {},
+    results: [],
+    windowStart: null,
+    windowSamples: 0,
+    worstAccuracy: null,
+  };
+}
+
+/**
+ * Integrate the gap since the last fix, timing any target reached in it,
+ * and end the run when it's over
+ */
+function advanceRun(
+  state: PerformanceTimerState,
+  sample: PerformanceSample
+): PerformanceTimerState {
+  const previous = state.lastSample!;
+  const launchTime = state.launchTime!;
+  const results = [...state.results];
+  const crossings = { ...state.crossings };
+  const isDone = (id: string) => results.some((result) => result.targetId === id);
+
+  // Constant acceleration across the gap, in m/s and seconds
+  const gap = (sample.timestamp - previous.timestamp) / 1000;
+  const v0 = previous.speed / CONVERSION.MS_TO_KMH;
+  const v1 = sample.speed / CONVERSION.MS_TO_KMH;
+  const acceleration = (v1 - v0) / gap;
+  const distance = state.distance + ((v0 + v1) / 2) * gap;
+
+  // Speeds the targets start and finish at
+  for (const target of state.targets) {
+    for (const speed of [target.fromSpeed, target.toSpeed]) {
+      if (
+        speed !== undefined &&
+        speed > 0 &&
+        crossings[speed] === undefined &&
+        previous.speed < speed &&
+        sample.speed >= speed
+      ) {
+        crossings[speed] = timeAtSpeed(previous, sample, speed);
+      }
+    }
+  }
+
+  for (const target of state.targets) {
+    if (isDone(target.id)) continue;
+
+    if (target.kind === "speed") {
+      const from = target.fromSpeed ? crossings[target.fromSpeed] : launchTime;
+      const to = target.toSpeed !== undefined ? crossings[target.toSpeed] : undefined;
+      if (from !== undefined && to !== undefined) {
+        results.push({ targetId: target.id, time: (to - from) / 1000, trapSpeed: null });
+      }
+    } else if (target.distance !== undefined && distance >= target.distance) {
+      // Seconds into the gap where the finish line was crossed
+      const remaining = target.distance - state.distance;
+      const offset =
+        Math.abs(acceleration) < 1e-6
+          ? remaining / Math.max(v0, 1e-6)
+          : (-v0 + Math.sqrt(Math.max(v0 * v0 + 2 * acceleration * remaining, 0))) /
+            acceleration;
+      const clamped = Math.min(Math.max(offset, 0), gap);
+      results.push({
+        targetId: target.id,
+        time: (previous.timestamp + clamped * 1000 - launchTime) / 1000,
+        trapSpeed: (v0 + acceleration * clamped) * CONVERSION.MS_TO_KMH,
+      });
+    }
+  }
+
+  const peakSpeed = Math.max(state.peakSpeed, sample.speed);
+  const isOver =
+    results.length === state.targets.length ||
+    sample.speed < PERFORMANCE_CONFIG.standstillSpeed ||
+    sample.speed < peakSpeed - PERFORMANCE_CONFIG.liftOffDrop ||
+    sample.timestamp - launchTime > PERFORMANCE_CONFIG.maxRunTime;
+
+  return {
+    ...measureSample(state, sample),
+    phase: isOver ? "finished" : "running",
+    lastSample: sample,
+    distance,
+    peakSpeed,
+    crossings,
+    results,
+  };
+}
+
+// ============ Helpers ============
+
+/**
+ * When the car moved off: the first two moving fixes' speed trend traced
+ * back to zero, kept between the last stopped fix and the first moving one
+ */
+function extrapolateLaunch(
+  stopped: PerformanceSample,
+  first: PerformanceSample,
+  second: PerformanceSample
+): number {
+  const rise = second.speed - first.speed;
+  if (rise <= 0) return timeAtSpeed(stopped, first, PERFORMANCE_CONFIG.standstillSpeed);
+
+  const launchTime =
+    first.timestamp - (first.speed * (second.timestamp - first.timestamp)) / rise;
+  return Math.min(Math.max(launchTime, stopped.timestamp), first.timestamp);
+}
+
+/**
+ * Count a fix towards the fix rate and accuracy
+ */
+function measureSample(
+  state: PerformanceTimerState,
+  sample: PerformanceSample
+): PerformanceTimerState {
+  return {
+    ...state,
+    windowStart: state.windowStart ?? sample.timestamp,
+    windowSamples: state.windowSamples + 1,
+    worstAccuracy: worseAccuracy(state.worstAccuracy, sample.accuracy),
+  };
+}
+
+function worseAccuracy(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
+
+/**
+ * When the speed passed `speed` between two fixes, linear between them
+ */
+function timeAtSpeed(
+  before: PerformanceSample,
+  after: PerformanceSample,
+  speed: number
+): number {
+  if (after.speed === before.speed) return after.timestamp;
+  const ratio = (speed - before.speed) / (after.speed - before.speed);
+  return (
+    before.timestamp +
+    (after.timestamp - before.timestamp) * Math.min(Math.max(ratio, 0), 1)
+  );
+}
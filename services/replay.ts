@@ -0,0 +1,119 @@
+/**
+ * Trip replay: recorded points run back through the live calculation path
+ *
+ * The timeline is built once by feeding every stored point through the same
+ * track processor `useTracking` uses. Any playback position can then be
+ * resolved without re-processing, which makes seeking instant.
+ */
+
+import { REPLAY_CONFIG } from "@/constants/config";
+import type { LocationPoint, PauseInterval } from "@/types";
+import { calculateTripTiming, type TripTiming } from "./speed-calculator";
+import { createTrackProcessorState, processFix } from "./track-processor";
+
+// Trip state right after an accepted fix
+export interface ReplayFrame {
+  timestamp: number;
+  location: LocationPoint; // filtered position
+  speed: number; // km/h
+  totalDistance: number; // meters
+  maxSpeed: number; // km/h
+}
+
+// Everything the speedometer and stats show at a playback position
+export interface ReplayState extends TripTiming {
+  currentSpeed: number;
+  totalDistance: number;
+  maxSpeed: number;
+  isPaused: boolean;
+  location: LocationPoint | null;
+}
+
+type Pause = Pick<PauseInterval, "startTime" | "endTime">;
+
+/**
+ * Process every recorded point into a timeline of accepted fixes
+ */
+export function buildReplayTimeline(points: LocationPoint[]): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  let processor = createTrackProcessorState();
+  let totalDistance = 0;
+  let maxSpeed = 0;
+
+  for (const point of points) {
+    const fix = processFix(processor, point);
+    processor = fix.state;
+    if (fix.rejected) continue;
+
+    totalDistance += fix.distance;
+    maxSpeed = Math.max(maxSpeed, fix.speed);
+    frames.push({
+      timestamp: point.timestamp,
+      location: fix.point,
+      speed: fix.speed,
+      totalDistance,
+      maxSpeed,
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Last frame at or before a position (frames are sorted by timestamp)
+ */
+function findFrame(timeline: ReplayFrame[], position: number): ReplayFrame | null {
+  let low = 0;
+  let high = timeline.length - 1;
+  let found: ReplayFrame | null = null;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (timeline[mid].timestamp <= position) {
+      found = timeline[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Resolve the trip state at a playback position
+ * @param startTime Trip start time, where elapsed time is measured from
+ * @param position Playback clock (epoch ms, same timebase as the points)
+ */
+export function getReplayState(
+  timeline: ReplayFrame[],
+  pauses: Pause[],
+  startTime: number,
+  position: number
+): ReplayState {
+  // Only pauses that had started by now, still open if they end later
+  const pausesSoFar = pauses
+    .filter((pause) => pause.startTime <= position)
+    .map((pause) => ({
+      startTime: pause.startTime,
+      endTime:
+        pause.endTime !== null && pause.endTime <= position ? pause.endTime : null,
+    }));
+  const isPaused = pausesSoFar.some((pause) => pause.endTime === null);
+
+  const frame = findFrame(timeline, position);
+  const totalDistance = frame?.totalDistance ?? 0;
+
+  // Mirror live tracking: no fix for a while reads as stationary
+  const isStale =
+    !frame || position - frame.timestamp > REPLAY_CONFIG.speedDecay;
+
+  return {
+    ...calculateTripTiming(startTime, position, pausesSoFar, totalDistance),
+    currentSpeed: isPaused || isStale ? 0 : frame.speed,
+    totalDistance,
+    maxSpeed: frame?.maxSpeed ?? 0,
+    isPaused,
+    location: frame?.location ?? null,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Speed limit alerts shared by live and headless tracking
+ *
+ * An alert starts once speed has stayed above the limit plus tolerance for
+ * the configured delay, and ends as soon as it drops back under. The check
+ * is pure, like the track processor: callers own the state and pass it back
+ * in. Each alert is logged on the trip as an overspeed event.
+ */
+
+import * as Haptics from "expo-haptics";
+import type { SQLiteDatabase } from "expo-sqlite";
+import { AppState } from "react-native";
+
+import { endOverspeedEvent, startOverspeedEvent } from "@/database";
+import type { OverspeedEvent, Settings } from "@/types";
+import { playSpeedAlertChime } from "./chime";
+import {
+  hideSpeedAlertNotification,
+  showSpeedAlertNotification,
+} from "./notification";
+import { mphToKmh } from "./speed-calculator";
+import { announceSpeedAlert } from "./voice-callout";
+
+// The limit in force, converted from the user's unit
+export interface SpeedAlertConfig {
+  limit: number; // km/h
+  threshold: number; // km/h, limit plus tolerance
+  delay: number; // ms above the threshold before alerting
+}
+
+// State carried between fixes
+export interface SpeedAlertState {
+  overSince: number | null; // first fix of the current run above the threshold
+  peakSpeed: number; // km/h, highest in the current run
+  isAlerting: boolean;
+}
+
+// Outcome of checking one fix
+export interface SpeedAlertCheck {
+  state: SpeedAlertState;
+  started: Omit<OverspeedEvent, "id" | "tripId" | "endTime"> | null;
+  ended: { endTime: number; peakSpeed: number } | null;
+}
+
+/**
+ * Fresh state: under the limit, no alert
+ */
+export function createSpeedAlertState(): SpeedAlertState {
+  return { overSince: null, peakSpeed: 0, isAlerting: false };
+}
+
+/**
+ * The active profile's limit in km/h, or null when alerts are off
+ */
+export function getSpeedAlertConfig(settings: Settings): SpeedAlertConfig | null {
+  if (!settings.speedAlertEnabled) return null;
+
+  const profile =
+    settings.speedLimitProfiles.find((p) => p.id === settings.activeSpeedLimitId) ??
+    settings.speedLimitProfiles[0];
+  if (!profile) return null;
+
+  const toKmh = (value: number) =>
+    settings.unit === "mph" ? mphToKmh(value) : value;
+  return {
+    limit: toKmh(profile.limit),
+    threshold: toKmh(profile.limit + settings.speedAlertTolerance),
+    delay: settings.speedAlertDelay * 1000,
+  };
+}
+
+/**
+ * Check one speed reading against the limit
+ * A null config (alerts turned off) ends any alert in force
+ */
+export function checkSpeedAlert(
+  state: SpeedAlertState,
+  config: SpeedAlertConfig | null,
+  speed: number,
+  timestamp: number
+): SpeedAlertCheck {
+  if (!config || speed <= config.threshold) {
+    return {
+      state: createSpeedAlertState(),
+      started: null,
+      ended: state.isAlerting
+        ? { endTime: timestamp, peakSpeed: state.peakSpeed }
+        : null,
+    };
+  }
+
+  const overSince = state.overSince ?? timestamp;
+  const peakSpeed = Math.max(state.peakSpeed, speed);
+  const starts = !state.isAlerting && timestamp - overSince >= config.delay;
+
+  return {
+    state: { overSince, peakSpeed, isAlerting: state.isAlerting || starts },
+    started: starts
+      ? { startTime: overSince, peakSpeed, speedLimit: config.limit }
+      : null,
+    ended: null,
+  };
+}
+
+/**
+ * End any alert in force, e.g. when the trip pauses or stops
+ */
+export function endSpeedAlert(
+  state: SpeedAlertState,
+  timestamp: number
+): SpeedAlertCheck {
+  return checkSpeedAlert(state, null, 0, timestamp);
+}
+
+/**
+ * Log an alert starting or ending, and warn the user when one starts
+ */
+export async function applySpeedAlertCheck(
+  db: SQLiteDatabase,
+  tripId: number,
+  check: SpeedAlertCheck,
+  settings: Settings
+): Promise<void> {
+  if (check.started) {
+    const { startTime, speedLimit, peakSpeed } = check.started;
+    await startOverspeedEvent(db, tripId, startTime, speedLimit, peakSpeed);
+
+    announceSpeedAlert(settings, peakSpeed, speedLimit);
+    // Haptics and the chime in the app; the notification is only for the
+    // background and lock screen
+    if (AppState.currentState === "active") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(
+        () => undefined
+      );
+      await playSpeedAlertChime();
+    } else {
+      await showSpeedAlertNotification(peakSpeed, speedLimit, settings.unit);
+    }
+  }
+
+  if (check.ended) {
+    await endOverspeedEvent(db, tripId, check.ended.endTime, check.ended.peakSpeed);
+    await hideSpeedAlertNotification();
+  }
+}
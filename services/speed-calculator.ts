@@ -2,8 +2,12 @@
  * Speed and distance calculation utilities
  */
 
-import { CONVERSION } from "@/constants/config";
-import type { LocationPoint } from "@/types";
+import { CONVERSION, DISTANCE_GATE_CONFIG } from "@/constants/config";
+import type {
+  FixRejectionReason,
+  LocationPoint,
+  PauseInterval,
+} from "@/types";
 
 /**
  * Calculate distance between two points using Haversine formula
@@ -31,6 +35,26 @@ export function haversineDistance(
   return R * c;
 }
 
+/**
+ * Initial bearing from one point to another
+ * @returns Degrees clockwise from true north, 0-360
+ */
+export function calculateBearing(
+  point1: { latitude: number; longitude: number },
+  point2: { latitude: number; longitude: number }
+): number {
+  const lat1Rad = toRadians(point1.latitude);
+  const lat2Rad = toRadians(point2.latitude);
+  const deltaLon = toRadians(point2.longitude - point1.longitude);
+
+  const y = Math.sin(deltaLon) * Math.cos(lat2Rad);
+  const x =
+    Math.cos(lat1Rad) * Math.sin(lat2Rad) -
+    Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLon);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
 /**
  * Convert degrees to radians
  */
@@ -40,7 +64,7 @@ function toRadians(degrees: number): number {
 
 // Minimum speed threshold to filter GPS noise (km/h)
 // Speeds below this are considered stationary
-const GPS_NOISE_THRESHOLD_KMH = 1.0;
+export const GPS_NOISE_THRESHOLD_KMH = 1.0;
 
 /**
  * Calculate speed from GPS data or fallback to distance/time
@@ -76,6 +100,73 @@ export function calculateSpeed(
   return speed;
 }
 
+// Result of evaluating the distance between two consecutive fixes
+export interface DistanceStep {
+  distance: number; // meters to add to the trip
+  rejected: Extract<
+    FixRejectionReason,
+    "stale" | "implied_speed" | "implied_acceleration"
+  > | null;
+}
+
+/**
+ * Decide how much distance a new fix adds to the trip
+ *
+ * Steps implying an impossible speed or acceleration are rejected outright.
+ * When the new fix is less accurate than `trustedAccuracy`, the
+ * position-derived distance is blended towards the Doppler-integrated
+ * distance so multipath wander doesn't inflate the total.
+ * @param prev Last accepted fix
+ * @param next New fix (speed in m/s and accuracy as reported by the GPS)
+ * @param prevSpeed Speed at the last accepted fix in km/h
+ */
+export function evaluateDistanceStep(
+  prev: LocationPoint,
+  next: LocationPoint,
+  prevSpeed: number
+): DistanceStep {
+  const timeDiff = (next.timestamp - prev.timestamp) / 1000; // seconds
+  if (timeDiff <= 0) {
+    return { distance: 0, rejected: "stale" };
+  }
+
+  const distance = haversineDistance(prev, next);
+  const impliedSpeed = distance / timeDiff; // m/s
+
+  if (impliedSpeed > DISTANCE_GATE_CONFIG.maxImpliedSpeed) {
+    return { distance: 0, rejected: "implied_speed" };
+  }
+
+  const impliedAcceleration =
+    Math.abs(impliedSpeed - prevSpeed / CONVERSION.MS_TO_KMH) / timeDiff;
+  if (impliedAcceleration > DISTANCE_GATE_CONFIG.maxImpliedAcceleration) {
+    return { distance: 0, rejected: "implied_acceleration" };
+  }
+
+  // Down-weight position-derived distance for poor fixes
+  const dopplerSpeeds = [prev.speed, next.speed].filter(
+    (speed): speed is number => speed !== null && speed >= 0
+  );
+  if (
+    next.accuracy !== null &&
+    next.accuracy > DISTANCE_GATE_CONFIG.trustedAccuracy &&
+    dopplerSpeeds.length > 0
+  ) {
+    const weight = DISTANCE_GATE_CONFIG.trustedAccuracy / next.accuracy;
+    const dopplerSpeed =
+      dopplerSpeeds.reduce((sum, speed) => sum + speed, 0) /
+      dopplerSpeeds.length;
+    const dopplerDistance = dopplerSpeed * timeDiff;
+
+    return {
+      distance: weight * distance + (1 - weight) * dopplerDistance,
+      rejected: null,
+    };
+  }
+
+  return { distance, rejected: null };
+}
+
 /**
  * Convert km/h to mph
  */
@@ -121,36 +212,94 @@ export function calculateAverageSpeed(
 }
 
 /**
- * Calculate total distance from location points
- * @returns Total distance in meters
+ * Total paused time across pause intervals
+ * Open intervals (still paused) count up to `now`
+ * @returns Paused time in seconds
  */
-export function calculateTotalDistance(points: LocationPoint[]): number {
-  if (points.length < 2) return 0;
-
-  let totalDistance = 0;
-  for (let i = 1; i < points.length; i++) {
-    totalDistance += haversineDistance(points[i - 1], points[i]);
+export function calculatePausedTime(
+  intervals: Pick<PauseInterval, "startTime" | "endTime">[],
+  now: number
+): number {
+  let pausedMs = 0;
+  for (const interval of intervals) {
+    const end = interval.endTime ?? now;
+    pausedMs += Math.max(0, end - interval.startTime);
   }
+  return Math.floor(pausedMs / 1000);
+}
 
-  return totalDistance;
+/**
+ * Whether any pause overlaps the gap between two timestamps
+ */
+export function isPausedBetween(
+  intervals: Pick<PauseInterval, "startTime" | "endTime">[],
+  from: number,
+  to: number
+): boolean {
+  return intervals.some(
+    (interval) => interval.startTime < to && (interval.endTime ?? Infinity) > from
+  );
 }
 
 /**
- * Calculate max speed from location points
- * @returns Max speed in km/h
+ * Split time-ordered points into runs, starting a new run after each pause
  */
-export function calculateMaxSpeed(points: LocationPoint[]): number {
-  if (points.length === 0) return 0;
+export function splitAtPauses<T extends { timestamp: number }>(
+  points: T[],
+  intervals: Pick<PauseInterval, "startTime" | "endTime">[]
+): T[][] {
+  const runs: T[][] = [];
+  let run: T[] = [];
 
-  let maxSpeed = 0;
-  for (let i = 0; i < points.length; i++) {
-    const speed = calculateSpeed(points[i], i > 0 ? points[i - 1] : null);
-    if (speed > maxSpeed) {
-      maxSpeed = speed;
+  for (const point of points) {
+    const previous = run[run.length - 1];
+    if (previous && isPausedBetween(intervals, previous.timestamp, point.timestamp)) {
+      runs.push(run);
+      run = [];
     }
+    run.push(point);
   }
 
-  return maxSpeed;
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+// Elapsed vs moving time breakdown for a trip
+export interface TripTiming {
+  elapsedTime: number; // seconds
+  pausedTime: number; // seconds
+  movingTime: number; // seconds
+  avgSpeed: number; // km/h over elapsed time
+  movingAvgSpeed: number; // km/h over moving time
+}
+
+/**
+ * Split a trip's wall-clock time into moving and paused time
+ * @param startTime Trip start (ms)
+ * @param endTime Trip end, or now for a trip in progress (ms)
+ * @param intervals Pause intervals of the trip
+ * @param distance Distance in meters
+ */
+export function calculateTripTiming(
+  startTime: number,
+  endTime: number,
+  intervals: Pick<PauseInterval, "startTime" | "endTime">[],
+  distance: number
+): TripTiming {
+  const elapsedTime = Math.max(0, Math.floor((endTime - startTime) / 1000));
+  const pausedTime = Math.min(
+    calculatePausedTime(intervals, endTime),
+    elapsedTime
+  );
+  const movingTime = elapsedTime - pausedTime;
+
+  return {
+    elapsedTime,
+    pausedTime,
+    movingTime,
+    avgSpeed: calculateAverageSpeed(distance, elapsedTime),
+    movingAvgSpeed: calculateAverageSpeed(distance, movingTime),
+  };
 }
 
 /**
@@ -0,0 +1,276 @@
+/**
+ * Auto splits and laps rebuilt from stored location points
+ *
+ * Auto splits cut a trip every kilometer or mile, following the unit
+ * setting when the trip was recorded; the length is stored with the trip so
+ * a later unit change never recuts it. Laps cut it wherever the lap button
+ * was pressed. Both are measured on the same processed fixes as the trip
+ * stats, with distance and altitude interpolated at each cut. Lap rows double as the record of
+ * lap presses, so a rebuild keeps them. While a trip is active only
+ * finished splits are stored; the last, partial one is added once it ends.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import { SPLIT_CONFIG } from "@/constants/config";
+import {
+  getLapTimesForTrip,
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  getTripById,
+  replaceTripSplits,
+  setTripSplitDistance,
+} from "@/database";
+import { useSettingsStore } from "@/stores/settings-store";
+import type {
+  LocationPoint,
+  PauseInterval,
+  SpeedUnit,
+  SplitKind,
+  TripSplit,
+} from "@/types";
+import { calculateAverageSpeed, calculatePausedTime } from "./speed-calculator";
+import { createTrackProcessorState, processFix } from "./track-processor";
+
+type Pause = Pick<PauseInterval, "startTime" | "endTime">;
+export type ComputedSplit = Omit<TripSplit, "id" | "tripId">;
+
+// An accepted fix with the trip distance up to it
+interface SplitSample {
+  timestamp: number;
+  distance: number; // cumulative meters
+  speed: number; // km/h, filtered
+  altitude: number | null;
+}
+
+export interface SplitOptions {
+  startTime: number;
+  endTime: number;
+  splitDistance: number; // meters between auto splits
+  lapTimes: number[]; // lap button presses
+  isComplete: boolean; // include the partial split running up to endTime
+}
+
+/**
+ * Auto splits and laps of a trip from its points and pauses
+ */
+export function computeSplits(
+  points: LocationPoint[],
+  pauseIntervals: Pause[],
+  options: SplitOptions
+): ComputedSplit[] {
+  const { startTime, endTime, isComplete } = options;
+  const samples = buildSplitSamples(points);
+  const total = samples[samples.length - 1]?.distance ?? 0;
+
+  // Auto splits end where the distance passes each km or mile
+  const length = options.splitDistance;
+  const autoMarks: number[] = [];
+  for (let target = length; target <= total; target += length) {
+    autoMarks.push(timeAtDistance(samples, target));
+  }
+  if (isComplete && total > autoMarks.length * length) {
+    autoMarks.push(endTime);
+  }
+
+  // Laps only exist once the button has been pressed
+  const lapMarks = [...new Set(options.lapTimes)]
+    .filter((time) => time > startTime && time <= endTime)
+    .sort((a, b) => a - b);
+  if (
+    isComplete &&
+    lapMarks.length > 0 &&
+    lapMarks[lapMarks.length - 1] < endTime
+  ) {
+    lapMarks.push(endTime);
+  }
+
+  return [
+    ...measureSplits("auto", autoMarks, samples, pauseIntervals, startTime),
+    ...measureSplits("lap", lapMarks, samples, pauseIntervals, startTime),
+  ];
+}
+
+/**
+ * Auto split length for the unit setting, for trips that have none yet
+ */
+export function getSplitDistance(unit: SpeedUnit = useSettingsStore.getState().unit): number {
+  return SPLIT_CONFIG.distance[unit];
+}
+
+/**
+ * Recompute a trip's splits and laps from SQLite and store them
+ * Auto splits keep the trip's stored length, fixed on its first rebuild.
+ * `lapTimes` replaces the stored lap presses, e.g. with a new press added.
+ * `endTime` defaults to the trip's end, or its last point while active.
+ */
+export async function rebuildTripSplits(
+  db: SQLiteDatabase,
+  tripId: number,
+  lapTimes?: number[],
+  endTime?: number
+): Promise<ComputedSplit[]> {
+  const trip = await getTripById(db, tripId);
+  if (!trip) return [];
+
+  const points = await getLocationPointsForTrip(db, tripId);
+  const pauseIntervals = await getPauseIntervalsForTrip(db, tripId);
+  const end =
+    endTime ??
+    trip.endTime ??
+    points[points.length - 1]?.timestamp ??
+    trip.startTime;
+
+  const splitDistance = trip.splitDistance ?? getSplitDistance();
+  if (trip.splitDistance === null) {
+    await setTripSplitDistance(db, tripId, splitDistance);
+  }
+
+  const splits = computeSplits(points, pauseIntervals, {
+    startTime: trip.startTime,
+    endTime: end,
+    splitDistance,
+    lapTimes: lapTimes ?? (await getLapTimesForTrip(db, tripId)),
+    isComplete: trip.endTime !== null,
+  });
+  await replaceTripSplits(db, tripId, splits);
+  return splits;
+}
+
+/**
+ * Press the lap button: end the current lap at `time` and store it
+ * Points must be flushed first. Returns the lap just ended.
+ */
+export async function addLap(
+  db: SQLiteDatabase,
+  tripId: number,
+  time: number
+): Promise<ComputedSplit | null> {
+  let lap: ComputedSplit | null = null;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const lapTimes = await getLapTimesForTrip(txn, tripId);
+    const splits = await rebuildTripSplits(txn, tripId, [...lapTimes, time], time);
+    lap = splits.filter((split) => split.kind === "lap").pop() ?? null;
+  });
+
+  return lap;
+}
+
+// ============ Measuring ============
+
+/**
+ * Accepted fixes with cumulative distance, as the trip stats count it
+ */
+function buildSplitSamples(points: LocationPoint[]): SplitSample[] {
+  const samples: SplitSample[] = [];
+  let processor = createTrackProcessorState();
+  let distance = 0;
+
+  for (const point of points) {
+    const fix = processFix(processor, point);
+    processor = fix.state;
+    if (fix.rejected) continue;
+
+    distance += fix.distance;
+    samples.push({
+      timestamp: point.timestamp,
+      distance,
+      speed: fix.speed,
+      altitude: point.altitude,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * One split per mark, each running from the previous mark
+ */
+function measureSplits(
+  kind: SplitKind,
+  marks: number[],
+  samples: SplitSample[],
+  pauseIntervals: Pause[],
+  startTime: number
+): ComputedSplit[] {
+  const altitudes = samples.filter((sample) => sample.altitude !== null);
+
+  return marks.map((end, index) => {
+    const start = index === 0 ? startTime : marks[index - 1];
+    const distance =
+      interpolateAt(samples, end, (s) => s.distance) -
+      interpolateAt(samples, start, (s) => s.distance);
+    const movingTime = Math.max(
+      (end - start) / 1000 - pausedWithin(pauseIntervals, start, end),
+      0
+    );
+    const avgSpeed = calculateAverageSpeed(distance, movingTime);
+    const maxSpeed = samples
+      .filter((s) => s.timestamp > start && s.timestamp <= end)
+      .reduce((max, s) => Math.max(max, s.speed), 0);
+
+    return {
+      kind,
+      splitIndex: index + 1,
+      startTime: start,
+      endTime: end,
+      distance,
+      movingTime: Math.round(movingTime),
+      avgSpeed,
+      maxSpeed,
+      elevationChange:
+        altitudes.length > 0
+          ? interpolateAt(altitudes, end, (s) => s.altitude!) -
+            interpolateAt(altitudes, start, (s) => s.altitude!)
+          : null,
+    };
+  });
+}
+
+/**
+ * When the cumulative distance reached `target`, between the fixes around it
+ */
+function timeAtDistance(samples: SplitSample[], target: number): number {
+  const index = samples.findIndex((sample) => sample.distance >= target);
+  const after = samples[index];
+  const before = samples[index - 1];
+  if (!before || after.distance === before.distance) return after.timestamp;
+
+  const ratio = (target - before.distance) / (after.distance - before.distance);
+  return Math.round(before.timestamp + (after.timestamp - before.timestamp) * ratio);
+}
+
+/**
+ * A sample value at `time`, linear between the samples around it and held
+ * flat before the first and after the last
+ */
+function interpolateAt(
+  samples: SplitSample[],
+  time: number,
+  getValue: (sample: SplitSample) => number
+): number {
+  if (samples.length === 0) return 0;
+
+  const index = samples.findIndex((sample) => sample.timestamp >= time);
+  if (index === -1) return getValue(samples[samples.length - 1]);
+  if (index === 0) return getValue(samples[0]);
+
+  const before = samples[index - 1];
+  const after = samples[index];
+  const ratio = (time - before.timestamp) / (after.timestamp - before.timestamp);
+  return getValue(before) + (getValue(after) - getValue(before)) * ratio;
+}
+
+/**
+ * Seconds of `from`..`to` spent paused
+ */
+function pausedWithin(pauseIntervals: Pause[], from: number, to: number): number {
+  const clipped = pauseIntervals
+    .map((pause) => ({
+      startTime: Math.max(pause.startTime, from),
+      endTime: Math.min(pause.endTime ?? to, to),
+    }))
+    .filter((pause) => pause.endTime > pause.startTime);
+  return calculatePausedTime(clipped, to);
+}
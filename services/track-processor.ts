@@ -0,0 +1,148 @@
+/**
+ * Per-fix trip calculation shared by live tracking, replay and charts
+ *
+ * A fix goes through the Kalman filter, then the distance gate against the
+ * previous accepted fix. Everything here is pure: callers own the state and
+ * pass it back in, so recorded points replay exactly as they were tracked.
+ */
+
+import { CONVERSION } from "@/constants/config";
+import type { FixRejectionReason, LocationPoint } from "@/types";
+import { filterLocation, type LocationFilterState } from "./location-filter";
+import { evaluateDistanceStep } from "./speed-calculator";
+
+// State carried between fixes
+export interface TrackProcessorState {
+  filter: LocationFilterState | null;
+  lastLocation: LocationPoint | null; // last accepted fix, filtered position
+  lastSpeed: number; // km/h at the last accepted fix
+}
+
+// Outcome of processing one fix
+export interface ProcessedFix {
+  state: TrackProcessorState;
+  rejected: FixRejectionReason | null;
+  point: LocationPoint; // filtered position; the raw fix when rejected
+  speed: number; // km/h, 0 when rejected
+  distance: number; // meters to add to the trip
+}
+
+/**
+ * Fresh state for a new or restored trip
+ */
+export function createTrackProcessorState(): TrackProcessorState {
+  return { filter: null, lastLocation: null, lastSpeed: 0 };
+}
+
+/**
+ * State for continuing a trip from its last stored fix
+ * The filter restarts, but distance picks up from the stored position
+ */
+export function resumeTrackProcessorState(
+  lastPoint: LocationPoint | null
+): TrackProcessorState {
+  if (!lastPoint) return createTrackProcessorState();
+
+  return {
+    filter: null,
+    lastLocation: lastPoint,
+    lastSpeed: Math.max(lastPoint.speed ?? 0, 0) * CONVERSION.MS_TO_KMH,
+  };
+}
+
+/**
+ * Run one fix through the filter and distance gate
+ */
+export function processFix(
+  state: TrackProcessorState,
+  point: LocationPoint
+): ProcessedFix {
+  const { state: filter, location: filtered } = filterLocation(
+    state.filter,
+    point
+  );
+
+  if (filtered.rejected) {
+    return {
+      state: { ...state, filter },
+      rejected: filtered.rejected,
+      point,
+      speed: 0,
+      distance: 0,
+    };
+  }
+
+  const speed = filtered.speed;
+  const filteredPoint: LocationPoint = {
+    ...point,
+    latitude: filtered.latitude,
+    longitude: filtered.longitude,
+  };
+
+  // Only count distance while actually moving (speed > 0 after noise filter)
+  let distance = 0;
+  if (state.lastLocation && speed > 0) {
+    const step = evaluateDistanceStep(
+      state.lastLocation,
+      filteredPoint,
+      state.lastSpeed
+    );
+    // The filter has already taken the fix in; drop it so the jump doesn't
+    // pull the next estimate
+    if (step.rejected) {
+      return {
+        state,
+        rejected: step.rejected,
+        point,
+        speed: 0,
+        distance: 0,
+      };
+    }
+    distance = step.distance;
+  }
+
+  return {
+    state: { filter, lastLocation: filteredPoint, lastSpeed: speed },
+    rejected: null,
+    point: filteredPoint,
+    speed,
+    distance,
+  };
+}
+
+// Distance and peak speed of a whole recorded track
+export interface TrackSummary {
+  totalDistance: number; // meters
+  maxSpeed: number; // km/h
+  acceptedCount: number;
+  rejectedCount: number;
+}
+
+/**
+ * Run a whole track through the processor and total it up
+ */
+export function summarizeTrack(points: LocationPoint[]): TrackSummary {
+  let state = createTrackProcessorState();
+  const summary: TrackSummary = {
+    totalDistance: 0,
+    maxSpeed: 0,
+    acceptedCount: 0,
+    rejectedCount: 0,
+  };
+
+  for (const point of points) {
+    const fix = processFix(state, point);
+    state = fix.state;
+
+    if (fix.rejected) {
+      summary.rejectedCount++;
+      continue;
+    }
+
+    summary.acceptedCount++;
+    summary.totalDistance += fix.distance;
+    summary.maxSpeed = Math.max(summary.maxSpeed, fix.speed);
+  }
+
+  return summary;
+}
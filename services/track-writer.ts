@@ -0,0 +1,354 @@
+/**
+ * Write-behind buffer for points recorded while tracking
+ *
+ * Fixes are queued in memory and committed together in one transaction
+ * every `batchSize` writes or `flushInterval` ms, whichever comes first.
+ * Every queued write is also appended to a small journal file, which is
+ * rewritten to hold only the uncommitted writes after each commit. After a
+ * crash, the journal is replayed once on the next launch; writes that had
+ * already been committed are skipped. Journal lines carry the id of the
+ * process that wrote them, so replay never repeats writes this process
+ * still holds in memory. Lines that can't be read or replayed (torn by the
+ * crash, or for a trip since deleted) are moved to a quarantine file
+ * rather than holding up the writes behind them.
+ */
+
+import { File, Paths } from "expo-file-system";
+
+import { TRACK_WRITE_CONFIG } from "@/constants/config";
+import {
+  addLocationPoint,
+  addRejectedPoint,
+  hasLocationPoint,
+  hasRejectedPoint,
+  initDatabase,
+  updateTripStats,
+  type TripStatsUpdate,
+} from "@/database";
+import type { LocationPoint, RejectedLocationPoint } from "@/types";
+
+// One queued write, as held in memory and in the journal
+type PendingWrite =
+  | {
+      kind: "point";
+      point: Omit<LocationPoint, "id">;
+      stats: TripStatsUpdate; // trip stats including this point
+    }
+  | { kind: "rejected"; point: Omit<RejectedLocationPoint, "id"> };
+
+// A journal line: the write and the process that queued it
+type JournalEntry = PendingWrite & { session: number };
+
+const SESSION_ID = Date.now();
+
+let pending: PendingWrite[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Flushes run one after another
+let flushQueue: Promise<void> = Promise.resolve();
+// Journal replay runs once per process
+let recovery: Promise<number> | null = null;
+
+const encoder = new TextEncoder();
+
+/**
+ * Queue an accepted fix along with the trip stats it produced
+ */
+export function queueLocationPoint(
+  point: Omit<LocationPoint, "id">,
+  stats: TripStatsUpdate
+): void {
+  enqueue({ kind: "point", point, stats });
+}
+
+/**
+ * Queue a rejected fix for the audit table
+ */
+export function queueRejectedPoint(
+  point: Omit<RejectedLocationPoint, "id">
+): void {
+  enqueue({ kind: "rejected", point });
+}
+
+/**
+ * Commit everything queued so far in a single transaction
+ * Resolves once every write queued before the call is in SQLite
+ */
+export function flushTrackWrites(): Promise<void> {
+  const run = flushQueue.then(commitPending);
+  flushQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Replay writes left in the journal by a crash
+ * Only the first call in a process reads the journal; later calls share
+ * its result. Returns the number of writes recovered.
+ */
+export function recoverTrackWrites(): Promise<number> {
+  if (!recovery) {
+    recovery = replayJournal().catch((error) => {
+      // Allow the next caller to retry
+      recovery = null;
+      throw error;
+    });
+  }
+  return recovery;
+}
+
+/**
+ * Add a write to the queue and journal, flushing when the batch is full
+ */
+function enqueue(write: PendingWrite): void {
+  pending.push(write);
+  appendToJournal(write);
+
+  if (pending.length >= TRACK_WRITE_CONFIG.batchSize) {
+    flushInBackground();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushInBackground, TRACK_WRITE_CONFIG.flushInterval);
+  }
+}
+
+/**
+ * Flush without waiting; writes stay queued and journaled on failure
+ */
+function flushInBackground(): void {
+  flushTrackWrites().catch((error) => {
+    console.error("Error flushing track writes:", error);
+  });
+}
+
+/**
+ * Write the queued batch and trim the journal to what is still queued
+ */
+async function commitPending(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  // Trimming the journal before replay would lose a crashed session's
+  // writes; a replay that fails has already set them aside
+  try {
+    await recoverTrackWrites();
+  } catch (error) {
+    console.error("Error replaying track journal:", error);
+  }
+  if (pending.length === 0) return;
+
+  const batch = pending;
+  pending = [];
+
+  try {
+    const db = await initDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const write of batch) {
+        if (write.kind === "point") {
+          await addLocationPoint(txn, write.point);
+        } else {
+          await addRejectedPoint(txn, write.point);
+        }
+      }
+
+      for (const [tripId, stats] of latestStatsByTrip(batch)) {
+        await updateTripStats(txn, tripId, stats);
+      }
+    });
+  } catch (error) {
+    // Put the batch back ahead of anything queued meanwhile; the journal
+    // still holds all of it
+    pending = [...batch, ...pending];
+    throw error;
+  }
+
+  rewriteJournal(pending);
+}
+
+/**
+ * Insert journaled writes that never reached SQLite
+ * A write that fails is quarantined and the rest still go in; if the
+ * replay can't run at all, every write is quarantined.
+ */
+async function replayJournal(): Promise<number> {
+  const { entries, unreadable } = readJournal();
+  const writes = entries.filter((entry) => entry.session !== SESSION_ID);
+  quarantine(unreadable);
+  if (writes.length === 0) {
+    if (unreadable.length > 0) rewriteJournal(pending);
+    return 0;
+  }
+
+  let recovered = 0;
+  const failed: JournalEntry[] = [];
+
+  try {
+    const db = await initDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const write of writes) {
+        try {
+          // A crash between commit and journal trim leaves committed writes
+          if (write.kind === "point") {
+            if (await hasLocationPoint(txn, write.point)) continue;
+            await addLocationPoint(txn, write.point);
+          } else {
+            if (await hasRejectedPoint(txn, write.point)) continue;
+            await addRejectedPoint(txn, write.point);
+          }
+          recovered++;
+        } catch (error) {
+          console.error("Error replaying track journal entry:", error);
+          failed.push(write);
+        }
+      }
+
+      for (const [tripId, stats] of latestStatsByTrip(writes)) {
+        await updateTripStats(txn, tripId, stats);
+      }
+    });
+  } catch (error) {
+    quarantine(writes.map(formatJournalEntry));
+    rewriteJournal(pending);
+    throw error;
+  }
+
+  quarantine(failed.map(formatJournalEntry));
+  // Writes queued by this process since launch are still journaled
+  rewriteJournal(pending);
+  console.log("Recovered track writes from journal:", recovered);
+  return recovered;
+}
+
+/**
+ * Most recent stats per trip in a batch
+ */
+function latestStatsByTrip(writes: PendingWrite[]): Map<number, TripStatsUpdate> {
+  const stats = new Map<number, TripStatsUpdate>();
+  for (const write of writes) {
+    if (write.kind === "point") {
+      stats.set(write.point.tripId, write.stats);
+    }
+  }
+  return stats;
+}
+
+// ============ JOURNAL ============
+
+/**
+ * Journal location; the document directory survives cache clearing
+ */
+function getJournalFile(): File {
+  return new File(Paths.document, TRACK_WRITE_CONFIG.journalName);
+}
+
+/**
+ * Append text to the end of a file, creating it if needed
+ */
+function appendToFile(file: File, text: string): void {
+  if (!file.exists) file.create();
+
+  const handle = file.open();
+  try {
+    handle.offset = handle.size;
+    handle.writeBytes(encoder.encode(text));
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * Append one write as a JSON line
+ */
+function appendToJournal(write: PendingWrite): void {
+  try {
+    appendToFile(getJournalFile(), formatJournalLine(write));
+  } catch (error) {
+    console.error("Error writing track journal:", error);
+  }
+}
+
+/**
+ * Set journal lines aside in the quarantine file
+ */
+function quarantine(lines: string[]): void {
+  if (lines.length === 0) return;
+  console.warn("Quarantining track journal entries:", lines.length);
+  try {
+    appendToFile(
+      new File(Paths.document, TRACK_WRITE_CONFIG.quarantineName),
+      lines.map((line) => `${line}\n`).join("")
+    );
+  } catch (error) {
+    console.error("Error writing track journal quarantine:", error);
+  }
+}
+
+/**
+ * Replace the journal with the given writes
+ */
+function rewriteJournal(writes: PendingWrite[]): void {
+  try {
+    const journal = getJournalFile();
+    if (writes.length === 0) {
+      if (journal.exists) journal.delete();
+      return;
+    }
+    journal.write(writes.map(formatJournalLine).join(""));
+  } catch (error) {
+    console.error("Error writing track journal:", error);
+  }
+}
+
+/**
+ * One journal line, tagged with this process
+ */
+function formatJournalLine(write: PendingWrite): string {
+  return `${formatJournalEntry({ ...write, session: SESSION_ID })}\n`;
+}
+
+function formatJournalEntry(entry: JournalEntry): string {
+  return JSON.stringify(entry);
+}
+
+/**
+ * Whether a parsed line has what replay needs
+ */
+function isJournalEntry(value: unknown): value is JournalEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const { kind, point, session } = value as Partial<JournalEntry>;
+  return (
+    (kind === "point" || kind === "rejected") &&
+    typeof session === "number" &&
+    typeof point === "object" &&
+    point !== null &&
+    typeof point.tripId === "number" &&
+    typeof point.latitude === "number" &&
+    typeof point.longitude === "number" &&
+    typeof point.timestamp === "number"
+  );
+}
+
+/**
+ * Parse the journal, keeping lines that can't be read (torn by the crash
+ * or malformed) apart
+ */
+function readJournal(): { entries: JournalEntry[]; unreadable: string[] } {
+  const entries: JournalEntry[] = [];
+  const unreadable: string[] = [];
+  const journal = getJournalFile();
+  if (!journal.exists) return { entries, unreadable };
+
+  for (const line of journal.textSync().split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry: unknown = JSON.parse(line);
+      if (isJournalEntry(entry)) {
+        entries.push(entry);
+        continue;
+      }
+    } catch {
+      // Falls through to unreadable
+    }
+    unreadable.push(line);
+  }
+  return { entries, unreadable };
+}
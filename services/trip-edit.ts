@@ -0,0 +1,406 @@
+/**
+ * Trip editing: trim, split and merge completed trips
+ *
+ * Edits are previewed from the loaded points first and only written once
+ * the user confirms, so the stored trip stays untouched until then. Every
+ * write rebuilds stats from the stored points, and previews run the same
+ * calculation, so the confirmed result matches what was shown.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import {
+  addPauseInterval,
+  completeTrip,
+  createTrip,
+  deleteTrip,
+  getAllTrips,
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  getTripById,
+  moveTripDataFrom,
+  trimTripData,
+  updateTripDetails,
+  updateTripTimes,
+} from "@/database";
+import type { LocationPoint, PauseInterval, Trip } from "@/types";
+import { rebuildTripSplits } from "./splits";
+import { createTrackProcessorState, processFix } from "./track-processor";
+import {
+  computeTripStats,
+  rebuildTripStats,
+  type ComputedTripStats,
+} from "./trip-stats";
+
+// Slider axis for picking a point
+export type EditAxis = "time" | "distance";
+
+// Where a stored point falls along the trip
+export interface TripTimelinePoint {
+  timestamp: number;
+  distance: number; // meters from the trip start
+}
+
+// What a trip would look like after an edit
+export interface TripEditPreview {
+  startTime: number;
+  endTime: number;
+  pointCount: number;
+  stats: ComputedTripStats;
+}
+
+type PauseRange = Pick<PauseInterval, "startTime" | "endTime">;
+
+// ============ PREVIEW ============
+
+/**
+ * Time and running distance at every point
+ */
+export function buildTripTimeline(points: LocationPoint[]): TripTimelinePoint[] {
+  let state = createTrackProcessorState();
+  let distance = 0;
+
+  return points.map((point) => {
+    const fix = processFix(state, point);
+    state = fix.state;
+    distance += fix.distance;
+    return { timestamp: point.timestamp, distance };
+  });
+}
+
+/**
+ * First point at or past `fraction` (0-1) of the trip along an axis
+ */
+export function findTimelineIndex(
+  timeline: TripTimelinePoint[],
+  axis: EditAxis,
+  fraction: number
+): number {
+  if (timeline.length === 0) return 0;
+  // The far end keeps a stopped tail, which distance alone can't reach
+  if (fraction >= 1) return timeline.length - 1;
+
+  const valueAt = (index: number) =>
+    axis === "time" ? timeline[index].timestamp : timeline[index].distance;
+  const first = valueAt(0);
+  const target = first + (valueAt(timeline.length - 1) - first) * fraction;
+
+  // Both axes only grow along the trip
+  let low = 0;
+  let high = timeline.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (valueAt(mid) < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Trip bounds after keeping points `startIndex`..`endIndex`
+ * Untouched ends keep the trip's own start and end times
+ */
+export function getTrimRange(
+  trip: Trip,
+  points: LocationPoint[],
+  startIndex: number,
+  endIndex: number
+): { startTime: number; endTime: number } {
+  const lastIndex = points.length - 1;
+  return {
+    startTime: startIndex <= 0 ? trip.startTime : points[startIndex].timestamp,
+    endTime:
+      endIndex >= lastIndex
+        ? (trip.endTime ?? points[lastIndex].timestamp)
+        : points[endIndex].timestamp,
+  };
+}
+
+/**
+ * Stats for the part of a trip between two times
+ */
+export function previewTripRange(
+  points: LocationPoint[],
+  pauseIntervals: PauseRange[],
+  startTime: number,
+  endTime: number
+): TripEditPreview {
+  const kept = points.filter(
+    (point) => point.timestamp >= startTime && point.timestamp <= endTime
+  );
+  const pauses = clipPauses(pauseIntervals, startTime, endTime);
+
+  return {
+    startTime,
+    endTime,
+    pointCount: kept.length,
+    stats: computeTripStats(kept, pauses, startTime, endTime),
+  };
+}
+
+/**
+ * The two trips a split would produce
+ * The second trip starts at point `index`; the first ends at the point before
+ */
+export function previewSplit(
+  trip: Trip,
+  points: LocationPoint[],
+  pauseIntervals: PauseRange[],
+  index: number
+): [TripEditPreview, TripEditPreview] {
+  const splitTime = points[index].timestamp;
+  const endTime = trip.endTime ?? points[points.length - 1].timestamp;
+
+  return [
+    previewTripRange(
+      points,
+      pauseIntervals,
+      trip.startTime,
+      getPartOneEnd(trip, points, splitTime)
+    ),
+    previewTripRange(points, pauseIntervals, splitTime, endTime),
+  ];
+}
+
+/**
+ * The trip a merge would produce, without writing anything
+ */
+export async function previewMerge(
+  db: SQLiteDatabase,
+  tripIds: number[]
+): Promise<TripEditPreview> {
+  const trips = await loadMergeTrips(db, tripIds);
+  const points: LocationPoint[] = [];
+  const pauses: PauseRange[] = getMergeGaps(trips);
+
+  for (const trip of trips) {
+    points.push(...(await getLocationPointsForTrip(db, trip.id)));
+    pauses.push(...(await getPauseIntervalsForTrip(db, trip.id)));
+  }
+  pauses.sort((a, b) => a.startTime - b.startTime);
+
+  const startTime = trips[0].startTime;
+  const endTime = trips[trips.length - 1].endTime ?? startTime;
+  return {
+    startTime,
+    endTime,
+    pointCount: points.length,
+    stats: computeTripStats(points, pauses, startTime, endTime),
+  };
+}
+
+// ============ APPLY ============
+
+/**
+ * Delete everything outside `startTime`..`endTime` and rebuild stats
+ */
+export async function trimTrip(
+  db: SQLiteDatabase,
+  tripId: number,
+  startTime: number,
+  endTime: number
+): Promise<void> {
+  await getEditableTrip(db, tripId);
+  if (endTime <= startTime) {
+    throw new Error("Trimmed trip would be empty");
+  }
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await trimTripData(txn, tripId, startTime, endTime);
+    await updateTripTimes(txn, tripId, startTime, endTime);
+    await rebuildTripStats(txn, tripId);
+    await rebuildTripSplits(txn, tripId);
+  });
+}
+
+/**
+ * Move everything from `splitTime` on into a new trip
+ * The original ends at its last point before the split. Returns the new ID.
+ */
+export async function splitTrip(
+  db: SQLiteDatabase,
+  tripId: number,
+  splitTime: number
+): Promise<number> {
+  const trip = await getEditableTrip(db, tripId);
+  const endTime = trip.endTime ?? splitTime;
+  if (splitTime <= trip.startTime || splitTime >= endTime) {
+    throw new Error("Split point must be inside the trip");
+  }
+
+  const points = await getLocationPointsForTrip(db, tripId);
+  const pauseIntervals = await getPauseIntervalsForTrip(db, tripId);
+  const partOneEnd = getPartOneEnd(trip, points, splitTime);
+  let newTripId = 0;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    newTripId = await createTrip(txn, splitTime, trip.activityType, trip.splitDistance);
+    await updateTripDetails(txn, newTripId, { tags: trip.tags });
+    await moveTripDataFrom(txn, tripId, newTripId, splitTime);
+
+    // A pause running across the split continues in the new trip
+    for (const pause of pauseIntervals) {
+      if (pause.startTime < splitTime && (pause.endTime ?? endTime) > splitTime) {
+        await addPauseInterval(txn, {
+          tripId: newTripId,
+          startTime: splitTime,
+          endTime: pause.endTime ?? endTime,
+          reason: pause.reason,
+        });
+      }
+    }
+
+    await trimTripData(txn, tripId, trip.startTime, partOneEnd);
+    await updateTripTimes(txn, tripId, trip.startTime, partOneEnd);
+    await rebuildTripStats(txn, tripId);
+    await rebuildTripSplits(txn, tripId);
+
+    await completeTrip(txn, newTripId, endTime);
+    await rebuildTripStats(txn, newTripId);
+    await rebuildTripSplits(txn, newTripId);
+  });
+
+  return newTripId;
+}
+
+/**
+ * Merge adjacent trips into the earliest one
+ * Time between the trips becomes a pause and tags are combined. Returns
+ * the merged trip's ID.
+ */
+export async function mergeTrips(
+  db: SQLiteDatabase,
+  tripIds: number[]
+): Promise<number> {
+  const trips = await loadMergeTrips(db, tripIds);
+  const [first] = trips;
+  const last = trips[trips.length - 1];
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const gap of getMergeGaps(trips)) {
+      await addPauseInterval(txn, { tripId: first.id, ...gap, reason: "gap" });
+    }
+    for (const trip of trips.slice(1)) {
+      await moveTripDataFrom(txn, trip.id, first.id, 0);
+      await deleteTrip(txn, trip.id);
+    }
+
+    await updateTripDetails(txn, first.id, {
+      tags: [...new Set(trips.flatMap((trip) => trip.tags))],
+    });
+    await updateTripTimes(
+      txn,
+      first.id,
+      first.startTime,
+      last.endTime ?? first.startTime
+    );
+    await rebuildTripStats(txn, first.id);
+    await rebuildTripSplits(txn, first.id);
+  });
+
+  return first.id;
+}
+
+// ============ HELPERS ============
+
+/**
+ * A trip that can be edited; active trips belong to live tracking
+ */
+async function getEditableTrip(db: SQLiteDatabase, tripId: number): Promise<Trip> {
+  const trip = await getTripById(db, tripId);
+  if (!trip) {
+    throw new Error("Trip not found");
+  }
+  if (trip.status !== "completed") {
+    throw new Error("Only completed trips can be edited");
+  }
+  return trip;
+}
+
+/**
+ * Completed, non-overlapping trips with no other trip between them,
+ * oldest first
+ */
+async function loadMergeTrips(
+  db: SQLiteDatabase,
+  tripIds: number[]
+): Promise<Trip[]> {
+  if (tripIds.length < 2) {
+    throw new Error("Select at least two trips to merge");
+  }
+
+  const allTrips = [...(await getAllTrips(db))].reverse();
+  const indexes = tripIds
+    .map((tripId) => allTrips.findIndex((trip) => trip.id === tripId))
+    .sort((a, b) => a - b);
+  if (indexes.includes(-1)) {
+    throw new Error("Trip not found");
+  }
+  if (indexes[indexes.length - 1] - indexes[0] !== indexes.length - 1) {
+    throw new Error("Only adjacent trips can be merged");
+  }
+
+  const trips = indexes.map((index) => allTrips[index]);
+  for (const [i, trip] of trips.entries()) {
+    if (trip.status !== "completed") {
+      throw new Error("Only completed trips can be merged");
+    }
+    const previous = trips[i - 1];
+    if (previous && (previous.endTime ?? previous.startTime) > trip.startTime) {
+      throw new Error("Overlapping trips can't be merged");
+    }
+  }
+  return trips;
+}
+
+/**
+ * Time between consecutive trips, oldest first
+ */
+function getMergeGaps(trips: Trip[]): { startTime: number; endTime: number }[] {
+  const gaps: { startTime: number; endTime: number }[] = [];
+  for (let i = 1; i < trips.length; i++) {
+    const startTime = trips[i - 1].endTime ?? trips[i - 1].startTime;
+    const endTime = trips[i].startTime;
+    if (endTime > startTime) gaps.push({ startTime, endTime });
+  }
+  return gaps;
+}
+
+/**
+ * Where the first part of a split ends: its last point before the split
+ */
+function getPartOneEnd(
+  trip: Trip,
+  points: LocationPoint[],
+  splitTime: number
+): number {
+  let end = trip.startTime;
+  for (const point of points) {
+    if (point.timestamp >= splitTime) break;
+    end = point.timestamp;
+  }
+  return end;
+}
+
+/**
+ * Pauses cut to a time range, as trimming stores them
+ */
+function clipPauses(
+  pauseIntervals: PauseRange[],
+  startTime: number,
+  endTime: number
+): PauseRange[] {
+  return pauseIntervals
+    .filter(
+      (pause) =>
+        pause.startTime < endTime &&
+        (pause.endTime === null || pause.endTime > startTime)
+    )
+    .map((pause) => ({
+      startTime: Math.max(pause.startTime, startTime),
+      endTime: Math.min(pause.endTime ?? endTime, endTime),
+    }));
+}
@@ -0,0 +1,214 @@
+/**
+ * Recompute stored trips with the current filtering rules
+ *
+ * Stored stats are whatever tracking (or an import) wrote at the time. After
+ * the filter or distance gate changes, recomputing runs each trip's stored
+ * points through today's track processor, saves the new stats and reports
+ * what moved. Active trips are left to live tracking. A recompute that
+ * would zero the distance of a track whose points clearly moved is refused
+ * and the stored stats kept.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import { RECOMPUTE_CONFIG } from "@/constants/config";
+import {
+  getAllTrips,
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  getTripById,
+  updateTripStats,
+} from "@/database";
+import type { LocationPoint, Trip } from "@/types";
+import { formatDuration, haversineDistance, metersToKm } from "./speed-calculator";
+import { rebuildTripSplits } from "./splits";
+import { computeTripStats } from "./trip-stats";
+
+// Stored trip stats that recompute can change
+export type RecomputedStat =
+  | "totalDistance"
+  | "maxSpeed"
+  | "avgSpeed"
+  | "movingAvgSpeed"
+  | "movingTime"
+  | "pausedTime";
+
+// One stat that changed
+export interface StatChange {
+  stat: RecomputedStat;
+  before: number;
+  after: number;
+}
+
+export interface TripRecomputeResult {
+  tripId: number;
+  changes: StatChange[];
+}
+
+export interface RecomputeSummary {
+  results: TripRecomputeResult[]; // every trip recomputed, changed or not
+  errors: string[];
+}
+
+const STAT_TOLERANCES: Record<RecomputedStat, number> = {
+  totalDistance: RECOMPUTE_CONFIG.distanceTolerance,
+  maxSpeed: RECOMPUTE_CONFIG.speedTolerance,
+  avgSpeed: RECOMPUTE_CONFIG.speedTolerance,
+  movingAvgSpeed: RECOMPUTE_CONFIG.speedTolerance,
+  movingTime: RECOMPUTE_CONFIG.timeTolerance,
+  pausedTime: RECOMPUTE_CONFIG.timeTolerance,
+};
+
+const STAT_LABELS: Record<RecomputedStat, string> = {
+  totalDistance: "Distance",
+  maxSpeed: "Max speed",
+  avgSpeed: "Avg speed",
+  movingAvgSpeed: "Moving avg",
+  movingTime: "Moving time",
+  pausedTime: "Paused time",
+};
+
+/**
+ * Recompute one completed trip and store the result
+ */
+export async function recomputeTrip(
+  db: SQLiteDatabase,
+  tripId: number
+): Promise<TripRecomputeResult> {
+  const before = await getTripById(db, tripId);
+  if (!before) {
+    throw new Error("Trip not found");
+  }
+  if (before.status !== "completed") {
+    throw new Error("Only completed trips can be recomputed");
+  }
+
+  let changes: StatChange[] = [];
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const points = await getLocationPointsForTrip(txn, tripId);
+    const pauseIntervals = await getPauseIntervalsForTrip(txn, tripId);
+    const after = computeTripStats(
+      points,
+      pauseIntervals,
+      before.startTime,
+      before.endTime ?? before.startTime
+    );
+
+    // A track the processor reads as standing still must not wipe a stored
+    // distance when its points plainly went somewhere
+    const reach = measureReach(points);
+    if (
+      after.totalDistance <= STAT_TOLERANCES.totalDistance &&
+      before.totalDistance > STAT_TOLERANCES.totalDistance &&
+      reach > RECOMPUTE_CONFIG.minMovedDistance
+    ) {
+      throw new Error(
+        `Recalculated distance is 0 but the points reach ${metersToKm(reach).toFixed(2)} km from the start, so the stored stats were kept`
+      );
+    }
+
+    await updateTripStats(txn, tripId, after);
+    changes = diffTripStats(before, after);
+    await rebuildTripSplits(txn, tripId);
+  });
+
+  return { tripId, changes };
+}
+
+/**
+ * How far a track got from its first point, in meters
+ * Unlike the summed path, GPS wander while standing still barely adds to it.
+ */
+function measureReach(points: LocationPoint[]): number {
+  return points.reduce(
+    (reach, point) => Math.max(reach, haversineDistance(points[0], point)),
+    0
+  );
+}
+
+/**
+ * Recompute every completed trip, one transaction per trip
+ */
+export async function recomputeAllTrips(
+  db: SQLiteDatabase,
+  onProgress?: (completed: number, total: number) => void
+): Promise<RecomputeSummary> {
+  const trips = (await getAllTrips(db)).filter(
+    (trip) => trip.status === "completed"
+  );
+  const summary: RecomputeSummary = { results: [], errors: [] };
+
+  for (const [index, trip] of trips.entries()) {
+    try {
+      summary.results.push(await recomputeTrip(db, trip.id));
+    } catch (error) {
+      console.error("Error recomputing trip:", trip.id, error);
+      summary.errors.push(`Trip ${trip.id}: ${String(error)}`);
+    }
+    onProgress?.(index + 1, trips.length);
+  }
+
+  return summary;
+}
+
+/**
+ * Stats that differ by more than their tolerance
+ */
+export function diffTripStats(
+  before: Pick<Trip, RecomputedStat>,
+  after: Pick<Trip, RecomputedStat>
+): StatChange[] {
+  return (Object.keys(STAT_TOLERANCES) as RecomputedStat[])
+    .filter(
+      (stat) => Math.abs(after[stat] - before[stat]) > STAT_TOLERANCES[stat]
+    )
+    .map((stat) => ({ stat, before: before[stat], after: after[stat] }));
+}
+
+/**
+ * One line per change, e.g. "Distance: 12.40 km → 12.18 km"
+ */
+export function describeStatChanges(changes: StatChange[]): string {
+  if (changes.length === 0) return "No changes";
+
+  return changes
+    .map(
+      ({ stat, before, after }) =>
+        `${STAT_LABELS[stat]}: ${formatStat(stat, before)} → ${formatStat(stat, after)}`
+    )
+    .join("\n");
+}
+
+/**
+ * Summary of a recompute-all run for an alert
+ */
+export function describeRecomputeSummary(summary: RecomputeSummary): string {
+  const changed = summary.results.filter((result) => result.changes.length > 0);
+  const lines = [
+    `${summary.results.length} trips recomputed, ${changed.length} changed.`,
+  ];
+
+  for (const result of changed) {
+    lines.push("", `Trip ${result.tripId}`, describeStatChanges(result.changes));
+  }
+  if (summary.errors.length > 0) {
+    lines.push("", `${summary.errors.length} failed:`, ...summary.errors);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Display value for a stat in stored units
+ */
+function formatStat(stat: RecomputedStat, value: number): string {
+  switch (stat) {
+    case "totalDistance":
+      return `${metersToKm(value).toFixed(2)} km`;
+    case "movingTime":
+    case "pausedTime":
+      return formatDuration(value);
+    default:
+      return `${value.toFixed(1)} km/h`;
+  }
+}
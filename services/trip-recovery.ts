@@ -0,0 +1,160 @@
+/**
+ * Recovery of an active trip after the app stopped running
+ *
+ * If the app dies mid-trip and headless tracking can't keep up (the OS
+ * stopped the service too), the trip is left 'active' with a hole in its
+ * points. Counting that hole as driving would be wrong, so the hole is
+ * found and the user picks how to close it. Every option rebuilds stats
+ * from the stored points.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import { RECOVERY_CONFIG } from "@/constants/config";
+import {
+  addPauseInterval,
+  clipPauseIntervals,
+  completeTrip,
+  createTrip,
+  endOverspeedEvent,
+  getLastLocationPoint,
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  moveTripDataFrom,
+  updateTripDetails,
+} from "@/database";
+import type { LocationPoint, PauseInterval, Trip } from "@/types";
+import { isPausedBetween } from "./speed-calculator";
+import { rebuildTripSplits } from "./splits";
+import { rebuildTripStats } from "./trip-stats";
+
+// Unpaused stretch without fixes (epoch ms)
+export interface TripGap {
+  start: number; // last fix before the gap, or the trip start
+  end: number; // first fix after the gap, or when the gap was found
+}
+
+// A stale active trip waiting for the user's choice
+export interface TripRecovery {
+  trip: Trip;
+  gap: TripGap;
+  pointsAfterGap: number;
+}
+
+export type RecoveryChoice = "resume" | "end" | "split";
+
+/**
+ * Longest unpaused gap in a trip, counting the time since its last fix
+ */
+export function findTripGap(
+  startTime: number,
+  points: Pick<LocationPoint, "timestamp">[],
+  pauseIntervals: Pick<PauseInterval, "startTime" | "endTime">[],
+  now: number
+): TripGap | null {
+  const times = [startTime, ...points.map((point) => point.timestamp), now];
+  let gap: TripGap | null = null;
+
+  for (let i = 1; i < times.length; i++) {
+    const start = times[i - 1];
+    const end = times[i];
+    if (end - start < RECOVERY_CONFIG.gapThreshold) continue;
+    if (isPausedBetween(pauseIntervals, start, end)) continue;
+    if (!gap || end - start > gap.end - gap.start) {
+      gap = { start, end };
+    }
+  }
+
+  return gap;
+}
+
+/**
+ * Recovery needed for an active trip, if it has a gap
+ */
+export async function checkTripRecovery(
+  db: SQLiteDatabase,
+  trip: Trip
+): Promise<TripRecovery | null> {
+  const points = await getLocationPointsForTrip(db, trip.id);
+  const pauseIntervals = await getPauseIntervalsForTrip(db, trip.id);
+  const gap = findTripGap(trip.startTime, points, pauseIntervals, Date.now());
+  if (!gap) return null;
+
+  return {
+    trip,
+    gap,
+    pointsAfterGap: points.filter((point) => point.timestamp >= gap.end).length,
+  };
+}
+
+/**
+ * Keep tracking the same trip, counting the gap as paused time
+ */
+export async function resumeAcrossGap(
+  db: SQLiteDatabase,
+  recovery: TripRecovery
+): Promise<number> {
+  const { trip, gap } = recovery;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await addPauseInterval(txn, {
+      tripId: trip.id,
+      startTime: gap.start,
+      endTime: gap.end,
+      reason: "gap",
+    });
+    await rebuildTripStats(txn, trip.id, Date.now());
+  });
+
+  return trip.id;
+}
+
+/**
+ * Complete the trip at its last stored fix
+ */
+export async function endTripAtLastPoint(
+  db: SQLiteDatabase,
+  recovery: TripRecovery
+): Promise<void> {
+  const { trip } = recovery;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const lastPoint = await getLastLocationPoint(txn, trip.id);
+    const endTime = lastPoint?.timestamp ?? trip.startTime;
+
+    await clipPauseIntervals(txn, trip.id, endTime);
+    await endOverspeedEvent(txn, trip.id, endTime);
+    await rebuildTripStats(txn, trip.id, endTime);
+    await completeTrip(txn, trip.id, endTime);
+    await rebuildTripSplits(txn, trip.id);
+  });
+}
+
+/**
+ * Complete the trip where the gap starts and continue in a new trip
+ * Fixes recorded after the gap move to the new trip, which keeps the
+ * activity type and tags. Returns its ID.
+ */
+export async function splitTripAtGap(
+  db: SQLiteDatabase,
+  recovery: TripRecovery
+): Promise<number> {
+  const { trip, gap } = recovery;
+  let newTripId = 0;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    newTripId = await createTrip(txn, gap.end, trip.activityType, trip.splitDistance);
+    await updateTripDetails(txn, newTripId, { tags: trip.tags });
+    await moveTripDataFrom(txn, trip.id, newTripId, gap.end);
+
+    await clipPauseIntervals(txn, trip.id, gap.start);
+    await endOverspeedEvent(txn, trip.id, gap.start);
+    await rebuildTripStats(txn, trip.id, gap.start);
+    await completeTrip(txn, trip.id, gap.start);
+    await rebuildTripSplits(txn, trip.id);
+
+    await rebuildTripStats(txn, newTripId, Date.now());
+  });
+
+  return newTripId;
+}
@@ -0,0 +1,73 @@
+/**
+ * Trip stats rebuilt from stored location points
+ *
+ * Stored points go through the same track processor as live tracking, so a
+ * rebuilt trip matches what tracking would have written.
+ */
+
+import type { SQLiteDatabase } from "expo-sqlite";
+
+import {
+  getLocationPointsForTrip,
+  getPauseIntervalsForTrip,
+  getTripById,
+  updateTripStats,
+} from "@/database";
+import type { LocationPoint, PauseInterval } from "@/types";
+import { calculateTripTiming, type TripTiming } from "./speed-calculator";
+import { summarizeTrack } from "./track-processor";
+
+// Everything stored on a trip that is derived from its points
+export interface ComputedTripStats extends TripTiming {
+  totalDistance: number; // meters
+  maxSpeed: number; // km/h
+}
+
+/**
+ * Stats for a trip from its points and pauses
+ */
+export function computeTripStats(
+  points: LocationPoint[],
+  pauseIntervals: Pick<PauseInterval, "startTime" | "endTime">[],
+  startTime: number,
+  endTime: number
+): ComputedTripStats {
+  const summary = summarizeTrack(points);
+  const timing = calculateTripTiming(
+    startTime,
+    endTime,
+    pauseIntervals,
+    summary.totalDistance
+  );
+
+  return {
+    totalDistance: summary.totalDistance,
+    maxSpeed: summary.maxSpeed,
+    ...timing,
+  };
+}
+
+/**
+ * Recompute a trip's stats from SQLite and store them
+ * `endTime` defaults to the trip's end, or its last point while active
+ */
+export async function rebuildTripStats(
+  db: SQLiteDatabase,
+  tripId: number,
+  endTime?: number
+): Promise<ComputedTripStats | null> {
+  const trip = await getTripById(db, tripId);
+  if (!trip) return null;
+
+  const points = await getLocationPointsForTrip(db, tripId);
+  const pauseIntervals = await getPauseIntervalsForTrip(db, tripId);
+  const end =
+    endTime ??
+    trip.endTime ??
+    points[points.length - 1]?.timestamp ??
+    trip.startTime;
+
+  const stats = computeTripStats(points, pauseIntervals, trip.startTime, end);
+  await updateTripStats(db, tripId, stats);
+  return stats;
+}
@@ -0,0 +1,250 @@
+/**
+ * Spoken callouts shared by live and headless tracking
+ *
+ * Every N km/mi or N minutes a callout reads out distance, elapsed time,
+ * the last split and the moving average. Runs and walks hear pace (time
+ * per km/mi), other activities hear speed. Like the speed alert check,
+ * the split check is pure: callers own the state and pass it back in.
+ */
+
+import * as Speech from "expo-speech";
+
+import { CONVERSION, VOICE_CONFIG } from "@/constants/config";
+import type { PauseReason, Settings, SpeedUnit, VoiceTrigger } from "@/types";
+import {
+  calculateAverageSpeed,
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+  kmhToMph,
+} from "./speed-calculator";
+
+// Callout spacing, converted from the user's settings
+export interface VoiceCalloutConfig {
+  trigger: VoiceTrigger;
+  interval: number; // meters or seconds, following the trigger
+  unit: SpeedUnit;
+  usePace: boolean;
+}
+
+// Trip progress at the fix being checked
+export interface VoiceCalloutProgress {
+  distance: number; // meters
+  elapsedTime: number; // seconds
+  movingTime: number; // seconds
+  movingAvgSpeed: number; // km/h
+}
+
+// State carried between fixes
+export interface VoiceCalloutState {
+  trigger: VoiceTrigger | null; // spacing the count was taken with
+  interval: number;
+  count: number; // intervals passed so far
+  splitDistance: number; // meters, where the current split began
+  splitMovingTime: number; // seconds, where the current split began
+}
+
+// Outcome of checking one fix
+export interface VoiceCalloutCheck {
+  state: VoiceCalloutState;
+  callout: string | null;
+}
+
+// Spoken names of the units formatDistance writes
+const DISTANCE_WORDS: Record<string, [string, string]> = {
+  m: ["meter", "meters"],
+  km: ["kilometer", "kilometers"],
+  ft: ["foot", "feet"],
+  mi: ["mile", "miles"],
+};
+
+/**
+ * Fresh state; the first check lines it up with the trip's progress
+ */
+export function createVoiceCalloutState(): VoiceCalloutState {
+  return {
+    trigger: null,
+    interval: 0,
+    count: 0,
+    splitDistance: 0,
+    splitMovingTime: 0,
+  };
+}
+
+/**
+ * Callout spacing in meters or seconds, or null when callouts are off
+ */
+export function getVoiceCalloutConfig(settings: Settings): VoiceCalloutConfig | null {
+  if (!settings.voiceEnabled) return null;
+
+  const unitMeters =
+    settings.unit === "mph"
+      ? 1 / CONVERSION.METERS_TO_MILES
+      : 1 / CONVERSION.METERS_TO_KM;
+  const interval =
+    settings.voiceTrigger === "distance"
+      ? settings.voiceDistanceInterval * unitMeters
+      : settings.voiceTimeInterval * 60;
+  if (interval <= 0) return null;
+
+  return {
+    trigger: settings.voiceTrigger,
+    interval,
+    unit: settings.unit,
+    usePace: VOICE_CONFIG.paceActivities.includes(settings.activityType),
+  };
+}
+
+/**
+ * Check whether the trip has passed another callout interval
+ * State taken with other spacing, e.g. after a settings change or on a
+ * restored trip, is lined up with the current progress without a callout
+ */
+export function checkVoiceCallout(
+  state: VoiceCalloutState,
+  config: VoiceCalloutConfig | null,
+  progress: VoiceCalloutProgress
+): VoiceCalloutCheck {
+  if (!config) {
+    return { state: createVoiceCalloutState(), callout: null };
+  }
+
+  const value =
+    config.trigger === "distance" ? progress.distance : progress.elapsedTime;
+  const count = Math.floor(value / config.interval);
+  const nextState: VoiceCalloutState = {
+    trigger: config.trigger,
+    interval: config.interval,
+    count,
+    splitDistance: progress.distance,
+    splitMovingTime: progress.movingTime,
+  };
+
+  if (state.trigger !== config.trigger || state.interval !== config.interval) {
+    return { state: nextState, callout: null };
+  }
+  if (count <= state.count) {
+    return { state, callout: null };
+  }
+
+  return {
+    state: nextState,
+    callout: describeSplit(state, config, progress),
+  };
+}
+
+/**
+ * Callout text: distance, elapsed time, last split and moving average
+ */
+function describeSplit(
+  state: VoiceCalloutState,
+  config: VoiceCalloutConfig,
+  progress: VoiceCalloutProgress
+): string {
+  const { unit, usePace } = config;
+  const parts = [
+    `Distance ${spokenDistance(progress.distance, unit)}`,
+    `Time ${spokenDuration(progress.elapsedTime)}`,
+  ];
+
+  const splitSpeed = calculateAverageSpeed(
+    progress.distance - state.splitDistance,
+    progress.movingTime - state.splitMovingTime
+  );
+  if (splitSpeed > 0) {
+    parts.push(
+      usePace
+        ? `Last split pace ${spokenPace(splitSpeed, unit)}`
+        : `Last split ${spokenSpeed(splitSpeed, unit)}`
+    );
+  }
+  if (progress.movingAvgSpeed > 0) {
+    parts.push(
+      usePace
+        ? `Average pace ${spokenPace(progress.movingAvgSpeed, unit)}`
+        : `Average ${spokenSpeed(progress.movingAvgSpeed, unit)}`
+    );
+  }
+
+  return `${parts.join(". ")}.`;
+}
+
+/**
+ * Speak a callout, queued after any callout still playing
+ */
+export function speak(text: string): void {
+  Speech.speak(text, {
+    onError: (error) => console.error("Error speaking callout:", error),
+  });
+}
+
+/**
+ * Speak a speed limit alert, if the user wants to hear them
+ */
+export function announceSpeedAlert(
+  settings: Settings,
+  speed: number,
+  speedLimit: number
+): void {
+  if (!settings.voiceEnabled || !settings.voiceSpeedAlerts) return;
+  speak(
+    `Speed limit ${spokenSpeed(speedLimit, settings.unit, 0)}. ` +
+      `You are doing ${formatSpeed(speed, settings.unit)}.`
+  );
+}
+
+/**
+ * Speak an auto-pause or the resume after it, if the user wants to hear them
+ */
+export function announcePauseChange(
+  settings: Settings,
+  reason: PauseReason,
+  isPaused: boolean
+): void {
+  if (!settings.voiceEnabled || !settings.voiceAutoPause || reason !== "auto") {
+    return;
+  }
+  speak(isPaused ? "Auto paused." : "Resumed.");
+}
+
+// ============ Spoken formats ============
+
+/**
+ * formatDistance with the unit spelled out, e.g. "2.5 kilometers"
+ */
+function spokenDistance(meters: number, unit: SpeedUnit): string {
+  const [value, symbol] = formatDistance(meters, unit).split(" ");
+  const amount = Number(value);
+  const [singular, plural] = DISTANCE_WORDS[symbol] ?? [symbol, symbol];
+  return `${amount} ${amount === 1 ? singular : plural}`;
+}
+
+/**
+ * formatDuration read out, e.g. "1 hour 5 minutes 3 seconds"
+ */
+function spokenDuration(seconds: number): string {
+  const values = formatDuration(seconds).split(":").map(Number);
+  const names =
+    values.length === 3 ? ["hour", "minute", "second"] : ["minute", "second"];
+
+  const words = values
+    .map((value, i) => (value === 1 ? `1 ${names[i]}` : `${value} ${names[i]}s`))
+    .filter((_, i) => values[i] > 0);
+  return words.length > 0 ? words.join(" ") : "0 seconds";
+}
+
+/**
+ * Speed with its unit spelled out, e.g. "42.5 kilometers per hour"
+ */
+function spokenSpeed(speed: number, unit: SpeedUnit, decimals = 1): string {
+  const unitName = unit === "mph" ? "miles" : "kilometers";
+  return `${Number(formatSpeed(speed, unit, decimals))} ${unitName} per hour`;
+}
+
+/**
+ * Time per km or mile at a speed, e.g. "5 minutes 30 seconds per kilometer"
+ */
+function spokenPace(speed: number, unit: SpeedUnit): string {
+  const unitSpeed = unit === "mph" ? kmhToMph(speed) : speed;
+  return `${spokenDuration(3600 / unitSpeed)} per ${unit === "mph" ? "mile" : "kilometer"}`;
+}
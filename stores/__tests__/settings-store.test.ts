@@ -0,0 +1,51 @@
+/**
+ * Settings store tests: reading persisted settings outside React
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type SettingsStore = typeof import('../settings-store');
+
+const STORED = JSON.stringify({
+  state: { unit: 'mph', speedAlertEnabled: true },
+  version: 0,
+});
+
+/**
+ * A fresh store, as on a cold start of the background task
+ */
+function loadStore(): SettingsStore {
+  let store: SettingsStore | undefined;
+  jest.isolateModules(() => {
+    store = jest.requireActual<SettingsStore>('../settings-store');
+  });
+  return store!;
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('hydrateSettings', () => {
+  it('waits for the persisted settings on a cold start', async () => {
+    await AsyncStorage.setItem('gps-speed-meter-settings', STORED);
+    const { hydrateSettings, useSettingsStore } = loadStore();
+
+    await hydrateSettings();
+
+    expect(useSettingsStore.persist.hasHydrated()).toBe(true);
+    expect(useSettingsStore.getState()).toMatchObject({ unit: 'mph', speedAlertEnabled: true });
+  });
+
+  it('keeps the defaults when nothing was saved', async () => {
+    const { hydrateSettings, useSettingsStore } = loadStore();
+
+    await hydrateSettings();
+
+    expect(useSettingsStore.getState()).toMatchObject({ unit: 'kmh', speedAlertEnabled: false });
+  });
+});
@@ -5,8 +5,22 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Settings, SpeedUnit, SpeedometerMode } from '@/types';
-import { DEFAULT_SETTINGS, SPEED_SCALES } from '@/constants/config';
+import type {
+  ActivityType,
+  Settings,
+  SpeedLimitProfile,
+  SpeedUnit,
+  SpeedometerMode,
+  VoiceTrigger,
+} from '@/types';
+import {
+  ACTIVITY_PROFILES,
+  BRAKING_CONFIG,
+  DEFAULT_SETTINGS,
+  HUD_CONFIG,
+  SPEED_ALERT_CONFIG,
+} from '@/constants/config';
+import { kmhToMph, mphToKmh } from '@/services/speed-calculator';
 
 interface SettingsState extends Settings {
   // Actions
@@ -16,20 +30,42 @@ interface SettingsState extends Settings {
   setAutoPause: (enabled: boolean) => void;
   setAutoPauseThreshold: (threshold: number) => void;
   setKeepScreenOn: (enabled: boolean) => void;
+  setActivityType: (activityType: ActivityType) => void;
+  setSpeedAlertEnabled: (enabled: boolean) => void;
+  setActiveSpeedLimit: (profileId: string) => void;
+  updateSpeedLimitProfile: (
+    profileId: string,
+    changes: Partial<Omit<SpeedLimitProfile, 'id'>>
+  ) => void;
+  addSpeedLimitProfile: () => void;
+  removeSpeedLimitProfile: (profileId: string) => void;
+  setSpeedAlertTolerance: (tolerance: number) => void;
+  setSpeedAlertDelay: (delay: number) => void;
+  setVoiceEnabled: (enabled: boolean) => void;
+  setVoiceTrigger: (trigger: VoiceTrigger) => void;
+  setVoiceDistanceInterval: (interval: number) => void;
+  setVoiceTimeInterval: (minutes: number) => void;
+  setVoiceSpeedAlerts: (enabled: boolean) => void;
+  setVoiceAutoPause: (enabled: boolean) => void;
+  togglePerformanceTarget: (targetId: string) => void;
+  setBrakingTargetSpeed: (speed: number) => void;
+  setBrakingLabel: (label: string) => void;
+  setHudBrightness: (brightness: number) => void;
   resetSettings: () => void;
 }
 
 export const useSettingsStore = create<SettingsState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // Initial state from defaults
       ...DEFAULT_SETTINGS,
 
       // Actions
       setUnit: (unit) =>
         set({
-          unit,
-          maxSpeedScale: SPEED_SCALES[unit].max,
+          ...activityDefaults(get().activityType, unit),
+          ...convertSpeedAlerts(get(), unit),
+          ...convertBrakingTarget(get(), unit),
         }),
 
       setSpeedometerMode: (speedometerMode) =>
@@ -47,6 +83,93 @@ export const useSettingsStore = create<SettingsState>()(
       setKeepScreenOn: (keepScreenOn) =>
         set({ keepScreenOn }),
 
+      setActivityType: (activityType) =>
+        set({ activityType, ...activityDefaults(activityType, get().unit) }),
+
+      setSpeedAlertEnabled: (speedAlertEnabled) =>
+        set({ speedAlertEnabled }),
+
+      setActiveSpeedLimit: (activeSpeedLimitId) =>
+        set({ activeSpeedLimitId }),
+
+      updateSpeedLimitProfile: (profileId, changes) =>
+        set({
+          speedLimitProfiles: get().speedLimitProfiles.map((profile) =>
+            profile.id === profileId ? { ...profile, ...changes } : profile
+          ),
+        }),
+
+      addSpeedLimitProfile: () => {
+        const { speedLimitProfiles, unit } = get();
+        if (speedLimitProfiles.length >= SPEED_ALERT_CONFIG.maxProfiles) return;
+
+        const profile: SpeedLimitProfile = {
+          id: Date.now().toString(36),
+          name: `Limit ${speedLimitProfiles.length + 1}`,
+          limit: unit === 'kmh' ? 80 : 50,
+        };
+        set({
+          speedLimitProfiles: [...speedLimitProfiles, profile],
+          activeSpeedLimitId: profile.id,
+        });
+      },
+
+      removeSpeedLimitProfile: (profileId) => {
+        const { speedLimitProfiles, activeSpeedLimitId } = get();
+        if (speedLimitProfiles.length <= 1) return;
+
+        const remaining = speedLimitProfiles.filter((p) => p.id !== profileId);
+        set({
+          speedLimitProfiles: remaining,
+          activeSpeedLimitId:
+            activeSpeedLimitId === profileId ? remaining[0].id : activeSpeedLimitId,
+        });
+      },
+
+      setSpeedAlertTolerance: (speedAlertTolerance) =>
+        set({ speedAlertTolerance }),
+
+      setSpeedAlertDelay: (speedAlertDelay) =>
+        set({ speedAlertDelay }),
+
+      setVoiceEnabled: (voiceEnabled) =>
+        set({ voiceEnabled }),
+
+      setVoiceTrigger: (voiceTrigger) =>
+        set({ voiceTrigger }),
+
+      setVoiceDistanceInterval: (voiceDistanceInterval) =>
+        set({ voiceDistanceInterval }),
+
+      setVoiceTimeInterval: (voiceTimeInterval) =>
+        set({ voiceTimeInterval }),
+
+      setVoiceSpeedAlerts: (voiceSpeedAlerts) =>
+        set({ voiceSpeedAlerts }),
+
+      setVoiceAutoPause: (voiceAutoPause) =>
+        set({ voiceAutoPause }),
+
+      togglePerformanceTarget: (targetId) => {
+        const { performanceTargets } = get();
+        set({
+          performanceTargets: performanceTargets.includes(targetId)
+            ? performanceTargets.filter((id) => id !== targetId)
+            : [...performanceTargets, targetId],
+        });
+      },
+
+      setBrakingTargetSpeed: (brakingTargetSpeed) =>
+        set({ brakingTargetSpeed }),
+
+      setBrakingLabel: (brakingLabel) =>
+        set({ brakingLabel }),
+
+      setHudBrightness: (brightness) =>
+        set({
+          hudBrightness: Math.min(Math.max(brightness, HUD_CONFIG.minBrightness), 1),
+        }),
+
       resetSettings: () =>
         set({ ...DEFAULT_SETTINGS }),
     }),
@@ -56,3 +179,58 @@ export const useSettingsStore = create<SettingsState>()(
     }
   )
 );
+
+/**
+ * Wait until persisted settings are loaded
+ * Code outside React (the background task) can run before the store has
+ * read AsyncStorage, and would otherwise see the defaults.
+ */
+export async function hydrateSettings(): Promise<void> {
+  if (useSettingsStore.persist.hasHydrated()) return;
+  await useSettingsStore.persist.rehydrate();
+}
+
+/**
+ * Unit plus the gauge scale and auto-pause threshold for an activity
+ */
+function activityDefaults(activityType: ActivityType, unit: SpeedUnit) {
+  const profile = ACTIVITY_PROFILES[activityType];
+  return {
+    unit,
+    maxSpeedScale: profile.maxSpeedScale[unit],
+    autoPauseThreshold: profile.autoPauseThreshold[unit],
+  };
+}
+
+/**
+ * Speed limits and tolerance re-expressed in a new unit, rounded
+ */
+function convertSpeedAlerts(settings: Settings, unit: SpeedUnit) {
+  if (settings.unit === unit) return {};
+
+  const convert = (value: number) =>
+    Math.round(unit === 'mph' ? kmhToMph(value) : mphToKmh(value));
+  return {
+    speedLimitProfiles: settings.speedLimitProfiles.map((profile) => ({
+      ...profile,
+      limit: convert(profile.limit),
+    })),
+    speedAlertTolerance: convert(settings.speedAlertTolerance),
+  };
+}
+
+/**
+ * Braking target speed moved to the nearest choice in a new unit
+ */
+function convertBrakingTarget(settings: Settings, unit: SpeedUnit) {
+  if (settings.unit === unit) return {};
+
+  const speed =
+    unit === 'mph'
+      ? kmhToMph(settings.brakingTargetSpeed)
+      : mphToKmh(settings.brakingTargetSpeed);
+  const nearest = BRAKING_CONFIG.targetSpeeds[unit].reduce((best, option) =>
+    Math.abs(option - speed) < Math.abs(best - speed) ? option : best
+  );
+  return { brakingTargetSpeed: nearest };
+}
@@ -3,41 +3,90 @@
  */
 
 import { create } from 'zustand';
-import type { TrackingState, LocationPoint } from '@/types';
+import { calculateTripTiming, type TripTiming } from '@/services/speed-calculator';
+import type {
+  TrackingState,
+  LocationPoint,
+  PauseInterval,
+  PauseReason,
+  Trip,
+} from '@/types';
+
+// Pause interval as tracked in memory for the current trip
+type TripPause = Pick<PauseInterval, 'startTime' | 'endTime' | 'reason'>;
 
 interface TripState extends TrackingState {
   // Trip start time for elapsed time calculation
   tripStartTime: number | null;
-  
+  // Pauses of the current trip; the last one is open while paused
+  pauseIntervals: TripPause[];
+
   // Actions
   startTracking: (tripId: number) => void;
-  restoreTracking: (tripId: number, startTime: number, totalDistance: number, maxSpeed: number, avgSpeed: number) => void;
+  restoreTracking: (
+    trip: Trip,
+    pauseIntervals: PauseInterval[],
+    lapCount?: number
+  ) => void;
   stopTracking: () => void;
-  pauseTracking: () => void;
-  resumeTracking: () => void;
+  pauseTracking: (reason: PauseReason, pausedAt?: number) => void;
+  resumeTracking: (resumedAt?: number) => void;
   updateLocation: (location: LocationPoint, speed: number) => void;
   updateDistance: (distance: number) => void;
   updateGpsStatus: (status: 'searching' | 'acquired' | 'lost') => void;
   setAccuracy: (accuracy: number | null) => void;
+  setOverspeed: (isOverspeed: boolean) => void;
+  setLapCount: (lapCount: number) => void;
   updateElapsedTime: () => void;
   reset: () => void;
 }
 
-const initialState: TrackingState & { tripStartTime: number | null } = {
+const initialState: TrackingState & {
+  tripStartTime: number | null;
+  pauseIntervals: TripPause[];
+} = {
   isTracking: false,
   isPaused: false,
   currentSpeed: 0,
   currentTripId: null,
   totalDistance: 0,
   avgSpeed: 0,
+  movingAvgSpeed: 0,
   maxSpeed: 0,
   elapsedTime: 0,
+  movingTime: 0,
+  pausedTime: 0,
   lastLocation: null,
   gpsStatus: 'searching',
   accuracy: null,
+  isOverspeed: false,
+  lapCount: 0,
   tripStartTime: null,
+  pauseIntervals: [],
 };
 
+/**
+ * Derive elapsed/moving/paused time and both averages at `now`
+ */
+function deriveTiming(
+  tripStartTime: number | null,
+  pauseIntervals: TripPause[],
+  totalDistance: number,
+  now: number
+): TripTiming {
+  if (!tripStartTime) {
+    return {
+      elapsedTime: 0,
+      movingTime: 0,
+      pausedTime: 0,
+      avgSpeed: 0,
+      movingAvgSpeed: 0,
+    };
+  }
+
+  return calculateTripTiming(tripStartTime, now, pauseIntervals, totalDistance);
+}
+
 export const useTripStore = create<TripState>()((set, get) => ({
   ...initialState,
 
@@ -47,25 +96,37 @@ export const useTripStore = create<TripState>()((set, get) => ({
       isPaused: false,
       currentTripId: tripId,
       tripStartTime: Date.now(),
+      pauseIntervals: [],
       totalDistance: 0,
       avgSpeed: 0,
+      movingAvgSpeed: 0,
       maxSpeed: 0,
       elapsedTime: 0,
+      movingTime: 0,
+      pausedTime: 0,
+      lapCount: 0,
       gpsStatus: 'searching',
     }),
 
   // Restore tracking state from database (when app resumes)
-  restoreTracking: (tripId, startTime, totalDistance, maxSpeed, avgSpeed) => {
-    const elapsedTime = Math.floor((Date.now() - startTime) / 1000);
+  restoreTracking: (trip, pauseIntervals, lapCount = 0) => {
+    const pauses = pauseIntervals.map(({ startTime, endTime, reason }) => ({
+      startTime,
+      endTime,
+      reason,
+    }));
+    const lastPause = pauses[pauses.length - 1];
+
     set({
       isTracking: true,
-      isPaused: false,
-      currentTripId: tripId,
-      tripStartTime: startTime,
-      totalDistance,
-      maxSpeed,
-      avgSpeed,
-      elapsedTime,
+      isPaused: !!lastPause && lastPause.endTime === null,
+      currentTripId: trip.id,
+      tripStartTime: trip.startTime,
+      pauseIntervals: pauses,
+      totalDistance: trip.totalDistance,
+      maxSpeed: trip.maxSpeed,
+      ...deriveTiming(trip.startTime, pauses, trip.totalDistance, Date.now()),
+      lapCount,
       gpsStatus: 'searching',
     });
   },
@@ -76,18 +137,43 @@ export const useTripStore = create<TripState>()((set, get) => ({
       isPaused: false,
       currentTripId: null,
       tripStartTime: null,
+      pauseIntervals: [],
+      isOverspeed: false,
     }),
 
-  pauseTracking: () =>
-    set({ isPaused: true }),
+  pauseTracking: (reason, pausedAt = Date.now()) => {
+    const state = get();
+    if (state.isPaused) return;
+
+    const pauseIntervals = [
+      ...state.pauseIntervals,
+      { startTime: pausedAt, endTime: null, reason },
+    ];
+    set({
+      isPaused: true,
+      pauseIntervals,
+      ...deriveTiming(state.tripStartTime, pauseIntervals, state.totalDistance, pausedAt),
+    });
+  },
 
-  resumeTracking: () =>
-    set({ isPaused: false }),
+  resumeTracking: (resumedAt = Date.now()) => {
+    const state = get();
+    if (!state.isPaused) return;
+
+    const pauseIntervals = state.pauseIntervals.map((pause) =>
+      pause.endTime === null ? { ...pause, endTime: resumedAt } : pause
+    );
+    set({
+      isPaused: false,
+      pauseIntervals,
+      ...deriveTiming(state.tripStartTime, pauseIntervals, state.totalDistance, resumedAt),
+    });
+  },
 
   updateLocation: (location, speed) => {
     const state = get();
     const newMaxSpeed = Math.max(state.maxSpeed, speed);
-    
+
     set({
       currentSpeed: speed,
       lastLocation: location,
@@ -100,20 +186,17 @@ export const useTripStore = create<TripState>()((set, get) => ({
   updateDistance: (distance) => {
     const state = get();
     const newTotalDistance = state.totalDistance + distance;
-    
-    // Calculate average speed using fresh elapsed time from tripStartTime
+
+    // Recalculate averages using fresh times from tripStartTime and pauses
     // This avoids stale elapsedTime issues
-    const elapsedSeconds = state.tripStartTime 
-      ? (Date.now() - state.tripStartTime) / 1000 
-      : 0;
-    const elapsedHours = elapsedSeconds / 3600;
-    const avgSpeed = elapsedHours > 0 
-      ? (newTotalDistance / 1000) / elapsedHours 
-      : 0;
-    
     set({
       totalDistance: newTotalDistance,
-      avgSpeed,
+      ...deriveTiming(
+        state.tripStartTime,
+        state.pauseIntervals,
+        newTotalDistance,
+        Date.now()
+      ),
     });
   },
 
@@ -123,19 +206,23 @@ export const useTripStore = create<TripState>()((set, get) => ({
   setAccuracy: (accuracy) =>
     set({ accuracy }),
 
+  setOverspeed: (isOverspeed) =>
+    set({ isOverspeed }),
+
+  setLapCount: (lapCount) =>
+    set({ lapCount }),
+
   updateElapsedTime: () => {
     const state = get();
     if (state.tripStartTime && state.isTracking && !state.isPaused) {
-      const now = Date.now();
-      const elapsedTime = Math.floor((now - state.tripStartTime) / 1000);
-      
-      // Recalculate average speed with fresh elapsed time
-      const elapsedHours = elapsedTime / 3600;
-      const avgSpeed = elapsedHours > 0 
-        ? (state.totalDistance / 1000) / elapsedHours 
-        : 0;
-      
-      set({ elapsedTime, avgSpeed });
+      set(
+        deriveTiming(
+          state.tripStartTime,
+          state.pauseIntervals,
+          state.totalDistance,
+          Date.now()
+        )
+      );
     }
   },
 
@@ -12,22 +12,225 @@ export interface LocationPoint {
   altitude: number | null;
   accuracy: number | null;
   timestamp: number;
+  source?: LocationSource | null; // null for points recorded before sources were kept
+}
+
+// Where a fix came from
+export type LocationSource = 'foreground' | 'background' | 'import';
+
+// Bounding box around a set of points
+export interface LocationBounds {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+// Why a GPS fix was left out of the trip's distance
+export type FixRejectionReason =
+  | 'low_accuracy' // reported accuracy too poor to use
+  | 'outlier' // inconsistent with the filter's prediction
+  | 'stale' // older than (or same as) the previous fix
+  | 'implied_speed' // step implies an impossible speed
+  | 'implied_acceleration'; // step implies an impossible acceleration
+
+// A fix that was recorded for auditing but not used for stats
+export interface RejectedLocationPoint extends LocationPoint {
+  reason: FixRejectionReason;
 }
 
 // Trip status
 export type TripStatus = 'active' | 'paused' | 'completed';
 
+// What a trip was recorded on or as
+export type ActivityType =
+  | 'car'
+  | 'motorbike'
+  | 'bicycle'
+  | 'run'
+  | 'walk'
+  | 'train';
+
+// User-entered trip metadata
+export interface TripDetails {
+  title: string | null;
+  notes: string | null;
+  tags: string[];
+  activityType: ActivityType | null; // null for trips from before activity types
+}
+
 // Trip record
-export interface Trip {
+export interface Trip extends TripDetails {
   id: number;
   startTime: number;
   endTime: number | null;
   totalDistance: number; // meters
   maxSpeed: number; // km/h
-  avgSpeed: number; // km/h
+  avgSpeed: number; // km/h, over elapsed (wall-clock) time
+  movingTime: number; // seconds, elapsed time minus pauses
+  pausedTime: number; // seconds
+  movingAvgSpeed: number; // km/h, over moving time
+  splitDistance: number | null; // meters between auto splits, null until first split
   status: TripStatus;
 }
 
+// Filters for the trip list; unset fields match every trip
+export interface TripFilter {
+  search?: string; // matched against title, notes and tags
+  startDate?: number; // trips starting at or after (epoch ms)
+  endDate?: number; // trips starting before (epoch ms)
+  minDistance?: number; // meters
+  maxDistance?: number;
+  minDuration?: number; // seconds, elapsed
+  maxDuration?: number;
+  minMaxSpeed?: number; // km/h
+  maxMaxSpeed?: number;
+  minAvgSpeed?: number; // km/h, moving average
+  maxAvgSpeed?: number;
+  statuses?: TripStatus[];
+}
+
+// Trip list ordering
+export type TripSortField =
+  | 'startTime'
+  | 'distance'
+  | 'duration'
+  | 'maxSpeed'
+  | 'avgSpeed';
+
+export interface TripSort {
+  field: TripSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Span of time the stats dashboard groups trips by
+export type StatsPeriod = 'week' | 'month' | 'year';
+
+// Completed-trip totals for a set of trips
+export interface StatsTotals {
+  tripCount: number;
+  distance: number; // meters
+  movingTime: number; // seconds
+}
+
+// Totals for one week, month or year
+export interface PeriodTotals extends StatsTotals {
+  period: string; // local date the period starts on, YYYY-MM-DD
+}
+
+// Totals for one activity type (null for trips without one)
+export interface ActivityTotals extends StatsTotals {
+  activityType: ActivityType | null;
+}
+
+// Trips holding the personal bests
+export interface PersonalRecords {
+  longestTrip: Trip | null; // by distance
+  fastestTrip: Trip | null; // by max speed
+  bestAverageTrip: Trip | null; // by moving average
+}
+
+// Runs of consecutive days with at least one trip
+export interface TripStreaks {
+  current: number; // days, ending today or yesterday
+  longest: number;
+}
+
+// Why tracking was paused
+export type PauseReason =
+  | 'manual'
+  | 'auto'
+  | 'gap'; // nothing recorded: app was not running, or between merged trips
+
+// A paused stretch of a trip
+export interface PauseInterval {
+  id?: number;
+  tripId: number;
+  startTime: number;
+  endTime: number | null; // null while still paused
+  reason: PauseReason;
+}
+
+// A stretch of a trip spent over the speed limit
+export interface OverspeedEvent {
+  id?: number;
+  tripId: number;
+  startTime: number;
+  endTime: number | null; // null while still over
+  peakSpeed: number; // km/h
+  speedLimit: number; // km/h, the limit in force
+}
+
+// How a split was cut: every km/mi, or by the lap button
+export type SplitKind = 'auto' | 'lap';
+
+// A stretch of a trip between two split or lap marks
+export interface TripSplit {
+  id?: number;
+  tripId: number;
+  kind: SplitKind;
+  splitIndex: number; // 1-based, counted per kind
+  startTime: number;
+  endTime: number;
+  distance: number; // meters
+  movingTime: number; // seconds
+  avgSpeed: number; // km/h, over moving time
+  maxSpeed: number; // km/h
+  elevationChange: number | null; // meters, end minus start; null without altitude
+}
+
+// A timed stretch of a performance run: a speed range or a distance from standstill
+export interface PerformanceTarget {
+  id: string;
+  label: string;
+  kind: 'speed' | 'distance';
+  fromSpeed?: number; // km/h, speed targets
+  toSpeed?: number; // km/h, speed targets
+  distance?: number; // meters, distance targets
+}
+
+// Where a performance run is: stopping, waiting to launch, timing, done
+export type PerformancePhase = 'waiting' | 'armed' | 'running' | 'finished';
+
+// Why a performance run's times may be off
+export type PerformanceWarning = 'low-fix-rate' | 'poor-accuracy';
+
+// Time for one target of a performance run
+export interface PerformanceResult {
+  targetId: string;
+  time: number; // seconds
+  trapSpeed: number | null; // km/h at the finish line, distance targets
+}
+
+// A saved acceleration run
+export interface PerformanceRun {
+  id?: number;
+  startTime: number; // launch, Unix timestamp ms
+  peakSpeed: number; // km/h
+  fixRate: number; // fixes per second during the run
+  worstAccuracy: number | null; // meters
+  warnings: PerformanceWarning[];
+  results: PerformanceResult[];
+}
+
+// Where a braking test is: reaching the target speed, at it, braking, stopped
+export type BrakingPhase = 'waiting' | 'armed' | 'braking' | 'stopped';
+
+// A measured stop from the target speed, worked out from a trip's points
+export interface BrakingTest {
+  id?: number;
+  tripId: number;
+  label: string | null; // e.g. the tires or pads being tested
+  startTime: number; // braking onset, Unix timestamp ms
+  endTime: number; // standstill, Unix timestamp ms
+  targetSpeed: number; // km/h the test was armed at
+  startSpeed: number; // km/h at the braking onset
+  distance: number; // meters to standstill
+  duration: number; // seconds to standstill
+  peakDeceleration: number; // g
+  meanDeceleration: number; // g
+}
+
 // Speed unit preference
 export type SpeedUnit = 'kmh' | 'mph';
 
@@ -42,6 +245,32 @@ export interface Settings {
   autoPauseEnabled: boolean;
   autoPauseThreshold: number; // km/h below which to auto-pause
   keepScreenOn: boolean;
+  activityType: ActivityType; // for new trips; sets gauge and auto-pause defaults
+  speedAlertEnabled: boolean;
+  speedLimitProfiles: SpeedLimitProfile[];
+  activeSpeedLimitId: string;
+  speedAlertTolerance: number; // allowed over the limit, in the user's unit
+  speedAlertDelay: number; // seconds over before alerting
+  voiceEnabled: boolean;
+  voiceTrigger: VoiceTrigger;
+  voiceDistanceInterval: number; // km or mi, following the unit
+  voiceTimeInterval: number; // minutes
+  voiceSpeedAlerts: boolean; // also speak speed limit alerts
+  voiceAutoPause: boolean; // also speak auto-pause and resume
+  performanceTargets: string[]; // PerformanceTarget ids timed on each run
+  brakingTargetSpeed: number; // in the user's unit
+  brakingLabel: string; // stored with each braking test
+  hudBrightness: number; // 0-1, dims the heads-up display
+}
+
+// What spaces out the spoken split callouts
+export type VoiceTrigger = 'distance' | 'time';
+
+// A named speed limit to switch between, e.g. city or highway
+export interface SpeedLimitProfile {
+  id: string;
+  name: string;
+  limit: number; // in the user's unit
 }
 
 // Current tracking state
@@ -51,12 +280,17 @@ export interface TrackingState {
   currentSpeed: number; // km/h
   currentTripId: number | null;
   totalDistance: number; // meters
-  avgSpeed: number; // km/h
+  avgSpeed: number; // km/h, over elapsed time
+  movingAvgSpeed: number; // km/h, over moving time
   maxSpeed: number; // km/h
-  elapsedTime: number; // seconds
+  elapsedTime: number; // seconds, wall-clock since start
+  movingTime: number; // seconds, elapsed minus pauses
+  pausedTime: number; // seconds
   lastLocation: LocationPoint | null;
   gpsStatus: 'searching' | 'acquired' | 'lost';
   accuracy: number | null;
+  isOverspeed: boolean; // a speed alert is in force
+  lapCount: number; // laps ended with the lap button
 }
 
 // GPS permission status
@@ -67,7 +301,7 @@ export type PermissionStatus =
   | 'restricted';
 
 // Export format
-export type ExportFormat = 'csv' | 'json';
+export type ExportFormat = 'csv' | 'json' | 'gpx';
 
 // Trip with calculated duration
 export interface TripWithDuration extends Trip {
@@ -0,0 +1,309 @@
+/**
+ * Track import tests: each format's parser, and the stats and duplicate
+ * checks applied when parsed tracks are stored
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { closeDatabase, getAllTrips, getLocationPointsForTrip, initDatabase } from '@/database';
+import { clearDisk, loadSqlJs } from '@/database/__tests__/helpers/sqlite';
+import { haversineDistance } from '@/services/speed-calculator';
+import {
+  detectImportFormat,
+  importTracks,
+  parseGPX,
+  parseKML,
+  parseTrackCSV,
+  parseTrackFile,
+  parseTripJSON,
+} from '../import';
+
+jest.mock('expo-sqlite', () => jest.requireActual('@/database/__tests__/helpers/sqlite'));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const readFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+// The fixtures hold one drive: 20 fixes a minute apart, about 11 km
+const START = Date.parse('2025-10-09T08:53:20Z');
+const END = START + 19 * 60 * 1000;
+
+/**
+ * Straight-line distance along the points, in meters
+ */
+function pathLength(points: { latitude: number; longitude: number }[]): number {
+  return points
+    .slice(1)
+    .reduce((sum, point, i) => sum + haversineDistance(points[i], point), 0);
+}
+
+describe('parseGPX', () => {
+  const { tracks, errors } = parseGPX(readFixture('sparse-drive.gpx'));
+
+  it('reads a track with its details', () => {
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].name).toBe('Sunday drive');
+    expect(tracks[0].details).toEqual({
+      title: 'Sunday drive',
+      tags: ['weekend', 'Paris & around'],
+      activityType: 'car',
+    });
+  });
+
+  it('reads speed, elevation and HDOP as accuracy from each point', () => {
+    const [first] = tracks[0].points;
+    expect(first).toEqual({
+      latitude: 48.856593,
+      longitude: 2.3521791,
+      speed: 7.18,
+      altitude: 35,
+      accuracy: 4,
+      timestamp: START,
+    });
+  });
+
+  it('skips points without a time and says so', () => {
+    expect(tracks[0].points).toHaveLength(20);
+    expect(errors).toEqual(['Sunday drive: skipped 1 points without position or time']);
+  });
+
+  it('pauses between track segments', () => {
+    expect(tracks[0].pauseIntervals).toEqual([
+      { startTime: START + 9 * 60000, endTime: START + 10 * 60000, reason: 'manual' },
+    ]);
+  });
+
+  it('reports a file without tracks', () => {
+    expect(parseGPX('<gpx version="1.1"></gpx>')).toEqual({
+      tracks: [],
+      errors: ['No <trk> tracks found in GPX file'],
+    });
+  });
+});
+
+describe('parseKML', () => {
+  it('spreads LineString times over the TimeSpan by distance', () => {
+    const { tracks, errors } = parseKML(readFixture('sparse-drive.kml'));
+
+    expect(errors).toEqual([]);
+    expect(tracks).toHaveLength(1);
+    const [track] = tracks;
+    expect(track.name).toBe('Sunday drive');
+    expect(track.startTime).toBe(START);
+    expect(track.endTime).toBe(END);
+    expect(track.points).toHaveLength(20);
+    expect(track.points[0].timestamp).toBe(START);
+    expect(track.points[19].timestamp).toBe(END);
+
+    // Constant speed along the line
+    const speed = pathLength(track.points) / ((END - START) / 1000);
+    track.points.slice(1).forEach((point, i) => {
+      const previous = track.points[i];
+      const seconds = (point.timestamp - previous.timestamp) / 1000;
+      expect(haversineDistance(previous, point) / seconds).toBeCloseTo(speed, 1);
+    });
+  });
+
+  it('reads gx:Track points, one track segment per gx:Track', () => {
+    const kml = `
+      <kml xmlns:gx="http://www.google.com/kml/ext/2.2"><Placemark>
+        <gx:MultiTrack>
+          <gx:Track>
+            <when>2025-10-09T08:53:20Z</when><when>2025-10-09T08:53:25Z</when>
+            <gx:coord>2.3521 48.8566 35</gx:coord><gx:coord>2.3525 48.8567 36</gx:coord>
+          </gx:Track>
+          <gx:Track>
+            <when>2025-10-09T08:55:00Z</when>
+            <gx:coord>2.3530 48.8570 37</gx:coord>
+          </gx:Track>
+        </gx:MultiTrack>
+      </Placemark></kml>`;
+    const { tracks } = parseKML(kml);
+
+    expect(tracks[0].name).toBe('Track 1');
+    expect(tracks[0].points.map((point) => [point.longitude, point.altitude])).toEqual([
+      [2.3521, 35],
+      [2.3525, 36],
+      [2.353, 37],
+    ]);
+    expect(tracks[0].pauseIntervals).toEqual([
+      { startTime: START + 5000, endTime: START + 100000, reason: 'manual' },
+    ]);
+  });
+
+  it('refuses a LineString without a TimeSpan', () => {
+    const kml = `<kml><Placemark><name>Walk</name>
+      <LineString><coordinates>2.35,48.85 2.36,48.86</coordinates></LineString>
+    </Placemark></kml>`;
+
+    expect(parseKML(kml)).toEqual({
+      tracks: [],
+      errors: ['Walk: KML LineString has no TimeSpan, so speeds cannot be derived'],
+    });
+  });
+});
+
+describe('parseTrackCSV', () => {
+  it('maps header aliases and quoted fields to point columns', () => {
+    const { tracks } = parseTrackCSV(readFixture('sparse-drive.csv'), 'drive');
+
+    expect(tracks[0].name).toBe('drive');
+    expect(tracks[0].points).toHaveLength(20);
+    expect(tracks[0].points[0]).toEqual({
+      latitude: 48.856593,
+      longitude: 2.3521791,
+      speed: 7.18,
+      altitude: 35,
+      accuracy: 4,
+      timestamp: START,
+    });
+  });
+
+  it('skips rows without a usable position', () => {
+    expect(parseTrackCSV(readFixture('sparse-drive.csv'), 'drive').errors).toEqual([
+      'drive: skipped 1 invalid rows',
+    ]);
+  });
+
+  it.each([
+    ['epoch seconds', '1760000000', START],
+    ['epoch milliseconds', '1760000000000', START],
+    ['ISO time', '2025-10-09T08:53:20.000Z', START],
+  ])('reads %s', (_, time, expected) => {
+    const { tracks } = parseTrackCSV(`lat,lon,timestamp\n48.85,2.35,${time}`);
+    expect(tracks[0].points[0].timestamp).toBe(expected);
+  });
+
+  it('needs latitude, longitude and time columns', () => {
+    expect(parseTrackCSV('lat,lon,speed\n48.85,2.35,3').errors).toEqual([
+      'CSV needs latitude, longitude and time columns',
+    ]);
+  });
+});
+
+describe('parseTripJSON', () => {
+  const exported = {
+    trips: [
+      {
+        id: 7,
+        startTime: START,
+        endTime: END,
+        title: 'Commute',
+        notes: null,
+        tags: ['work', 3],
+        activityType: 'bicycle',
+        locationPoints: [
+          { latitude: 48.85, longitude: 2.35, speed: 5, altitude: 30, accuracy: 4, timestamp: START },
+          { latitude: 48.86, longitude: 2.36, speed: null, altitude: null, accuracy: null, timestamp: END },
+          { latitude: 'north', longitude: 2.36, timestamp: END },
+        ],
+        pauseIntervals: [{ startTime: START + 1000, endTime: START + 2000, reason: 'auto' }],
+        splits: [
+          { kind: 'auto', endTime: START + 3000 },
+          { kind: 'lap', endTime: START + 4000 },
+        ],
+      },
+      { id: 8 },
+    ],
+  };
+
+  it('reads trips with their pauses, laps and details', () => {
+    const { tracks, errors } = parseTripJSON(JSON.stringify(exported));
+
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0]).toMatchObject({
+      name: 'Trip 7',
+      startTime: START,
+      endTime: END,
+      pauseIntervals: [{ startTime: START + 1000, endTime: START + 2000, reason: 'auto' }],
+      lapTimes: [START + 4000],
+      details: { title: 'Commute', notes: null, tags: ['work'], activityType: 'bicycle' },
+    });
+    expect(tracks[0].points).toHaveLength(2);
+    expect(errors).toEqual(['Trip 7: skipped 1 invalid points', 'Trip 2: missing locationPoints']);
+  });
+
+  it('reads a single trip export', () => {
+    const { tracks } = parseTripJSON(JSON.stringify({ trip: exported.trips[0] }));
+    expect(tracks.map((track) => track.name)).toEqual(['Trip 7']);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(parseTripJSON('{"trips": [').errors[0]).toMatch(/^Invalid JSON: /);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it.each([
+    { filename: 'drive.GPX', text: '', format: 'gpx' },
+    { filename: 'drive.kml', text: '', format: 'kml' },
+    { filename: 'shared', text: '  {"trips": []}', format: 'json' },
+    { filename: 'shared', text: '<?xml version="1.0"?><gpx>', format: 'gpx' },
+    { filename: 'shared', text: '<?xml version="1.0"?><kml>', format: 'kml' },
+    { filename: 'shared', text: 'lat,lon,time', format: 'csv' },
+  ])('reads $filename starting $text as $format', ({ filename, text, format }) => {
+    expect(detectImportFormat(filename, text)).toBe(format);
+  });
+});
+
+describe('importTracks', () => {
+  beforeAll(loadSqlJs);
+
+  beforeEach(() => {
+    closeDatabase();
+    clearDisk();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(['sparse-drive.gpx', 'sparse-drive.kml', 'sparse-drive.csv'])(
+    'stores the distance and speed of the sparse track in %s',
+    async (fixture) => {
+      const { tracks } = parseTrackFile(readFixture(fixture), fixture);
+      const result = await importTracks(tracks);
+
+      expect(result.errors).toEqual([]);
+      const db = await initDatabase();
+      const [trip] = await getAllTrips(db);
+      const points = await getLocationPointsForTrip(db, trip.id);
+
+      expect(result.importedTripIds).toEqual([trip.id]);
+      expect(points).toHaveLength(20);
+      expect(trip.status).toBe('completed');
+      expect(trip.startTime).toBe(START);
+      expect(trip.endTime).toBe(END);
+      // About 11 km at 30-45 km/h
+      expect(trip.totalDistance).toBeGreaterThan(pathLength(points) * 0.98);
+      expect(trip.totalDistance).toBeLessThan(pathLength(points) * 1.02);
+      expect(trip.maxSpeed).toBeGreaterThan(30);
+      expect(trip.maxSpeed).toBeLessThan(45);
+    }
+  );
+
+  it('skips a track overlapping a trip already in history', async () => {
+    const { tracks } = parseGPX(readFixture('sparse-drive.gpx'));
+    const first = await importTracks(tracks);
+    const second = await importTracks(parseTrackCSV(readFixture('sparse-drive.csv')).tracks);
+
+    expect(first.importedTripIds).toHaveLength(1);
+    expect(second.importedTripIds).toEqual([]);
+    expect(second.duplicates).toEqual([
+      `CSV Track (${new Date(START).toLocaleDateString()})`,
+    ]);
+    expect(await getAllTrips(await initDatabase())).toHaveLength(1);
+  });
+
+  it('refuses a track with fewer than two points', async () => {
+    const { tracks } = parseTrackCSV('lat,lon,time\n48.85,2.35,1760000000', 'single');
+    const result = await importTracks(tracks);
+
+    expect(result.importedTripIds).toEqual([]);
+    expect(result.errors).toEqual(['single: not enough points to import']);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Chart data for trip analysis (speed, altitude and accuracy series)
+ */
+
+import { isPausedBetween } from '@/services/speed-calculator';
+import { createTrackProcessorState, processFix } from '@/services/track-processor';
+import type { LocationPoint, PauseInterval } from '@/types';
+
+// One recorded fix with the values the charts plot
+export interface TrackSample {
+  timestamp: number;
+  distance: number; // cumulative meters
+  speed: number; // km/h, filtered
+  altitude: number | null; // meters
+  accuracy: number | null; // meters
+}
+
+// A sample placed in chart coordinates
+export interface ChartPoint {
+  x: number;
+  y: number;
+  sample: TrackSample;
+}
+
+export interface ChartGeometry {
+  // One SVG path per continuous run, so pauses show as gaps
+  paths: string[];
+  points: ChartPoint[];
+  minY: number;
+  maxY: number;
+}
+
+type Pause = Pick<PauseInterval, 'startTime' | 'endTime'>;
+
+/**
+ * Turn a recorded trip into continuous runs of samples split at pauses
+ *
+ * Fixes go through the same processor used while recording, so speeds and
+ * cumulative distance agree with the trip stats.
+ */
+export function buildTrackSamples(
+  points: LocationPoint[],
+  pauses: Pause[]
+): TrackSample[][] {
+  const runs: TrackSample[][] = [];
+  let run: TrackSample[] = [];
+  let processor = createTrackProcessorState();
+  let distance = 0;
+  let previousTimestamp: number | null = null;
+
+  for (const point of points) {
+    const fix = processFix(processor, point);
+    processor = fix.state;
+    if (fix.rejected) continue;
+
+    if (
+      previousTimestamp !== null &&
+      isPausedBetween(pauses, previousTimestamp, point.timestamp)
+    ) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+    }
+
+    distance += fix.distance;
+    run.push({
+      timestamp: point.timestamp,
+      distance,
+      speed: fix.speed,
+      altitude: point.altitude,
+      accuracy: point.accuracy,
+    });
+    previousTimestamp = point.timestamp;
+  }
+
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+/**
+ * Scale runs of samples into a width x height plot area
+ * @param getX Horizontal value, must not decrease along the track
+ * @param getY Vertical value; null values are skipped and break the line
+ * @returns null when there is nothing to plot
+ */
+export function buildChartGeometry(
+  runs: TrackSample[][],
+  getX: (sample: TrackSample) => number,
+  getY: (sample: TrackSample) => number | null,
+  width: number,
+  height: number
+): ChartGeometry | null {
+  const values = runs.flat().flatMap((sample) => {
+    const y = getY(sample);
+    return y === null ? [] : [{ x: getX(sample), y, sample }];
+  });
+  if (values.length < 2) return null;
+
+  const minX = values[0].x;
+  const maxX = values[values.length - 1].x;
+  // Reduce rather than spread: long trips exceed the argument limit
+  let minY = values.reduce((min, v) => Math.min(min, v.y), Infinity);
+  let maxY = values.reduce((max, v) => Math.max(max, v.y), -Infinity);
+  if (maxY === minY) {
+    minY -= 1;
+    maxY += 1;
+  }
+
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const toX = (x: number) => ((x - minX) / spanX) * width;
+  const toY = (y: number) => height - ((y - minY) / (maxY - minY)) * height;
+
+  const points: ChartPoint[] = [];
+  const paths: string[] = [];
+
+  for (const run of runs) {
+    let path = '';
+    for (const sample of run) {
+      const y = getY(sample);
+      if (y === null) {
+        if (path) paths.push(path);
+        path = '';
+        continue;
+      }
+
+      const point = { x: toX(getX(sample)), y: toY(y), sample };
+      points.push(point);
+      path += `${path ? 'L' : 'M'}${point.x},${point.y} `;
+    }
+    if (path) paths.push(path);
+  }
+
+  return { paths, points, minY, maxY };
+}
+
+/**
+ * Point closest to a horizontal position (points are sorted by x)
+ */
+export function findNearestChartPoint(
+  points: ChartPoint[],
+  x: number
+): ChartPoint | null {
+  if (points.length === 0) return null;
+
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].x < x) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const before = points[Math.max(low - 1, 0)];
+  const after = points[low];
+  return Math.abs(before.x - x) <= Math.abs(after.x - x) ? before : after;
+}
@@ -0,0 +1,142 @@
+/**
+ * Streaming file writer shared by the CSV, JSON and GPX exports
+ *
+ * Exports read location points from SQLite a page at a time and append
+ * each formatted page to the file, so memory stays flat however long the
+ * trip history is. Progress counts the exported items; cancellation is
+ * checked between pages.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { EXPORT_CONFIG } from '@/constants/config';
+import { getLocationPointsPage } from '@/database';
+import type { LocationPoint } from '@/types';
+
+// Items written so far out of the export's total
+export interface ExportProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ExportOptions {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Handed to an export while its file is open
+export interface ExportWriter {
+  // Append text, buffered until the next flush
+  write: (text: string) => void;
+  // Mark items done: flushes, reports progress and stops if cancelled
+  advance: (count: number) => Promise<void>;
+}
+
+/**
+ * Write an export file through a buffered writer
+ * A failed or cancelled export leaves no partial file behind
+ */
+export async function writeExportFile(
+  filename: string,
+  total: number,
+  options: ExportOptions,
+  produce: (writer: ExportWriter) => Promise<void>
+): Promise<File> {
+  const { onProgress, signal } = options;
+  const file = new File(Paths.cache, filename);
+  file.create({ overwrite: true });
+
+  const handle = file.open();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let completed = 0;
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    handle.writeBytes(encoder.encode(buffer));
+    buffer = '';
+  };
+
+  const writer: ExportWriter = {
+    write: (text) => {
+      buffer += text;
+      if (buffer.length >= EXPORT_CONFIG.flushSize) flush();
+    },
+    advance: async (count) => {
+      throwIfCancelled(signal);
+      flush();
+      completed = Math.min(completed + count, total);
+      onProgress?.({ completed, total });
+      // Let the UI render progress and handle a cancel tap
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      throwIfCancelled(signal);
+    },
+  };
+
+  try {
+    throwIfCancelled(signal);
+    onProgress?.({ completed, total });
+    await produce(writer);
+    flush();
+  } catch (error) {
+    handle.close();
+    if (file.exists) file.delete();
+    throw error;
+  }
+
+  handle.close();
+  return file;
+}
+
+/**
+ * Read a trip's location points page by page, in timestamp order
+ */
+export async function forEachLocationPointPage(
+  db: SQLiteDatabase,
+  tripId: number,
+  visit: (points: LocationPoint[]) => Promise<void>
+): Promise<void> {
+  let after: { id: number; timestamp: number } | null = null;
+
+  while (true) {
+    const page = await getLocationPointsPage(
+      db,
+      tripId,
+      after,
+      EXPORT_CONFIG.pageSize
+    );
+    if (page.length === 0) return;
+
+    await visit(page);
+
+    const last = page[page.length - 1];
+    after = { id: last.id ?? 0, timestamp: last.timestamp };
+    if (page.length < EXPORT_CONFIG.pageSize) return;
+  }
+}
+
+/**
+ * Open the share dialog for a finished export
+ */
+export async function shareExportFile(file: File, mimeType: string): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType,
+    dialogTitle: `Export ${file.name}`,
+  });
+}
+
+/**
+ * Stop the export once its signal has been aborted
+ */
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new Error('Export cancelled');
+  }
+}
@@ -1,17 +1,49 @@
 /**
  * Export utilities for trip data
+ *
+ * Every export streams through the shared export writer: location points
+ * are paged out of SQLite and appended to the file as they are formatted.
  */
 
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
-import { initDatabase, getAllTrips, getLocationPointsForTrip } from '@/database';
-import type { TripWithDuration, LocationPoint } from '@/types';
-import { formatDuration, metersToKm } from '@/services/speed-calculator';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import {
+  initDatabase,
+  getAllTrips,
+  getLocationPointBounds,
+  getLocationPointCount,
+  getPauseIntervalsForTrip,
+  getSplitsForTrip,
+  getTotalLocationPointCount,
+} from '@/database';
+import type {
+  TripWithDuration,
+  LocationBounds,
+  LocationPoint,
+  PauseInterval,
+  TripSplit,
+} from '@/types';
+import { GPX_CONFIG } from '@/constants/config';
+import {
+  calculateBearing,
+  formatDuration,
+  haversineDistance,
+  isPausedBetween,
+  metersToKm,
+} from '@/services/speed-calculator';
+import {
+  forEachLocationPointPage,
+  shareExportFile,
+  writeExportFile,
+  type ExportOptions,
+  type ExportWriter,
+} from './export-writer';
 
 /**
  * Export all trips as CSV
+ * One summary row per trip, then a second table with one row per split or
+ * lap; progress counts trips
  */
-export async function exportTripsAsCSV(): Promise<void> {
+export async function exportTripsAsCSV(options: ExportOptions = {}): Promise<void> {
   const db = await initDatabase();
   const trips = await getAllTrips(db);
 
@@ -25,34 +57,78 @@ export async function exportTripsAsCSV(): Promise<void> {
     'Start Time',
     'End Time',
     'Duration',
+    'Moving Time',
+    'Paused Time',
     'Distance (km)',
     'Avg Speed (km/h)',
+    'Moving Avg Speed (km/h)',
     'Max Speed (km/h)',
     'Status',
+    'Title',
+    'Activity',
+    'Tags',
+    'Notes',
   ].join(',');
 
-  // CSV rows
-  const rows = trips.map((trip) => [
-    trip.id,
-    new Date(trip.startTime).toISOString(),
-    trip.endTime ? new Date(trip.endTime).toISOString() : '',
-    formatDuration(trip.duration),
-    metersToKm(trip.totalDistance).toFixed(2),
-    trip.avgSpeed.toFixed(1),
-    trip.maxSpeed.toFixed(1),
-    trip.status,
-  ].join(','));
-
-  const csv = [header, ...rows].join('\n');
-
-  // Save and share
-  await saveAndShare(csv, 'trips.csv', 'text/csv');
+  const splitHeader = [
+    'Trip ID',
+    'Type',
+    'Split',
+    'Start Time',
+    'End Time',
+    'Moving Time',
+    'Distance (km)',
+    'Avg Speed (km/h)',
+    'Max Speed (km/h)',
+    'Elevation Change (m)',
+  ].join(',');
+
+  const file = await writeExportFile('trips.csv', trips.length, options, async (writer) => {
+    writer.write(header);
+    const splitRows: string[] = [];
+
+    for (const trip of trips) {
+      const splits = await getSplitsForTrip(db, trip.id);
+      splitRows.push(...splits.map(formatCsvSplit));
+
+      const row = [
+        trip.id,
+        new Date(trip.startTime).toISOString(),
+        trip.endTime ? new Date(trip.endTime).toISOString() : '',
+        formatDuration(trip.duration),
+        formatDuration(trip.movingTime),
+        formatDuration(trip.pausedTime),
+        metersToKm(trip.totalDistance).toFixed(2),
+        trip.avgSpeed.toFixed(1),
+        trip.movingAvgSpeed.toFixed(1),
+        trip.maxSpeed.toFixed(1),
+        trip.status,
+        escapeCsv(trip.title ?? ''),
+        trip.activityType ?? '',
+        escapeCsv(trip.tags.join('; ')),
+        escapeCsv(trip.notes ?? ''),
+      ].join(',');
+
+      writer.write(`\n${row}`);
+      await writer.advance(1);
+    }
+
+    if (splitRows.length > 0) {
+      writer.write(`\n\n${splitHeader}`);
+      for (const row of splitRows) {
+        writer.write(`\n${row}`);
+      }
+    }
+  });
+
+  await shareExportFile(file, 'text/csv');
 }
 
 /**
  * Export all trips as JSON
+ * Progress counts location points across every trip
  */
-export async function exportTripsAsJSON(): Promise<void> {
+export async function exportTripsAsJSON(options: ExportOptions = {}): Promise<void> {
   const db = await initDatabase();
   const trips = await getAllTrips(db);
 
@@ -60,48 +136,34 @@ export async function exportTripsAsJSON(): Promise<void> {
     throw new Error('No trips to export');
   }
 
-  // Get location points for each trip
-  const tripsWithPoints = await Promise.all(
-    trips.map(async (trip) => {
-      const points = await getLocationPointsForTrip(db, trip.id);
-      return {
-        ...trip,
-        startTimeISO: new Date(trip.startTime).toISOString(),
-        endTimeISO: trip.endTime ? new Date(trip.endTime).toISOString() : null,
-        distanceKm: metersToKm(trip.totalDistance),
-        durationFormatted: formatDuration(trip.duration),
-        locationPoints: points.map((p) => ({
-          latitude: p.latitude,
-          longitude: p.longitude,
-          speed: p.speed,
-          altitude: p.altitude,
-          accuracy: p.accuracy,
-          timestamp: p.timestamp,
-          timestampISO: new Date(p.timestamp).toISOString(),
-        })),
-      };
-    })
-  );
+  const total = await getTotalLocationPointCount(db);
+  const header = {
+    exportDate: new Date().toISOString(),
+    appVersion: '1.0.0',
+    totalTrips: trips.length,
+  };
 
-  const json = JSON.stringify(
-    {
-      exportDate: new Date().toISOString(),
-      appVersion: '1.0.0',
-      totalTrips: trips.length,
-      trips: tripsWithPoints,
-    },
-    null,
-    2
-  );
+  const file = await writeExportFile('trips.json', total, options, async (writer) => {
+    writer.write(`${openJsonObject(header, '')},\n  "trips": [`);
 
-  // Save and share
-  await saveAndShare(json, 'trips.json', 'application/json');
+    for (const [index, trip] of trips.entries()) {
+      writer.write(index === 0 ? '\n    ' : ',\n    ');
+      await writeTripJSON(db, writer, trip, '    ');
+    }
+
+    writer.write('\n  ]\n}\n');
+  });
+
+  await shareExportFile(file, 'application/json');
 }
 
 /**
  * Export a single trip as JSON
  */
-export async function exportTripAsJSON(tripId: number): Promise<void> {
+export async function exportTripAsJSON(
+  tripId: number,
+  options: ExportOptions = {}
+): Promise<void> {
   const db = await initDatabase();
   const trips = await getAllTrips(db);
   const trip = trips.find((t) => t.id === tripId);
@@ -110,38 +172,30 @@ export async function exportTripAsJSON(tripId: number): Promise<void> {
     throw new Error('Trip not found');
   }
 
-  const points = await getLocationPointsForTrip(db, tripId);
+  const total = await getLocationPointCount(db, tripId);
+  const filename = `trip_${tripId}_${new Date().toISOString().split('T')[0]}.json`;
 
-  const tripData = {
-    exportDate: new Date().toISOString(),
-    trip: {
-      ...trip,
-      startTimeISO: new Date(trip.startTime).toISOString(),
-      endTimeISO: trip.endTime ? new Date(trip.endTime).toISOString() : null,
-      distanceKm: metersToKm(trip.totalDistance),
-      durationFormatted: formatDuration(trip.duration),
-      locationPoints: points.map((p) => ({
-        latitude: p.latitude,
-        longitude: p.longitude,
-        speed: p.speed,
-        altitude: p.altitude,
-        accuracy: p.accuracy,
-        timestamp: p.timestamp,
-        timestampISO: new Date(p.timestamp).toISOString(),
-      })),
-    },
-  };
+  const file = await writeExportFile(filename, total, options, async (writer) => {
+    writer.write(`${openJsonObject({ exportDate: new Date().toISOString() }, '')},\n  "trip": `);
+    await writeTripJSON(db, writer, trip, '  ');
+    writer.write('\n}\n');
+  });
 
-  const json = JSON.stringify(tripData, null, 2);
-  const filename = `trip_${tripId}_${new Date().toISOString().split('T')[0]}.json`;
-  
-  await saveAndShare(json, filename, 'application/json');
+  await shareExportFile(file, 'application/json');
 }
 
 /**
- * Export a single trip as GPX (GPS Exchange Format)
+ * Export a single trip as GPX (GPS Exchange Format) 1.1
+ *
+ * GPX 1.1 dropped <speed> and <course> from track points, so they are
+ * written as Garmin TrackPointExtension v2 fields, which GPXSee, Strava and
+ * Garmin tools read. Accuracy is written as <hdop>. Each pause starts a new
+ * <trkseg>.
  */
-export async function exportTripAsGPX(tripId: number): Promise<void> {
+export async function exportTripAsGPX(
+  tripId: number,
+  options: ExportOptions = {}
+): Promise<void> {
   const db = await initDatabase();
   const trips = await getAllTrips(db);
   const trip = trips.find((t) => t.id === tripId);
@@ -150,63 +204,252 @@ export async function exportTripAsGPX(tripId: number): Promise<void> {
     throw new Error('Trip not found');
   }
 
-  const points = await getLocationPointsForTrip(db, tripId);
+  const total = await getLocationPointCount(db, tripId);
+  const bounds = await getLocationPointBounds(db, tripId);
+  const pauses = await getPauseIntervalsForTrip(db, tripId);
 
-  const trackPoints = points
-    .map((p) => {
-      const time = new Date(p.timestamp).toISOString();
-      const ele = p.altitude !== null ? `<ele>${p.altitude}</ele>` : '';
-      return `      <trkpt lat="${p.latitude}" lon="${p.longitude}">
-        ${ele}
-        <time>${time}</time>
-      </trkpt>`;
-    })
-    .join('\n');
+  const name = escapeXml(trip.title ?? `Trip ${tripId}`);
+  const description = escapeXml(
+    trip.notes ? `${trip.notes}\n\n${describeTrip(trip)}` : describeTrip(trip)
+  );
+  const keywords = trip.tags.length > 0
+    ? `    <keywords>${escapeXml(trip.tags.join(', '))}</keywords>\n`
+    : '';
+  const type = trip.activityType
+    ? `\n    <type>${trip.activityType}</type>`
+    : '';
+  const filename = `trip_${tripId}_${new Date().toISOString().split('T')[0]}.gpx`;
 
-  const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+  const file = await writeExportFile(filename, total, options, async (writer) => {
+    writer.write(`<?xml version="1.0" encoding="UTF-8"?>
 <gpx version="1.1" creator="GPS Speed Meter"
-  xmlns="http://www.topografix.com/GPX/1/1">
+  xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"
+  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd http://www.garmin.com/xmlschemas/TrackPointExtension/v2 https://www8.garmin.com/xmlschemas/TrackPointExtensionv2.xsd">
   <metadata>
-    <name>Trip ${tripId}</name>
+    <name>${name}</name>
+    <desc>${description}</desc>
     <time>${new Date(trip.startTime).toISOString()}</time>
-  </metadata>
+${keywords}${bounds ? `${formatGpxBounds(bounds)}\n` : ''}  </metadata>
   <trk>
-    <name>Trip ${tripId}</name>
-    <trkseg>
-${trackPoints}
-    </trkseg>
-  </trk>
-</gpx>`;
+    <name>${name}</name>
+    <desc>${description}</desc>${type}`);
 
-  const filename = `trip_${tripId}_${new Date().toISOString().split('T')[0]}.gpx`;
-  
-  await saveAndShare(gpx, filename, 'application/gpx+xml');
+    // Course and segment state carry across pages
+    let previous: LocationPoint | null = null;
+    let course: number | null = null;
+    let courseFrom: LocationPoint | null = null;
+
+    await forEachLocationPointPage(db, tripId, async (points) => {
+      for (const point of points) {
+        if (!previous) {
+          writer.write('\n    <trkseg>');
+        } else if (isPausedBetween(pauses, previous.timestamp, point.timestamp)) {
+          writer.write('\n    </trkseg>\n    <trkseg>');
+        }
+
+        // Course over ground, carried forward while stationary
+        if (!courseFrom) {
+          courseFrom = point;
+        } else if (haversineDistance(courseFrom, point) >= GPX_CONFIG.minCourseDistance) {
+          course = calculateBearing(courseFrom, point);
+          courseFrom = point;
+        }
+
+        writer.write(`\n${formatGpxTrackPoint({ ...point, course })}`);
+        previous = point;
+      }
+      await writer.advance(points.length);
+    });
+
+    if (previous) writer.write('\n    </trkseg>');
+    writer.write('\n  </trk>\n</gpx>\n');
+  });
+
+  await shareExportFile(file, 'application/gpx+xml');
 }
 
 /**
- * Save content to file and open share dialog
+ * Write one trip as a JSON object, streaming its location points
+ * `indent` is the indentation of the line the object starts on
  */
-async function saveAndShare(
-  content: string,
-  filename: string,
-  mimeType: string
+async function writeTripJSON(
+  db: SQLiteDatabase,
+  writer: ExportWriter,
+  trip: TripWithDuration,
+  indent: string
 ): Promise<void> {
-  const filePath = `${FileSystem.cacheDirectory}${filename}`;
+  const pauses = await getPauseIntervalsForTrip(db, trip.id);
+  const splits = await getSplitsForTrip(db, trip.id);
+  const summary = {
+    ...trip,
+    startTimeISO: new Date(trip.startTime).toISOString(),
+    endTimeISO: trip.endTime ? new Date(trip.endTime).toISOString() : null,
+    distanceKm: metersToKm(trip.totalDistance),
+    durationFormatted: formatDuration(trip.duration),
+    movingTimeFormatted: formatDuration(trip.movingTime),
+    pausedTimeFormatted: formatDuration(trip.pausedTime),
+    pauseIntervals: pauses.map(formatPauseInterval),
+    splits: splits.map(formatJsonSplit),
+  };
+
+  writer.write(`${openJsonObject(summary, indent)},\n${indent}  "locationPoints": [`);
 
-  // Write file
-  await FileSystem.writeAsStringAsync(filePath, content, {
-    encoding: FileSystem.EncodingType.UTF8,
+  let first = true;
+  await forEachLocationPointPage(db, trip.id, async (points) => {
+    for (const point of points) {
+      writer.write(`${first ? '' : ','}\n${indent}    ${JSON.stringify(formatJsonPoint(point))}`);
+      first = false;
+    }
+    await writer.advance(points.length);
   });
 
-  // Check if sharing is available
-  const isAvailable = await Sharing.isAvailableAsync();
-  
-  if (isAvailable) {
-    await Sharing.shareAsync(filePath, {
-      mimeType,
-      dialogTitle: `Export ${filename}`,
-    });
-  } else {
-    throw new Error('Sharing is not available on this device');
+  writer.write(`${first ? '' : `\n${indent}  `}]\n${indent}}`);
+}
+
+/**
+ * Pretty-printed JSON object without its closing brace, so more keys can
+ * be streamed after it
+ */
+function openJsonObject(value: object, indent: string): string {
+  return JSON.stringify(value, null, 2)
+    .replace(/\n}$/, '')
+    .replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * Shape a location point for JSON export
+ */
+function formatJsonPoint(point: LocationPoint) {
+  return {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    speed: point.speed,
+    altitude: point.altitude,
+    accuracy: point.accuracy,
+    timestamp: point.timestamp,
+    timestampISO: new Date(point.timestamp).toISOString(),
+    source: point.source ?? null,
+  };
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break
+ */
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One-line trip summary for GPX descriptions
+ */
+function describeTrip(trip: TripWithDuration): string {
+  return [
+    `${metersToKm(trip.totalDistance).toFixed(2)} km`,
+    `moving ${formatDuration(trip.movingTime)}`,
+    `avg ${trip.movingAvgSpeed.toFixed(1)} km/h`,
+    `max ${trip.maxSpeed.toFixed(1)} km/h`,
+  ].join(', ');
+}
+
+/**
+ * <bounds> element covering every point
+ */
+function formatGpxBounds(bounds: LocationBounds): string {
+  return `    <bounds minlat="${bounds.minLatitude}" minlon="${bounds.minLongitude}" maxlat="${bounds.maxLatitude}" maxlon="${bounds.maxLongitude}"/>`;
+}
+
+/**
+ * A <trkpt> with elements in the order the GPX 1.1 schema requires
+ */
+function formatGpxTrackPoint(point: LocationPoint & { course: number | null }): string {
+  const lines = [`      <trkpt lat="${point.latitude}" lon="${point.longitude}">`];
+
+  if (point.altitude !== null) {
+    lines.push(`        <ele>${point.altitude.toFixed(1)}</ele>`);
+  }
+  lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+  if (point.accuracy !== null) {
+    const hdop = point.accuracy / GPX_CONFIG.userRangeError;
+    lines.push(`        <hdop>${hdop.toFixed(1)}</hdop>`);
+  }
+
+  const extensions: string[] = [];
+  if (point.speed !== null && point.speed >= 0) {
+    extensions.push(`<gpxtpx:speed>${point.speed.toFixed(2)}</gpxtpx:speed>`);
+  }
+  if (point.course !== null) {
+    extensions.push(`<gpxtpx:course>${point.course.toFixed(1)}</gpxtpx:course>`);
   }
+  if (extensions.length > 0) {
+    lines.push(
+      `        <extensions><gpxtpx:TrackPointExtension>${extensions.join('')}</gpxtpx:TrackPointExtension></extensions>`
+    );
+  }
+
+  lines.push('      </trkpt>');
+  return lines.join('\n');
+}
+
+/**
+ * Shape a pause interval for JSON export
+ */
+function formatPauseInterval(pause: PauseInterval) {
+  return {
+    startTime: pause.startTime,
+    endTime: pause.endTime,
+    startTimeISO: new Date(pause.startTime).toISOString(),
+    endTimeISO: pause.endTime ? new Date(pause.endTime).toISOString() : null,
+    reason: pause.reason,
+  };
+}
+
+/**
+ * One CSV row for a split or lap
+ */
+function formatCsvSplit(split: TripSplit): string {
+  return [
+    split.tripId,
+    split.kind,
+    split.splitIndex,
+    new Date(split.startTime).toISOString(),
+    new Date(split.endTime).toISOString(),
+    formatDuration(split.movingTime),
+    metersToKm(split.distance).toFixed(2),
+    split.avgSpeed.toFixed(1),
+    split.maxSpeed.toFixed(1),
+    split.elevationChange?.toFixed(1) ?? '',
+  ].join(',');
+}
+
+/**
+ * Shape a split or lap for JSON export
+ */
+function formatJsonSplit(split: TripSplit) {
+  return {
+    kind: split.kind,
+    splitIndex: split.splitIndex,
+    startTime: split.startTime,
+    endTime: split.endTime,
+    startTimeISO: new Date(split.startTime).toISOString(),
+    endTimeISO: new Date(split.endTime).toISOString(),
+    distance: split.distance,
+    movingTime: split.movingTime,
+    avgSpeed: split.avgSpeed,
+    maxSpeed: split.maxSpeed,
+    elevationChange: split.elevationChange,
+  };
 }
@@ -0,0 +1,700 @@
+/**
+ * Import utilities for trip data (GPX, KML, CSV and our own JSON export)
+ */
+
+import { File } from 'expo-file-system';
+import { ACTIVITY_PROFILES, GPX_CONFIG } from '@/constants/config';
+import {
+  initDatabase,
+  addLocationPoint,
+  addPauseInterval,
+  createCompletedTrip,
+  findOverlappingTrip,
+} from '@/database';
+import type { ActivityType, LocationPoint, PauseInterval, TripDetails } from '@/types';
+import { calculateTripTiming, haversineDistance } from '@/services/speed-calculator';
+import { rebuildTripSplits } from '@/services/splits';
+import { summarizeTrack } from '@/services/track-processor';
+
+type ImportedPoint = Omit<LocationPoint, 'id' | 'tripId'>;
+type ImportedPause = Omit<PauseInterval, 'id' | 'tripId'>;
+
+// A track read from a file, before it becomes a trip
+export interface ImportedTrack {
+  name: string;
+  // Trip bounds when the file has them; otherwise first/last point
+  startTime?: number;
+  endTime?: number;
+  points: ImportedPoint[];
+  pauseIntervals: ImportedPause[];
+  lapTimes?: number[]; // lap button presses, from our JSON export
+  details?: Partial<TripDetails>; // title, notes, tags and activity the file names
+}
+
+export interface ParsedTrackFile {
+  tracks: ImportedTrack[];
+  errors: string[];
+}
+
+export interface ImportResult {
+  importedTripIds: number[];
+  duplicates: string[]; // tracks skipped because a trip already covers them
+  errors: string[];
+}
+
+export type ImportFormat = 'gpx' | 'kml' | 'json' | 'csv';
+
+// ============ PARSING HELPERS ============
+
+interface XmlElement {
+  attributes: string;
+  body: string;
+}
+
+/**
+ * Decode entities and CDATA in XML text content
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * All elements with a tag name, ignoring namespace prefixes (gx:, gpxtpx:)
+ * Tracks never nest an element inside one of the same name, so a
+ * non-greedy match to the closing tag is enough.
+ */
+function findElements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: match[1] ?? '',
+    body: match[2] ?? '',
+  }));
+}
+
+/**
+ * Decoded text of the first element with a tag name
+ */
+function getText(xml: string, tag: string): string | null {
+  const [element] = findElements(xml, tag);
+  return element ? decodeXml(element.body) : null;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`));
+  return match ? decodeXml(match[2]) : null;
+}
+
+function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse an ISO date or epoch value (seconds or milliseconds)
+ */
+function parseTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const numeric = parseNumber(value);
+  if (numeric !== null) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function isValidPosition(latitude: number | null, longitude: number | null): boolean {
+  return (
+    latitude !== null &&
+    longitude !== null &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Horizontal accuracy (m) from HDOP, the inverse of the GPX export
+ */
+function hdopToAccuracy(hdop: number | null): number | null {
+  return hdop === null ? null : hdop * GPX_CONFIG.userRangeError;
+}
+
+/**
+ * Pauses for the gaps between track segments
+ */
+function pausesBetweenSegments(segments: ImportedPoint[][]): ImportedPause[] {
+  const nonEmpty = segments.filter((segment) => segment.length > 0);
+  const pauses: ImportedPause[] = [];
+  for (let i = 1; i < nonEmpty.length; i++) {
+    const previous = nonEmpty[i - 1];
+    pauses.push({
+      startTime: previous[previous.length - 1].timestamp,
+      endTime: nonEmpty[i][0].timestamp,
+      reason: 'manual',
+    });
+  }
+  return pauses;
+}
+
+// ============ FORMAT PARSERS ============
+
+/**
+ * GPX 1.0/1.1 tracks; each <trkseg> after the first starts after a pause
+ */
+export function parseGPX(xml: string): ParsedTrackFile {
+  const tracks: ImportedTrack[] = [];
+  const errors: string[] = [];
+
+  const trks = findElements(xml, 'trk');
+  if (trks.length === 0) {
+    return { tracks, errors: ['No <trk> tracks found in GPX file'] };
+  }
+
+  const keywords = getText(xml, 'keywords');
+  const tags = keywords
+    ? keywords.split(',').map((tag) => tag.trim()).filter(Boolean)
+    : [];
+
+  trks.forEach((trk, index) => {
+    const title = getText(trk.body, 'name');
+    const name = title || `Track ${index + 1}`;
+    let skipped = 0;
+
+    const segments = findElements(trk.body, 'trkseg').map((segment) =>
+      findElements(segment.body, 'trkpt').flatMap((trkpt) => {
+        const latitude = parseNumber(getAttribute(trkpt.attributes, 'lat'));
+        const longitude = parseNumber(getAttribute(trkpt.attributes, 'lon'));
+        const timestamp = parseTime(getText(trkpt.body, 'time'));
+
+        if (!isValidPosition(latitude, longitude) || timestamp === null) {
+          skipped++;
+          return [];
+        }
+
+        return [{
+          latitude: latitude!,
+          longitude: longitude!,
+          // GPX 1.0 <speed> or a TrackPointExtension <gpxtpx:speed>, m/s
+          speed: parseNumber(getText(trkpt.body, 'speed')),
+          altitude: parseNumber(getText(trkpt.body, 'ele')),
+          accuracy: hdopToAccuracy(parseNumber(getText(trkpt.body, 'hdop'))),
+          timestamp,
+        }];
+      })
+    );
+
+    if (skipped > 0) {
+      errors.push(`${name}: skipped ${skipped} points without position or time`);
+    }
+
+    tracks.push({
+      name,
+      points: segments.flat(),
+      pauseIntervals: pausesBetweenSegments(segments),
+      details: {
+        title: title || null,
+        tags,
+        activityType: parseActivityType(getText(trk.body, 'type')),
+      },
+    });
+  });
+
+  return { tracks, errors };
+}
+
+/**
+ * KML placemarks with a gx:Track, or a LineString with a TimeSpan
+ * LineStrings carry no per-point times, so times are spread over the
+ * TimeSpan in proportion to distance.
+ */
+export function parseKML(xml: string): ParsedTrackFile {
+  const tracks: ImportedTrack[] = [];
+  const errors: string[] = [];
+
+  findElements(xml, 'Placemark').forEach((placemark, index) => {
+    const title = getText(placemark.body, 'name');
+    const name = title || `Track ${index + 1}`;
+    const gxTracks = findElements(placemark.body, 'Track');
+
+    if (gxTracks.length > 0) {
+      const segments = gxTracks.map((track) => {
+        const whens = findElements(track.body, 'when').map((el) => parseTime(decodeXml(el.body)));
+        const coords = findElements(track.body, 'coord').map((el) => decodeXml(el.body));
+
+        return coords.flatMap((coord, i) => {
+          const [lon, lat, alt] = coord.split(/\s+/).map(parseNumber);
+          const timestamp = whens[i] ?? null;
+          if (!isValidPosition(lat, lon) || timestamp === null) return [];
+          return [{
+            latitude: lat!,
+            longitude: lon!,
+            speed: null,
+            altitude: alt ?? null,
+            accuracy: null,
+            timestamp,
+          }];
+        });
+      });
+
+      tracks.push({
+        name,
+        points: segments.flat(),
+        pauseIntervals: pausesBetweenSegments(segments),
+        details: { title: title || null },
+      });
+      return;
+    }
+
+    const coordinates = getText(placemark.body, 'coordinates');
+    if (!coordinates || findElements(placemark.body, 'LineString').length === 0) {
+      return; // Points, polygons and the like are not tracks
+    }
+
+    const begin = parseTime(getText(placemark.body, 'begin'));
+    const end = parseTime(getText(placemark.body, 'end'));
+    if (begin === null || end === null || end <= begin) {
+      errors.push(`${name}: KML LineString has no TimeSpan, so speeds cannot be derived`);
+      return;
+    }
+
+    const positions = coordinates
+      .split(/\s+/)
+      .map((tuple) => tuple.split(',').map(parseNumber))
+      .filter(([lon, lat]) => isValidPosition(lat, lon));
+
+    let cumulative = 0;
+    const distances = positions.map(([lon, lat], i) => {
+      if (i > 0) {
+        const [prevLon, prevLat] = positions[i - 1];
+        cumulative += haversineDistance(
+          { latitude: prevLat!, longitude: prevLon! },
+          { latitude: lat!, longitude: lon! }
+        );
+      }
+      return cumulative;
+    });
+    const total = cumulative || 1;
+
+    tracks.push({
+      name,
+      startTime: begin,
+      endTime: end,
+      points: positions.map(([lon, lat, alt], i) => ({
+        latitude: lat!,
+        longitude: lon!,
+        speed: null,
+        altitude: alt ?? null,
+        accuracy: null,
+        timestamp: Math.round(begin + (distances[i] / total) * (end - begin)),
+      })),
+      pauseIntervals: [],
+      details: { title: title || null },
+    });
+  });
+
+  if (tracks.length === 0 && errors.length === 0) {
+    errors.push('No tracks found in KML file');
+  }
+
+  return { tracks, errors };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * One of our activity types, or null for anything else
+ */
+function parseActivityType(value: unknown): ActivityType | null {
+  return typeof value === 'string' && Object.hasOwn(ACTIVITY_PROFILES, value)
+    ? (value as ActivityType)
+    : null;
+}
+
+/**
+ * Our own JSON export, single trip ({ trip }) or all trips ({ trips })
+ */
+export function parseTripJSON(text: string): ParsedTrackFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { tracks: [], errors: [`Invalid JSON: ${String(error)}`] };
+  }
+
+  const trips = isRecord(data)
+    ? Array.isArray(data.trips)
+      ? data.trips
+      : isRecord(data.trip)
+        ? [data.trip]
+        : []
+    : [];
+
+  if (trips.length === 0) {
+    return { tracks: [], errors: ['No trips found in JSON file'] };
+  }
+
+  const tracks: ImportedTrack[] = [];
+  const errors: string[] = [];
+
+  trips.forEach((trip: unknown, index) => {
+    if (!isRecord(trip) || !Array.isArray(trip.locationPoints)) {
+      errors.push(`Trip ${index + 1}: missing locationPoints`);
+      return;
+    }
+
+    const name = `Trip ${numberOrNull(trip.id) ?? index + 1}`;
+    let skipped = 0;
+
+    const points = trip.locationPoints.flatMap((point: unknown) => {
+      if (!isRecord(point)) {
+        skipped++;
+        return [];
+      }
+      const latitude = numberOrNull(point.latitude);
+      const longitude = numberOrNull(point.longitude);
+      const timestamp = numberOrNull(point.timestamp);
+      if (!isValidPosition(latitude, longitude) || timestamp === null) {
+        skipped++;
+        return [];
+      }
+      return [{
+        latitude: latitude!,
+        longitude: longitude!,
+        speed: numberOrNull(point.speed),
+        altitude: numberOrNull(point.altitude),
+        accuracy: numberOrNull(point.accuracy),
+        timestamp,
+      }];
+    });
+
+    if (skipped > 0) {
+      errors.push(`${name}: skipped ${skipped} invalid points`);
+    }
+
+    const pauseIntervals = (Array.isArray(trip.pauseIntervals) ? trip.pauseIntervals : [])
+      .flatMap((pause: unknown): ImportedPause[] => {
+        if (!isRecord(pause)) return [];
+        const startTime = numberOrNull(pause.startTime);
+        const endTime = numberOrNull(pause.endTime);
+        if (startTime === null || endTime === null) return [];
+        return [{
+          startTime,
+          endTime,
+          reason: pause.reason === 'auto' ? 'auto' : 'manual',
+        }];
+      });
+
+    const lapTimes = (Array.isArray(trip.splits) ? trip.splits : []).flatMap(
+      (split: unknown): number[] => {
+        if (!isRecord(split) || split.kind !== 'lap') return [];
+        const endTime = numberOrNull(split.endTime);
+        return endTime === null ? [] : [endTime];
+      }
+    );
+
+    tracks.push({
+      name,
+      startTime: numberOrNull(trip.startTime) ?? undefined,
+      endTime: numberOrNull(trip.endTime) ?? undefined,
+      points,
+      pauseIntervals,
+      lapTimes,
+      details: {
+        title: typeof trip.title === 'string' ? trip.title : null,
+        notes: typeof trip.notes === 'string' ? trip.notes : null,
+        tags: Array.isArray(trip.tags)
+          ? trip.tags.filter((tag): tag is string => typeof tag === 'string')
+          : [],
+        activityType: parseActivityType(trip.activityType),
+      },
+    });
+  });
+
+  return { tracks, errors };
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// Header names accepted for each point column
+const CSV_COLUMNS = {
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng'],
+  timestamp: ['timestamp', 'time', 'date'],
+  speed: ['speed', 'speed (m/s)'],
+  altitude: ['altitude', 'ele', 'elevation', 'altitude (m)'],
+  accuracy: ['accuracy', 'accuracy (m)'],
+} as const;
+
+/**
+ * A point-per-row CSV with a header (latitude, longitude, time, ...)
+ */
+export function parseTrackCSV(text: string, name = 'CSV Track'): ParsedTrackFile {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    return { tracks: [], errors: ['CSV file has no data rows'] };
+  }
+
+  const header = splitCsvLine(lines[0]).map((column) => column.toLowerCase());
+  const indexOf = (names: readonly string[]) =>
+    header.findIndex((column) => names.includes(column));
+  const columns = {
+    latitude: indexOf(CSV_COLUMNS.latitude),
+    longitude: indexOf(CSV_COLUMNS.longitude),
+    timestamp: indexOf(CSV_COLUMNS.timestamp),
+    speed: indexOf(CSV_COLUMNS.speed),
+    altitude: indexOf(CSV_COLUMNS.altitude),
+    accuracy: indexOf(CSV_COLUMNS.accuracy),
+  };
+
+  if (columns.latitude < 0 || columns.longitude < 0 || columns.timestamp < 0) {
+    return {
+      tracks: [],
+      errors: ['CSV needs latitude, longitude and time columns'],
+    };
+  }
+
+  let skipped = 0;
+  const points = lines.slice(1).flatMap((line) => {
+    const fields = splitCsvLine(line);
+    const value = (index: number) => (index >= 0 ? fields[index] : null);
+    const latitude = parseNumber(value(columns.latitude));
+    const longitude = parseNumber(value(columns.longitude));
+    const timestamp = parseTime(value(columns.timestamp));
+
+    if (!isValidPosition(latitude, longitude) || timestamp === null) {
+      skipped++;
+      return [];
+    }
+
+    return [{
+      latitude: latitude!,
+      longitude: longitude!,
+      speed: parseNumber(value(columns.speed)),
+      altitude: parseNumber(value(columns.altitude)),
+      accuracy: parseNumber(value(columns.accuracy)),
+      timestamp,
+    }];
+  });
+
+  return {
+    tracks: [{ name, points, pauseIntervals: [] }],
+    errors: skipped > 0 ? [`${name}: skipped ${skipped} invalid rows`] : [],
+  };
+}
+
+/**
+ * Work out the format from the file extension, falling back to the content
+ */
+export function detectImportFormat(filename: string, text: string): ImportFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'json' || extension === 'csv') {
+    return extension;
+  }
+
+  const head = text.trimStart().slice(0, 512);
+  if (head.startsWith('{')) return 'json';
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  return 'csv';
+}
+
+/**
+ * Parse a track file of any supported format
+ */
+export function parseTrackFile(text: string, filename: string): ParsedTrackFile {
+  switch (detectImportFormat(filename, text)) {
+    case 'gpx':
+      return parseGPX(text);
+    case 'kml':
+      return parseKML(text);
+    case 'json':
+      return parseTripJSON(text);
+    case 'csv':
+      return parseTrackCSV(text, filename.replace(/\.[^.]+$/, '') || undefined);
+  }
+}
+
+// ============ IMPORT ============
+
+/**
+ * Sort points by time and drop repeated timestamps
+ */
+function normalizePoints(points: ImportedPoint[]): ImportedPoint[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  return sorted.filter(
+    (point, index) => index === 0 || point.timestamp !== sorted[index - 1].timestamp
+  );
+}
+
+/**
+ * Store parsed tracks as completed trips
+ *
+ * Stats are recomputed with the app's own track processor rather than
+ * trusted from the file. A track whose time range overlaps an existing
+ * trip is reported as a duplicate and skipped.
+ */
+export async function importTracks(tracks: ImportedTrack[]): Promise<ImportResult> {
+  const db = await initDatabase();
+  const result: ImportResult = { importedTripIds: [], duplicates: [], errors: [] };
+
+  for (const track of tracks) {
+    const points = normalizePoints(track.points);
+    if (points.length < 2) {
+      result.errors.push(`${track.name}: not enough points to import`);
+      continue;
+    }
+
+    const startTime = Math.min(track.startTime ?? Infinity, points[0].timestamp);
+    const endTime = Math.max(track.endTime ?? -Infinity, points[points.length - 1].timestamp);
+    const label = `${track.name} (${new Date(startTime).toLocaleDateString()})`;
+
+    const existing = await findOverlappingTrip(db, startTime, endTime);
+    if (existing) {
+      result.duplicates.push(label);
+      continue;
+    }
+
+    const summary = summarizeTrack(points.map((point) => ({ ...point, tripId: 0 })));
+    const timing = calculateTripTiming(
+      startTime,
+      endTime,
+      track.pauseIntervals,
+      summary.totalDistance
+    );
+
+    try {
+      let tripId = 0;
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        tripId = await createCompletedTrip(txn, {
+          startTime,
+          endTime,
+          totalDistance: summary.totalDistance,
+          maxSpeed: summary.maxSpeed,
+          ...timing,
+          ...track.details,
+        });
+        for (const point of points) {
+          await addLocationPoint(txn, { ...point, tripId, source: 'import' });
+        }
+        for (const pause of track.pauseIntervals) {
+          await addPauseInterval(txn, { ...pause, tripId });
+        }
+        await rebuildTripSplits(txn, tripId, track.lapTimes ?? []);
+      });
+      result.importedTripIds.push(tripId);
+    } catch (error) {
+      console.error('Error importing track:', error);
+      result.errors.push(`${label}: ${String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read, parse and import a track file
+ */
+export async function importTripsFromFile(file: File): Promise<ImportResult> {
+  const text = await file.text();
+  const parsed = parseTrackFile(text, file.name);
+  const result = await importTracks(parsed.tracks);
+  return { ...result, errors: [...parsed.errors, ...result.errors] };
+}
+
+/**
+ * Import a track file opened from another app (share/open-with)
+ */
+export async function importTripsFromUri(uri: string): Promise<ImportResult> {
+  return importTripsFromFile(new File(uri));
+}
+
+/**
+ * Whether the picker rejected because the user closed it
+ * (ERR_PICKER_CANCELLED on Android, ERR_FILE_PICKING_CANCELLED on iOS)
+ */
+function isPickerCancelled(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && code.endsWith('CANCELLED');
+}
+
+/**
+ * Let the user pick a track file and import it
+ * @returns null if the user closed the picker without choosing a file
+ */
+export async function pickAndImportTrips(): Promise<ImportResult | null> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync();
+  } catch (error) {
+    if (isPickerCancelled(error)) return null;
+    throw error;
+  }
+
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return null;
+  return importTripsFromUri(file.uri);
+}
+
+/**
+ * One-paragraph summary of an import for an alert
+ */
+export function describeImportResult(result: ImportResult): string {
+  const lines = [
+    `Imported ${result.importedTripIds.length} trip${result.importedTripIds.length === 1 ? '' : 's'}.`,
+  ];
+  if (result.duplicates.length > 0) {
+    lines.push(`Skipped ${result.duplicates.length} already in history: ${result.duplicates.join(', ')}.`);
+  }
+  if (result.errors.length > 0) {
+    lines.push(`Problems:\n• ${result.errors.join('\n• ')}`);
+  }
+  return lines.join('\n\n');
+}
@@ -3,3 +3,7 @@
  */
 
 export * from './export';
+export * from './export-writer';
+export * from './import';
+export * from './route';
+export * from './chart';
@@ -0,0 +1,127 @@
+/**
+ * Route geometry for drawing trips offline (no tile server)
+ */
+
+import { ROUTE_SPEED_BANDS } from '@/constants/config';
+import { kmhToMph } from '@/services/speed-calculator';
+import type { SpeedUnit } from '@/types';
+
+// A fix to draw: position plus speed in km/h
+export interface RouteTrackPoint {
+  latitude: number;
+  longitude: number;
+  speed: number; // km/h
+  timestamp: number;
+}
+
+// A track point projected into view coordinates
+export interface ProjectedPoint extends RouteTrackPoint {
+  x: number;
+  y: number;
+}
+
+// Consecutive points drawn in the same speed band
+export interface RouteSegment {
+  color: string;
+  points: string; // SVG polyline "x,y x,y ..."
+}
+
+export interface ProjectedRoute {
+  points: ProjectedPoint[];
+  segments: RouteSegment[];
+  start: ProjectedPoint;
+  end: ProjectedPoint;
+  maxSpeedPoint: ProjectedPoint;
+}
+
+/**
+ * Color for a speed in the user's unit band
+ * @param speed Speed in km/h
+ */
+export function getSpeedBandColor(speed: number, unit: SpeedUnit): string {
+  const displaySpeed = unit === 'mph' ? kmhToMph(speed) : speed;
+  const bands = ROUTE_SPEED_BANDS[unit];
+  const band = bands.find((b) => displaySpeed < b.max) ?? bands[bands.length - 1];
+  return band.color;
+}
+
+/**
+ * Project a track into a width x height box, preserving aspect ratio
+ *
+ * Uses an equirectangular projection scaled by the cosine of the mean
+ * latitude, which is accurate enough for the extent of a single trip.
+ * @returns null when there are fewer than two points
+ */
+export function projectRoute(
+  track: RouteTrackPoint[],
+  width: number,
+  height: number,
+  unit: SpeedUnit,
+  padding = 16
+): ProjectedRoute | null {
+  if (track.length < 2) return null;
+
+  const meanLat =
+    track.reduce((sum, p) => sum + p.latitude, 0) / track.length;
+  const lonScale = Math.cos((meanLat * Math.PI) / 180);
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const p of track) {
+    const x = p.longitude * lonScale;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, p.latitude);
+    maxY = Math.max(maxY, p.latitude);
+  }
+
+  // Guard against a track that never moved
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const drawWidth = width - padding * 2;
+  const drawHeight = height - padding * 2;
+  const scale = Math.min(drawWidth / spanX, drawHeight / spanY);
+
+  // Center the route in the box
+  const offsetX = padding + (drawWidth - spanX * scale) / 2;
+  const offsetY = padding + (drawHeight - spanY * scale) / 2;
+
+  const points: ProjectedPoint[] = track.map((p) => ({
+    ...p,
+    x: offsetX + (p.longitude * lonScale - minX) * scale,
+    // Screen y grows downwards, latitude grows upwards
+    y: offsetY + (maxY - p.latitude) * scale,
+  }));
+
+  // Group consecutive points sharing a band; segments share endpoints
+  const segments: RouteSegment[] = [];
+  let current: { color: string; coords: string[] } | null = null;
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const color = getSpeedBandColor((prev.speed + point.speed) / 2, unit);
+
+    if (!current || current.color !== color) {
+      if (current) {
+        segments.push({ color: current.color, points: current.coords.join(' ') });
+      }
+      current = { color, coords: [`${prev.x},${prev.y}`] };
+    }
+    current.coords.push(`${point.x},${point.y}`);
+  }
+  if (current) {
+    segments.push({ color: current.color, points: current.coords.join(' ') });
+  }
+
+  const maxSpeedPoint = points.reduce((max, p) => (p.speed > max.speed ? p : max));
+
+  return {
+    points,
+    segments,
+    start: points[0],
+    end: points[points.length - 1],
+    maxSpeedPoint,
+  };
+}
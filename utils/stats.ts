@@ -0,0 +1,105 @@
+/**
+ * Period helpers for the statistics dashboard
+ */
+
+import type { PeriodTotals, StatsPeriod } from '@/types';
+
+/**
+ * Local midnight starting the week (Monday), month or year containing a time
+ */
+export function getPeriodStart(period: StatsPeriod, time: number): Date {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+
+  switch (period) {
+    case 'week':
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      break;
+    case 'month':
+      date.setDate(1);
+      break;
+    case 'year':
+      date.setMonth(0, 1);
+      break;
+  }
+  return date;
+}
+
+/**
+ * Move a period start forwards or back by whole periods
+ */
+export function shiftPeriod(period: StatsPeriod, start: Date, count: number): Date {
+  const date = new Date(start);
+  switch (period) {
+    case 'week':
+      date.setDate(date.getDate() + 7 * count);
+      break;
+    case 'month':
+      date.setMonth(date.getMonth() + count);
+      break;
+    case 'year':
+      date.setFullYear(date.getFullYear() + count);
+      break;
+  }
+  return date;
+}
+
+/**
+ * The last `count` periods ending with the current one, oldest first,
+ * with empty periods filled in as zeros
+ */
+export function buildPeriodSeries(
+  totals: PeriodTotals[],
+  period: StatsPeriod,
+  count: number,
+  now: number = Date.now()
+): PeriodTotals[] {
+  const byPeriod = new Map(totals.map((entry) => [entry.period, entry]));
+  const first = shiftPeriod(period, getPeriodStart(period, now), -(count - 1));
+
+  return Array.from({ length: count }, (_, index) => {
+    const key = toPeriodKey(shiftPeriod(period, first, index));
+    return (
+      byPeriod.get(key) ?? { period: key, tripCount: 0, distance: 0, movingTime: 0 }
+    );
+  });
+}
+
+/**
+ * Local date as YYYY-MM-DD, matching the keys SQLite groups by
+ */
+export function toPeriodKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Label for a period key, short for chart axes or long for headings
+ */
+export function formatPeriodLabel(
+  period: StatsPeriod,
+  key: string,
+  style: 'short' | 'long' = 'short'
+): string {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+
+  switch (period) {
+    case 'week':
+      return style === 'short'
+        ? date.toLocaleDateString([], { month: 'numeric', day: 'numeric' })
+        : `Week of ${date.toLocaleDateString([], {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+          })}`;
+    case 'month':
+      return date.toLocaleDateString(
+        [],
+        style === 'short' ? { month: 'short' } : { month: 'long', year: 'numeric' }
+      );
+    case 'year':
+      return String(year);
+  }
+}